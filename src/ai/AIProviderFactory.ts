@@ -3,9 +3,9 @@
  * Manages registration and creation of AI providers
  */
 
-import type { AIProvider, AIProviderType, AIModelConfig, ProviderRegistration, ProviderMetadata } from './types';
+import type { AIProvider, AIProviderType, AIModelConfig, CustomProviderDefinition, ProviderRegistration, ProviderMetadata } from './types';
 import { AnthropicProvider } from './AnthropicProvider';
-import { OpenAIProvider, GeminiProvider, XAIProvider, DeepSeekProvider, MoonshotProvider } from './providers';
+import { OpenAIProvider, GeminiProvider, XAIProvider, DeepSeekProvider, MoonshotProvider, LocalModelProvider, CustomOpenAIProvider } from './providers';
 
 export class AIProviderFactory {
     private static registrations: Map<AIProviderType, ProviderRegistration> = new Map();
@@ -61,6 +61,14 @@ export class AIProviderFactory {
             displayName: 'Moonshot AI (Kimi)',
             description: 'Kimi K2 series with 256K context and reasoning models',
         });
+
+        // Register local model provider (Ollama, LM Studio, llama.cpp)
+        this.register({
+            type: 'local',
+            factory: (config) => new LocalModelProvider(config),
+            displayName: 'Local Model',
+            description: 'Self-hosted models via Ollama or OpenAI-compatible local servers',
+        });
     }
 
     /**
@@ -71,6 +79,40 @@ export class AIProviderFactory {
         console.log(`[AIProviderFactory] Registered provider: ${registration.displayName}`);
     }
 
+    /**
+     * Remove a provider registration
+     */
+    static unregister(providerType: AIProviderType): boolean {
+        return this.registrations.delete(providerType);
+    }
+
+    /**
+     * Register user-defined OpenAI-compatible providers from settings
+     * Replaces previously registered custom providers; built-in types cannot be overridden
+     */
+    static registerCustomProviders(definitions: CustomProviderDefinition[]): void {
+        for (const registration of this.getRegistrations()) {
+            if (registration.custom) {
+                this.registrations.delete(registration.type);
+            }
+        }
+
+        for (const definition of definitions) {
+            if (!definition.id || this.registrations.has(definition.id)) {
+                console.warn(`[AIProviderFactory] Skipping custom provider with invalid or duplicate id: ${definition.id}`);
+                continue;
+            }
+
+            this.register({
+                type: definition.id,
+                factory: (config) => new CustomOpenAIProvider(config, definition),
+                displayName: definition.name,
+                description: `Custom OpenAI-compatible endpoint (${definition.baseURL})`,
+                custom: true,
+            });
+        }
+    }
+
     /**
      * Create an AI provider instance
      * @param config Model configuration
@@ -10,9 +10,19 @@ import type {
     AIRequestOptions,
     ParameterLimits,
     ProviderMetadata,
+    ToolChoice,
+    ToolConversationMessage,
+    ToolTurnResult,
+    TokenUsage,
 } from './types';
 import { BaseAIProvider } from './BaseAIProvider';
 
+/** Prompt cache breakpoint (5 minute TTL) */
+const CACHE_CONTROL = { type: 'ephemeral' } as const;
+
+/** Anthropic accepts at most 4 cache breakpoints per request */
+const MAX_CACHE_BREAKPOINTS = 4;
+
 export class AnthropicProvider extends BaseAIProvider {
     readonly providerType = 'anthropic' as const;
     readonly providerName = 'Anthropic Claude';
@@ -52,6 +62,10 @@ export class AnthropicProvider extends BaseAIProvider {
     }
 
     async sendMessage(messages: Message[], options?: AIRequestOptions): Promise<string> {
+        if (options?.responseSchema) {
+            return this.sendStructured(messages, options);
+        }
+
         if (options?.onStream) {
             // If streaming callback provided, use streaming mode
             let fullResponse = '';
@@ -70,11 +84,8 @@ export class AnthropicProvider extends BaseAIProvider {
             model: this.config.modelId,
             max_tokens: options?.maxTokens || this.config.maxTokens || 4096,
             temperature: options?.temperature ?? this.config.temperature ?? 0.7,
-            system: options?.systemPrompt || '',
-            messages: messages.map(m => ({
-                role: m.role as 'user' | 'assistant',
-                content: m.content,
-            })),
+            system: this.buildSystem(options),
+            messages: this.buildMessages(messages, options),
             stop_sequences: options?.stopSequences,
             // v0.13.0: Extended Thinking mode (Claude 3.7+, Sonnet 4+, Opus 4+)
             ...(this.thinkingMode && {
@@ -87,21 +98,26 @@ export class AnthropicProvider extends BaseAIProvider {
             signal: options?.signal,
         });
 
+        options?.onUsage?.(this.toTokenUsage(response.usage, response.usage?.output_tokens ?? 0));
+
         // Extract text from response (thinking blocks are separate)
         const textContent = response.content.find(c => c.type === 'text');
         return textContent && 'text' in textContent ? textContent.text : '';
     }
 
     async streamMessage(messages: Message[], options?: AIRequestOptions): Promise<void> {
+        // Forced tool input arrives as partial JSON; answer with the complete JSON at once
+        if (options?.responseSchema) {
+            this.emitText(await this.sendStructured(messages, options), options);
+            return;
+        }
+
         const stream = await this.client.messages.create({
             model: this.config.modelId,
             max_tokens: options?.maxTokens || this.config.maxTokens || 4096,
             temperature: options?.temperature ?? this.config.temperature ?? 0.7,
-            system: options?.systemPrompt || '',
-            messages: messages.map(m => ({
-                role: m.role as 'user' | 'assistant',
-                content: m.content,
-            })),
+            system: this.buildSystem(options),
+            messages: this.buildMessages(messages, options),
             stop_sequences: options?.stopSequences,
             stream: true,
             // v0.13.0: Extended Thinking mode (Claude 3.7+, Sonnet 4+, Opus 4+)
@@ -115,16 +131,207 @@ export class AnthropicProvider extends BaseAIProvider {
             signal: options?.signal,
         });
 
+        // Input and cache tokens arrive in message_start, cumulative output tokens in message_delta
+        let inputUsage: any;
+        let outputTokens = 0;
+
         for await (const chunk of stream) {
-            if (chunk.type === 'content_block_delta') {
+            if (chunk.type === 'message_start') {
+                inputUsage = chunk.message?.usage;
+                outputTokens = chunk.message?.usage?.output_tokens ?? 0;
+            } else if (chunk.type === 'message_delta') {
+                outputTokens = chunk.usage?.output_tokens ?? outputTokens;
+            } else if (chunk.type === 'content_block_delta') {
                 if (chunk.delta?.type === 'text_delta') {
-                    const text = chunk.delta.text || '';
-                    options?.onStream?.(text);
+                    this.emitText(chunk.delta.text || '', options);
+                } else if (chunk.delta?.type === 'thinking_delta') {
+                    // v0.13.0: Extended Thinking output is streamed as reasoning
+                    this.emitReasoning(chunk.delta.thinking || '', options);
                 }
-                // v0.13.0: Thinking deltas can be captured here if needed
-                // Currently we only stream the final text output, not thinking process
             }
         }
+
+        // Thinking tokens are billed as output; Anthropic does not report them separately
+        options?.onUsage?.(this.toTokenUsage(inputUsage, outputTokens));
+    }
+
+    /**
+     * Structured output: force a tool whose input schema is the response schema
+     * Extended thinking is not used, it cannot be combined with a forced tool choice
+     * @returns Tool input as JSON text
+     */
+    private async sendStructured(messages: Message[], options: AIRequestOptions): Promise<string> {
+        const responseSchema = options.responseSchema!;
+        const tool: Anthropic.Tool = {
+            name: responseSchema.name,
+            description: responseSchema.description || 'Record the answer in the required structure',
+            // The response schema root is always an object (see ResponseSchema)
+            input_schema: { ...responseSchema.schema, type: 'object' },
+        };
+        const toolChoice: Anthropic.ToolChoiceTool = { type: 'tool', name: responseSchema.name };
+        const response = await this.client.messages.create({
+            model: this.config.modelId,
+            max_tokens: options.maxTokens || this.config.maxTokens || 4096,
+            temperature: options.temperature ?? this.config.temperature ?? 0.7,
+            system: this.buildSystem(options),
+            messages: this.buildMessages(messages, options),
+            tools: [tool],
+            tool_choice: toolChoice,
+            stop_sequences: options.stopSequences,
+        }, {
+            signal: options.signal,
+        });
+
+        options.onUsage?.(this.toTokenUsage(response.usage, response.usage?.output_tokens ?? 0));
+
+        const toolUse = response.content.find(c => c.type === 'tool_use');
+        if (toolUse && toolUse.type === 'tool_use') {
+            return JSON.stringify(toolUse.input);
+        }
+
+        // Should not happen with a forced tool; let the caller validate the text
+        const text = response.content.find(c => c.type === 'text');
+        return text && 'text' in text ? text.text : '';
+    }
+
+    /**
+     * Token usage including prompt cache reads and writes
+     */
+    private toTokenUsage(usage: any, outputTokens: number): TokenUsage {
+        return {
+            inputTokens: usage?.input_tokens ?? 0,
+            outputTokens,
+            ...(usage?.cache_read_input_tokens && { cacheReadTokens: usage.cache_read_input_tokens }),
+            ...(usage?.cache_creation_input_tokens && { cacheWriteTokens: usage.cache_creation_input_tokens }),
+        };
+    }
+
+    /**
+     * System prompt, as a cached text block when prompt caching is requested
+     */
+    private buildSystem(options?: AIRequestOptions): string | any[] {
+        const system = options?.systemPrompt || '';
+        if (!options?.promptCache || !system) {
+            return system;
+        }
+        return [{ type: 'text', text: system, cache_control: CACHE_CONTROL }];
+    }
+
+    /**
+     * Convert messages, adding cache breakpoints after pinned prefixes and after the earlier turns
+     * (the last message is the new turn and is never cached)
+     */
+    private buildMessages(messages: Message[], options?: AIRequestOptions): any[] {
+        // The system prompt uses one of the breakpoints
+        let breakpoints = options?.promptCache
+            ? MAX_CACHE_BREAKPOINTS - (options.systemPrompt ? 1 : 0)
+            : 0;
+        const historyEnd = messages.length - 2;
+
+        // Reserve one breakpoint for the earlier turns, the rest goes to pinned prefixes
+        const historyBreakpoint = breakpoints > 0 && historyEnd >= 0;
+        if (historyBreakpoint) {
+            breakpoints--;
+        }
+
+        return messages.map((m, index) => {
+            const cachePrefix = breakpoints > 0 && !!m.cachePrefixLength;
+            if (cachePrefix) {
+                breakpoints--;
+            }
+            return {
+                role: m.role as 'user' | 'assistant',
+                content: this.toAnthropicContent(m, cachePrefix, historyBreakpoint && index === historyEnd),
+            };
+        });
+    }
+
+    /**
+     * Convert message content to Anthropic format (base64 image blocks before the text)
+     * @param cachePrefix Split off message.cachePrefixLength characters as a cached text block;
+     * it goes before the images, since a breakpoint caches everything up to it
+     * @param cacheEnd Mark the end of the message as a cache breakpoint
+     */
+    private toAnthropicContent(message: Message, cachePrefix: boolean = false, cacheEnd: boolean = false): string | Anthropic.ContentBlockParam[] {
+        if (!message.images?.length && !cachePrefix && !cacheEnd) {
+            return message.content;
+        }
+
+        const prefixLength = cachePrefix ? message.cachePrefixLength! : 0;
+        const imageBlocks: Anthropic.ImageBlockParam[] = [];
+        const textBlocks: Anthropic.TextBlockParam[] = [];
+        for (const part of this.getMessageParts(message)) {
+            if (part.type === 'image') {
+                imageBlocks.push({
+                    type: 'image',
+                    // ImageLoader only accepts the media types Anthropic supports
+                    source: { type: 'base64', media_type: part.image.mediaType as Anthropic.Base64ImageSource['media_type'], data: part.image.data },
+                });
+                continue;
+            }
+
+            if (prefixLength > 0 && prefixLength < part.text.length) {
+                textBlocks.push({ type: 'text', text: part.text.slice(0, prefixLength), cache_control: CACHE_CONTROL });
+                textBlocks.push({ type: 'text', text: part.text.slice(prefixLength) });
+            } else {
+                textBlocks.push({ type: 'text', text: part.text, ...(prefixLength > 0 && { cache_control: CACHE_CONTROL }) });
+            }
+        }
+
+        const blocks: Array<Anthropic.TextBlockParam | Anthropic.ImageBlockParam> = prefixLength > 0 && textBlocks.length > 0
+            ? [textBlocks[0], ...imageBlocks, ...textBlocks.slice(1)]
+            : [...imageBlocks, ...textBlocks];
+
+        if (blocks.length === 0) {
+            return message.content;
+        }
+        if (cacheEnd) {
+            blocks[blocks.length - 1] = { ...blocks[blocks.length - 1], cache_control: CACHE_CONTROL };
+        }
+        return blocks;
+    }
+
+    async sendToolTurn(messages: ToolConversationMessage[], options?: AIRequestOptions): Promise<ToolTurnResult> {
+        // Extended thinking is not enabled for tool turns: it requires the
+        // thinking blocks to be echoed back together with every tool_result
+        const response = await this.client.messages.create({
+            model: this.config.modelId,
+            max_tokens: options?.maxTokens || this.config.maxTokens || 4096,
+            temperature: options?.temperature ?? this.config.temperature ?? 0.7,
+            system: this.buildSystem(options),
+            messages: this.convertToolMessages(messages),
+            tools: (options?.tools || []).map(tool => ({
+                name: tool.name,
+                description: tool.description,
+                input_schema: tool.parameters,
+            })),
+            ...(options?.toolChoice && { tool_choice: this.convertToolChoice(options.toolChoice) }),
+            stop_sequences: options?.stopSequences,
+        } as any, {
+            signal: options?.signal,
+        });
+
+        options?.onUsage?.(this.toTokenUsage(response.usage, response.usage?.output_tokens ?? 0));
+
+        const text = response.content
+            .map(c => c.type === 'text' ? c.text : '')
+            .join('');
+        const toolCalls = response.content.flatMap(c => c.type === 'tool_use'
+            ? [{ id: c.id, name: c.name, arguments: (c.input as Record<string, any>) || {} }]
+            : []);
+
+        const stopReasons: Record<string, ToolTurnResult['stopReason']> = {
+            tool_use: 'tool_calls',
+            end_turn: 'end_turn',
+            stop_sequence: 'end_turn',
+            max_tokens: 'max_tokens',
+        };
+
+        return {
+            text,
+            toolCalls,
+            stopReason: stopReasons[response.stop_reason || ''] || 'other',
+        };
     }
 
     validateConfig(config: AIModelConfig): true | string {
@@ -241,7 +448,48 @@ export class AnthropicProvider extends BaseAIProvider {
                 supportsSystemPrompt: true,
                 supportsVision: true,
                 supportsFunctionCalling: true,
+                supportsStructuredOutput: true,
             },
         };
     }
+
+    /**
+     * Convert tool conversation to Anthropic format
+     * Tool calls become tool_use blocks, results become tool_result blocks in a user turn
+     */
+    private convertToolMessages(messages: ToolConversationMessage[]): any[] {
+        return messages.map(msg => {
+            if (msg.role === 'user') {
+                return { role: 'user', content: this.toAnthropicContent(msg) };
+            }
+
+            if (msg.role === 'assistant') {
+                const content: any[] = [];
+                if (msg.content.trim()) {
+                    content.push({ type: 'text', text: msg.content });
+                }
+                for (const call of msg.toolCalls || []) {
+                    content.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments });
+                }
+                return { role: 'assistant', content };
+            }
+
+            return {
+                role: 'user',
+                content: msg.results.map(result => ({
+                    type: 'tool_result',
+                    tool_use_id: result.toolCallId,
+                    content: result.content,
+                    ...(result.isError && { is_error: true }),
+                })),
+            };
+        });
+    }
+
+    private convertToolChoice(choice: ToolChoice): Record<string, string> {
+        if (typeof choice === 'object') {
+            return { type: 'tool', name: choice.name };
+        }
+        return { type: choice === 'required' ? 'any' : choice };
+    }
 }
@@ -11,7 +11,7 @@ import type {
     ParameterLimits,
     ProviderMetadata,
 } from './types';
-import type { Message } from '../claude/types';
+import type { Message, MessagePart } from '../claude/types';
 
 /**
  * Abstract base class for AI providers
@@ -104,13 +104,35 @@ export abstract class BaseAIProvider implements AIProvider {
      */
     protected normalizeMessages(messages: Message[]): Message[] {
         return messages
-            .filter(m => m.content && m.content.trim() !== '')
+            .filter(m => (m.content && m.content.trim() !== '') || m.images?.length)
             .map(m => ({
                 role: m.role,
-                content: m.content.trim(),
+                content: (m.content || '').trim(),
+                ...(m.images?.length && { images: m.images }),
             }));
     }
 
+    /**
+     * Helper method to split a message into parts (images first, then text)
+     * Providers translate the parts to their native format
+     */
+    protected getMessageParts(message: Message): MessagePart[] {
+        const parts: MessagePart[] = (message.images || []).map(image => ({ type: 'image' as const, image }));
+        if (message.content && message.content.trim()) {
+            parts.push({ type: 'text', text: message.content });
+        }
+        return parts;
+    }
+
+    /**
+     * Error for a failed HTTP response, carrying the status for retry classification
+     */
+    protected httpError(message: string, status: number): Error {
+        const error = new Error(message);
+        (error as Error & { status: number }).status = status;
+        return error;
+    }
+
     /**
      * Helper method to handle API errors
      */
@@ -127,7 +149,52 @@ export abstract class BaseAIProvider implements AIProvider {
             errorMessage = error;
         }
 
-        throw new Error(`${this.providerName} API Error: ${errorMessage}`);
+        const wrappedMessage = `${this.providerName} API Error: ${errorMessage}`;
+
+        // Preserve the HTTP status so callers can classify retryable failures
+        const status = error?.status ?? error?.statusCode;
+        if (typeof status === 'number') {
+            throw this.httpError(wrappedMessage, status);
+        }
+
+        throw new Error(wrappedMessage);
+    }
+
+    /**
+     * Helper method to report usage in the OpenAI response format
+     * Shared by OpenAI-compatible providers (prompt_tokens / completion_tokens)
+     * Automatic prefix cache hits are reported by OpenAI as prompt_tokens_details.cached_tokens
+     * and by DeepSeek as prompt_cache_hit_tokens; both are included in prompt_tokens
+     */
+    protected reportOpenAIUsage(usage: any, options?: AIRequestOptions): void {
+        if (!usage || !options?.onUsage) {
+            return;
+        }
+
+        const promptTokens = usage.prompt_tokens ?? 0;
+        const cachedTokens = usage.prompt_tokens_details?.cached_tokens ?? usage.prompt_cache_hit_tokens ?? 0;
+        options.onUsage({
+            inputTokens: promptTokens - cachedTokens,
+            outputTokens: usage.completion_tokens ?? 0,
+            thinkingTokens: usage.completion_tokens_details?.reasoning_tokens,
+            ...(cachedTokens > 0 && { cacheReadTokens: cachedTokens }),
+        });
+    }
+
+    /**
+     * Helper method to emit a streamed answer text chunk
+     */
+    protected emitText(text: string, options?: AIRequestOptions): void {
+        options?.onStream?.(text);
+        options?.onStreamEvent?.({ type: 'text', text });
+    }
+
+    /**
+     * Helper method to emit a streamed reasoning chunk
+     * Reasoning never goes through onStream, so it cannot end up in the answer
+     */
+    protected emitReasoning(text: string, options?: AIRequestOptions): void {
+        options?.onStreamEvent?.({ type: 'reasoning', text });
     }
 
     /**
@@ -6,3 +6,4 @@
 export * from './types';
 export * from './AnthropicProvider';
 export * from './AIProviderFactory';
+export * from './tools';
@@ -0,0 +1,125 @@
+/**
+ * Custom OpenAI-Compatible Provider
+ * User-defined endpoints from settings (OpenRouter, Azure OpenAI, SiliconFlow, internal gateways)
+ *
+ * The definition travels in config.options.customProvider so it is available
+ * during BaseAIProvider construction (validateConfig runs before subclass fields are set).
+ */
+
+import { OpenAIProvider } from './OpenAIProvider';
+import type { AIModelConfig, CustomProviderDefinition, ParameterLimits, ProviderMetadata } from '../types';
+
+const DEFAULT_AUTH_HEADER = 'api-key';
+const DEFAULT_MAX_TEMPERATURE = 2;
+const DEFAULT_MAX_OUTPUT_TOKENS = 8192;
+const DEFAULT_CONTEXT_WINDOW = 128000;
+
+export class CustomOpenAIProvider extends OpenAIProvider {
+    readonly providerType: string;
+    readonly providerName: string;
+
+    constructor(config: AIModelConfig, definition: CustomProviderDefinition) {
+        super(CustomOpenAIProvider.buildConfig(config, definition));
+        this.providerType = definition.id;
+        this.providerName = definition.name;
+    }
+
+    /**
+     * Merge the definition into the model config (base URL, auth and extra headers)
+     */
+    private static buildConfig(config: AIModelConfig, definition: CustomProviderDefinition): AIModelConfig {
+        const headers: Record<string, string | null> = { ...definition.extraHeaders };
+
+        if (definition.authStyle === 'header') {
+            headers[definition.authHeaderName || DEFAULT_AUTH_HEADER] = config.apiKey;
+            headers['Authorization'] = null;
+        } else if (definition.authStyle === 'none') {
+            headers['Authorization'] = null;
+        }
+
+        return {
+            ...config,
+            // The OpenAI SDK requires a key even when no authentication is used
+            apiKey: definition.authStyle === 'none' ? (config.apiKey || 'no-key') : config.apiKey,
+            baseURL: config.baseURL || definition.baseURL,
+            options: {
+                ...config.options,
+                customProvider: definition,
+                defaultHeaders: headers,
+            },
+        };
+    }
+
+    private get definition(): CustomProviderDefinition {
+        return this.config.options?.customProvider;
+    }
+
+    validateConfig(config: AIModelConfig): true | string {
+        const definition: CustomProviderDefinition | undefined = config.options?.customProvider;
+        if (!definition) {
+            return 'Custom provider definition is missing';
+        }
+
+        if (definition.authStyle !== 'none' && (!config.apiKey || config.apiKey.trim() === '')) {
+            return 'API key is required';
+        }
+
+        if (!config.modelId || config.modelId.trim() === '') {
+            return 'Model ID is required';
+        }
+
+        if (!/^https?:\/\/.+/.test(config.baseURL || '')) {
+            return 'Base URL must be a valid HTTP(S) URL';
+        }
+
+        return true;
+    }
+
+    getAvailableModels(): string[] {
+        return (this.definition?.models || []).map(m => m.id);
+    }
+
+    getMaxTokenLimit(_model: string): number {
+        return this.definition?.maxOutputTokens || DEFAULT_MAX_OUTPUT_TOKENS;
+    }
+
+    getParameterLimits(): ParameterLimits {
+        const maxTemperature = this.definition?.maxTemperature ?? DEFAULT_MAX_TEMPERATURE;
+        const maxTokens = this.definition?.maxOutputTokens || DEFAULT_MAX_OUTPUT_TOKENS;
+        return {
+            temperature: { min: 0, max: maxTemperature, default: Math.min(0.7, maxTemperature) },
+            maxTokens: { min: 1, max: maxTokens, default: Math.min(4096, maxTokens) },
+        };
+    }
+
+    /**
+     * Metadata generated from the user definition
+     */
+    getMetadata(): ProviderMetadata {
+        const definition = this.definition;
+        const models = definition.models.map(m => ({
+            id: m.id,
+            displayName: m.displayName || m.id,
+            contextWindow: m.contextWindow || DEFAULT_CONTEXT_WINDOW,
+        }));
+
+        return {
+            type: definition.id,
+            displayName: definition.name,
+            description: `自定义 OpenAI 兼容接口 (${definition.baseURL})`,
+            icon: '🔌',
+            apiKeyUrl: '',
+            defaultBaseURL: definition.baseURL,
+            defaultModel: models[0]?.id || '',
+            requiresApiKey: definition.authStyle !== 'none',
+            models,
+            features: {
+                supportsStreaming: true,
+                supportsSystemPrompt: true,
+                supportsVision: false,
+                supportsFunctionCalling: definition.supportsTools ?? false,
+                supportsStructuredOutput: false,
+            },
+        };
+    }
+}
@@ -141,6 +141,7 @@ export class DeepSeekProvider extends OpenAIProvider {
                 supportsSystemPrompt: true,
                 supportsVision: false,
                 supportsFunctionCalling: false,
+                supportsStructuredOutput: false,
             },
         };
     }
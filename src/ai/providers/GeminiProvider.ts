@@ -3,13 +3,17 @@
  * Supports Gemini Pro, Gemini Pro Vision, and other Google AI models
  */
 
-import { GoogleGenerativeAI, HarmBlockThreshold, HarmCategory } from '@google/generative-ai';
+import { GoogleGenerativeAI, HarmBlockThreshold, HarmCategory, type Part } from '@google/generative-ai';
 import type { Message } from '../../claude/types';
 import type {
     AIModelConfig,
     AIRequestOptions,
     ParameterLimits,
     ProviderMetadata,
+    ToolCall,
+    ToolChoice,
+    ToolConversationMessage,
+    ToolTurnResult,
 } from '../types';
 import { BaseAIProvider } from '../BaseAIProvider';
 
@@ -78,21 +82,14 @@ export class GeminiProvider extends BaseAIProvider {
         try {
             const chat = this.model.startChat({
                 history: this.convertMessagesToHistory(messages, options?.systemPrompt),
-                generationConfig: {
-                    maxOutputTokens: this.getEffectiveMaxTokens(options),
-                    temperature: this.getEffectiveTemperature(options),
-                    stopSequences: options?.stopSequences,
-                    // v0.13.0: Thinking mode (Gemini 2.5+ supports thought budgets)
-                    ...(this.thinkingMode && {
-                        thoughtBudget: this.thinkingBudget,  // Budget for reasoning process
-                    }),
-                },
+                generationConfig: this.buildGenerationConfig(options),
             });
 
             // Get the last user message
             const lastMessage = messages[messages.length - 1];
-            const result = await chat.sendMessage(lastMessage.content);
+            const result = await chat.sendMessage(this.toGeminiParts(lastMessage));
             const response = await result.response;
+            this.reportUsage(response.usageMetadata, options);
 
             return response.text();
         } catch (error) {
@@ -106,33 +103,122 @@ export class GeminiProvider extends BaseAIProvider {
         try {
             const chat = this.model.startChat({
                 history: this.convertMessagesToHistory(messages, options?.systemPrompt),
-                generationConfig: {
-                    maxOutputTokens: this.getEffectiveMaxTokens(options),
-                    temperature: this.getEffectiveTemperature(options),
-                    stopSequences: options?.stopSequences,
-                    // v0.13.0: Thinking mode (Gemini 2.5+ supports thought budgets)
-                    ...(this.thinkingMode && {
-                        thoughtBudget: this.thinkingBudget,  // Budget for reasoning process
-                    }),
-                },
+                generationConfig: this.buildGenerationConfig(options),
             });
 
             // Get the last user message
             const lastMessage = messages[messages.length - 1];
-            const result = await chat.sendMessageStream(lastMessage.content);
+            const result = await chat.sendMessageStream(this.toGeminiParts(lastMessage));
 
-            // Stream the response
+            // Stream the response (each chunk carries the running usageMetadata)
+            let usageMetadata: any;
             for await (const chunk of result.stream) {
                 const text = chunk.text();
                 if (text) {
-                    options?.onStream?.(text);
+                    this.emitText(text, options);
                 }
+                usageMetadata = chunk.usageMetadata ?? usageMetadata;
             }
+            this.reportUsage(usageMetadata, options);
         } catch (error) {
             this.handleError(error, 'streamMessage');
         }
     }
 
+    /**
+     * Generation config for chat requests (thinking budget, structured output)
+     */
+    private buildGenerationConfig(options?: AIRequestOptions): Record<string, any> {
+        return {
+            maxOutputTokens: this.getEffectiveMaxTokens(options),
+            temperature: this.getEffectiveTemperature(options),
+            stopSequences: options?.stopSequences,
+            // v0.13.0: Thinking mode (Gemini 2.5+ supports thought budgets)
+            ...(this.thinkingMode && {
+                thoughtBudget: this.thinkingBudget,  // Budget for reasoning process
+            }),
+            // Native structured output (same schema subset as function parameters)
+            ...(options?.responseSchema && {
+                responseMimeType: 'application/json',
+                responseSchema: options.responseSchema.schema,
+            }),
+        };
+    }
+
+    /**
+     * Report usageMetadata (thought tokens are billed as output but counted separately;
+     * implicit cache hits are included in promptTokenCount)
+     */
+    private reportUsage(usageMetadata: any, options?: AIRequestOptions): void {
+        if (!usageMetadata || !options?.onUsage) {
+            return;
+        }
+
+        const thinkingTokens = usageMetadata.thoughtsTokenCount;
+        const cachedTokens = usageMetadata.cachedContentTokenCount ?? 0;
+        options.onUsage({
+            inputTokens: (usageMetadata.promptTokenCount ?? 0) - cachedTokens,
+            outputTokens: (usageMetadata.candidatesTokenCount ?? 0) + (thinkingTokens ?? 0),
+            thinkingTokens,
+            ...(cachedTokens > 0 && { cacheReadTokens: cachedTokens }),
+        });
+    }
+
+    async sendToolTurn(messages: ToolConversationMessage[], options?: AIRequestOptions): Promise<ToolTurnResult> {
+        try {
+            const tools = options?.tools || [];
+            const systemPrompt = options?.systemPrompt?.trim();
+
+            const result = await this.model.generateContent({
+                contents: this.convertToolMessages(messages),
+                ...(systemPrompt && { systemInstruction: systemPrompt }),
+                tools: [{
+                    functionDeclarations: tools.map(tool => ({
+                        name: tool.name,
+                        description: tool.description,
+                        parameters: tool.parameters,
+                    })),
+                }],
+                ...(options?.toolChoice && { toolConfig: this.convertToolChoice(options.toolChoice) }),
+                generationConfig: {
+                    maxOutputTokens: this.getEffectiveMaxTokens(options),
+                    temperature: this.getEffectiveTemperature(options),
+                    stopSequences: options?.stopSequences,
+                },
+            }, { signal: options?.signal });
+
+            const candidate = result.response.candidates?.[0];
+            const parts: any[] = candidate?.content?.parts || [];
+            this.reportUsage(result.response.usageMetadata, options);
+
+            // Gemini function calls have no IDs, generate them so results can be matched
+            const toolCalls: ToolCall[] = parts
+                .filter(part => part.functionCall)
+                .map((part, index) => ({
+                    id: `gemini-call-${Date.now()}-${index}`,
+                    name: part.functionCall.name,
+                    arguments: part.functionCall.args || {},
+                }));
+
+            let stopReason: ToolTurnResult['stopReason'] = 'other';
+            if (toolCalls.length > 0) {
+                stopReason = 'tool_calls';
+            } else if (candidate?.finishReason === 'STOP') {
+                stopReason = 'end_turn';
+            } else if (candidate?.finishReason === 'MAX_TOKENS') {
+                stopReason = 'max_tokens';
+            }
+
+            return {
+                text: parts.map(part => part.text || '').join(''),
+                toolCalls,
+                stopReason,
+            };
+        } catch (error) {
+            this.handleError(error, 'sendToolTurn');
+        }
+    }
+
     validateConfig(config: AIModelConfig): true | string {
         // Call base validation first
         const baseValidation = super.validateConfig(config);
@@ -337,7 +423,8 @@ export class GeminiProvider extends BaseAIProvider {
                 supportsStreaming: true,
                 supportsSystemPrompt: true,
                 supportsVision: true,
-                supportsFunctionCalling: false,
+                supportsFunctionCalling: true,
+                supportsStructuredOutput: true,
             },
         };
     }
@@ -346,9 +433,9 @@ export class GeminiProvider extends BaseAIProvider {
      * Convert messages to Gemini chat history format
      * Gemini requires alternating user/model roles
      */
-    private convertMessagesToHistory(messages: Message[], systemPrompt?: string): Array<{ role: string; parts: string }> {
+    private convertMessagesToHistory(messages: Message[], systemPrompt?: string): Array<{ role: string; parts: Part[] }> {
         const normalized = this.normalizeMessages(messages);
-        const history: Array<{ role: string; parts: string }> = [];
+        const history: Array<{ role: string; parts: Part[] }> = [];
 
         // Gemini doesn't have a separate system prompt field
         // We prepend it as the first user message if provided
@@ -377,13 +464,63 @@ ${normalized[firstUserIndex].content}`,
             const msg = normalized[i];
             history.push({
                 role: msg.role === 'user' ? 'user' : 'model',
-                parts: msg.content,
+                parts: this.toGeminiParts(msg),
             });
         }
 
         return history;
     }
 
+    /**
+     * Convert message content to Gemini parts (images as inlineData)
+     */
+    private toGeminiParts(message: Message): Part[] {
+        return this.getMessageParts(message).map(part => part.type === 'image'
+            ? { inlineData: { mimeType: part.image.mediaType, data: part.image.data } }
+            : { text: part.text });
+    }
+
+    /**
+     * Convert tool conversation to Gemini contents
+     * Tool calls become functionCall parts, results become functionResponse parts
+     */
+    private convertToolMessages(messages: ToolConversationMessage[]): any[] {
+        return messages.map(msg => {
+            if (msg.role === 'user') {
+                return { role: 'user', parts: msg.images?.length ? this.toGeminiParts(msg) : [{ text: msg.content }] };
+            }
+
+            if (msg.role === 'assistant') {
+                const parts: any[] = [];
+                if (msg.content.trim()) {
+                    parts.push({ text: msg.content });
+                }
+                for (const call of msg.toolCalls || []) {
+                    parts.push({ functionCall: { name: call.name, args: call.arguments } });
+                }
+                return { role: 'model', parts };
+            }
+
+            return {
+                role: 'function',
+                parts: msg.results.map(result => ({
+                    functionResponse: {
+                        name: result.name,
+                        response: result.isError ? { error: result.content } : { content: result.content },
+                    },
+                })),
+            };
+        });
+    }
+
+    private convertToolChoice(choice: ToolChoice): Record<string, any> {
+        if (typeof choice === 'object') {
+            return { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: [choice.name] } };
+        }
+        const modes: Record<string, string> = { auto: 'AUTO', none: 'NONE', required: 'ANY' };
+        return { functionCallingConfig: { mode: modes[choice] } };
+    }
+
     /**
      * Gemini has some special requirements
      */
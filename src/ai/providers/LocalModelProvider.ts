@@ -0,0 +1,353 @@
+/**
+ * Local Model Provider
+ * Runs against self-hosted model servers (Ollama, LM Studio, llama.cpp)
+ *
+ * Features:
+ * - No API key required (an optional key is sent as Bearer token)
+ * - Ollama native API (/api/chat) with NDJSON streaming
+ * - OpenAI-compatible API (/v1/chat/completions) with SSE streaming,
+ *   used when the base URL ends with /v1 (LM Studio, llama.cpp server)
+ * - Model list discovered from /api/tags (or /v1/models)
+ */
+
+import { BaseAIProvider } from '../BaseAIProvider';
+import type { Message } from '../../claude/types';
+import type { AIModelConfig, AIRequestOptions, ModelMetadata, ParameterLimits, ProviderMetadata } from '../types';
+
+export type LocalApiFormat = 'ollama' | 'openai';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434';
+const DEFAULT_MODEL = 'llama3.2';
+const DEFAULT_CONTEXT_WINDOW = 8192;
+const MODEL_LIST_TIMEOUT = 5000;
+
+export class LocalModelProvider extends BaseAIProvider {
+    readonly providerType = 'local';
+    readonly providerName = 'Local Model';
+
+    /** Models discovered by the last successful refreshModels() call */
+    private static discoveredModels: ModelMetadata[] = [];
+
+    private baseURL: string;
+    private apiKey: string;
+    private model: string;
+    private apiFormat: LocalApiFormat;
+
+    constructor(config: AIModelConfig) {
+        super(config);
+        this.baseURL = (config.baseURL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+        this.apiKey = config.apiKey || '';
+        this.model = config.modelId || DEFAULT_MODEL;
+        this.apiFormat = LocalModelProvider.detectApiFormat(this.baseURL);
+    }
+
+    /**
+     * Base URLs ending with /v1 are treated as OpenAI-compatible servers
+     */
+    static detectApiFormat(baseURL: string): LocalApiFormat {
+        return /\/v1\/?$/.test(baseURL) ? 'openai' : 'ollama';
+    }
+
+    /**
+     * Query the server for installed models and cache them for getMetadata()
+     * @returns Discovered models (empty if the server is unreachable)
+     */
+    static async refreshModels(baseURL: string = DEFAULT_BASE_URL): Promise<ModelMetadata[]> {
+        const normalizedURL = (baseURL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+        const isOpenAI = this.detectApiFormat(normalizedURL) === 'openai';
+        const url = isOpenAI ? `${normalizedURL}/models` : `${normalizedURL}/api/tags`;
+
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), MODEL_LIST_TIMEOUT);
+
+        try {
+            const response = await fetch(url, { signal: controller.signal });
+            if (!response.ok) {
+                throw new Error(`${response.status} ${response.statusText}`);
+            }
+
+            const data = await response.json();
+            const models: ModelMetadata[] = isOpenAI
+                ? (data.data || []).map((m: any) => ({
+                    id: m.id,
+                    displayName: m.id,
+                    contextWindow: DEFAULT_CONTEXT_WINDOW,
+                }))
+                : (data.models || []).map((m: any) => ({
+                    id: m.name || m.model,
+                    displayName: m.details?.parameter_size
+                        ? `${m.name || m.model} (${m.details.parameter_size})`
+                        : (m.name || m.model),
+                    contextWindow: DEFAULT_CONTEXT_WINDOW,
+                    description: m.details?.family,
+                }));
+
+            this.discoveredModels = models.filter(m => !!m.id);
+            console.log(`[LocalModelProvider] Discovered ${this.discoveredModels.length} models at ${normalizedURL}`);
+            return this.discoveredModels;
+        } catch (error) {
+            console.warn(`[LocalModelProvider] Failed to list models at ${url}:`, error);
+            return [];
+        } finally {
+            clearTimeout(timeoutId);
+        }
+    }
+
+    /**
+     * Send a non-streaming message
+     */
+    async sendMessage(messages: Message[], options?: AIRequestOptions): Promise<string> {
+        const response = await this.request(messages, options, false);
+        const data = await response.json();
+        this.reportUsage(data, options);
+
+        return this.apiFormat === 'openai'
+            ? data.choices?.[0]?.message?.content || ''
+            : data.message?.content || '';
+    }
+
+    /**
+     * Send a streaming message
+     * Ollama streams NDJSON (one JSON object per line), OpenAI-compatible servers stream SSE
+     */
+    async streamMessage(messages: Message[], options?: AIRequestOptions): Promise<void> {
+        if (!options?.onStream) {
+            throw new Error('onStream callback is required for streaming');
+        }
+
+        try {
+            const response = await this.request(messages, options, true);
+
+            const reader = response.body?.getReader();
+            if (!reader) {
+                throw new Error('Response body is not readable');
+            }
+
+            const decoder = new TextDecoder();
+            let buffer = '';
+
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) {
+                    break;
+                }
+
+                buffer += decoder.decode(value, { stream: true });
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || '';
+
+                for (const line of lines) {
+                    this.handleStreamLine(line, options);
+                }
+            }
+
+            // Flush a final line without trailing newline
+            this.handleStreamLine(buffer, options);
+
+            if (options.onComplete) {
+                options.onComplete();
+            }
+        } catch (error) {
+            if (error instanceof Error && error.name === 'AbortError') {
+                console.log('[LocalModelProvider] Streaming request aborted');
+                throw new Error('Request cancelled');
+            }
+            if (options.onError && !(error instanceof Error && error.message === 'Request cancelled')) {
+                options.onError(error as Error);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Parse one NDJSON / SSE line and forward the text and reasoning deltas
+     */
+    private handleStreamLine(line: string, options: AIRequestOptions): void {
+        let trimmed = line.trim();
+        if (!trimmed) return;
+
+        if (this.apiFormat === 'openai') {
+            if (!trimmed.startsWith('data: ') || trimmed === 'data: [DONE]') return;
+            trimmed = trimmed.slice(6);
+        }
+
+        try {
+            const data = JSON.parse(trimmed);
+            if (data.error) {
+                throw new Error(typeof data.error === 'string' ? data.error : data.error.message);
+            }
+
+            // LM Studio / llama.cpp send reasoning_content, Ollama sends message.thinking
+            const reasoning = this.apiFormat === 'openai'
+                ? data.choices?.[0]?.delta?.reasoning_content
+                : data.message?.thinking;
+            if (reasoning) {
+                this.emitReasoning(reasoning, options);
+            }
+
+            const chunk = this.apiFormat === 'openai'
+                ? data.choices?.[0]?.delta?.content
+                : data.message?.content;
+            if (chunk) {
+                this.emitText(chunk, options);
+            }
+            this.reportUsage(data, options);
+        } catch (error) {
+            if (error instanceof SyntaxError) {
+                console.warn('[LocalModelProvider] Failed to parse stream line:', trimmed);
+                return;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Report token counts (Ollama sends them with the final done chunk)
+     */
+    private reportUsage(data: any, options?: AIRequestOptions): void {
+        if (this.apiFormat === 'openai') {
+            this.reportOpenAIUsage(data.usage, options);
+        } else if (data.done && data.eval_count !== undefined) {
+            options?.onUsage?.({
+                inputTokens: data.prompt_eval_count ?? 0,
+                outputTokens: data.eval_count ?? 0,
+            });
+        }
+    }
+
+    /**
+     * POST a chat request in the server's native format
+     */
+    private async request(messages: Message[], options: AIRequestOptions | undefined, stream: boolean): Promise<Response> {
+        const chatMessages: Array<{ role: string; content: string }> = [];
+        if (options?.systemPrompt) {
+            chatMessages.push({ role: 'system', content: options.systemPrompt });
+        }
+        chatMessages.push(...messages.map(m => ({ role: m.role, content: m.content })));
+
+        const temperature = this.getEffectiveTemperature(options);
+        const maxTokens = this.getEffectiveMaxTokens(options);
+
+        const url = this.apiFormat === 'openai'
+            ? `${this.baseURL}/chat/completions`
+            : `${this.baseURL}/api/chat`;
+
+        const body = this.apiFormat === 'openai'
+            ? {
+                model: this.model,
+                messages: chatMessages,
+                temperature,
+                max_tokens: maxTokens,
+                stop: options?.stopSequences,
+                stream,
+                ...(stream && { stream_options: { include_usage: true } }),
+            }
+            : {
+                model: this.model,
+                messages: chatMessages,
+                stream,
+                options: {
+                    temperature,
+                    num_predict: maxTokens,
+                    stop: options?.stopSequences,
+                },
+            };
+
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.apiKey) {
+            headers['Authorization'] = `Bearer ${this.apiKey}`;
+        }
+
+        let response: Response;
+        try {
+            response = await fetch(url, {
+                method: 'POST',
+                headers,
+                body: JSON.stringify(body),
+                signal: options?.signal,
+            });
+        } catch (error) {
+            if (error instanceof Error && error.name === 'AbortError') {
+                console.log('[LocalModelProvider] Request aborted');
+                throw new Error('Request cancelled');
+            }
+            throw new Error(`Cannot reach local model server at ${this.baseURL}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            console.error(`[LocalModelProvider] API error (${response.status}):`, errorText);
+
+            if (response.status === 404) {
+                throw this.httpError(`Local model "${this.model}" not found. Pull or load it on the server first.`, response.status);
+            }
+            throw this.httpError(`Local model server error: ${response.status} ${response.statusText} - ${errorText}`, response.status);
+        }
+
+        return response;
+    }
+
+    /**
+     * Validate configuration
+     * Local servers do not need an API key
+     */
+    validateConfig(config: AIModelConfig): true | string {
+        if (!config.modelId || config.modelId.trim() === '') {
+            return 'Model ID is required';
+        }
+
+        if (config.baseURL && !/^https?:\/\/.+/.test(config.baseURL)) {
+            return 'Base URL must be a valid HTTP(S) URL';
+        }
+
+        return true;
+    }
+
+    getAvailableModels(): string[] {
+        return this.getMetadata().models.map(m => m.id);
+    }
+
+    getMaxTokenLimit(model: string): number {
+        const discovered = LocalModelProvider.discoveredModels.find(m => m.id === model);
+        return discovered?.contextWindow || DEFAULT_CONTEXT_WINDOW;
+    }
+
+    getParameterLimits(): ParameterLimits {
+        return {
+            temperature: { min: 0, max: 2, default: 0.7 },
+            maxTokens: { min: 1, max: 32768, default: 4096 },
+        };
+    }
+
+    /**
+     * Get provider metadata (models come from the last refreshModels() call)
+     */
+    getMetadata(): ProviderMetadata {
+        const models = LocalModelProvider.discoveredModels.length > 0
+            ? LocalModelProvider.discoveredModels
+            : [{
+                id: DEFAULT_MODEL,
+                displayName: `${DEFAULT_MODEL} (默认，未检测到本地模型)`,
+                contextWindow: DEFAULT_CONTEXT_WINDOW,
+            }];
+
+        return {
+            type: 'local',
+            displayName: 'Local Model (Ollama / LM Studio)',
+            description: '本地模型服务，支持 Ollama、LM Studio、llama.cpp',
+            icon: '🖥️',
+            apiKeyUrl: '',
+            defaultBaseURL: DEFAULT_BASE_URL,
+            defaultModel: models[0].id,
+            requiresApiKey: false,
+            models,
+            features: {
+                supportsStreaming: true,
+                supportsSystemPrompt: true,
+                supportsVision: false,
+                supportsFunctionCalling: false,
+                supportsStructuredOutput: false,
+            },
+        };
+    }
+}
@@ -82,13 +82,14 @@ export class MoonshotProvider extends BaseAIProvider implements AIProvider {
 
                 // Handle rate limiting
                 if (response.status === 429) {
-                    throw new Error('Moonshot API rate limit exceeded. Please try again later or upgrade your plan.');
+                    throw this.httpError('Moonshot API rate limit exceeded. Please try again later or upgrade your plan.', response.status);
                 }
 
-                throw new Error(`Moonshot API error: ${response.statusText} - ${errorText}`);
+                throw this.httpError(`Moonshot API error: ${response.statusText} - ${errorText}`, response.status);
             }
 
             const data = await response.json();
+            this.reportOpenAIUsage(data.usage, options);
             return this.extractResponse(data);
 
         } catch (error) {
@@ -146,10 +147,10 @@ export class MoonshotProvider extends BaseAIProvider implements AIProvider {
                 console.error(`[MoonshotProvider] Streaming API error (${response.status}):`, errorText);
 
                 if (response.status === 429) {
-                    throw new Error('Moonshot API rate limit exceeded. Please try again later.');
+                    throw this.httpError('Moonshot API rate limit exceeded. Please try again later.', response.status);
                 }
 
-                throw new Error(`Moonshot API error: ${response.statusText} - ${errorText}`);
+                throw this.httpError(`Moonshot API error: ${response.statusText} - ${errorText}`, response.status);
             }
 
             const reader = response.body?.getReader();
@@ -181,13 +182,19 @@ export class MoonshotProvider extends BaseAIProvider implements AIProvider {
                             const jsonData = JSON.parse(trimmed.slice(6));
                             const delta = jsonData.choices?.[0]?.delta;
 
-                            if (delta?.content) {
-                                options.onStream!(delta.content);
+                            // Moonshot puts usage on the final choice, OpenAI-style servers at the top level
+                            const usage = jsonData.usage ?? jsonData.choices?.[0]?.usage;
+                            if (usage) {
+                                this.reportOpenAIUsage(usage, options);
                             }
 
-                            // Handle reasoning content from K2 Thinking models
+                            // Reasoning content from K2 Thinking models
                             if (delta?.reasoning_content) {
-                                // Optionally pass reasoning to callback if needed
+                                this.emitReasoning(delta.reasoning_content, options);
+                            }
+
+                            if (delta?.content) {
+                                this.emitText(delta.content, options);
                             }
                         } catch (parseError) {
                             console.warn('[MoonshotProvider] Failed to parse SSE line:', trimmed);
@@ -397,6 +404,7 @@ export class MoonshotProvider extends BaseAIProvider implements AIProvider {
                 supportsSystemPrompt: true,
                 supportsVision: false,
                 supportsFunctionCalling: false,
+                supportsStructuredOutput: false,
             },
         };
     }
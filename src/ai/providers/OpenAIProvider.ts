@@ -7,15 +7,27 @@ import OpenAI from 'openai';
 import type { Message } from '../../claude/types';
 import type {
     AIModelConfig,
+    AIProviderType,
     AIRequestOptions,
     ParameterLimits,
     ProviderMetadata,
+    ToolCall,
+    ToolConversationMessage,
+    ToolTurnResult,
 } from '../types';
 import { BaseAIProvider } from '../BaseAIProvider';
 
+/**
+ * Stream delta with the reasoning text sent by reasoning models on compatible APIs
+ */
+type ReasoningDelta = OpenAI.Chat.Completions.ChatCompletionChunk.Choice.Delta & {
+    reasoning_content?: string | null;
+};
+
 export class OpenAIProvider extends BaseAIProvider {
-    readonly providerType = 'openai' as const;
-    readonly providerName = 'OpenAI';
+    // Widened so OpenAI-compatible subclasses can override them
+    readonly providerType: AIProviderType = 'openai';
+    readonly providerName: string = 'OpenAI';
 
     private client: OpenAI;
 
@@ -32,6 +44,8 @@ export class OpenAIProvider extends BaseAIProvider {
             timeout: 120000, // 120 seconds
             maxRetries: 2,
             dangerouslyAllowBrowser: true,
+            // Extra / replacement headers for OpenAI-compatible endpoints (null removes a header)
+            defaultHeaders: config.options?.defaultHeaders,
         });
     }
 
@@ -46,7 +60,7 @@ export class OpenAIProvider extends BaseAIProvider {
     /**
      * Build completion parameters based on model type
      */
-    private buildCompletionParams(messages: Message[], options?: AIRequestOptions, streaming: boolean = false) {
+    protected buildCompletionParams(messages: Message[], options?: AIRequestOptions, streaming: boolean = false) {
         const isGPT51 = this.isGPT51Model();
 
         const baseParams: any = {
@@ -62,9 +76,23 @@ export class OpenAIProvider extends BaseAIProvider {
         }
         // For GPT-5.1: omit temperature parameter to use default (1)
 
-        // Add streaming flag if needed
+        // Add streaming flag if needed (usage arrives in a final chunk without choices)
         if (streaming) {
             baseParams.stream = true;
+            baseParams.stream_options = { include_usage: true };
+        }
+
+        // Native structured output (json_schema, non-strict: strict mode needs additionalProperties everywhere)
+        if (options?.responseSchema && this.getMetadata().features.supportsStructuredOutput) {
+            baseParams.response_format = {
+                type: 'json_schema',
+                json_schema: {
+                    name: options.responseSchema.name,
+                    description: options.responseSchema.description,
+                    schema: options.responseSchema.schema,
+                    strict: false,
+                },
+            };
         }
 
         // GPT-5.1 models use max_completion_tokens instead of max_tokens
@@ -99,6 +127,7 @@ export class OpenAIProvider extends BaseAIProvider {
                 { signal: options?.signal }
             );
 
+            this.reportOpenAIUsage(completion.usage, options);
             return completion.choices[0]?.message?.content || '';
         } catch (error) {
             this.handleError(error, 'sendMessage');
@@ -115,9 +144,17 @@ export class OpenAIProvider extends BaseAIProvider {
             );
 
             for await (const chunk of stream) {
-                const content = chunk.choices[0]?.delta?.content;
-                if (content) {
-                    options?.onStream?.(content);
+                // reasoning_content is not in the OpenAI types (DeepSeek-reasoner, Grok, compatible servers)
+                const delta: ReasoningDelta | undefined = chunk.choices[0]?.delta;
+                const reasoning = delta?.reasoning_content;
+                if (reasoning) {
+                    this.emitReasoning(reasoning, options);
+                }
+                if (delta?.content) {
+                    this.emitText(delta.content, options);
+                }
+                if (chunk.usage) {
+                    this.reportOpenAIUsage(chunk.usage, options);
                 }
             }
         } catch (error) {
@@ -125,6 +162,53 @@ export class OpenAIProvider extends BaseAIProvider {
         }
     }
 
+    async sendToolTurn(messages: ToolConversationMessage[], options?: AIRequestOptions): Promise<ToolTurnResult> {
+        try {
+            const params = this.buildCompletionParams([], options, false);
+            params.messages = this.convertToolMessages(messages, options?.systemPrompt);
+            params.tools = (options?.tools || []).map(tool => ({
+                type: 'function',
+                function: {
+                    name: tool.name,
+                    description: tool.description,
+                    parameters: tool.parameters,
+                },
+            }));
+
+            const toolChoice = options?.toolChoice;
+            if (toolChoice) {
+                params.tool_choice = typeof toolChoice === 'object'
+                    ? { type: 'function', function: { name: toolChoice.name } }
+                    : toolChoice;
+            }
+
+            const completion = await this.client.chat.completions.create(params, { signal: options?.signal });
+            const choice = completion.choices[0];
+            this.reportOpenAIUsage(completion.usage, options);
+
+            const toolCalls: ToolCall[] = (choice?.message?.tool_calls || []).map(call => ({
+                id: call.id,
+                name: call.function.name,
+                arguments: this.parseToolArguments(call.function.arguments),
+            }));
+
+            const stopReasons: Record<string, ToolTurnResult['stopReason']> = {
+                tool_calls: 'tool_calls',
+                function_call: 'tool_calls',
+                stop: 'end_turn',
+                length: 'max_tokens',
+            };
+
+            return {
+                text: choice?.message?.content || '',
+                toolCalls,
+                stopReason: stopReasons[choice?.finish_reason || ''] || 'other',
+            };
+        } catch (error) {
+            this.handleError(error, 'sendToolTurn');
+        }
+    }
+
     validateConfig(config: AIModelConfig): true | string {
         // Call base validation first
         const baseValidation = super.validateConfig(config);
@@ -322,6 +406,7 @@ export class OpenAIProvider extends BaseAIProvider {
                 supportsSystemPrompt: true,
                 supportsVision: true,
                 supportsFunctionCalling: true,
+                supportsStructuredOutput: true,
             },
         };
     }
@@ -330,9 +415,9 @@ export class OpenAIProvider extends BaseAIProvider {
      * Convert messages to OpenAI format
      * OpenAI uses separate system message instead of system prompt in options
      */
-    private convertMessages(messages: Message[], systemPrompt?: string): Array<{ role: string; content: string }> {
+    private convertMessages(messages: Message[], systemPrompt?: string): Array<{ role: string; content: string | OpenAI.Chat.ChatCompletionContentPart[] }> {
         const normalized = this.normalizeMessages(messages);
-        const converted: Array<{ role: string; content: string }> = [];
+        const converted: Array<{ role: string; content: string | OpenAI.Chat.ChatCompletionContentPart[] }> = [];
 
         // Add system message if provided
         if (systemPrompt && systemPrompt.trim()) {
@@ -346,10 +431,77 @@ export class OpenAIProvider extends BaseAIProvider {
         for (const msg of normalized) {
             converted.push({
                 role: msg.role,
-                content: msg.content,
+                content: this.toOpenAIContent(msg),
             });
         }
 
         return converted;
     }
+
+    /**
+     * Convert message content to OpenAI format (images as data URL image_url parts)
+     * Only user messages may carry images
+     */
+    private toOpenAIContent(message: Message): string | OpenAI.Chat.ChatCompletionContentPart[] {
+        if (!message.images?.length || message.role !== 'user') {
+            return message.content;
+        }
+
+        return this.getMessageParts(message).map(part => part.type === 'image'
+            ? {
+                type: 'image_url' as const,
+                image_url: { url: `data:${part.image.mediaType};base64,${part.image.data}` },
+            }
+            : { type: 'text' as const, text: part.text });
+    }
+
+    /**
+     * Convert tool conversation to OpenAI format
+     * Tool calls carry JSON-encoded arguments; each result is a separate 'tool' message
+     */
+    private convertToolMessages(messages: ToolConversationMessage[], systemPrompt?: string): any[] {
+        const converted: any[] = [];
+
+        if (systemPrompt && systemPrompt.trim()) {
+            converted.push({ role: 'system', content: systemPrompt.trim() });
+        }
+
+        for (const msg of messages) {
+            if (msg.role === 'user') {
+                converted.push({ role: 'user', content: this.toOpenAIContent(msg) });
+            } else if (msg.role === 'assistant') {
+                const toolCalls = msg.toolCalls || [];
+                converted.push({
+                    role: 'assistant',
+                    content: msg.content || null,
+                    ...(toolCalls.length > 0 && {
+                        tool_calls: toolCalls.map(call => ({
+                            id: call.id,
+                            type: 'function',
+                            function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+                        })),
+                    }),
+                });
+            } else {
+                for (const result of msg.results) {
+                    converted.push({ role: 'tool', tool_call_id: result.toolCallId, content: result.content });
+                }
+            }
+        }
+
+        return converted;
+    }
+
+    /**
+     * Parse tool call arguments (models occasionally return malformed JSON)
+     */
+    private parseToolArguments(raw: string): Record<string, any> {
+        try {
+            const parsed = JSON.parse(raw || '{}');
+            return parsed && typeof parsed === 'object' ? parsed : {};
+        } catch {
+            console.warn(`[OpenAIProvider] Failed to parse tool arguments: ${raw}`);
+            return {};
+        }
+    }
 }
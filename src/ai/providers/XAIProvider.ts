@@ -163,6 +163,7 @@ export class XAIProvider extends OpenAIProvider {
                 supportsSystemPrompt: true,
                 supportsVision: true,
                 supportsFunctionCalling: false,
+                supportsStructuredOutput: true,
             },
         };
     }
@@ -8,3 +8,5 @@ export { GeminiProvider } from './GeminiProvider';
 export { XAIProvider } from './XAIProvider';
 export { DeepSeekProvider } from './DeepSeekProvider';
 export { MoonshotProvider } from './MoonshotProvider';
+export { LocalModelProvider } from './LocalModelProvider';
+export { CustomOpenAIProvider } from './CustomOpenAIProvider';
@@ -0,0 +1,219 @@
+/**
+ * Built-in SiYuan Tools
+ *
+ * Lets the model query and edit notes:
+ * - sql_search: read-only SQL over the blocks table
+ * - get_block_kramdown: full kramdown source of a block
+ * - list_docs: notebooks, or documents under a path
+ * - propose_edit: suggest new block content, reviewed through the diff/accept flow
+ *
+ * @module SiYuanTools
+ * @see ToolRegistry
+ */
+
+import { SiYuanApi } from '../../utils/SiYuanApi';
+import type { ToolRegistry } from './ToolRegistry';
+
+/**
+ * Edit suggested by the model through propose_edit
+ */
+export interface EditProposal {
+    blockId: string;
+    /** Current block Markdown */
+    original: string;
+    /** Proposed block Markdown */
+    modified: string;
+    /** Why the model suggests the change */
+    reason: string;
+}
+
+export interface SiYuanToolsOptions {
+    /**
+     * Receive edit proposals (e.g. queue them for review in the AI dock)
+     * propose_edit is not registered without this callback
+     */
+    onProposeEdit?: (proposal: EditProposal) => void;
+}
+
+const BLOCK_ID_PATTERN = /^[0-9]{14}-[0-9a-z]{7}$/i;
+const DEFAULT_SQL_LIMIT = 20;
+const MAX_SQL_LIMIT = 64;
+/** Trailing LIMIT clause: LIMIT n, LIMIT n OFFSET m or LIMIT m, n */
+const LIMIT_CLAUSE_REGEX = /\blimit\s+(\d+)(?:\s*,\s*(\d+)|\s+offset\s+(\d+))?\s*$/i;
+const MAX_FIELD_LENGTH = 500;
+const MAX_KRAMDOWN_LENGTH = 8000;
+
+/**
+ * Registers the built-in SiYuan tools on a ToolRegistry
+ */
+export class SiYuanTools {
+    static register(registry: ToolRegistry, options: SiYuanToolsOptions = {}): void {
+        registry.register({
+            name: 'sql_search',
+            description: 'Run a read-only SQL SELECT query against the SiYuan blocks table. ' +
+                'Columns: id, parent_id, root_id (document id), box (notebook id), path, hpath (readable path), ' +
+                'name, alias, memo, tag, content (plain text), markdown, type, subtype, created, updated. ' +
+                "type values: d=document, h=heading, p=paragraph, l=list, i=list item, c=code, t=table, b=blockquote, s=super block. " +
+                "Example: SELECT id, hpath, content FROM blocks WHERE content LIKE '%keyword%' AND type='p'",
+            parameters: {
+                type: 'object',
+                properties: {
+                    query: { type: 'string', description: 'SQL SELECT statement' },
+                    limit: { type: 'integer', description: `Maximum rows to return (default ${DEFAULT_SQL_LIMIT}, max ${MAX_SQL_LIMIT})` },
+                },
+                required: ['query'],
+            },
+        }, args => this.sqlSearch(args.query, args.limit));
+
+        registry.register({
+            name: 'get_block_kramdown',
+            description: 'Get the full kramdown source of a block or document by its block ID.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    id: { type: 'string', description: 'Block ID, e.g. 20240101120000-abcdefg' },
+                },
+                required: ['id'],
+            },
+        }, args => this.getBlockKramdown(args.id));
+
+        registry.register({
+            name: 'list_docs',
+            description: 'List documents under a path in a notebook. ' +
+                'Without a notebook, lists the open notebooks instead. ' +
+                'Use the returned path of a document to list its sub-documents.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    notebook: { type: 'string', description: 'Notebook ID' },
+                    path: { type: 'string', description: 'Document storage path (default "/" for the notebook root)' },
+                },
+            },
+        }, args => this.listDocs(args.notebook, args.path));
+
+        if (options.onProposeEdit) {
+            const onProposeEdit = options.onProposeEdit;
+            registry.register({
+                name: 'propose_edit',
+                description: 'Propose replacing the content of a block. The edit is NOT applied directly: ' +
+                    'the user reviews a diff and accepts or rejects it. Provide the complete new Markdown of the block.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        block_id: { type: 'string', description: 'ID of the block to edit' },
+                        new_content: { type: 'string', description: 'Complete new Markdown content of the block' },
+                        reason: { type: 'string', description: 'Short explanation of the change' },
+                    },
+                    required: ['block_id', 'new_content'],
+                },
+            }, args => this.proposeEdit(args.block_id, args.new_content, args.reason || '', onProposeEdit));
+        }
+    }
+
+    /**
+     * Validate that a query is a single SELECT statement and enforce a LIMIT
+     */
+    static prepareSelectQuery(query: string, limit?: number): string {
+        const trimmed = query.trim().replace(/;\s*$/, '');
+
+        if (!/^(select|with)\s/i.test(trimmed)) {
+            throw new Error('Only SELECT queries are allowed');
+        }
+        if (trimmed.includes(';')) {
+            throw new Error('Only a single SQL statement is allowed');
+        }
+
+        const effectiveLimit = Math.min(Math.max(1, limit ?? DEFAULT_SQL_LIMIT), MAX_SQL_LIMIT);
+        const limitMatch = trimmed.match(LIMIT_CLAUSE_REGEX);
+        if (!limitMatch) {
+            return `${trimmed} LIMIT ${effectiveLimit}`;
+        }
+
+        // LIMIT n | LIMIT n OFFSET m | LIMIT m, n
+        const [, first, second, offset] = limitMatch;
+        const count = second !== undefined ? second : first;
+        const skip = second !== undefined ? first : offset;
+        const clause = `LIMIT ${Math.min(parseInt(count, 10), MAX_SQL_LIMIT)}` + (skip !== undefined ? ` OFFSET ${skip}` : '');
+        return trimmed.slice(0, limitMatch.index) + clause;
+    }
+
+    private static async sqlSearch(query: string, limit?: number): Promise<string> {
+        const stmt = this.prepareSelectQuery(query, limit);
+        const rows = await SiYuanApi.sql(stmt);
+
+        // Truncate long fields so results stay within the context budget
+        const compact = rows.map(row => {
+            const result: Record<string, any> = {};
+            for (const [key, value] of Object.entries(row)) {
+                result[key] = typeof value === 'string' && value.length > MAX_FIELD_LENGTH
+                    ? value.substring(0, MAX_FIELD_LENGTH) + '...'
+                    : value;
+            }
+            return result;
+        });
+
+        return JSON.stringify({ count: compact.length, rows: compact });
+    }
+
+    private static async getBlockKramdown(id: string): Promise<string> {
+        this.assertBlockId(id);
+
+        const data = await SiYuanApi.post('/api/block/getBlockKramdown', { id });
+        const kramdown: string = data?.kramdown || '';
+
+        return kramdown.length > MAX_KRAMDOWN_LENGTH
+            ? kramdown.substring(0, MAX_KRAMDOWN_LENGTH) + '\n... (truncated)'
+            : kramdown;
+    }
+
+    private static async listDocs(notebook?: string, path?: string): Promise<string> {
+        if (!notebook) {
+            const data = await SiYuanApi.post('/api/notebook/lsNotebooks', {});
+            const notebooks = (data?.notebooks || [])
+                .filter((nb: any) => !nb.closed)
+                .map((nb: any) => ({ id: nb.id, name: nb.name }));
+            return JSON.stringify({ notebooks });
+        }
+
+        const data = await SiYuanApi.post('/api/filetree/listDocsByPath', { notebook, path: path || '/' });
+        const docs = (data?.files || []).map((file: any) => ({
+            id: file.id,
+            name: String(file.name || '').replace(/\.sy$/, ''),
+            path: file.path,
+            subDocCount: file.subFileCount ?? 0,
+        }));
+
+        return JSON.stringify({ notebook, path: path || '/', docs });
+    }
+
+    private static async proposeEdit(
+        blockId: string,
+        newContent: string,
+        reason: string,
+        onProposeEdit: (proposal: EditProposal) => void
+    ): Promise<string> {
+        this.assertBlockId(blockId);
+
+        const rows = await SiYuanApi.sql(
+            `SELECT markdown FROM blocks WHERE id = '${blockId}' LIMIT 1`
+        );
+        if (rows.length === 0) {
+            throw new Error(`Block not found: ${blockId}`);
+        }
+
+        onProposeEdit({
+            blockId,
+            original: rows[0].markdown || '',
+            modified: newContent,
+            reason,
+        });
+
+        return `Edit proposed for block ${blockId}. The user will review the diff and decide whether to apply it.`;
+    }
+
+    private static assertBlockId(id: string): void {
+        if (!BLOCK_ID_PATTERN.test(id || '')) {
+            throw new Error(`Invalid block ID: ${id}`);
+        }
+    }
+}
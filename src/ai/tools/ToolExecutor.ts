@@ -0,0 +1,106 @@
+/**
+ * Tool Executor
+ * Runs the multi-turn tool loop: ask the model, execute requested tools,
+ * send the results back, repeat until the model answers with text
+ */
+
+import type {
+    AIProvider,
+    AIRequestOptions,
+    ToolCall,
+    ToolConversationMessage,
+    ToolResult,
+    ToolTurnResult,
+} from '../types';
+import type { ToolRegistry } from './ToolRegistry';
+
+export interface ToolLoopOptions extends AIRequestOptions {
+    /** Maximum number of model turns that may request tools (default: 5) */
+    maxIterations?: number;
+    /** Called with the text of each intermediate turn */
+    onText?: (text: string) => void;
+    /** Called before a tool is executed */
+    onToolCall?: (call: ToolCall) => void;
+    /** Called after a tool has been executed */
+    onToolResult?: (result: ToolResult) => void;
+}
+
+export interface ToolLoopResult {
+    /** Final answer text */
+    text: string;
+    /** Full conversation including tool calls and results */
+    messages: ToolConversationMessage[];
+    /** All tool calls executed during the loop */
+    toolCalls: ToolCall[];
+    /** Stop reason of the final turn */
+    stopReason: ToolTurnResult['stopReason'];
+}
+
+const DEFAULT_MAX_ITERATIONS = 5;
+
+export class ToolExecutor {
+    constructor(private registry: ToolRegistry) {}
+
+    /**
+     * Run the tool loop against a provider
+     * @throws Error if the provider does not implement sendToolTurn
+     */
+    async run(
+        provider: AIProvider,
+        messages: ToolConversationMessage[],
+        options: ToolLoopOptions = {}
+    ): Promise<ToolLoopResult> {
+        if (!provider.sendToolTurn) {
+            throw new Error(`${provider.providerName} does not support tool calling`);
+        }
+
+        const { maxIterations = DEFAULT_MAX_ITERATIONS, onText, onToolCall, onToolResult, ...requestOptions } = options;
+        const tools = this.registry.getDefinitions();
+        const conversation = [...messages];
+        const executedCalls: ToolCall[] = [];
+
+        for (let iteration = 0; iteration < maxIterations; iteration++) {
+            this.throwIfAborted(options.signal);
+
+            const turn = await provider.sendToolTurn(conversation, { ...requestOptions, tools });
+            conversation.push({ role: 'assistant', content: turn.text, toolCalls: turn.toolCalls });
+
+            if (turn.toolCalls.length === 0) {
+                return { text: turn.text, messages: conversation, toolCalls: executedCalls, stopReason: turn.stopReason };
+            }
+
+            if (turn.text.trim()) {
+                onText?.(turn.text);
+            }
+
+            const results: ToolResult[] = [];
+            for (const call of turn.toolCalls) {
+                this.throwIfAborted(options.signal);
+                onToolCall?.(call);
+
+                const result = await this.registry.execute(call, { signal: options.signal });
+                results.push(result);
+                executedCalls.push(call);
+
+                onToolResult?.(result);
+            }
+
+            conversation.push({ role: 'tool', results });
+        }
+
+        // Iteration limit reached - ask for a final answer without tools
+        console.warn(`[ToolExecutor] Reached ${maxIterations} tool iterations, requesting final answer`);
+        const finalTurn = await provider.sendToolTurn(conversation, { ...requestOptions, tools, toolChoice: 'none' });
+        conversation.push({ role: 'assistant', content: finalTurn.text });
+
+        return { text: finalTurn.text, messages: conversation, toolCalls: executedCalls, stopReason: finalTurn.stopReason };
+    }
+
+    private throwIfAborted(signal?: AbortSignal): void {
+        if (signal?.aborted) {
+            const error = new Error('Request aborted');
+            error.name = 'AbortError';
+            throw error;
+        }
+    }
+}
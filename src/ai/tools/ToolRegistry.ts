@@ -0,0 +1,124 @@
+/**
+ * Tool Registry
+ * Holds tool definitions and their handlers, validates arguments and
+ * turns handler failures into error results the model can react to
+ */
+
+import type { ToolCall, ToolDefinition, ToolParameterSchema, ToolResult } from '../types';
+
+/**
+ * Context passed to tool handlers
+ */
+export interface ToolExecutionContext {
+    /** Abort signal of the surrounding request */
+    signal?: AbortSignal;
+}
+
+/**
+ * Tool handler - returns the result content (plain text or JSON string)
+ */
+export type ToolHandler = (args: Record<string, any>, context: ToolExecutionContext) => Promise<string>;
+
+interface RegisteredTool {
+    definition: ToolDefinition;
+    handler: ToolHandler;
+}
+
+const TOOL_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_-]{0,63}$/;
+
+export class ToolRegistry {
+    private tools = new Map<string, RegisteredTool>();
+
+    /**
+     * Register a tool (replaces an existing tool with the same name)
+     * @throws Error if the definition is invalid
+     */
+    register(definition: ToolDefinition, handler: ToolHandler): void {
+        if (!TOOL_NAME_PATTERN.test(definition.name)) {
+            throw new Error(`Invalid tool name: "${definition.name}"`);
+        }
+        if (definition.parameters.type !== 'object') {
+            throw new Error(`Tool "${definition.name}" parameters must be an object schema`);
+        }
+
+        this.tools.set(definition.name, { definition, handler });
+        console.log(`[ToolRegistry] Registered tool: ${definition.name}`);
+    }
+
+    unregister(name: string): boolean {
+        return this.tools.delete(name);
+    }
+
+    has(name: string): boolean {
+        return this.tools.has(name);
+    }
+
+    /**
+     * Get definitions of all registered tools (sent to the provider)
+     */
+    getDefinitions(): ToolDefinition[] {
+        return Array.from(this.tools.values()).map(t => t.definition);
+    }
+
+    /**
+     * Execute a tool call
+     * Never throws for tool failures - errors are returned as isError results
+     */
+    async execute(call: ToolCall, context: ToolExecutionContext = {}): Promise<ToolResult> {
+        const tool = this.tools.get(call.name);
+        if (!tool) {
+            return this.errorResult(call, `Unknown tool: ${call.name}`);
+        }
+
+        const validationError = this.validateArguments(tool.definition.parameters, call.arguments || {});
+        if (validationError) {
+            return this.errorResult(call, `Invalid arguments: ${validationError}`);
+        }
+
+        try {
+            const content = await tool.handler(call.arguments || {}, context);
+            return { toolCallId: call.id, name: call.name, content };
+        } catch (error) {
+            console.error(`[ToolRegistry] Tool ${call.name} failed:`, error);
+            const message = error instanceof Error ? error.message : String(error);
+            return this.errorResult(call, message);
+        }
+    }
+
+    /**
+     * Check required properties and primitive types
+     * @returns Error message, or null if valid
+     */
+    private validateArguments(schema: ToolParameterSchema, args: Record<string, any>): string | null {
+        for (const name of schema.required || []) {
+            if (args[name] === undefined || args[name] === null) {
+                return `missing required parameter "${name}"`;
+            }
+        }
+
+        for (const [name, value] of Object.entries(args)) {
+            const property = schema.properties?.[name];
+            if (!property || value === undefined || value === null) {
+                continue;
+            }
+
+            const valid = property.type === 'array' ? Array.isArray(value)
+                : property.type === 'integer' ? Number.isInteger(value)
+                : property.type === 'object' ? typeof value === 'object' && !Array.isArray(value)
+                : typeof value === property.type;
+
+            if (!valid) {
+                return `parameter "${name}" must be of type ${property.type}`;
+            }
+            if (property.enum && !property.enum.includes(value)) {
+                return `parameter "${name}" must be one of: ${property.enum.join(', ')}`;
+            }
+        }
+
+        return null;
+    }
+
+    private errorResult(call: ToolCall, message: string): ToolResult {
+        return { toolCallId: call.id, name: call.name, content: message, isError: true };
+    }
+}
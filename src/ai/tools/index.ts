@@ -0,0 +1,8 @@
+/**
+ * Tool Calling Module
+ * Provider-agnostic tool registry, execution loop and built-in SiYuan tools
+ */
+
+export * from './ToolRegistry';
+export * from './ToolExecutor';
+export * from './SiYuanTools';
@@ -3,7 +3,7 @@
  * Provides abstraction layer for multiple AI providers (Anthropic, OpenAI, Gemini, Local Models, etc.)
  */
 
-import type { Message } from '../claude/types';
+import type { ImageAttachment, Message } from '../claude/types';
 
 /**
  * Supported AI providers
@@ -53,6 +53,20 @@ export interface ParameterLimits {
  */
 export type StreamCallback = (chunk: string) => void;
 
+/**
+ * Typed streaming event
+ * - 'text': answer text (also delivered through onStream)
+ * - 'reasoning': thinking / reasoning text, never part of the answer
+ */
+export type StreamEvent =
+    | { type: 'text'; text: string }
+    | { type: 'reasoning'; text: string };
+
+/**
+ * Streaming callback for typed events
+ */
+export type StreamEventCallback = (event: StreamEvent) => void;
+
 /**
  * Request options for AI API calls
  */
@@ -65,14 +79,141 @@ export interface AIRequestOptions {
     temperature?: number;
     /** Stop sequences */
     stopSequences?: string[];
-    /** Streaming callback */
+    /** Streaming callback (answer text only) */
     onStream?: StreamCallback;
+    /** Typed streaming callback (answer text and reasoning) */
+    onStreamEvent?: StreamEventCallback;
     /** Abort signal for cancellation */
     signal?: AbortSignal;
     /** Completion callback (optional, provider-specific) */
     onComplete?: () => void;
     /** Error callback (optional, provider-specific) */
     onError?: (error: Error) => void;
+    /** Tools the model may call (only used by sendToolTurn) */
+    tools?: ToolDefinition[];
+    /** Tool selection strategy (default: 'auto') */
+    toolChoice?: ToolChoice;
+    /** Usage callback, called once the provider reports token counts */
+    onUsage?: (usage: TokenUsage) => void;
+    /**
+     * Mark stable prefixes (system prompt, pinned message prefixes, earlier turns) as
+     * prompt cache breakpoints. Providers with automatic prefix caching ignore it.
+     */
+    promptCache?: boolean;
+    /** Answer with JSON matching the schema (native structured output where supported) */
+    responseSchema?: ResponseSchema;
+}
+
+/**
+ * Token usage reported by a provider for one request
+ */
+export interface TokenUsage {
+    /** Input tokens billed at the full rate (excludes cache reads and writes) */
+    inputTokens: number;
+    /** All billed output tokens, including reasoning */
+    outputTokens: number;
+    /** Part of outputTokens spent on reasoning (when the provider reports it) */
+    thinkingTokens?: number;
+    /** Input tokens read from the prompt cache */
+    cacheReadTokens?: number;
+    /** Input tokens written to the prompt cache */
+    cacheWriteTokens?: number;
+}
+
+// ==================== Tool / Function Calling ====================
+
+/**
+ * JSON schema subset used to describe tool parameters
+ * Kept to the intersection supported by Anthropic, OpenAI and Gemini
+ */
+export interface ToolParameterSchema {
+    type: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+    description?: string;
+    enum?: string[];
+    properties?: Record<string, ToolParameterSchema>;
+    required?: string[];
+    items?: ToolParameterSchema;
+}
+
+/**
+ * JSON schema an answer must follow (structured output)
+ * The root must be an object schema: OpenAI and Anthropic reject other roots
+ */
+export interface ResponseSchema {
+    /** Schema name (letters, digits, underscores) */
+    name: string;
+    /** What the output contains */
+    description?: string;
+    /** Output schema */
+    schema: ToolParameterSchema;
+}
+
+/**
+ * Provider-agnostic tool definition
+ */
+export interface ToolDefinition {
+    /** Tool name (letters, digits, underscores) */
+    name: string;
+    /** What the tool does and when the model should use it */
+    description: string;
+    /** Parameters schema (must be an object schema) */
+    parameters: ToolParameterSchema;
+}
+
+/**
+ * Tool selection strategy
+ * - 'auto': model decides
+ * - 'none': model must answer with text
+ * - 'required': model must call at least one tool
+ * - { name }: model must call the named tool
+ */
+export type ToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
+/**
+ * A tool invocation requested by the model
+ */
+export interface ToolCall {
+    /** Call ID used to match the result (generated for providers without IDs) */
+    id: string;
+    /** Tool name */
+    name: string;
+    /** Parsed arguments */
+    arguments: Record<string, any>;
+}
+
+/**
+ * Result of executing a tool call, sent back to the model
+ */
+export interface ToolResult {
+    /** ID of the ToolCall this result answers */
+    toolCallId: string;
+    /** Tool name */
+    name: string;
+    /** Result content (plain text or JSON string) */
+    content: string;
+    /** True if the tool failed; content holds the error message */
+    isError?: boolean;
+}
+
+/**
+ * Conversation message for tool-enabled requests
+ * Providers translate these to their native formats
+ */
+export type ToolConversationMessage =
+    | { role: 'user'; content: string; images?: ImageAttachment[] }
+    | { role: 'assistant'; content: string; toolCalls?: ToolCall[] }
+    | { role: 'tool'; results: ToolResult[] };
+
+/**
+ * Result of a single model turn with tools enabled
+ */
+export interface ToolTurnResult {
+    /** Text produced in this turn (may be empty when only tools are called) */
+    text: string;
+    /** Tool calls requested in this turn */
+    toolCalls: ToolCall[];
+    /** Why the turn ended */
+    stopReason: 'tool_calls' | 'end_turn' | 'max_tokens' | 'other';
 }
 
 /**
@@ -149,6 +290,52 @@ export interface AIProvider {
      * @returns Complete provider metadata
      */
     getMetadata(): ProviderMetadata;
+
+    /**
+     * Run a single model turn with tools enabled (optional)
+     * Providers that implement this should report supportsFunctionCalling
+     * @param messages Conversation including previous tool calls and results
+     * @param options Request options; options.tools lists the available tools
+     * @returns Turn text and any requested tool calls
+     */
+    sendToolTurn?(messages: ToolConversationMessage[], options?: AIRequestOptions): Promise<ToolTurnResult>;
+}
+
+// ==================== Custom Providers ====================
+
+/**
+ * How a custom provider sends its API key
+ * - 'bearer': Authorization: Bearer <key> (OpenAI, OpenRouter, SiliconFlow)
+ * - 'header': key in a named header, e.g. api-key (Azure OpenAI)
+ * - 'none': no authentication (internal gateways)
+ */
+export type CustomProviderAuthStyle = 'bearer' | 'header' | 'none';
+
+/**
+ * User-defined OpenAI-compatible endpoint
+ * Registered at runtime with AIProviderFactory.registerCustomProviders()
+ */
+export interface CustomProviderDefinition {
+    /** Provider type key (e.g. 'custom-openrouter'), unique among providers */
+    id: string;
+    /** Display name */
+    name: string;
+    /** API base URL including the version path (e.g. https://openrouter.ai/api/v1) */
+    baseURL: string;
+    /** Authentication style */
+    authStyle: CustomProviderAuthStyle;
+    /** Header name for authStyle 'header' (default: 'api-key') */
+    authHeaderName?: string;
+    /** Extra headers sent with every request */
+    extraHeaders?: Record<string, string>;
+    /** Models offered by the endpoint */
+    models: Array<{ id: string; displayName?: string; contextWindow?: number }>;
+    /** Maximum temperature accepted by the endpoint (default: 2) */
+    maxTemperature?: number;
+    /** Maximum output tokens accepted by the endpoint (default: 8192) */
+    maxOutputTokens?: number;
+    /** Endpoint supports OpenAI-style tool calling */
+    supportsTools?: boolean;
 }
 
 /**
@@ -159,6 +346,8 @@ export interface ProviderRegistration {
     factory: (config: AIModelConfig) => AIProvider;
     displayName: string;
     description: string;
+    /** Set for providers registered from user settings */
+    custom?: boolean;
 }
 
 // ==================== Provider Metadata ====================
@@ -193,6 +382,8 @@ export interface ProviderFeatures {
     supportsVision: boolean;
     /** Supports function calling */
     supportsFunctionCalling: boolean;
+    /** Enforces AIRequestOptions.responseSchema natively (others get the schema in the prompt) */
+    supportsStructuredOutput: boolean;
 }
 
 /**
@@ -213,6 +404,8 @@ export interface ProviderMetadata {
     defaultBaseURL: string;
     /** Default model ID */
     defaultModel: string;
+    /** Whether an API key is required (default: true; false for local servers) */
+    requiresApiKey?: boolean;
     /** Available models */
     models: ModelMetadata[];
     /** Feature flags */
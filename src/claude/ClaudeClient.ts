@@ -63,7 +63,11 @@ export class ClaudeClient {
         this.logger.configure(
             this.settings.enableRequestLogging ?? false,
             this.settings.requestLogPath ?? '',
-            this.settings.requestLogIncludeResponse ?? true
+            this.settings.requestLogIncludeResponse ?? true,
+            {
+                maxFileSizeMB: this.settings.requestLogMaxFileSizeMB,
+                maxTotalSizeMB: this.settings.requestLogMaxTotalSizeMB
+            }
         );
     }
 
@@ -75,7 +79,9 @@ export class ClaudeClient {
         // 重新配置日志记录器（如果日志相关设置发生变化）
         if (settings.enableRequestLogging !== undefined ||
             settings.requestLogPath !== undefined ||
-            settings.requestLogIncludeResponse !== undefined) {
+            settings.requestLogIncludeResponse !== undefined ||
+            settings.requestLogMaxFileSizeMB !== undefined ||
+            settings.requestLogMaxTotalSizeMB !== undefined) {
             this.configureLogger();
         }
     }
@@ -0,0 +1,156 @@
+/**
+ * Provider Fallback - Retry and failover policy for UniversalAIClient
+ *
+ * Features:
+ * - Classifies provider failures as NetworkError / TimeoutError / APIError
+ * - Exponential backoff for retries on the same provider
+ * - Resolves the ordered chain of providers to try
+ *
+ * Only rate limits (429), server errors (5xx), connection failures and
+ * timeouts are retried or failed over; other API errors are returned as-is.
+ *
+ * @module ProviderFallback
+ * @see UniversalAIClient
+ */
+
+import { APIError, NetworkError, TimeoutError } from "../utils/errors";
+import { AIProviderFactory } from "../ai/AIProviderFactory";
+import type { ProviderConfig } from "./types";
+
+/**
+ * Fallback configuration (MultiProviderSettings.fallback)
+ */
+export interface FallbackSettings {
+    /** Switch to the next provider after retries are exhausted */
+    enabled: boolean;
+    /** Providers tried after the active provider, in order */
+    order: string[];
+    /** Retries on the same provider before switching */
+    maxRetries: number;
+    /** Base delay for exponential backoff (ms) */
+    retryDelayMs: number;
+}
+
+export const DEFAULT_FALLBACK_SETTINGS: FallbackSettings = {
+    enabled: false,
+    order: [],
+    maxRetries: 2,
+    retryDelayMs: 1000,
+};
+
+/**
+ * A failed attempt, recorded for logging
+ */
+export interface ProviderAttempt {
+    provider: string;
+    errorType: string;
+    error: string;
+}
+
+const MAX_BACKOFF_MS = 10000;
+const RETRYABLE_MESSAGE = /rate limit|overloaded|too many requests|service unavailable|bad gateway|gateway timeout|internal server error/i;
+const NETWORK_MESSAGE = /fetch failed|failed to fetch|network|econnrefused|econnreset|enotfound|socket hang up|cannot reach/i;
+const TIMEOUT_MESSAGE = /timed? ?out|timeout/i;
+
+export class ProviderFallback {
+    /**
+     * Convert a provider failure into a typed error
+     * Cancellation errors are returned unchanged
+     */
+    static classifyError(error: unknown, provider: string): Error {
+        if (error instanceof NetworkError || error instanceof TimeoutError || error instanceof APIError) {
+            return error;
+        }
+
+        const original = error instanceof Error ? error : new Error(String(error));
+        const message = original.message;
+        if (original.name === 'AbortError' || /cancel/i.test(message)) {
+            return original;
+        }
+
+        const status = this.extractStatus(original);
+
+        if (status === 408 || original.name === 'TimeoutError' || TIMEOUT_MESSAGE.test(message)) {
+            return new TimeoutError(message);
+        }
+        if (status !== undefined && (status === 429 || status >= 500)) {
+            return new NetworkError(message, status);
+        }
+        if (status === undefined && (RETRYABLE_MESSAGE.test(message) || NETWORK_MESSAGE.test(message))) {
+            return new NetworkError(message);
+        }
+
+        return new APIError(message, provider);
+    }
+
+    /**
+     * Rate limits, server errors, connection failures and timeouts are retryable
+     */
+    static isRetryable(error: Error): boolean {
+        return error instanceof NetworkError || error instanceof TimeoutError;
+    }
+
+    /**
+     * Exponential backoff: base, 2×base, 4×base ... capped at 10s
+     */
+    static getBackoffDelay(retry: number, baseDelayMs: number): number {
+        return Math.min(baseDelayMs * Math.pow(2, retry), MAX_BACKOFF_MS);
+    }
+
+    /**
+     * Wait before the next retry; rejects early when the request is cancelled
+     */
+    static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(new Error('Request cancelled by user'));
+                return;
+            }
+
+            const timer = setTimeout(() => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            }, ms);
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(new Error('Request cancelled by user'));
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    /**
+     * Ordered providers to try: the active provider first, then the fallback order
+     * Providers that are disabled or no longer registered are skipped
+     */
+    static resolveChain(
+        activeProvider: string,
+        providers: Record<string, ProviderConfig> | undefined,
+        settings: FallbackSettings
+    ): string[] {
+        if (!settings.enabled) {
+            return [activeProvider];
+        }
+
+        const chain = [activeProvider];
+
+        for (const type of settings.order) {
+            const config = providers?.[type];
+            if (chain.includes(type) || !config || config.enabled === false || !AIProviderFactory.hasProvider(type)) {
+                continue;
+            }
+            chain.push(type);
+        }
+
+        return chain;
+    }
+
+    /**
+     * HTTP status reported by the provider (SDK errors and BaseAIProvider.httpError)
+     */
+    private static extractStatus(error: Error): number | undefined {
+        const { status, statusCode } = error as Error & { status?: unknown; statusCode?: unknown };
+        const value = status ?? statusCode;
+        return typeof value === 'number' ? value : undefined;
+    }
+}
@@ -10,7 +10,62 @@ import { RequestLogger, type LogEntry } from "../logger/RequestLogger";
 import { responseFilter, type FilterRule } from "../filter";
 import type { ISiYuanPlugin } from "@/types/siyuan";
 import { AIProviderFactory } from "../ai/AIProviderFactory";
-import type { AIProvider, AIModelConfig, AIRequestOptions } from "../ai/types";
+import type { AIProvider, AIModelConfig, AIRequestOptions, ResponseSchema, TokenUsage, ToolConversationMessage } from "../ai/types";
+import { ToolExecutor, type ToolLoopOptions, type ToolRegistry } from "../ai/tools";
+import { ProviderFallback, DEFAULT_FALLBACK_SETTINGS, type ProviderAttempt } from "./ProviderFallback";
+import { TimeoutError } from "../utils/errors";
+import { usageTracker, getModelPrice } from "../usage";
+import { TokenEstimator, type ContextLimits } from "../context";
+import { StructuredOutput } from "../structured";
+import type { GlossaryConfig } from "../glossary";
+import type { PromptTemplate } from "../settings/config-types";
+import { ProviderComparison, type ComparisonColumn, type ComparisonResult } from "../compare";
+
+/** Context window assumed for models missing from the provider metadata */
+const DEFAULT_CONTEXT_WINDOW = 32768;
+
+/** Follow-up requests when a structured answer does not match its schema */
+const MAX_STRUCTURED_RETRIES = 1;
+
+/** Shortest system prompt worth caching on its own (Anthropic's minimum cacheable prompt length) */
+const MIN_CACHEABLE_SYSTEM_TOKENS = 1024;
+
+/**
+ * Provider that answered the last request (differs from the active one after a fallback)
+ */
+export interface AnsweringProvider {
+    type: string;
+    name: string;
+    fallback: boolean;
+}
+
+/**
+ * Result of replaying a logged request
+ */
+export interface ReplayResult {
+    provider: string;
+    providerName: string;
+    model: string;
+    content: string;
+    durationMs: number;
+    usage?: TokenUsage;
+    cost?: number;
+}
+
+/**
+ * Options of a compare mode request
+ */
+export interface ComparisonRequestOptions {
+    feature?: string;
+    filterRules?: FilterRule[];
+    systemPrompt?: string;
+    presetId?: string;
+    signal?: AbortSignal;
+    /** Streamed text of one column */
+    onChunk?: (index: number, chunk: string) => void;
+    /** Final answer (or error) of one column */
+    onResult?: (index: number, result: ComparisonResult) => void;
+}
 
 /**
  * Universal AI Client
@@ -23,6 +78,9 @@ export class UniversalAIClient {
     private activeAbortController: AbortController | null = null;
     private configManager: IConfigManager | null = null; // ConfigManager reference for preset-level filterRules
     public plugin: ISiYuanPlugin | null = null; // Plugin instance for file storage access
+    private fallbackProviders: Map<string, AIProvider> = new Map(); // Providers created for fallback attempts
+    private lastAnsweredBy: AnsweringProvider | null = null;
+    private lastUsage: TokenUsage | null = null; // Token usage of the last completed request
 
     constructor(settings: MultiProviderSettings, configManager?: IConfigManager) {
         // Ensure settings are migrated to multi-provider format
@@ -30,6 +88,7 @@ export class UniversalAIClient {
         this.configManager = configManager || null;
         this.logger = new RequestLogger();
         this.configureLogger();
+        usageTracker.configure(this.settings.usage);
         this.initializeProvider();
     }
 
@@ -45,6 +104,9 @@ export class UniversalAIClient {
      */
     setPlugin(plugin: ISiYuanPlugin): void {
         this.plugin = plugin;
+        usageTracker.setPlugin(plugin).catch(error =>
+            console.warn('[UniversalAIClient] Failed to load usage stats:', error)
+        );
     }
 
     /**
@@ -52,6 +114,9 @@ export class UniversalAIClient {
      */
     private initializeProvider(): void {
         try {
+            // Register user-defined providers before resolving the active one
+            AIProviderFactory.registerCustomProviders(this.settings.customProviders || []);
+            this.fallbackProviders.clear();
 
             const activeProvider = this.settings.activeProvider || 'anthropic';
             const providerConfig = this.settings.providers?.[activeProvider];
@@ -63,21 +128,12 @@ export class UniversalAIClient {
             console.log('[UniversalAIClient] DEBUG - apiKey exists:', providerConfig ? !!providerConfig.apiKey : 'no config');
             console.log('[UniversalAIClient] DEBUG - apiKey value:', providerConfig?.apiKey ? `${providerConfig.apiKey.substring(0, 10)}...` : 'empty');
 
-            // Validate critical configuration values
-            if (!providerConfig || !providerConfig.apiKey || providerConfig.apiKey.trim() === '') {
-                console.log(`[UniversalAIClient] Provider ${activeProvider} not configured (API Key required)`);
+            const config = this.buildModelConfig(activeProvider);
+            if (!config) {
                 this.provider = null;
                 return;
             }
 
-            if (!providerConfig.model) {
-                console.warn(`[UniversalAIClient] Provider ${activeProvider} missing model ID, will use provider default`);
-            }
-
-            if (this.settings.maxTokens === undefined || this.settings.temperature === undefined) {
-                console.warn(`[UniversalAIClient] Global maxTokens or temperature undefined, using defaults`);
-            }
-
             // FIX: Cancel any active requests before switching providers
             if (this.activeAbortController) {
                 console.log('[UniversalAIClient] Cancelling active request before provider switch');
@@ -92,56 +148,6 @@ export class UniversalAIClient {
                 // Future: if providers need cleanup, call oldProvider.dispose() here
             }
 
-            // v0.13.0: Use per-provider parameters with fallback to global settings
-            // Priority: providerConfig > global settings > hardcoded defaults
-            let maxTokens = providerConfig.maxTokens;
-            if (typeof maxTokens !== 'number' || maxTokens <= 0) {
-                maxTokens = this.settings.maxTokens;
-            }
-            if (typeof maxTokens !== 'number' || maxTokens <= 0) {
-                maxTokens = 4096; // Final fallback
-            }
-
-            let temperature = providerConfig.temperature;
-            if (typeof temperature !== 'number' || temperature < 0) {
-                temperature = this.settings.temperature;
-            }
-            if (typeof temperature !== 'number' || temperature < 0) {
-                temperature = 0.7; // Final fallback
-            }
-
-            // Choose appropriate default model based on provider
-            let defaultModel = 'claude-sonnet-4-5-20250929';  // Default for Anthropic
-            if (activeProvider === 'openai') defaultModel = 'gpt-4o';
-            else if (activeProvider === 'gemini') defaultModel = 'gemini-2.0-flash-exp';
-            else if (activeProvider === 'xai') defaultModel = 'grok-beta';
-            else if (activeProvider === 'deepseek') defaultModel = 'deepseek-chat';
-            else if (activeProvider === 'moonshot') defaultModel = 'moonshot-v1-8k';
-
-            const modelId = (providerConfig.model && providerConfig.model.trim() !== '')
-                ? providerConfig.model
-                : defaultModel;
-
-            // Log the actual values being used (v0.13.0: shows per-provider vs global)
-            console.log(`[UniversalAIClient] Config values: maxTokens=${maxTokens}, temperature=${temperature}, modelId=${modelId}`);
-            console.log(`[UniversalAIClient] Provider config: maxTokens=${providerConfig.maxTokens}, temperature=${providerConfig.temperature}, model=${providerConfig.model}`);
-            console.log(`[UniversalAIClient] Global settings: maxTokens=${this.settings.maxTokens}, temperature=${this.settings.temperature}`);
-
-            // Create provider config with defensive defaults
-            const config: AIModelConfig = {
-                provider: activeProvider,
-                modelId: modelId,
-                apiKey: providerConfig.apiKey,
-                baseURL: providerConfig.baseURL,
-                maxTokens: maxTokens,
-                temperature: temperature,
-
-                // v0.13.0: Thinking/Reasoning mode parameters
-                thinkingMode: providerConfig.thinkingMode ?? false,
-                thinkingBudget: providerConfig.thinkingBudget,
-                reasoningEffort: providerConfig.reasoningEffort,
-            };
-
             this.provider = AIProviderFactory.create(config);
             console.log(`[UniversalAIClient] Initialized provider: ${this.provider.providerName}`);
         } catch (error) {
@@ -150,6 +156,106 @@ export class UniversalAIClient {
         }
     }
 
+    /**
+     * Build the model config for a provider from its settings
+     * Per-provider parameters fall back to global settings, then hardcoded defaults
+     * @returns null if the provider is not configured
+     */
+    private buildModelConfig(providerType: string): AIModelConfig | null {
+        const providerConfig = this.settings.providers?.[providerType];
+
+        // Validate critical configuration values
+        // Local model servers (requiresApiKey: false) run without an API key
+        if (!providerConfig) {
+            console.log(`[UniversalAIClient] Provider ${providerType} not configured`);
+            return null;
+        }
+        if (this.requiresApiKey(providerType) && (!providerConfig.apiKey || providerConfig.apiKey.trim() === '')) {
+            console.log(`[UniversalAIClient] Provider ${providerType} not configured (API Key required)`);
+            return null;
+        }
+
+        if (!providerConfig.model) {
+            console.warn(`[UniversalAIClient] Provider ${providerType} missing model ID, will use provider default`);
+        }
+
+        if (this.settings.maxTokens === undefined || this.settings.temperature === undefined) {
+            console.warn(`[UniversalAIClient] Global maxTokens or temperature undefined, using defaults`);
+        }
+
+        // v0.13.0: Use per-provider parameters with fallback to global settings
+        // Priority: providerConfig > global settings > hardcoded defaults
+        let maxTokens = providerConfig.maxTokens;
+        if (typeof maxTokens !== 'number' || maxTokens <= 0) {
+            maxTokens = this.settings.maxTokens;
+        }
+        if (typeof maxTokens !== 'number' || maxTokens <= 0) {
+            maxTokens = 4096; // Final fallback
+        }
+
+        let temperature = providerConfig.temperature;
+        if (typeof temperature !== 'number' || temperature < 0) {
+            temperature = this.settings.temperature;
+        }
+        if (typeof temperature !== 'number' || temperature < 0) {
+            temperature = 0.7; // Final fallback
+        }
+
+        const modelId = this.getModelId(providerType);
+
+        // Log the actual values being used (v0.13.0: shows per-provider vs global)
+        console.log(`[UniversalAIClient] Config values: maxTokens=${maxTokens}, temperature=${temperature}, modelId=${modelId}`);
+        console.log(`[UniversalAIClient] Provider config: maxTokens=${providerConfig.maxTokens}, temperature=${providerConfig.temperature}, model=${providerConfig.model}`);
+        console.log(`[UniversalAIClient] Global settings: maxTokens=${this.settings.maxTokens}, temperature=${this.settings.temperature}`);
+
+        // Create provider config with defensive defaults
+        return {
+            provider: providerType,
+            modelId: modelId,
+            apiKey: providerConfig.apiKey,
+            baseURL: providerConfig.baseURL,
+            maxTokens: maxTokens,
+            temperature: temperature,
+
+            // v0.13.0: Thinking/Reasoning mode parameters
+            thinkingMode: providerConfig.thinkingMode ?? false,
+            thinkingBudget: providerConfig.thinkingBudget,
+            reasoningEffort: providerConfig.reasoningEffort,
+        };
+    }
+
+    /**
+     * Model ID for a provider (configured model, or the provider default)
+     */
+    private getModelId(providerType: string): string {
+        const configuredModel = this.settings.providers?.[providerType]?.model;
+        if (configuredModel && configuredModel.trim() !== '') {
+            return configuredModel;
+        }
+
+        // Choose appropriate default model based on provider
+        let defaultModel = 'claude-sonnet-4-5-20250929';  // Default for Anthropic
+        if (providerType === 'openai') defaultModel = 'gpt-4o';
+        else if (providerType === 'gemini') defaultModel = 'gemini-2.0-flash-exp';
+        else if (providerType === 'xai') defaultModel = 'grok-beta';
+        else if (providerType === 'deepseek') defaultModel = 'deepseek-chat';
+        else if (providerType === 'moonshot') defaultModel = 'moonshot-v1-8k';
+        else if (providerType === 'local' || AIProviderFactory.getRegistration(providerType)?.custom) {
+            defaultModel = AIProviderFactory.getMetadata(providerType).defaultModel;
+        }
+        return defaultModel;
+    }
+
+    /**
+     * Check whether a provider needs an API key (from provider metadata)
+     */
+    private requiresApiKey(providerType: string): boolean {
+        if (!AIProviderFactory.hasProvider(providerType)) {
+            return true;
+        }
+        return AIProviderFactory.getMetadata(providerType).requiresApiKey !== false;
+    }
+
     /**
      * Configure logger
      */
@@ -157,7 +263,11 @@ export class UniversalAIClient {
         this.logger.configure(
             this.settings.enableRequestLogging ?? false,
             this.settings.requestLogPath ?? '',
-            this.settings.requestLogIncludeResponse ?? true
+            this.settings.requestLogIncludeResponse ?? true,
+            {
+                maxFileSizeMB: this.settings.requestLogMaxFileSizeMB,
+                maxTotalSizeMB: this.settings.requestLogMaxTotalSizeMB
+            }
         );
     }
 
@@ -168,16 +278,22 @@ export class UniversalAIClient {
         this.settings = { ...this.settings, ...settings };
         
         // Re-initialize provider if provider-related settings changed
-        if (settings.activeProvider !== undefined || settings.providers !== undefined) {
+        if (settings.activeProvider !== undefined || settings.providers !== undefined || settings.customProviders !== undefined) {
             this.initializeProvider();
         }
         
         // Reconfigure logger if logging settings changed
         if (settings.enableRequestLogging !== undefined ||
             settings.requestLogPath !== undefined ||
-            settings.requestLogIncludeResponse !== undefined) {
+            settings.requestLogIncludeResponse !== undefined ||
+            settings.requestLogMaxFileSizeMB !== undefined ||
+            settings.requestLogMaxTotalSizeMB !== undefined) {
             this.configureLogger();
         }
+
+        if (settings.usage !== undefined) {
+            usageTracker.configure(this.settings.usage);
+        }
     }
 
     /**
@@ -208,6 +324,13 @@ export class UniversalAIClient {
         return this.settings.systemPrompt || "";
     }
 
+    /**
+     * Get a preset by ID (undefined without a config manager)
+     */
+    getPreset(presetId: string): PromptTemplate | undefined {
+        return this.configManager?.getTemplateById?.(presetId);
+    }
+
     /**
      * Get current provider name
      */
@@ -238,6 +361,22 @@ export class UniversalAIClient {
         return names[provider] || provider || 'Unknown';
     }
 
+    /**
+     * Get the provider that answered the last completed request
+     * @returns null if the last request failed or none was sent
+     */
+    getLastAnsweringProvider(): AnsweringProvider | null {
+        return this.lastAnsweredBy;
+    }
+
+    /**
+     * Get token usage reported for the last completed request
+     * @returns null if the provider did not report usage
+     */
+    getLastUsage(): TokenUsage | null {
+        return this.lastUsage;
+    }
+
     /**
      * Get filter rules with optional preset scope
      * @param presetId Optional preset ID to include preset-specific rules
@@ -270,8 +409,26 @@ export class UniversalAIClient {
         }
     }
 
+    /**
+     * Get glossaries with optional preset scope
+     * @param presetId Optional preset ID to include the preset glossary
+     * @returns Glossaries to merge (global first, then preset)
+     */
+    getGlossaries(presetId?: string): GlossaryConfig[] {
+        const glossaries: GlossaryConfig[] = this.settings.glossary ? [this.settings.glossary] : [];
+
+        const preset = presetId ? this.configManager?.getTemplateById?.(presetId) : undefined;
+        if (preset?.glossary) {
+            glossaries.push(preset.glossary);
+        }
+        return glossaries;
+    }
+
     /**
      * Send a message and get a streaming response
+     * Rate limits, server errors and timeouts are retried with backoff and may
+     * fall back to the next provider, as long as no chunk has been streamed yet.
+     * Reasoning (thinking) text goes to onReasoning and is never part of the response
      */
     async sendMessage(
         messages: Message[],
@@ -280,7 +437,9 @@ export class UniversalAIClient {
         onComplete: CompleteCallback,
         feature: string = "Chat",
         filterRules?: FilterRule[],
-        systemPrompt?: string
+        systemPrompt?: string,
+        presetId?: string,
+        onReasoning?: MessageCallback
     ): Promise<void> {
         if (!this.isConfigured()) {
             onError(new Error("AI provider is not configured. Please set your API key in settings."));
@@ -288,7 +447,10 @@ export class UniversalAIClient {
         }
 
         // Create AbortController for request cancellation
-        this.activeAbortController = new AbortController();
+        const requestController = new AbortController();
+        this.activeAbortController = requestController;
+        this.lastAnsweredBy = null;
+        this.lastUsage = null;
         const STREAM_CHUNK_TIMEOUT = 30000; // 30 seconds chunk timeout
 
         // Logging: preparation
@@ -296,51 +458,79 @@ export class UniversalAIClient {
         const startTime = Date.now();
         const startedAt = new Date().toISOString();
         let accumulatedResponse = "";  // Accumulated streaming response
+        let reasoningStreamed = false;
+        let usage: TokenUsage | undefined;  // Reported by the provider at the end of the stream
         let timeoutHandle: NodeJS.Timeout | null = null;
+        let attemptedProvider = this.getActiveProvider();  // Provider of the last attempt (logged on failure)
 
         console.log(`[UniversalAIClient] Starting request ${requestId} with ${this.getProviderName()}`);
 
         try {
-            // v0.13.0: Use per-provider parameters
-            const activeProvider = this.settings.activeProvider || 'anthropic';
-            const providerConfig = this.settings.providers?.[activeProvider];
-            const maxTokens = providerConfig?.maxTokens ?? this.settings.maxTokens ?? 4096;
-            const temperature = providerConfig?.temperature ?? this.settings.temperature ?? 0.7;
-
-            const options: AIRequestOptions = {
-                systemPrompt: systemPrompt || this.settings.systemPrompt,
-                maxTokens: maxTokens,
-                temperature: temperature,
-                signal: this.activeAbortController.signal,
-                onStream: (chunk: string) => {
-                    // Check if cancelled
-                    if (this.activeAbortController?.signal.aborted) {
-                        throw new Error('Request cancelled by user');
-                    }
-
-                    accumulatedResponse += chunk;
-                    onMessage(chunk);
-
-                    // Reset timeout (data received means connection is healthy)
+            const { providerType, attempts } = await this.runWithFallback(async (provider, providerType) => {
+                attemptedProvider = providerType;
+                // Each attempt gets its own controller so a stream timeout does not cancel the whole request
+                const attemptController = new AbortController();
+                const onCancel = () => attemptController.abort();
+                requestController.signal.addEventListener('abort', onCancel);
+
+                let timedOut = false;
+                const resetTimeout = () => {
                     if (timeoutHandle) clearTimeout(timeoutHandle);
                     timeoutHandle = setTimeout(() => {
                         console.error('[UniversalAIClient] Stream timeout: no data received for 30 seconds');
-                        this.activeAbortController?.abort();
+                        timedOut = true;
+                        attemptController.abort();
                     }, STREAM_CHUNK_TIMEOUT);
-                },
-            };
-
-            // Set initial timeout
-            timeoutHandle = setTimeout(() => {
-                console.error('[UniversalAIClient] Stream timeout: no data received for 30 seconds');
-                this.activeAbortController?.abort();
-            }, STREAM_CHUNK_TIMEOUT);
-
-            // Stream message via provider
-            await this.provider!.streamMessage(messages, options);
+                };
 
-            // Clear timeout timer
-            if (timeoutHandle) clearTimeout(timeoutHandle);
+                usage = undefined;
+
+                try {
+                    // Set initial timeout
+                    resetTimeout();
+
+                    // Stream message via provider
+                    await provider.streamMessage(this.adaptMessagesForProvider(provider, messages), {
+                        ...this.buildRequestOptions(providerType, systemPrompt, messages),
+                        signal: attemptController.signal,
+                        onUsage: (reported) => { usage = reported; },
+                        onStream: (chunk: string) => {
+                            // Check if cancelled
+                            if (requestController.signal.aborted) {
+                                throw new Error('Request cancelled by user');
+                            }
+
+                            accumulatedResponse += chunk;
+                            onMessage(chunk);
+
+                            // Reset timeout (data received means connection is healthy)
+                            resetTimeout();
+                        },
+                        onStreamEvent: (event) => {
+                            // Text is handled by onStream above
+                            if (event.type !== 'reasoning') return;
+                            if (requestController.signal.aborted) {
+                                throw new Error('Request cancelled by user');
+                            }
+
+                            reasoningStreamed = true;
+                            onReasoning?.(event.text);
+
+                            // Long reasoning phases must not trip the chunk timeout
+                            resetTimeout();
+                        },
+                    });
+                } catch (error) {
+                    if (timedOut) {
+                        throw new TimeoutError('Stream timeout: no data received for 30 seconds', STREAM_CHUNK_TIMEOUT);
+                    }
+                    throw error;
+                } finally {
+                    // Clear timeout timer
+                    if (timeoutHandle) clearTimeout(timeoutHandle);
+                    requestController.signal.removeEventListener('abort', onCancel);
+                }
+            }, () => accumulatedResponse === '' && !reasoningStreamed, requestController.signal);
 
             // Apply filter rules after streaming completes
             console.log('[UniversalAIClient] DEBUG filterRules received:', filterRules);
@@ -372,13 +562,14 @@ export class UniversalAIClient {
                 }
             }
 
+            const cost = this.recordUsage(providerType, feature, presetId, usage);
+
             // Logging: success
             if (this.logger.isEnabled()) {
                 const completedAt = new Date().toISOString();
                 const duration = Date.now() - startTime;
 
-                const activeProvider = this.settings.activeProvider || 'anthropic';
-                const providerConfig = this.settings.providers?.[activeProvider];
+                const providerConfig = this.settings.providers?.[providerType];
 
                 const logEntry: LogEntry = {
                     timestamp: startedAt,
@@ -388,13 +579,13 @@ export class UniversalAIClient {
                         model: providerConfig?.model || 'unknown',
                         temperature: this.settings.temperature,
                         max_tokens: this.settings.maxTokens,
-                        system: this.settings.systemPrompt,
+                        system: systemPrompt || this.settings.systemPrompt,
                         messages: messages.map(m => ({ role: m.role, content: m.content }))
                     },
                     response: {
                         content: finalResponse,
                         stop_reason: "end_turn",
-                        usage: undefined  // Streaming doesn't provide token usage
+                        usage: this.buildUsageLog(usage, cost)
                     },
                     performance: {
                         duration_ms: duration,
@@ -403,14 +594,15 @@ export class UniversalAIClient {
                     },
                     config: {
                         apiKey: RequestLogger.maskApiKey(providerConfig?.apiKey || ''),
-                        baseURL: providerConfig?.baseURL || this.getDefaultBaseURL()
+                        baseURL: providerConfig?.baseURL || this.getDefaultBaseURL(providerType)
                     },
                     filtering: filterResult.changed ? {
                         applied: true,
                         rulesCount: filterResult.appliedRulesCount,
                         originalLength: filterResult.originalLength,
                         filteredLength: filterResult.filteredLength
-                    } : undefined
+                    } : undefined,
+                    provider: this.buildProviderLog(providerType, attempts)
                 };
 
                 this.logger.writeLog(logEntry).catch(err =>
@@ -419,10 +611,8 @@ export class UniversalAIClient {
             }
 
         } catch (error) {
-            // Clear timeout timer
-            if (timeoutHandle) clearTimeout(timeoutHandle);
-            
             console.error("[UniversalAIClient] API error:", error);
+            this.writeErrorLog(requestId, feature, messages, systemPrompt, startTime, startedAt, error, attemptedProvider);
             
             // Handle cancellation error
             if (error instanceof Error && (error.name === 'AbortError' || error.message.includes('cancel'))) {
@@ -434,7 +624,9 @@ export class UniversalAIClient {
         } finally {
             // Always cleanup and call completion callback
             if (timeoutHandle) clearTimeout(timeoutHandle);
-            this.activeAbortController = null;
+            if (this.activeAbortController === requestController) {
+                this.activeAbortController = null;
+            }
             onComplete();
             console.log(`[UniversalAIClient] Request ${requestId} completed/cancelled`);
         }
@@ -442,12 +634,18 @@ export class UniversalAIClient {
 
     /**
      * Send a simple message and get the complete response (non-streaming)
+     * Uses the same retry and provider fallback policy as sendMessage
+     * @param responseSchema Ask for JSON matching the schema (native where the provider supports it)
+     * @param signal Cancels the request (and pending retries)
      */
     async sendMessageSimple(
         messages: Message[], 
         feature: string = "QuickEdit", 
         filterRules?: FilterRule[], 
-        systemPrompt?: string
+        systemPrompt?: string,
+        presetId?: string,
+        responseSchema?: ResponseSchema,
+        signal?: AbortSignal
     ): Promise<string> {
         if (!this.isConfigured()) {
             throw new Error("AI provider is not configured. Please set your API key in settings.");
@@ -457,25 +655,30 @@ export class UniversalAIClient {
         const requestId = RequestLogger.generateRequestId();
         const startTime = Date.now();
         const startedAt = new Date().toISOString();
+        this.lastAnsweredBy = null;
+        this.lastUsage = null;
+        let attemptedProvider = this.getActiveProvider();
 
         try {
-            const activeProvider = this.settings.activeProvider || 'anthropic';
-            const providerConfig = this.settings.providers?.[activeProvider];
-
-            // v0.13.0: Use per-provider parameters
-            const maxTokens = providerConfig?.maxTokens ?? this.settings.maxTokens ?? 4096;
-            const temperature = providerConfig?.temperature ?? this.settings.temperature ?? 0.7;
-
             console.log(`[UniversalAIClient] Sending request to ${this.getProviderName()}`);
-            console.log(`[UniversalAIClient] Messages count: ${messages.length}, Model: ${providerConfig?.model}`);
-
-            const options: AIRequestOptions = {
-                systemPrompt: systemPrompt || this.settings.systemPrompt,
-                maxTokens: maxTokens,
-                temperature: temperature,
-            };
-
-            const responseText = await this.provider!.sendMessage(messages, options);
+            console.log(`[UniversalAIClient] Messages count: ${messages.length}, Model: ${this.settings.providers?.[this.getActiveProvider()]?.model}`);
+
+            let usage: TokenUsage | undefined;
+            const { result: responseText, providerType, attempts } = await this.runWithFallback(
+                (provider, providerType) => {
+                    attemptedProvider = providerType;
+                    usage = undefined;
+                    const options = this.buildRequestOptions(providerType, systemPrompt, messages);
+                    return provider.sendMessage(this.adaptMessagesForProvider(provider, messages), {
+                        ...(responseSchema ? this.withResponseSchema(provider, options, responseSchema) : options),
+                        signal,
+                        onUsage: (reported) => { usage = reported; },
+                    });
+                },
+                () => true,
+                signal
+            );
+            const providerConfig = this.settings.providers?.[providerType];
 
             const duration = Date.now() - startTime;
             const completedAt = new Date().toISOString();
@@ -489,6 +692,8 @@ export class UniversalAIClient {
                 console.log(`[UniversalAIClient] Response filtered: ${filterResult.appliedRulesCount} rules applied, ${filterResult.originalLength} → ${filterResult.filteredLength} chars`);
             }
 
+            const cost = this.recordUsage(providerType, feature, presetId, usage);
+
             // Logging: success
             if (this.logger.isEnabled()) {
                 const logEntry: LogEntry = {
@@ -499,13 +704,13 @@ export class UniversalAIClient {
                         model: providerConfig?.model || 'unknown',
                         temperature: this.settings.temperature,
                         max_tokens: this.settings.maxTokens,
-                        system: this.settings.systemPrompt,
+                        system: systemPrompt || this.settings.systemPrompt,
                         messages: messages.map(m => ({ role: m.role, content: m.content }))
                     },
                     response: {
                         content: finalResponse,
                         stop_reason: "end_turn",
-                        usage: undefined
+                        usage: this.buildUsageLog(usage, cost)
                     },
                     performance: {
                         duration_ms: duration,
@@ -514,14 +719,15 @@ export class UniversalAIClient {
                     },
                     config: {
                         apiKey: RequestLogger.maskApiKey(providerConfig?.apiKey || ''),
-                        baseURL: providerConfig?.baseURL || this.getDefaultBaseURL()
+                        baseURL: providerConfig?.baseURL || this.getDefaultBaseURL(providerType)
                     },
                     filtering: filterResult.changed ? {
                         applied: true,
                         rulesCount: filterResult.appliedRulesCount,
                         originalLength: filterResult.originalLength,
                         filteredLength: filterResult.filteredLength
-                    } : undefined
+                    } : undefined,
+                    provider: this.buildProviderLog(providerType, attempts)
                 };
 
                 this.logger.writeLog(logEntry).catch(err =>
@@ -532,6 +738,7 @@ export class UniversalAIClient {
             return finalResponse;
         } catch (error) {
             console.error("[UniversalAIClient] API error:", error);
+            this.writeErrorLog(requestId, feature, messages, systemPrompt, startTime, startedAt, error, attemptedProvider);
             if (error instanceof Error) {
                 console.error("[UniversalAIClient] Error name:", error.name);
                 console.error("[UniversalAIClient] Error message:", error.message);
@@ -540,6 +747,390 @@ export class UniversalAIClient {
         }
     }
 
+    /**
+     * Send a message whose answer must match a JSON schema
+     * Invalid answers are sent back once with the validation errors before giving up
+     * @param signal Cancels the request (and the retry)
+     * @returns Parsed JSON answer
+     */
+    async sendStructuredMessage(
+        messages: Message[],
+        responseSchema: ResponseSchema,
+        feature: string = "QuickEdit",
+        systemPrompt?: string,
+        presetId?: string,
+        signal?: AbortSignal
+    ): Promise<any> {
+        let conversation = messages;
+        for (let attempt = 0; ; attempt++) {
+            const text = await this.sendMessageSimple(conversation, feature, undefined, systemPrompt, presetId, responseSchema, signal);
+            const { data, errors } = StructuredOutput.parse(text, responseSchema.schema);
+            if (errors.length === 0) {
+                return data;
+            }
+
+            console.warn(`[UniversalAIClient] Structured answer does not match schema "${responseSchema.name}":`, errors);
+            if (attempt >= MAX_STRUCTURED_RETRIES) {
+                throw new Error(`AI response does not match the output schema: ${errors.join('; ')}`);
+            }
+
+            conversation = [
+                ...messages,
+                { role: 'assistant', content: text.trim() || '(empty answer)' },
+                { role: 'user', content: StructuredOutput.buildRetryPrompt(errors) }
+            ];
+        }
+    }
+
+    /**
+     * Check if the current provider can run tool calls
+     */
+    supportsTools(): boolean {
+        return !!this.provider?.sendToolTurn && this.provider.getMetadata().features.supportsFunctionCalling;
+    }
+
+    /**
+     * Check if the active provider accepts image inputs
+     */
+    supportsVision(): boolean {
+        return !!this.provider?.getMetadata().features.supportsVision;
+    }
+
+    /**
+     * Context window and reserved response tokens of the active model
+     */
+    getContextLimits(): ContextLimits {
+        const providerType = this.getActiveProvider();
+        const modelId = this.getModelId(providerType);
+        const model = this.provider?.getMetadata().models.find(m => m.id === modelId);
+        return {
+            contextWindow: model?.contextWindow || DEFAULT_CONTEXT_WINDOW,
+            maxTokens: this.buildRequestOptions(providerType).maxTokens ?? 4096,
+        };
+    }
+
+    /**
+     * Send a background request (e.g. a history summary) with the cheapest priced model
+     * of the active provider; uses the configured model when no cheaper one is known.
+     * No retries, fallback or request logging; usage is still recorded.
+     * @param signal Cancels the request (e.g. when the user stops the chat message it belongs to)
+     */
+    async sendMessageCheap(
+        messages: Message[],
+        feature: string,
+        systemPrompt?: string,
+        maxTokens: number = 1024,
+        signal?: AbortSignal
+    ): Promise<string> {
+        const providerType = this.getActiveProvider();
+        const config = this.buildModelConfig(providerType);
+        if (!this.provider || !config) {
+            throw new Error("AI provider is not configured. Please set your API key in settings.");
+        }
+
+        const modelId = this.getCheapestModelId(providerType);
+        const provider = modelId === config.modelId
+            ? this.provider
+            : AIProviderFactory.create({ ...config, modelId, thinkingMode: false });
+
+        console.log(`[UniversalAIClient] ${feature} request with ${modelId}`);
+
+        let usage: TokenUsage | undefined;
+        const content = await provider.sendMessage(this.adaptMessagesForProvider(provider, messages), {
+            systemPrompt,
+            maxTokens: Math.min(maxTokens, config.maxTokens ?? maxTokens),
+            temperature: 0.3,
+            signal,
+            onUsage: (reported) => { usage = reported; },
+        });
+
+        this.recordUsage(providerType, feature, undefined, usage, modelId);
+        return content;
+    }
+
+    /**
+     * Cheapest non-deprecated model of a provider by list price (configured model if none is cheaper)
+     */
+    private getCheapestModelId(providerType: string): string {
+        const current = this.getModelId(providerType);
+        const currentPrice = getModelPrice(current);
+        if (!currentPrice || !AIProviderFactory.hasProvider(providerType)) {
+            return current;
+        }
+
+        let cheapest = current;
+        let cheapestCost = currentPrice.input + currentPrice.output;
+        for (const model of AIProviderFactory.getMetadata(providerType).models) {
+            const price = model.deprecated ? null : getModelPrice(model.id);
+            if (price && price.input + price.output < cheapestCost) {
+                cheapest = model.id;
+                cheapestCost = price.input + price.output;
+            }
+        }
+        return cheapest;
+    }
+
+    /**
+     * Drop images for providers without vision support (e.g. a fallback provider)
+     */
+    private adaptMessagesForProvider(provider: AIProvider, messages: Message[]): Message[] {
+        if (provider.getMetadata().features.supportsVision || !messages.some(m => m.images?.length)) {
+            return messages;
+        }
+
+        console.warn(`[UniversalAIClient] ${provider.providerName} does not support images, sending text only`);
+        return messages.map(({ images: _images, ...message }) => message);
+    }
+
+    /**
+     * Send a message with tools enabled (non-streaming)
+     * Runs the tool loop until the model answers with text
+     * @returns Final answer text (after filter rules)
+     */
+    async sendMessageWithTools(
+        messages: Message[],
+        registry: ToolRegistry,
+        callbacks: Pick<ToolLoopOptions, 'onText' | 'onToolCall' | 'onToolResult'> = {},
+        feature: string = "Chat",
+        filterRules?: FilterRule[],
+        systemPrompt?: string
+    ): Promise<string> {
+        if (!this.isConfigured()) {
+            throw new Error("AI provider is not configured. Please set your API key in settings.");
+        }
+        if (!this.supportsTools()) {
+            throw new Error(`${this.getProviderName()} does not support tool calling`);
+        }
+
+        this.activeAbortController = new AbortController();
+
+        const requestId = RequestLogger.generateRequestId();
+        const startTime = Date.now();
+        const startedAt = new Date().toISOString();
+        this.lastUsage = null;
+
+        try {
+            const activeProvider = this.settings.activeProvider || 'anthropic';
+            const providerConfig = this.settings.providers?.[activeProvider];
+
+            console.log(`[UniversalAIClient] Starting tool request ${requestId} with ${this.getProviderName()}`);
+
+            // Every model turn of the tool loop is billed, so usage is summed over all turns
+            let usage: TokenUsage | undefined;
+            const executor = new ToolExecutor(registry);
+            const result = await executor.run(
+                this.provider!,
+                this.adaptMessagesForProvider(this.provider!, messages).map((m): ToolConversationMessage => m.role === 'user'
+                    ? { role: 'user', content: m.content, ...(m.images?.length && { images: m.images }) }
+                    : { role: 'assistant', content: m.content }),
+                {
+                    systemPrompt: systemPrompt || this.settings.systemPrompt,
+                    maxTokens: providerConfig?.maxTokens ?? this.settings.maxTokens ?? 4096,
+                    temperature: providerConfig?.temperature ?? this.settings.temperature ?? 0.7,
+                    signal: this.activeAbortController.signal,
+                    onUsage: (reported) => { usage = this.addUsage(usage, reported); },
+                    ...callbacks,
+                }
+            );
+
+            const filterResult = responseFilter.applyFilters(result.text, filterRules);
+            const finalResponse = filterResult.filteredText;
+
+            console.log(`[UniversalAIClient] Tool request completed with ${result.toolCalls.length} tool calls`);
+
+            const cost = this.recordUsage(activeProvider, feature, undefined, usage);
+
+            // Logging: success
+            if (this.logger.isEnabled()) {
+                const toolSummary = result.toolCalls
+                    .map(call => `[tool] ${call.name} ${JSON.stringify(call.arguments)}`)
+                    .join('\n');
+
+                const logEntry: LogEntry = {
+                    timestamp: startedAt,
+                    requestId,
+                    feature,
+                    request: {
+                        model: providerConfig?.model || 'unknown',
+                        temperature: this.settings.temperature,
+                        max_tokens: this.settings.maxTokens,
+                        system: systemPrompt || this.settings.systemPrompt,
+                        messages: messages.map(m => ({ role: m.role, content: m.content }))
+                    },
+                    response: {
+                        content: toolSummary ? `${toolSummary}\n\n${finalResponse}` : finalResponse,
+                        stop_reason: result.stopReason,
+                        usage: this.buildUsageLog(usage, cost)
+                    },
+                    performance: {
+                        duration_ms: Date.now() - startTime,
+                        started_at: startedAt,
+                        completed_at: new Date().toISOString()
+                    },
+                    config: {
+                        apiKey: RequestLogger.maskApiKey(providerConfig?.apiKey || ''),
+                        baseURL: providerConfig?.baseURL || this.getDefaultBaseURL()
+                    },
+                    filtering: filterResult.changed ? {
+                        applied: true,
+                        rulesCount: filterResult.appliedRulesCount,
+                        originalLength: filterResult.originalLength,
+                        filteredLength: filterResult.filteredLength
+                    } : undefined
+                };
+
+                this.logger.writeLog(logEntry).catch(err =>
+                    console.error('[UniversalAIClient] Failed to write request log:', err)
+                );
+            }
+
+            return finalResponse;
+        } catch (error) {
+            console.error("[UniversalAIClient] Tool request error:", error);
+            this.writeErrorLog(requestId, feature, messages, systemPrompt, startTime, startedAt, error);
+            if (error instanceof Error && (error.name === 'AbortError' || error.message.includes('cancel'))) {
+                throw new Error('Request cancelled by user');
+            }
+            throw error instanceof Error ? error : new Error(String(error));
+        } finally {
+            this.activeAbortController = null;
+        }
+    }
+
+    /**
+     * Providers a logged request can be replayed against (enabled and configured)
+     */
+    getReplayProviders(): Array<{ type: string; name: string }> {
+        return Object.entries(this.settings.providers || {})
+            .filter(([type, config]) =>
+                config.enabled !== false &&
+                AIProviderFactory.hasProvider(type) &&
+                (!this.requiresApiKey(type) || !!config.apiKey?.trim())
+            )
+            .map(([type]) => ({ type, name: AIProviderFactory.getMetadata(type).displayName }));
+    }
+
+    /**
+     * Replay a logged request against a provider (current provider by default)
+     * Sends the logged system prompt, messages and sampling parameters with the provider's
+     * configured model. Replays are counted in usage stats but not written to the request log
+     */
+    async replayLogEntry(entry: LogEntry, providerType: string = this.getActiveProvider()): Promise<ReplayResult> {
+        const provider = this.getProviderInstance(providerType);
+        if (!provider) {
+            throw new Error(`Provider ${providerType} is not configured`);
+        }
+
+        const messages: Message[] = entry.request.messages
+            .filter(m => m.role === 'user' || m.role === 'assistant')
+            .map(m => ({ role: m.role as Message['role'], content: m.content }));
+
+        console.log(`[UniversalAIClient] Replaying ${entry.requestId} with ${provider.providerName}`);
+
+        const startTime = Date.now();
+        let usage: TokenUsage | undefined;
+        const content = await provider.sendMessage(messages, {
+            systemPrompt: entry.request.system,
+            maxTokens: entry.request.max_tokens,
+            temperature: entry.request.temperature,
+            onUsage: (reported) => { usage = reported; },
+        });
+
+        return {
+            provider: providerType,
+            providerName: provider.providerName,
+            model: this.getModelId(providerType),
+            content,
+            durationMs: Date.now() - startTime,
+            usage,
+            cost: this.recordUsage(providerType, 'Replay', undefined, usage),
+        };
+    }
+
+    /**
+     * Providers compare mode sends to (settings selection, or the active provider
+     * followed by the other configured ones)
+     * @throws ValidationError When fewer than two providers are configured
+     */
+    getComparisonProviders(): ComparisonColumn[] {
+        const types = ProviderComparison.selectProviders(
+            this.getReplayProviders().map(p => p.type),
+            this.settings.compareProviders,
+            this.getActiveProvider()
+        );
+        return types.map(type => ({
+            provider: type,
+            name: AIProviderFactory.getMetadata(type).displayName,
+            model: this.getModelId(type),
+        }));
+    }
+
+    /**
+     * Send the same prompt to several providers at once (compare mode)
+     * Each provider streams into its own column; a failing provider does not stop
+     * the others and is not replaced by the fallback chain. Answers are counted in
+     * usage stats but not written to the request log
+     * @returns Answers in column order
+     */
+    async sendComparison(
+        messages: Message[],
+        columns: ComparisonColumn[],
+        options: ComparisonRequestOptions = {}
+    ): Promise<ComparisonResult[]> {
+        const { feature = "Compare", filterRules, systemPrompt, presetId, signal, onChunk, onResult } = options;
+
+        console.log(`[UniversalAIClient] Comparing ${columns.map(c => c.name).join(', ')}`);
+
+        return Promise.all(columns.map(async (column, index) => {
+            const startTime = Date.now();
+            let content = '';
+            let usage: TokenUsage | undefined;
+            let result: ComparisonResult;
+
+            try {
+                const provider = this.getProviderInstance(column.provider);
+                if (!provider) {
+                    throw new Error(`Provider ${column.provider} is not configured`);
+                }
+
+                await provider.streamMessage(this.adaptMessagesForProvider(provider, messages), {
+                    ...this.buildRequestOptions(column.provider, systemPrompt, messages),
+                    signal,
+                    onUsage: (reported) => { usage = reported; },
+                    onStream: (chunk: string) => {
+                        if (signal?.aborted) {
+                            throw new Error('Request cancelled by user');
+                        }
+                        content += chunk;
+                        onChunk?.(index, chunk);
+                    },
+                });
+
+                result = {
+                    ...column,
+                    content: responseFilter.applyFilters(content, filterRules).filteredText,
+                    durationMs: Date.now() - startTime,
+                    usage,
+                    cost: this.recordUsage(column.provider, feature, presetId, usage, column.model),
+                };
+            } catch (error) {
+                const aborted = signal?.aborted || (error instanceof Error && error.name === 'AbortError');
+                console.warn(`[UniversalAIClient] Comparison with ${column.name} failed:`, error);
+                result = {
+                    ...column,
+                    content,
+                    durationMs: Date.now() - startTime,
+                    usage,
+                    cost: this.recordUsage(column.provider, feature, presetId, usage, column.model),
+                    error: aborted ? '已取消' : (error instanceof Error ? error.message : String(error)),
+                };
+            }
+
+            onResult?.(index, result);
+            return result;
+        }));
+    }
+
     /**
      * Fetch available models from the current provider
      */
@@ -573,10 +1164,265 @@ export class UniversalAIClient {
     }
 
     /**
-     * Get default base URL for current provider
+     * Run a request through the fallback chain
+     * Retryable failures (429, 5xx, connection errors, timeouts) are retried with
+     * exponential backoff, then the next enabled provider is tried
+     * @param attempt Request against one provider
+     * @param canRetry Whether a failed attempt may be repeated (false once output reached the UI)
+     * @param signal Request-level cancellation signal
+     */
+    private async runWithFallback<T>(
+        attempt: (provider: AIProvider, providerType: string) => Promise<T>,
+        canRetry: () => boolean,
+        signal?: AbortSignal
+    ): Promise<{ result: T; providerType: string; attempts: ProviderAttempt[] }> {
+        const fallback = { ...DEFAULT_FALLBACK_SETTINGS, ...this.settings.fallback };
+        const maxRetries = Math.max(0, Math.floor(fallback.maxRetries));
+        const chain = ProviderFallback.resolveChain(this.getActiveProvider(), this.settings.providers, fallback);
+        const attempts: ProviderAttempt[] = [];
+        let lastError: Error | null = null;
+
+        for (const providerType of chain) {
+            const provider = this.getProviderInstance(providerType);
+            if (!provider) {
+                continue;
+            }
+
+            for (let retry = 0; retry <= maxRetries; retry++) {
+                try {
+                    const result = await attempt(provider, providerType);
+                    this.lastAnsweredBy = {
+                        type: providerType,
+                        name: provider.providerName,
+                        fallback: providerType !== this.getActiveProvider(),
+                    };
+                    return { result, providerType, attempts };
+                } catch (error) {
+                    const classified = ProviderFallback.classifyError(error, providerType);
+                    if (signal?.aborted || !ProviderFallback.isRetryable(classified) || !canRetry()) {
+                        throw classified;
+                    }
+
+                    attempts.push({ provider: providerType, errorType: classified.name, error: classified.message });
+                    lastError = classified;
+
+                    if (retry < maxRetries) {
+                        const delay = ProviderFallback.getBackoffDelay(retry, fallback.retryDelayMs);
+                        console.warn(`[UniversalAIClient] ${provider.providerName} failed (${classified.name}), retrying in ${delay}ms`);
+                        await ProviderFallback.sleep(delay, signal);
+                    }
+                }
+            }
+
+            console.warn(`[UniversalAIClient] ${provider.providerName} failed after ${maxRetries + 1} attempts`);
+        }
+
+        throw lastError ?? new Error("AI provider is not configured. Please set your API key in settings.");
+    }
+
+    /**
+     * Get the provider instance for a request attempt
+     * Fallback providers are created on first use and cached until the next re-initialization
+     */
+    private getProviderInstance(providerType: string): AIProvider | null {
+        if (providerType === this.getActiveProvider()) {
+            return this.provider;
+        }
+
+        const cached = this.fallbackProviders.get(providerType);
+        if (cached) {
+            return cached;
+        }
+
+        try {
+            const config = this.buildModelConfig(providerType);
+            if (!config) {
+                return null;
+            }
+            const provider = AIProviderFactory.create(config);
+            this.fallbackProviders.set(providerType, provider);
+            return provider;
+        } catch (error) {
+            console.warn(`[UniversalAIClient] Cannot create fallback provider ${providerType}:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Request options with per-provider parameters (v0.13.0)
+     * @param messages Request messages; prompt caching is only requested when they hold a reusable prefix
+     */
+    private buildRequestOptions(providerType: string, systemPrompt?: string, messages: Message[] = []): AIRequestOptions {
+        const providerConfig = this.settings.providers?.[providerType];
+        const effectiveSystemPrompt = systemPrompt || this.settings.systemPrompt;
+        return {
+            systemPrompt: effectiveSystemPrompt,
+            maxTokens: providerConfig?.maxTokens ?? this.settings.maxTokens ?? 4096,
+            temperature: providerConfig?.temperature ?? this.settings.temperature ?? 0.7,
+            promptCache: UniversalAIClient.hasReusablePrefix(messages, effectiveSystemPrompt),
+        };
+    }
+
+    /**
+     * Whether a request is worth caching: earlier chat turns, a stable Quick Edit prefix
+     * or a system prompt long enough to be cached on its own
+     * (cache writes cost extra on Anthropic, so short one-off prompts are sent uncached)
+     */
+    static hasReusablePrefix(messages: Message[], systemPrompt?: string): boolean {
+        return messages.length > 1
+            || messages.some(m => !!m.cachePrefixLength)
+            || TokenEstimator.estimateText(systemPrompt || '') >= MIN_CACHEABLE_SYSTEM_TOKENS;
+    }
+
+    /**
+     * Request options asking for a structured answer
+     * Providers without native structured output get the schema in the system prompt
+     */
+    private withResponseSchema(provider: AIProvider, options: AIRequestOptions, responseSchema: ResponseSchema): AIRequestOptions {
+        if (provider.getMetadata().features.supportsStructuredOutput) {
+            return { ...options, responseSchema };
+        }
+
+        const instruction = StructuredOutput.buildInstruction(responseSchema.schema);
+        return {
+            ...options,
+            systemPrompt: options.systemPrompt ? `${options.systemPrompt}\n\n${instruction}` : instruction,
+        };
+    }
+
+    /**
+     * Record reported token usage for the dashboard
+     * @returns Estimated cost in USD (undefined if the provider did not report usage)
+     */
+    private recordUsage(
+        providerType: string,
+        feature: string,
+        presetId: string | undefined,
+        usage?: TokenUsage,
+        model: string = this.getModelId(providerType)
+    ): number | undefined {
+        if (!usage) {
+            return undefined;
+        }
+
+        if (usage.cacheReadTokens || usage.cacheWriteTokens) {
+            console.log(`[UniversalAIClient] Prompt cache: ${usage.cacheReadTokens ?? 0} tokens read, ${usage.cacheWriteTokens ?? 0} written`);
+        }
+
+        this.lastUsage = usage;
+        return usageTracker.record({
+            provider: providerType,
+            model,
+            feature,
+            presetId,
+            usage,
+        });
+    }
+
+    /**
+     * Sum the usage of two requests (e.g. the turns of a tool loop)
+     */
+    private addUsage(total: TokenUsage | undefined, usage: TokenUsage): TokenUsage {
+        if (!total) {
+            return usage;
+        }
+
+        const addOptional = (a?: number, b?: number) => a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0);
+        return {
+            inputTokens: total.inputTokens + usage.inputTokens,
+            outputTokens: total.outputTokens + usage.outputTokens,
+            thinkingTokens: addOptional(total.thinkingTokens, usage.thinkingTokens),
+            cacheReadTokens: addOptional(total.cacheReadTokens, usage.cacheReadTokens),
+            cacheWriteTokens: addOptional(total.cacheWriteTokens, usage.cacheWriteTokens),
+        };
+    }
+
+    /**
+     * Log entry usage section (snake_case, matching the Anthropic API format)
+     */
+    private buildUsageLog(usage: TokenUsage | undefined, cost: number | undefined): NonNullable<LogEntry['response']>['usage'] {
+        if (!usage) {
+            return undefined;
+        }
+
+        return {
+            input_tokens: usage.inputTokens,
+            output_tokens: usage.outputTokens,
+            thinking_tokens: usage.thinkingTokens,
+            cache_read_tokens: usage.cacheReadTokens,
+            cache_write_tokens: usage.cacheWriteTokens,
+            cost_usd: cost,
+        };
+    }
+
+    /**
+     * Log a failed request (cancelled requests are not logged)
+     * @param providerType Provider whose attempt failed (the last one tried after fallbacks)
+     */
+    private writeErrorLog(
+        requestId: string,
+        feature: string,
+        messages: Message[],
+        systemPrompt: string | undefined,
+        startTime: number,
+        startedAt: string,
+        error: unknown,
+        providerType: string = this.getActiveProvider()
+    ): void {
+        const err = error instanceof Error ? error : new Error(String(error));
+        if (!this.logger.isEnabled() || err.name === 'AbortError' || err.message.includes('cancel')) {
+            return;
+        }
+
+        const providerConfig = this.settings.providers?.[providerType];
+        const logEntry: LogEntry = {
+            timestamp: startedAt,
+            requestId,
+            feature,
+            request: {
+                model: providerConfig?.model || 'unknown',
+                temperature: this.settings.temperature,
+                max_tokens: this.settings.maxTokens,
+                system: systemPrompt || this.settings.systemPrompt,
+                messages: messages.map(m => ({ role: m.role, content: m.content }))
+            },
+            performance: {
+                duration_ms: Date.now() - startTime,
+                started_at: startedAt,
+                completed_at: new Date().toISOString()
+            },
+            config: {
+                apiKey: RequestLogger.maskApiKey(providerConfig?.apiKey || ''),
+                baseURL: providerConfig?.baseURL || this.getDefaultBaseURL(providerType)
+            },
+            error: {
+                type: err.name,
+                message: err.message
+            }
+        };
+
+        this.logger.writeLog(logEntry).catch(err =>
+            console.error('[UniversalAIClient] Failed to write request log:', err)
+        );
+    }
+
+    /**
+     * Log entry section recording which provider answered
+     */
+    private buildProviderLog(providerType: string, attempts: ProviderAttempt[]): LogEntry['provider'] {
+        const requested = this.getActiveProvider();
+        return {
+            answered: providerType,
+            requested,
+            fallback: providerType !== requested,
+            attempts,
+        };
+    }
+
+    /**
+     * Get default base URL for a provider (current provider by default)
      */
-    private getDefaultBaseURL(): string {
-        const activeProvider = this.settings.activeProvider || 'anthropic';
+    private getDefaultBaseURL(providerType: string = this.getActiveProvider()): string {
         const defaultURLs: Record<string, string> = {
             anthropic: 'https://api.anthropic.com',
             openai: 'https://api.openai.com',
@@ -584,6 +1430,6 @@ export class UniversalAIClient {
             xai: 'https://api.x.ai',
             deepseek: 'https://api.deepseek.com',
         };
-        return defaultURLs[activeProvider] || 'unknown';
+        return defaultURLs[providerType] || 'unknown';
     }
 }
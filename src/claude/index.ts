@@ -1,5 +1,10 @@
 // Export UniversalAIClient (new multi-provider client)
 export { UniversalAIClient } from "./UniversalAIClient";
+export type { AnsweringProvider, ReplayResult, ComparisonRequestOptions } from "./UniversalAIClient";
+
+// Export provider fallback policy
+export { ProviderFallback, DEFAULT_FALLBACK_SETTINGS } from "./ProviderFallback";
+export type { FallbackSettings, ProviderAttempt } from "./ProviderFallback";
 
 // Backward compatibility: ClaudeClient is now an alias for UniversalAIClient
 export { UniversalAIClient as ClaudeClient } from "./UniversalAIClient";
@@ -61,6 +66,8 @@ export const DEFAULT_SETTINGS: Omit<MultiProviderSettings, "apiKey"> = {
     enableRequestLogging: false,
     requestLogPath: '',
     requestLogIncludeResponse: true,
+    requestLogMaxFileSizeMB: 5,
+    requestLogMaxTotalSizeMB: 50,
     editSettings: DEFAULT_EDIT_SETTINGS,
     keyboardShortcuts: {
         quickEdit: "⌃⇧Q",      // Ctrl+Shift+Q
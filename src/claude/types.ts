@@ -4,7 +4,11 @@
 
 import type { EditSettings } from "../editor/types";
 import type { FilterRule } from "../filter";
-import type { AIProviderType } from "../ai/types";
+import type { GlossaryConfig } from "../glossary";
+import type { RetrievalSettings } from "../retrieval";
+import type { UsageSettings } from "../usage";
+import type { CustomProviderDefinition } from "../ai/types";
+import type { FallbackSettings } from "./ProviderFallback";
 import { AIProviderFactory } from "../ai/AIProviderFactory";
 import type { PromptTemplate } from "../settings/config-types";
 
@@ -47,27 +51,64 @@ export interface ClaudeSettings {
     appendedPrompt: string; // Prompt appended to end of each request
 
     // Quick Edit prompt template
-    // Placeholders: {instruction} - user instruction, {original} - original text
+    // Placeholders: {instruction} - user instruction, {original} - original text (all placeholders: PlaceholderRegistry)
     quickEditPromptTemplate?: string;
 
     // Response Filter Rules (global, applies to all requests)
     filterRules?: FilterRule[];
 
+    // Glossary (global, merged with the preset glossary for edits and translations)
+    glossary?: GlossaryConfig;
+
     // AI Request Logging
     enableRequestLogging?: boolean;        // 是否启用AI请求日志 (默认false)
     requestLogPath?: string;                // 日志保存路径 (用户自定义)
     requestLogIncludeResponse?: boolean;    // 是否记录响应内容 (默认true)
+    requestLogMaxFileSizeMB?: number;       // 单个日志文件上限 MB (默认5，超出后写入下一个分卷)
+    requestLogMaxTotalSizeMB?: number;      // 日志目录总大小上限 MB (默认50，超出后删除最旧的文件)
 
     // AI Text Editing settings
     editSettings?: EditSettings;
 
     // Keyboard shortcuts
     keyboardShortcuts?: KeyboardShortcuts;
+
+    // Notebook Q&A retrieval (local index + optional embeddings)
+    retrieval?: RetrievalSettings;
+
+    // Token usage dashboard and monthly budget warnings
+    usage?: UsageSettings;
+}
+
+/**
+ * Image attached to a message (vision)
+ */
+export interface ImageAttachment {
+    /** MIME type: image/png, image/jpeg, image/gif or image/webp */
+    mediaType: string;
+    /** Base64 data without the data: URL prefix */
+    data: string;
+    /** File name or asset path (display only) */
+    name?: string;
 }
 
+/**
+ * One part of a multimodal message, as translated by providers
+ */
+export type MessagePart =
+    | { type: 'text'; text: string }
+    | { type: 'image'; image: ImageAttachment };
+
 export interface Message {
     role: "user" | "assistant";
     content: string;
+    /** Images sent with the text (dropped for providers without vision support) */
+    images?: ImageAttachment[];
+    /**
+     * Length of a leading part of content that stays the same across requests
+     * (e.g. pinned reference blocks); used as a prompt cache breakpoint
+     */
+    cachePrefixLength?: number;
 }
 
 export interface StreamChunk {
@@ -116,6 +157,15 @@ export interface MultiProviderSettings extends ClaudeSettings {
 
     /** Provider-specific configurations (dynamic) */
     providers?: Record<string, ProviderConfig>;
+
+    /** User-defined OpenAI-compatible providers (registered at runtime) */
+    customProviders?: CustomProviderDefinition[];
+
+    /** Retry and provider fallback on rate limits, server errors and timeouts */
+    fallback?: FallbackSettings;
+
+    /** Providers used by compare mode (first four; active + configured ones when empty) */
+    compareProviders?: string[];
 }
 
 /**
@@ -0,0 +1,120 @@
+/**
+ * Comparison View - Side-by-side columns for the answers of several providers
+ *
+ * Each column streams its provider's answer, then shows latency, tokens and
+ * cost; one click on a column's button accepts that answer. Used by the
+ * inline comparison of Quick Edit and by the chat panel.
+ */
+
+import { SecurityUtils } from "../utils/Security";
+import { ProviderComparison } from "./ProviderComparison";
+import type { ComparisonColumn, ComparisonResult } from "./types";
+
+export interface ComparisonViewOptions {
+    /** Accept button text */
+    acceptLabel: string;
+    onAccept: (result: ComparisonResult, index: number) => void;
+    /** HTML for a finished answer (plain text when not set) */
+    renderContent?: (text: string) => string;
+}
+
+export class ComparisonView {
+    readonly element: HTMLElement;
+    private texts: string[];
+    private results: Array<ComparisonResult | undefined>;
+
+    constructor(private columns: ComparisonColumn[], private options: ComparisonViewOptions) {
+        this.texts = columns.map(() => '');
+        this.results = columns.map(() => undefined);
+
+        this.element = document.createElement('div');
+        this.element.className = 'ai-compare';
+        this.element.style.setProperty('--ai-compare-columns', String(columns.length));
+        this.element.innerHTML = columns.map((column, i) => `
+            <div class="ai-compare__column" data-compare-index="${i}">
+                <div class="ai-compare__header">
+                    <span class="ai-compare__name">${SecurityUtils.escapeHtml(column.name)}</span>
+                    <span class="ai-compare__model" title="${SecurityUtils.escapeHtml(column.model)}">${SecurityUtils.escapeHtml(column.model)}</span>
+                </div>
+                <div class="ai-compare__content"></div>
+                <div class="ai-compare__footer">
+                    <span class="ai-compare__stats">生成中…</span>
+                    <button class="b3-button b3-button--text ai-compare__accept" type="button" data-compare-accept="${i}" disabled>${SecurityUtils.escapeHtml(options.acceptLabel)}</button>
+                </div>
+            </div>
+        `).join('');
+
+        this.element.addEventListener('click', (e) => {
+            const button = (e.target as HTMLElement).closest('[data-compare-accept]') as HTMLButtonElement | null;
+            if (!button || button.disabled) return;
+            e.preventDefault();
+            e.stopPropagation();
+            this.accept(Number(button.dataset.compareAccept));
+        });
+    }
+
+    /**
+     * Append streamed text to a column
+     */
+    append(index: number, chunk: string): void {
+        if (this.results[index]) return;
+        this.texts[index] += chunk;
+        const content = this.getColumn(index)?.querySelector('.ai-compare__content') as HTMLElement | null;
+        if (content) {
+            content.textContent = this.texts[index];
+            content.scrollTop = content.scrollHeight;
+        }
+    }
+
+    /**
+     * Show the final answer (or error) of a column
+     */
+    complete(index: number, result: ComparisonResult): void {
+        this.results[index] = result;
+        const column = this.getColumn(index);
+        if (!column) return;
+
+        const content = column.querySelector('.ai-compare__content') as HTMLElement;
+        const stats = column.querySelector('.ai-compare__stats') as HTMLElement;
+        const button = column.querySelector('.ai-compare__accept') as HTMLButtonElement;
+        content.classList.toggle('ai-compare__content--rendered', !!this.options.renderContent && !!result.content);
+
+        if (result.error) {
+            column.classList.add('ai-compare__column--error');
+            content.innerHTML = `${this.renderText(result.content)}<div class="ft__error">❌ ${SecurityUtils.escapeHtml(result.error)}</div>`;
+        } else {
+            content.innerHTML = this.renderText(result.content);
+        }
+        stats.textContent = ProviderComparison.formatStats(result);
+        button.disabled = !!result.error || !result.content.trim();
+    }
+
+    /**
+     * Whether every column has finished
+     */
+    isComplete(): boolean {
+        return this.results.every(result => result !== undefined);
+    }
+
+    private accept(index: number): void {
+        const result = this.results[index];
+        if (!result) return;
+
+        this.element.querySelectorAll<HTMLButtonElement>('.ai-compare__accept').forEach(button => {
+            button.disabled = true;
+        });
+        this.getColumn(index)?.classList.add('ai-compare__column--accepted');
+        this.options.onAccept(result, index);
+    }
+
+    private renderText(text: string): string {
+        if (!text) return '';
+        return this.options.renderContent ? this.options.renderContent(text) : SecurityUtils.escapeHtml(text);
+    }
+
+    private getColumn(index: number): HTMLElement | null {
+        return index >= 0 && index < this.columns.length
+            ? this.element.querySelector(`[data-compare-index="${index}"]`)
+            : null;
+    }
+}
@@ -0,0 +1,47 @@
+/**
+ * Provider Comparison - Which providers a comparison uses and how results are summarized
+ */
+
+import { TokenEstimator } from "../context";
+import { ValidationError } from "../utils/errors";
+import { MAX_COMPARE_PROVIDERS, MIN_COMPARE_PROVIDERS, type ComparisonResult } from "./types";
+
+export class ProviderComparison {
+    /**
+     * Providers to compare: the chosen ones that are configured, otherwise the active
+     * provider followed by the other configured ones (at most four)
+     * @param configured Configured providers in settings order
+     * @throws ValidationError When fewer than two providers are available
+     */
+    static selectProviders(configured: string[], chosen: string[] | undefined, active: string): string[] {
+        const selected = chosen?.length
+            ? chosen.filter(type => configured.includes(type))
+            : [...configured.filter(type => type === active), ...configured.filter(type => type !== active)];
+        const providers = [...new Set(selected)].slice(0, MAX_COMPARE_PROVIDERS);
+
+        if (providers.length < MIN_COMPARE_PROVIDERS) {
+            throw new ValidationError(chosen?.length
+                ? '对比模式至少需要选择两个已配置的提供商（设置 → 多模型对比）'
+                : '对比模式至少需要两个已配置 API Key 的提供商');
+        }
+        return providers;
+    }
+
+    /**
+     * Latency, tokens and cost of an answer, e.g. "2.4 秒 · 320 → 85 tokens · $0.0012"
+     * Output tokens are estimated when the provider did not report usage
+     */
+    static formatStats(result: ComparisonResult): string {
+        const parts = [`${(result.durationMs / 1000).toFixed(1)} 秒`];
+
+        if (result.usage) {
+            parts.push(`${result.usage.inputTokens} → ${result.usage.outputTokens} tokens`);
+        } else if (result.content) {
+            parts.push(`≈${TokenEstimator.estimateText(result.content)} tokens`);
+        }
+        if (result.cost !== undefined) {
+            parts.push(`$${result.cost.toFixed(4)}`);
+        }
+        return parts.join(' · ');
+    }
+}
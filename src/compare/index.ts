@@ -0,0 +1,10 @@
+/**
+ * 多模型对比模块
+ * 同一提示词并行发送给多个提供商，分栏显示结果、耗时与用量，一键采用其中一个
+ */
+
+export { ProviderComparison } from "./ProviderComparison";
+export { ComparisonView } from "./ComparisonView";
+export type { ComparisonViewOptions } from "./ComparisonView";
+export { MIN_COMPARE_PROVIDERS, MAX_COMPARE_PROVIDERS } from "./types";
+export type { ComparisonColumn, ComparisonResult } from "./types";
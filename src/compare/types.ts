@@ -0,0 +1,33 @@
+/**
+ * Provider comparison types
+ */
+
+import type { TokenUsage } from "../ai/types";
+
+/** Providers compared at the same time */
+export const MIN_COMPARE_PROVIDERS = 2;
+export const MAX_COMPARE_PROVIDERS = 4;
+
+/**
+ * A provider taking part in a comparison
+ */
+export interface ComparisonColumn {
+    provider: string;
+    name: string;
+    model: string;
+}
+
+/**
+ * One provider's answer
+ */
+export interface ComparisonResult extends ComparisonColumn {
+    /** Answer after filter rules (partial answer when the request failed) */
+    content: string;
+    /** Time until the answer was complete */
+    durationMs: number;
+    usage?: TokenUsage;
+    /** Estimated cost in USD */
+    cost?: number;
+    /** Error message when the request failed */
+    error?: string;
+}
@@ -0,0 +1,198 @@
+/**
+ * History Manager - Keeps chat history inside the model's context window
+ *
+ * When the estimated prompt exceeds the window minus the reserved output tokens:
+ * - The newest turns are kept (the last message always is)
+ * - Older turns are dropped, or summarized when a summarizer is set
+ * - The summary is prepended to the first kept user message, so the
+ *   user/assistant alternation required by some providers is preserved
+ *
+ * Summaries are cached and extended incrementally as more turns fall out
+ * of the window, so a long chat does not resummarize on every message.
+ */
+
+import type { Message } from "../claude/types";
+import { TokenEstimator } from "./TokenEstimator";
+
+/** Model limits used to compute the prompt budget */
+export interface ContextLimits {
+    /** Context window of the model (tokens) */
+    contextWindow: number;
+    /** Tokens reserved for the response */
+    maxTokens: number;
+}
+
+/**
+ * Summarize a prompt into a short text (typically with a cheap model)
+ */
+export type HistorySummarizer = (prompt: string, signal?: AbortSignal) => Promise<string>;
+
+/**
+ * Result of fitting a conversation into the context window
+ */
+export interface HistoryFitResult {
+    /** Messages to send */
+    messages: Message[];
+    /** Estimated prompt tokens of the messages and system prompt */
+    estimatedTokens: number;
+    /** Prompt budget (context window minus response and safety margin) */
+    budget: number;
+    /** Older messages left out of the prompt */
+    droppedCount: number;
+    /** Whether the dropped messages were replaced by a summary */
+    summarized: boolean;
+}
+
+/** Share of the window kept free to absorb estimation errors */
+const SAFETY_MARGIN = 0.05;
+
+/** Upper bound for the summary prepended to the kept history */
+const SUMMARY_MAX_TOKENS = 1024;
+
+/** Transcript sent to the summarizer (the most recent part is kept) */
+const TRANSCRIPT_MAX_CHARS = 48000;
+
+const SUMMARY_HEADER = '[Summary of the earlier conversation]';
+
+interface CachedSummary {
+    /** Number of leading messages covered by the summary */
+    count: number;
+    /** Fingerprint of those messages */
+    key: string;
+    text: string;
+}
+
+export class HistoryManager {
+    private summarizer: HistorySummarizer | null;
+    private summary: CachedSummary | null = null;
+
+    constructor(summarizer?: HistorySummarizer) {
+        this.summarizer = summarizer || null;
+    }
+
+    /**
+     * Prompt budget for the given limits
+     */
+    static getBudget(limits: ContextLimits): number {
+        const budget = limits.contextWindow - limits.maxTokens - Math.ceil(limits.contextWindow * SAFETY_MARGIN);
+        // Misconfigured maxTokens (>= window) must not leave room for nothing
+        return Math.max(budget, Math.floor(limits.contextWindow / 4));
+    }
+
+    /**
+     * Trim (and optionally summarize) a conversation to fit the context window
+     * @param signal Cancels a running summary request (older turns are then dropped)
+     */
+    async fit(messages: Message[], limits: ContextLimits, systemPrompt?: string, signal?: AbortSignal): Promise<HistoryFitResult> {
+        const budget = HistoryManager.getBudget(limits);
+        const total = TokenEstimator.estimatePrompt(messages, systemPrompt);
+        if (total <= budget || messages.length <= 1) {
+            return { messages, estimatedTokens: total, budget, droppedCount: 0, summarized: false };
+        }
+
+        const summaryReserve = this.summarizer ? Math.min(SUMMARY_MAX_TOKENS, Math.floor(budget / 4)) : 0;
+        const available = budget - TokenEstimator.estimatePrompt([], systemPrompt) - summaryReserve;
+
+        // Keep the newest messages that fit (always the last one)
+        let start = messages.length - 1;
+        let used = TokenEstimator.estimateMessage(messages[start]);
+        while (start > 0) {
+            const cost = TokenEstimator.estimateMessage(messages[start - 1]);
+            if (used + cost > available) break;
+            used += cost;
+            start--;
+        }
+
+        // The kept history must start with a user turn
+        while (start < messages.length - 1 && messages[start].role !== 'user') {
+            start++;
+        }
+
+        const dropped = messages.slice(0, start);
+        let kept = messages.slice(start);
+        let summarized = false;
+
+        if (this.summarizer && dropped.length > 0) {
+            try {
+                const summary = await this.summarize(dropped, signal);
+                if (summary) {
+                    kept = [
+                        { ...kept[0], content: `${SUMMARY_HEADER}\n${summary}\n\n---\n\n${kept[0].content}` },
+                        ...kept.slice(1)
+                    ];
+                    summarized = true;
+                }
+            } catch (error) {
+                console.warn('[HistoryManager] Summarization failed, dropping older turns instead:', error);
+            }
+        }
+
+        const estimatedTokens = TokenEstimator.estimatePrompt(kept, systemPrompt);
+        console.log(`[HistoryManager] History trimmed: ${dropped.length} of ${messages.length} messages ${summarized ? 'summarized' : 'dropped'}, ~${total} → ~${estimatedTokens} tokens (budget ${budget})`);
+        if (estimatedTokens > budget) {
+            console.warn('[HistoryManager] The latest message alone exceeds the context budget');
+        }
+
+        return { messages: kept, estimatedTokens, budget, droppedCount: dropped.length, summarized };
+    }
+
+    /**
+     * Forget the cached summary (new or switched conversation)
+     */
+    reset(): void {
+        this.summary = null;
+    }
+
+    /**
+     * Summarize the dropped messages, extending the cached summary when it covers a prefix
+     */
+    private async summarize(dropped: Message[], signal?: AbortSignal): Promise<string> {
+        const cached = this.summary;
+        const reusable = cached
+            && cached.count <= dropped.length
+            && HistoryManager.fingerprint(dropped.slice(0, cached.count)) === cached.key;
+
+        if (reusable && cached.count === dropped.length) {
+            return cached.text;
+        }
+
+        const newMessages = reusable ? dropped.slice(cached.count) : dropped;
+        const text = (await this.summarizer!(HistoryManager.buildSummaryPrompt(newMessages, reusable ? cached.text : undefined), signal)).trim();
+
+        if (text) {
+            this.summary = { count: dropped.length, key: HistoryManager.fingerprint(dropped), text };
+        }
+        return text;
+    }
+
+    private static buildSummaryPrompt(messages: Message[], previousSummary?: string): string {
+        let transcript = messages
+            .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}${m.images?.length ? ` [${m.images.length} image(s)]` : ''}`)
+            .join('\n\n');
+        if (transcript.length > TRANSCRIPT_MAX_CHARS) {
+            transcript = '...' + transcript.slice(-TRANSCRIPT_MAX_CHARS);
+        }
+
+        return [
+            'Summarize the following conversation so it can replace the original turns as context for continuing the chat.',
+            'Keep facts, decisions, names, numbers and open questions; drop greetings and repetition.',
+            'Write in the language of the conversation, at most a few short paragraphs. Output only the summary.',
+            previousSummary ? `\nSummary of the conversation before these turns:\n${previousSummary}` : '',
+            `\nConversation:\n${transcript}`
+        ].join('\n');
+    }
+
+    /**
+     * Cheap content hash used to detect whether the summarized prefix changed
+     */
+    private static fingerprint(messages: Message[]): string {
+        let hash = 5381;
+        for (const message of messages) {
+            const text = `${message.role}:${message.content}\u0000`;
+            for (let i = 0; i < text.length; i++) {
+                hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+            }
+        }
+        return `${messages.length}:${hash >>> 0}`;
+    }
+}
@@ -0,0 +1,53 @@
+/**
+ * Token Estimator - Rough token counts without a provider tokenizer
+ *
+ * Heuristics:
+ * - CJK characters cost about one token each
+ * - Other text costs about one token per 4 characters
+ * - Each message adds a few tokens of role/formatting overhead
+ * - Images are counted at the typical cost of a ~1 megapixel image
+ *
+ * Estimates err on the high side so trimmed prompts still fit the window.
+ */
+
+import type { Message } from "../claude/types";
+
+/** Formatting overhead per message (role markers, separators) */
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/** Approximate cost of one image input */
+export const IMAGE_TOKENS = 1600;
+
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/g;
+
+export class TokenEstimator {
+    /**
+     * Estimate the tokens of a text
+     */
+    static estimateText(text: string): number {
+        if (!text) {
+            return 0;
+        }
+
+        const cjk = text.match(CJK_PATTERN)?.length ?? 0;
+        const other = text.length - cjk;
+        return cjk + Math.ceil(other / 4);
+    }
+
+    /**
+     * Estimate the tokens of a single message (text, images and overhead)
+     */
+    static estimateMessage(message: Message): number {
+        return MESSAGE_OVERHEAD_TOKENS
+            + this.estimateText(message.content)
+            + (message.images?.length ?? 0) * IMAGE_TOKENS;
+    }
+
+    /**
+     * Estimate the prompt tokens of a request (system prompt and messages)
+     */
+    static estimatePrompt(messages: Message[], systemPrompt?: string): number {
+        const system = systemPrompt ? this.estimateText(systemPrompt) + MESSAGE_OVERHEAD_TOKENS : 0;
+        return messages.reduce((sum, message) => sum + this.estimateMessage(message), system);
+    }
+}
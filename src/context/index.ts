@@ -0,0 +1,8 @@
+/**
+ * 上下文窗口模块
+ * 估算提示词 token 数，在超出模型上下文窗口时裁剪或摘要较早的对话轮次
+ */
+
+export { TokenEstimator, MESSAGE_OVERHEAD_TOKENS, IMAGE_TOKENS } from "./TokenEstimator";
+export { HistoryManager } from "./HistoryManager";
+export type { ContextLimits, HistorySummarizer, HistoryFitResult } from "./HistoryManager";
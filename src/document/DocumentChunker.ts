@@ -0,0 +1,119 @@
+/**
+ * Document Chunker - Split markdown into chunks that fit a token budget
+ *
+ * Chunks end on block boundaries (blank lines outside code fences); a heading
+ * starts a new chunk once the current one is half full, so sections tend to
+ * stay together. Blocks larger than the budget are split by lines.
+ */
+
+import { TokenEstimator } from "../context";
+
+const HEADING_REGEX = /^#{1,6}\s/;
+const FENCE_REGEX = /^\s*(```|~~~)/;
+
+export class DocumentChunker {
+    /**
+     * Split markdown into chunks of at most `maxTokens` estimated tokens
+     */
+    static split(markdown: string, maxTokens: number): string[] {
+        const chunks: string[] = [];
+        let current: string[] = [];
+        let used = 0;
+
+        const flush = () => {
+            if (current.length > 0) {
+                chunks.push(current.join('\n\n'));
+                current = [];
+                used = 0;
+            }
+        };
+
+        for (const block of this.splitBlocks(markdown)) {
+            const cost = TokenEstimator.estimateText(block);
+
+            if (cost > maxTokens) {
+                flush();
+                chunks.push(...this.splitOversized(block, maxTokens));
+                continue;
+            }
+
+            const startsSection = HEADING_REGEX.test(block) && used > maxTokens / 2;
+            if (current.length > 0 && (used + cost > maxTokens || startsSection)) {
+                flush();
+            }
+            current.push(block);
+            used += cost;
+        }
+
+        flush();
+        return chunks;
+    }
+
+    /**
+     * Blocks separated by blank lines; code fences are kept in one block
+     */
+    static splitBlocks(markdown: string): string[] {
+        const blocks: string[] = [];
+        let lines: string[] = [];
+        let inFence = false;
+
+        for (const line of markdown.split('\n')) {
+            if (FENCE_REGEX.test(line)) {
+                inFence = !inFence;
+            }
+            if (!inFence && line.trim() === '') {
+                if (lines.length > 0) {
+                    blocks.push(lines.join('\n'));
+                    lines = [];
+                }
+                continue;
+            }
+            lines.push(line);
+        }
+
+        if (lines.length > 0) {
+            blocks.push(lines.join('\n'));
+        }
+        return blocks;
+    }
+
+    /**
+     * Split one block by lines (and overly long lines by characters)
+     */
+    private static splitOversized(block: string, maxTokens: number): string[] {
+        const pieces: string[] = [];
+        let current: string[] = [];
+        let used = 0;
+
+        const flush = () => {
+            if (current.length > 0) {
+                pieces.push(current.join('\n'));
+                current = [];
+                used = 0;
+            }
+        };
+
+        for (const line of block.split('\n')) {
+            const cost = TokenEstimator.estimateText(line);
+
+            // A single overlong line is cut into slices of about the budget
+            if (cost > maxTokens) {
+                flush();
+                const sliceLength = Math.max(1, Math.floor(maxTokens * line.length / cost));
+                for (let i = 0; i < line.length; i += sliceLength) {
+                    pieces.push(line.slice(i, i + sliceLength));
+                }
+                continue;
+            }
+
+            if (current.length > 0 && used + cost > maxTokens) {
+                flush();
+            }
+            current.push(line);
+            used += cost;
+        }
+
+        flush();
+        return pieces;
+    }
+}
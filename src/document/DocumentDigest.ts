@@ -0,0 +1,123 @@
+/**
+ * Document Digest - Summary, outline or key takeaways of a whole document
+ *
+ * Documents that fit the chunk budget are sent in one request. Longer ones
+ * are digested chunk by chunk through the map-reduce runner, and the partial
+ * digests are combined (in several rounds if they still exceed the budget).
+ */
+
+import { DocumentChunker } from "./DocumentChunker";
+import { MapReduceRunner } from "./MapReduceRunner";
+import type { DocumentDigestKind } from "./types";
+
+/**
+ * Send one prompt and return the answer
+ */
+export type DigestSender = (prompt: string) => Promise<string>;
+
+/**
+ * Progress of a digest (requests done / planned so far)
+ */
+export type DigestProgressCallback = (done: number, total: number) => void;
+
+export interface DigestOptions {
+    /** Parts digested at the same time */
+    concurrency?: number;
+    signal?: AbortSignal;
+    onProgress?: DigestProgressCallback;
+}
+
+/** Labels used in output titles */
+export const DIGEST_LABELS: Record<DocumentDigestKind, string> = {
+    summary: '摘要',
+    outline: '大纲',
+    takeaways: '要点'
+};
+
+const TASKS: Record<DocumentDigestKind, string> = {
+    summary: 'Write a concise summary of the document in a few short paragraphs. Keep the key facts, arguments and conclusions.',
+    outline: 'Write a hierarchical outline of the document as a nested markdown list that follows its structure. One short phrase per item.',
+    takeaways: 'List the 3 to 7 most important takeaways of the document as a markdown bullet list (TL;DR). One sentence per item.'
+};
+
+const PART_TASKS: Record<DocumentDigestKind, string> = {
+    summary: 'Summarize this part of the document, keeping the key facts, arguments and conclusions.',
+    outline: 'Write a hierarchical outline of this part of the document as a nested markdown list that follows its structure.',
+    takeaways: 'List the important points of this part of the document as a markdown bullet list.'
+};
+
+export class DocumentDigest {
+    constructor(private send: DigestSender) {}
+
+    /**
+     * Generate a digest of a document
+     * @param chunkTokens Token budget for the document content of one request
+     */
+    async generate(
+        title: string,
+        markdown: string,
+        kind: DocumentDigestKind,
+        chunkTokens: number,
+        options: DigestOptions = {}
+    ): Promise<string> {
+        const chunks = DocumentChunker.split(markdown, chunkTokens);
+        if (chunks.length === 0) {
+            throw new Error('文档内容为空');
+        }
+
+        if (chunks.length === 1) {
+            const answer = (await this.send(DocumentDigest.buildPrompt(kind, title, chunks[0]))).trim();
+            options.onProgress?.(1, 1);
+            return answer;
+        }
+
+        console.log(`[DocumentDigest] "${title}" split into ${chunks.length} chunks`);
+        const { result } = await MapReduceRunner.run(
+            chunks,
+            (chunk, index, total) => this.send(DocumentDigest.buildPartPrompt(kind, title, chunk, index, total)),
+            (partials, final) => this.send(DocumentDigest.buildCombinePrompt(kind, title, partials, final)),
+            {
+                concurrency: options.concurrency ?? 1,
+                reduceTokens: chunkTokens,
+                signal: options.signal,
+                onProgress: (progress) => options.onProgress?.(progress.done, progress.total)
+            }
+        );
+        return result;
+    }
+
+    static buildPrompt(kind: DocumentDigestKind, title: string, content: string): string {
+        return [
+            TASKS[kind],
+            'Write in the language of the document. Output only the result, without a title or preamble.',
+            '',
+            `Document: ${title}`,
+            '',
+            content
+        ].join('\n');
+    }
+
+    static buildPartPrompt(kind: DocumentDigestKind, title: string, content: string, index: number, total: number): string {
+        return [
+            PART_TASKS[kind],
+            'Write in the language of the document. Output only the result, without a title or preamble.',
+            '',
+            `Document: ${title} (part ${index + 1} of ${total})`,
+            '',
+            content
+        ].join('\n');
+    }
+
+    /**
+     * @param final Whether this produces the final digest (otherwise an intermediate merge)
+     */
+    static buildCombinePrompt(kind: DocumentDigestKind, title: string, partials: string[], final: boolean): string {
+        return [
+            `The following are digests of consecutive parts of the document "${title}".`,
+            final ? TASKS[kind] : PART_TASKS[kind],
+            'Merge them into one result without repeating points. Write in the language of the document. Output only the result, without a title or preamble.',
+            '',
+            ...partials.map((partial, i) => `--- Part ${i + 1} ---\n${partial}`)
+        ].join('\n');
+    }
+}
@@ -0,0 +1,187 @@
+/**
+ * Document Process Dialog - Run a preset over a long document
+ *
+ * Lets the user pick a preset, an instruction and an optional reduce prompt,
+ * then shows the map-reduce progress and every finished chunk result while
+ * the run continues. Cancelling aborts the run; finished results stay visible.
+ */
+
+import { Dialog, showMessage } from "siyuan";
+import type { PromptTemplate } from "../settings/config-types";
+import { SecurityUtils } from "../utils/Security";
+import type { MapReduceProgress } from "./MapReduceRunner";
+
+export interface DocumentProcessRequest {
+    preset: PromptTemplate;
+    instruction: string;
+    /** Empty to join the chunk results in order */
+    reducePrompt: string;
+}
+
+export interface DocumentProcessDialogOptions {
+    presets: PromptTemplate[];
+    defaultPresetId?: string;
+    title: string;
+    concurrency: number;
+    /**
+     * Process the document and save the result
+     * @returns Message shown when done
+     */
+    onRun: (
+        request: DocumentProcessRequest,
+        signal: AbortSignal,
+        onProgress: (progress: MapReduceProgress) => void
+    ) => Promise<string>;
+}
+
+export class DocumentProcessDialog {
+    private dialog: Dialog | null = null;
+    private options: DocumentProcessDialogOptions;
+    private abortController: AbortController | null = null;
+
+    constructor(options: DocumentProcessDialogOptions) {
+        this.options = options;
+    }
+
+    open(): void {
+        const { presets, defaultPresetId, title, concurrency } = this.options;
+        if (presets.length === 0) {
+            showMessage("没有可用的预设", 3000, "error");
+            return;
+        }
+
+        const presetOptions = presets.map(p => `
+            <option value="${SecurityUtils.escapeHtml(p.id)}" ${p.id === defaultPresetId ? 'selected' : ''}>
+                ${SecurityUtils.escapeHtml(p.icon ? `${p.icon} ${p.name}` : p.name)}
+            </option>
+        `).join('');
+
+        this.dialog = new Dialog({
+            title: `📚 长文档处理：${SecurityUtils.escapeHtml(title)}`,
+            content: `
+                <div class="b3-dialog__content document-process-dialog">
+                    <label class="fn__flex-column">
+                        <span class="ft__smaller ft__secondary">预设</span>
+                        <select class="b3-select fn__block" id="doc-process-preset">${presetOptions}</select>
+                    </label>
+                    <label class="fn__flex-column">
+                        <span class="ft__smaller ft__secondary">指令（替换预设中的 {instruction}）</span>
+                        <input class="b3-text-field fn__block" id="doc-process-instruction">
+                    </label>
+                    <label class="fn__flex-column">
+                        <span class="ft__smaller ft__secondary">合并提示词（留空则按顺序拼接各段结果）</span>
+                        <textarea class="b3-text-field fn__block" id="doc-process-reduce" rows="3"
+                            placeholder="将各部分的结果合并为一份完整的报告"></textarea>
+                    </label>
+                    <div class="ft__smaller ft__secondary">
+                        文档按标题和块边界分段，同时处理 ${concurrency} 段（设置中的最大并发编辑数），结果保存为子文档。
+                    </div>
+                    <div class="document-process-dialog__status fn__none" id="doc-process-status">
+                        <div class="claude-queue-batch__progress"><div style="width: 0%;"></div></div>
+                        <span class="ft__smaller ft__secondary" id="doc-process-stats"></span>
+                        <div class="document-process-dialog__partials" id="doc-process-partials"></div>
+                    </div>
+                </div>
+                <div class="b3-dialog__action">
+                    <button class="b3-button b3-button--cancel" id="doc-process-cancel">取消</button>
+                    <div class="fn__space"></div>
+                    <button class="b3-button b3-button--text" id="doc-process-start">开始</button>
+                </div>
+            `,
+            width: "640px",
+            destroyCallback: () => {
+                this.abortController?.abort();
+                this.dialog = null;
+            }
+        });
+
+        const element = this.dialog.element;
+        const presetSelect = element.querySelector("#doc-process-preset") as HTMLSelectElement;
+        const updatePlaceholder = () => {
+            const preset = presets.find(p => p.id === presetSelect.value);
+            (element.querySelector("#doc-process-instruction") as HTMLInputElement).placeholder =
+                preset?.inputPlaceholder || "例如：将这部分内容改写得更简洁";
+        };
+        presetSelect.addEventListener("change", updatePlaceholder);
+        updatePlaceholder();
+
+        element.querySelector("#doc-process-cancel")?.addEventListener("click", () => {
+            if (this.abortController) {
+                this.abortController.abort();
+            } else {
+                this.dialog?.destroy();
+            }
+        });
+        element.querySelector("#doc-process-start")?.addEventListener("click", () => this.start());
+    }
+
+    private async start(): Promise<void> {
+        if (!this.dialog || this.abortController) return;
+        const element = this.dialog.element;
+
+        const presetId = (element.querySelector("#doc-process-preset") as HTMLSelectElement).value;
+        const preset = this.options.presets.find(p => p.id === presetId);
+        if (!preset) return;
+
+        const request: DocumentProcessRequest = {
+            preset,
+            instruction: (element.querySelector("#doc-process-instruction") as HTMLInputElement).value.trim(),
+            reducePrompt: (element.querySelector("#doc-process-reduce") as HTMLTextAreaElement).value.trim()
+        };
+
+        const startBtn = element.querySelector("#doc-process-start") as HTMLButtonElement;
+        const cancelBtn = element.querySelector("#doc-process-cancel") as HTMLButtonElement;
+        element.querySelectorAll<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>("select, input, textarea")
+            .forEach(input => input.disabled = true);
+        startBtn.disabled = true;
+        startBtn.textContent = "处理中...";
+        cancelBtn.textContent = "停止";
+        element.querySelector("#doc-process-status")?.classList.remove("fn__none");
+
+        this.abortController = new AbortController();
+        try {
+            const message = await this.options.onRun(request, this.abortController.signal, (progress) => this.renderProgress(progress));
+            showMessage(`✅ ${message}`, 3000, "info");
+            this.dialog?.destroy();
+        } catch (error) {
+            if (error instanceof Error && error.name === 'AbortError') {
+                this.setStats("已停止，已完成的部分结果保留在下方");
+            } else {
+                console.error("[DocumentProcess] Failed:", error);
+                this.setStats(`❌ ${error instanceof Error ? error.message : String(error)}`);
+            }
+            startBtn.textContent = "已结束";
+            cancelBtn.textContent = "关闭";
+        } finally {
+            this.abortController = null;
+        }
+    }
+
+    private renderProgress(progress: MapReduceProgress): void {
+        const element = this.dialog?.element;
+        if (!element) return;
+
+        const percent = progress.total > 0 ? Math.round(progress.done / progress.total * 100) : 0;
+        const bar = element.querySelector("#doc-process-status .claude-queue-batch__progress > div") as HTMLElement | null;
+        if (bar) bar.style.width = `${percent}%`;
+
+        const finished = progress.partials.filter(partial => partial !== undefined).length;
+        this.setStats(progress.phase === 'map'
+            ? `正在处理分段：${finished}/${progress.partials.length}`
+            : `正在合并结果：${progress.done}/${progress.total}`);
+
+        const list = element.querySelector("#doc-process-partials");
+        if (!list) return;
+        list.innerHTML = progress.partials.map((partial, i) => `
+            <details class="document-process-dialog__partial" ${partial === undefined ? '' : 'open'}>
+                <summary class="ft__smaller">第 ${i + 1} 段${partial === undefined ? '（等待中）' : ''}</summary>
+                ${partial === undefined ? '' : `<pre>${SecurityUtils.escapeHtml(partial)}</pre>`}
+            </details>
+        `).join('');
+    }
+
+    private setStats(text: string): void {
+        const stats = this.dialog?.element.querySelector("#doc-process-stats");
+        if (stats) stats.textContent = text;
+    }
+}
@@ -0,0 +1,112 @@
+/**
+ * Document Processor - Run a Quick Edit preset over a whole document
+ *
+ * The document is split into chunks on block boundaries and the preset's edit
+ * instruction is applied to each chunk ({original} is the chunk). An optional
+ * reduce prompt merges the chunk results into one answer; without it the
+ * results are joined in document order.
+ */
+
+import { PromptBuilder } from "../quick-edit/PromptBuilder";
+import { DocumentChunker } from "./DocumentChunker";
+import { MapReduceRunner } from "./MapReduceRunner";
+import type { MapReduceProgress, MapReduceResult } from "./MapReduceRunner";
+import type { DigestSender } from "./DocumentDigest";
+
+/** Context placeholders refer to neighbouring blocks and have no meaning for a chunk */
+const CONTEXT_PLACEHOLDER_REGEX = /\{(above|below|above_blocks|below_blocks)=\d+\}|\{custom=\(\([^)]*\)\)\}/gi;
+
+const DEFAULT_CHUNK_TEMPLATE = `{instruction}
+
+原文：
+{original}
+
+重要：只返回处理后的文本，不要添加任何前言、说明或解释。`;
+
+export interface DocumentProcessOptions {
+    /** Preset edit instruction template (defaults to a plain instruction + original template) */
+    template?: string;
+    /** Value of {instruction} */
+    instruction: string;
+    /** Document that block and document placeholders ({doc_title}, {tags} ...) refer to */
+    docId?: string;
+    /** Values of the preset's input variables ({var.name}) */
+    variables?: Record<string, string>;
+    /** Appended to every chunk prompt */
+    appendedPrompt?: string;
+    /** Merge instruction; omit to join the chunk results in order */
+    reducePrompt?: string;
+    /** Token budget for the document content of one request */
+    chunkTokens: number;
+    concurrency: number;
+    signal?: AbortSignal;
+    onProgress?: (progress: MapReduceProgress) => void;
+}
+
+export class DocumentProcessor {
+    constructor(private send: DigestSender) {}
+
+    async process(title: string, markdown: string, options: DocumentProcessOptions): Promise<MapReduceResult> {
+        const chunks = DocumentChunker.split(markdown, options.chunkTokens);
+        if (chunks.length === 0) {
+            throw new Error('文档内容为空');
+        }
+
+        console.log(`[DocumentProcessor] "${title}" split into ${chunks.length} chunks`);
+        const reducePrompt = options.reducePrompt?.trim();
+        return MapReduceRunner.run(
+            chunks,
+            async (chunk, index, total) => this.send(await DocumentProcessor.buildChunkPrompt(options, title, chunk, index, total)),
+            reducePrompt
+                ? (partials, final) => this.send(DocumentProcessor.buildReducePrompt(reducePrompt, title, partials, final))
+                : null,
+            {
+                concurrency: options.concurrency,
+                reduceTokens: options.chunkTokens,
+                signal: options.signal,
+                onProgress: options.onProgress
+            }
+        );
+    }
+
+    /**
+     * @throws {ValidationError} When the preset template has syntax errors
+     */
+    static async buildChunkPrompt(
+        options: Pick<DocumentProcessOptions, 'template' | 'instruction' | 'appendedPrompt' | 'docId' | 'variables'>,
+        title: string,
+        chunk: string,
+        index: number,
+        total: number
+    ): Promise<string> {
+        const template = (options.template || DEFAULT_CHUNK_TEMPLATE).replace(CONTEXT_PLACEHOLDER_REGEX, '');
+        const parts = [
+            await PromptBuilder.renderTemplate(template, {
+                blockIds: options.docId ? [options.docId] : [],
+                values: { instruction: options.instruction, original: chunk },
+                variables: options.variables
+            })
+        ];
+
+        if (total > 1) {
+            parts.push(`（这是文档「${title}」的第 ${index + 1}/${total} 部分）`);
+        }
+        if (options.appendedPrompt?.trim()) {
+            parts.push(options.appendedPrompt.trim());
+        }
+        return parts.join('\n\n');
+    }
+
+    /**
+     * @param final Whether this produces the final result (otherwise an intermediate merge)
+     */
+    static buildReducePrompt(reducePrompt: string, title: string, partials: string[], final: boolean): string {
+        return [
+            `以下是文档「${title}」各连续部分的处理结果。`,
+            final ? reducePrompt : `${reducePrompt}\n（这是中间合并步骤，请保留后续合并所需的全部信息。）`,
+            '只输出合并后的结果，不要添加前言或说明。',
+            '',
+            ...partials.map((partial, i) => `--- 第 ${i + 1} 部分 ---\n${partial}`)
+        ].join('\n');
+    }
+}
@@ -0,0 +1,154 @@
+/**
+ * Document Service - Read whole documents and write generated content back
+ *
+ * Reads the document kramdown (block attributes stripped) or its top-level
+ * blocks, and writes results as a callout at the top of the document, as a new
+ * child or sibling document, or block by block with attributes.
+ */
+
+import { SecurityUtils } from "../utils/Security";
+import { SiYuanApi } from "../utils/SiYuanApi";
+import type { DocumentBlock, DocumentContent } from "./types";
+
+/** Block attribute lists ({: id="..." ...}) on their own line or at the end of a line */
+const IAL_LINE_REGEX = /^\s*\{:[^}]*\}\s*$/;
+const IAL_TRAILING_REGEX = /\s*\{:[^}]*\}\s*$/;
+
+export class DocumentService {
+    /**
+     * Load a document with its kramdown content
+     */
+    static async loadDocument(docId: string): Promise<DocumentContent> {
+        const safeId = SecurityUtils.sanitizeBlockId(docId);
+
+        const rows = await SiYuanApi.sql(
+            `SELECT id, box, hpath, content FROM blocks WHERE id = '${safeId}' AND type = 'd' LIMIT 1`
+        );
+        if (!rows.length) {
+            throw new Error('文档不存在');
+        }
+
+        const data = await SiYuanApi.post('/api/block/getBlockKramdown', { id: safeId });
+        return {
+            id: safeId,
+            title: rows[0].content || '',
+            box: rows[0].box,
+            hpath: rows[0].hpath || '/',
+            markdown: this.stripAttributes(data?.kramdown || '')
+        };
+    }
+
+    /**
+     * Remove block attribute lists from kramdown, leaving plain markdown
+     */
+    static stripAttributes(kramdown: string): string {
+        return kramdown
+            .split('\n')
+            .filter(line => !IAL_LINE_REGEX.test(line))
+            .map(line => line.replace(IAL_TRAILING_REGEX, ''))
+            .join('\n')
+            .replace(/\n{3,}/g, '\n\n')
+            .trim();
+    }
+
+    /**
+     * Build a callout block (every line quoted so it stays one block)
+     */
+    static buildCallout(title: string, content: string, kind: string = 'TIP'): string {
+        return [`[!${kind}]`, `**${title}**`, '', content.trim()]
+            .join('\n')
+            .split('\n')
+            .map(line => line.length > 0 ? `> ${line}` : '>')
+            .join('\n');
+    }
+
+    /**
+     * Insert markdown as the first block of a document
+     * @returns ID of the inserted block
+     */
+    static async prependToDocument(docId: string, markdown: string): Promise<string | undefined> {
+        const data = await SiYuanApi.post('/api/block/prependBlock', {
+            dataType: 'markdown',
+            data: markdown,
+            parentID: SecurityUtils.sanitizeBlockId(docId)
+        });
+        return data?.[0]?.doOperations?.[0]?.id;
+    }
+
+    /**
+     * Create a child document below a document
+     * @returns ID of the created document
+     */
+    static async createChildDocument(parent: DocumentContent, title: string, markdown: string): Promise<string> {
+        return this.createDocument(parent.box, parent.hpath.replace(/\/+$/, ''), title, markdown);
+    }
+
+    /**
+     * Create a document next to a document (same parent)
+     * @returns ID of the created document
+     */
+    static async createSiblingDocument(sibling: DocumentContent, title: string, markdown: string): Promise<string> {
+        const parentPath = sibling.hpath.replace(/\/+$/, '').replace(/\/[^/]*$/, '');
+        return this.createDocument(sibling.box, parentPath, title, markdown);
+    }
+
+    private static async createDocument(box: string, parentPath: string, title: string, markdown: string): Promise<string> {
+        const safeTitle = title.replace(/[\/\\]/g, '-').trim() || 'Untitled';
+        return await SiYuanApi.post('/api/filetree/createDocWithMd', {
+            notebook: box,
+            path: `${parentPath}/${safeTitle}`,
+            markdown
+        }) as string;
+    }
+
+    /**
+     * Top-level blocks of a document in document order, with their markdown
+     */
+    static async getTopLevelBlocks(docId: string): Promise<DocumentBlock[]> {
+        const ids = await this.getChildBlockIds(docId);
+        const rows: DocumentBlock[] = [];
+
+        // Query in chunks to keep statements short
+        for (let i = 0; i < ids.length; i += 100) {
+            const chunk = ids.slice(i, i + 100);
+            const inList = chunk.map(id => `'${SecurityUtils.escapeSQLString(id)}'`).join(',');
+            rows.push(...await SiYuanApi.sql<DocumentBlock>(
+                `SELECT id, type, markdown FROM blocks WHERE id IN (${inList}) LIMIT ${chunk.length}`
+            ));
+        }
+
+        const byId = new Map(rows.map(row => [row.id, row]));
+        return ids
+            .map(id => byId.get(id))
+            .filter((row): row is DocumentBlock => !!row)
+            .map(row => ({ id: row.id, type: row.type, markdown: row.markdown || '' }));
+    }
+
+    /**
+     * IDs of the direct children of a block or document
+     */
+    static async getChildBlockIds(parentId: string): Promise<string[]> {
+        const children = await SiYuanApi.post('/api/block/getChildBlocks', {
+            id: SecurityUtils.sanitizeBlockId(parentId)
+        }) as Array<{ id: string }> | null;
+        return SecurityUtils.sanitizeBlockIds((children || []).map(child => child.id));
+    }
+
+    /**
+     * Append markdown as the last blocks of a document or container block
+     */
+    static async appendToBlock(parentId: string, markdown: string): Promise<void> {
+        await SiYuanApi.post('/api/block/appendBlock', {
+            dataType: 'markdown',
+            data: markdown,
+            parentID: SecurityUtils.sanitizeBlockId(parentId)
+        });
+    }
+
+    static async setBlockAttrs(blockId: string, attrs: Record<string, string>): Promise<void> {
+        await SiYuanApi.post('/api/attr/setBlockAttrs', {
+            id: SecurityUtils.sanitizeBlockId(blockId),
+            attrs
+        });
+    }
+}
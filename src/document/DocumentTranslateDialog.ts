@@ -0,0 +1,120 @@
+/**
+ * Document Translate Dialog - Starts a whole-document translation
+ *
+ * Lets the user pick the target language, the layout of the translated
+ * document and optionally a translation preset (system prompt and filter
+ * rules), then hands them to the plugin which runs the translation.
+ */
+
+import { Dialog, showMessage } from "siyuan";
+import type { PromptTemplate } from "../settings/config-types";
+import { SecurityUtils } from "../utils/Security";
+import { TRANSLATION_SOURCE_ATTR } from "./DocumentTranslator";
+import type { TranslationLayout } from "./types";
+
+export interface DocumentTranslateRequest {
+    language: string;
+    layout: TranslationLayout;
+    preset?: PromptTemplate;
+}
+
+export interface DocumentTranslateDialogOptions {
+    title: string;
+    /** Presets offered for the translation (usually the 'translation' category) */
+    presets: PromptTemplate[];
+    onStart: (request: DocumentTranslateRequest) => void;
+}
+
+const LAYOUT_LABELS: Record<TranslationLayout, string> = {
+    target: '仅译文',
+    interleaved: '原文与译文交替',
+    sideBySide: '左右对照（超级块）'
+};
+
+const COMMON_LANGUAGES = ['English', '简体中文', '繁體中文', '日本語', '한국어', 'Français', 'Deutsch', 'Español', 'Русский'];
+
+export class DocumentTranslateDialog {
+    private dialog: Dialog | null = null;
+    private options: DocumentTranslateDialogOptions;
+
+    constructor(options: DocumentTranslateDialogOptions) {
+        this.options = options;
+    }
+
+    open(): void {
+        const presetOptions = this.options.presets.map(p => `
+            <option value="${SecurityUtils.escapeHtml(p.id)}">
+                ${SecurityUtils.escapeHtml(p.icon ? `${p.icon} ${p.name}` : p.name)}
+            </option>
+        `).join('');
+
+        const layoutOptions = (Object.keys(LAYOUT_LABELS) as TranslationLayout[]).map(layout => `
+            <label class="fn__flex" style="gap: 6px; align-items: center;">
+                <input type="radio" name="doc-translate-layout" value="${layout}" ${layout === 'interleaved' ? 'checked' : ''}>
+                <span>${LAYOUT_LABELS[layout]}</span>
+            </label>
+        `).join('');
+
+        this.dialog = new Dialog({
+            title: `🌐 翻译文档：${SecurityUtils.escapeHtml(this.options.title)}`,
+            content: `
+                <div class="b3-dialog__content batch-edit-dialog">
+                    <label class="fn__flex-column">
+                        <span class="ft__smaller ft__secondary">目标语言</span>
+                        <input class="b3-text-field fn__block" id="doc-translate-language" list="doc-translate-languages" value="English">
+                        <datalist id="doc-translate-languages">
+                            ${COMMON_LANGUAGES.map(language => `<option value="${language}"></option>`).join('')}
+                        </datalist>
+                    </label>
+                    <label class="fn__flex-column">
+                        <span class="ft__smaller ft__secondary">预设（使用其系统提示词和过滤规则）</span>
+                        <select class="b3-select fn__block" id="doc-translate-preset">
+                            <option value="">默认</option>
+                            ${presetOptions}
+                        </select>
+                    </label>
+                    <span class="ft__smaller ft__secondary">布局</span>
+                    ${layoutOptions}
+                    <div class="fn__hr"></div>
+                    <div class="ft__smaller ft__secondary">
+                        译文保存为同级文档；代码、公式等块原样保留，每个译文块记录原文块 ID（${TRANSLATION_SOURCE_ATTR}）。
+                    </div>
+                </div>
+                <div class="b3-dialog__action">
+                    <button class="b3-button b3-button--cancel" id="doc-translate-cancel">取消</button>
+                    <div class="fn__space"></div>
+                    <button class="b3-button b3-button--text" id="doc-translate-start">开始</button>
+                </div>
+            `,
+            width: "480px",
+            destroyCallback: () => {
+                this.dialog = null;
+            }
+        });
+
+        const element = this.dialog.element;
+        element.querySelector("#doc-translate-cancel")?.addEventListener("click", () => this.dialog?.destroy());
+        element.querySelector("#doc-translate-start")?.addEventListener("click", () => this.start());
+    }
+
+    private start(): void {
+        if (!this.dialog) return;
+        const element = this.dialog.element;
+
+        const language = (element.querySelector("#doc-translate-language") as HTMLInputElement).value.trim();
+        if (!language) {
+            showMessage("请输入目标语言", 2000, "error");
+            return;
+        }
+
+        const presetId = (element.querySelector("#doc-translate-preset") as HTMLSelectElement).value;
+        const checked = element.querySelector('input[name="doc-translate-layout"]:checked') as HTMLInputElement | null;
+
+        this.options.onStart({
+            language,
+            layout: (checked?.value as TranslationLayout) || 'interleaved',
+            preset: this.options.presets.find(p => p.id === presetId)
+        });
+        this.dialog.destroy();
+    }
+}
@@ -0,0 +1,272 @@
+/**
+ * Document Translator - Translate a document into a parallel document
+ *
+ * Top-level text blocks (paragraphs, headings, lists, quotes, tables) are sent
+ * in numbered batches so the block structure is kept; code, math, embeds and
+ * other blocks are copied as is. The result is laid out as translation only,
+ * interleaved with the source, or side by side in super blocks, and every
+ * translated block records its source block in an attribute so it can be
+ * re-synced later.
+ */
+
+import { TokenEstimator } from "../context";
+import { GlossaryMiddleware, type GlossaryConfig, type GlossaryViolation } from "../glossary";
+import { PromptBuilder } from "../quick-edit/PromptBuilder";
+import { DocumentService } from "./DocumentService";
+import { MapReduceRunner } from "./MapReduceRunner";
+import type { MapReduceProgress } from "./MapReduceRunner";
+import type { DigestSender } from "./DocumentDigest";
+import type { DocumentBlock, DocumentContent, TranslationLayout } from "./types";
+
+/** Attribute on translated blocks holding the source block ID */
+export const TRANSLATION_SOURCE_ATTR = 'custom-translation-source';
+
+/** Attribute on the translated document holding the target language */
+export const TRANSLATION_LANGUAGE_ATTR = 'custom-translation-language';
+
+/** Block types that are translated; everything else is copied */
+const TRANSLATABLE_TYPES = ['p', 'h', 'l', 'b', 't'];
+
+/** Source text per request; translations are about as long as the source */
+const BATCH_TOKENS = 1500;
+
+const MARKER_REGEX = /^\[\[(\d+)\]\]\s*$/;
+
+/**
+ * A top-level piece of the translated document
+ */
+export interface TranslationItem {
+    markdown: string;
+    /** Source block of the translated block(s); unset for copied blocks */
+    sourceId?: string;
+    /**
+     * Where the translated blocks are among the created blocks
+     * - all: every created block
+     * - superBlock: blocks in the second column of the created super block
+     */
+    placement: 'all' | 'superBlock';
+}
+
+export interface TranslateOptions {
+    concurrency: number;
+    /** Glossary added to the prompts; translations are checked (and fixed) against it */
+    glossary?: GlossaryConfig;
+    signal?: AbortSignal;
+    onProgress?: (progress: MapReduceProgress) => void;
+}
+
+export class DocumentTranslator {
+    private violations: GlossaryViolation[] = [];
+
+    constructor(private send: DigestSender) {}
+
+    /**
+     * Translate the text blocks of a document
+     * @returns Translated markdown by source block ID
+     */
+    async translate(blocks: DocumentBlock[], language: string, options: TranslateOptions): Promise<Map<string, string>> {
+        const translatable = blocks.filter(block => DocumentTranslator.isTranslatable(block));
+        const batches = DocumentTranslator.batch(translatable, BATCH_TOKENS);
+        const translations = new Map<string, string>();
+        const { glossary } = options;
+        const send = (prompt: string, source: string) =>
+            this.send(PromptBuilder.appendGlossary(prompt, glossary, source));
+        this.violations = [];
+
+        await MapReduceRunner.run(
+            batches.map(batch => batch.map(block => block.id).join(',')),
+            async (_ids, index) => {
+                const batch = batches[index];
+                const parsed = batch.length > 1
+                    ? DocumentTranslator.parseResponse(
+                        await send(DocumentTranslator.buildPrompt(batch, language), batch.map(block => block.markdown).join('\n\n')),
+                        batch.length
+                    )
+                    : [];
+
+                // Blocks missing from a batch answer (or sent alone) are translated one by one
+                for (let i = 0; i < batch.length; i++) {
+                    let translated = parsed[i]
+                        ?? (await send(DocumentTranslator.buildSinglePrompt(batch[i], language), batch[i].markdown)).trim();
+                    if (glossary) {
+                        const checked = GlossaryMiddleware.apply(glossary, batch[i].markdown, translated, "DocumentTranslate");
+                        translated = checked.text;
+                        this.violations.push(...checked.violations);
+                    }
+                    translations.set(batch[i].id, translated);
+                }
+                return batch.map(block => translations.get(block.id)).join('\n\n');
+            },
+            null,
+            { concurrency: options.concurrency, reduceTokens: BATCH_TOKENS, signal: options.signal, onProgress: options.onProgress }
+        );
+
+        return translations;
+    }
+
+    /**
+     * Glossary violations of the last translation
+     */
+    getViolations(): GlossaryViolation[] {
+        return this.violations;
+    }
+
+    static isTranslatable(block: DocumentBlock): boolean {
+        return TRANSLATABLE_TYPES.includes(block.type) && block.markdown.trim().length > 0;
+    }
+
+    static buildPrompt(blocks: DocumentBlock[], language: string): string {
+        return [
+            `Translate the following markdown blocks into ${language}.`,
+            'Each block starts with a marker line like [[1]]. Output every marker line unchanged, followed by the translation of its block.',
+            'Keep the markdown structure of each block: heading levels, list markers and nesting, table layout, links, inline code, formulas and block references. Do not translate code.',
+            'Output only the marked translations, without explanations.',
+            '',
+            ...blocks.map((block, i) => `[[${i + 1}]]\n${block.markdown}`)
+        ].join('\n');
+    }
+
+    static buildSinglePrompt(block: DocumentBlock, language: string): string {
+        return [
+            `Translate the following markdown into ${language}.`,
+            'Keep the markdown structure: heading levels, list markers and nesting, table layout, links, inline code, formulas and block references. Do not translate code.',
+            'Output only the translation, without explanations.',
+            '',
+            block.markdown
+        ].join('\n');
+    }
+
+    /**
+     * Split a batch answer at its marker lines
+     * @returns Translations by block position (missing or empty blocks are undefined)
+     */
+    static parseResponse(response: string, count: number): Array<string | undefined> {
+        const result: Array<string | undefined> = new Array(count).fill(undefined);
+        let index = -1;
+        let lines: string[] = [];
+
+        const flush = () => {
+            const text = lines.join('\n').trim();
+            if (index >= 0 && index < count && text && result[index] === undefined) {
+                result[index] = text;
+            }
+            lines = [];
+        };
+
+        for (const line of response.split('\n')) {
+            const match = MARKER_REGEX.exec(line.trim());
+            if (match) {
+                flush();
+                index = parseInt(match[1], 10) - 1;
+                continue;
+            }
+            lines.push(line);
+        }
+
+        flush();
+        return result;
+    }
+
+    /**
+     * Lay out the translated document; untranslated blocks are copied once
+     *
+     * Source and translation are written as separate items (or separate columns)
+     * so that e.g. two lists in a row are not merged into one.
+     */
+    static buildLayout(blocks: DocumentBlock[], translations: Map<string, string>, layout: TranslationLayout): TranslationItem[] {
+        return blocks.flatMap((block): TranslationItem[] => {
+            const translated = translations.get(block.id);
+            if (translated === undefined) {
+                return [{ markdown: block.markdown, placement: 'all' }];
+            }
+
+            switch (layout) {
+                case 'interleaved':
+                    return [
+                        { markdown: block.markdown, placement: 'all' },
+                        { markdown: translated, sourceId: block.id, placement: 'all' }
+                    ];
+                case 'sideBySide':
+                    return [{
+                        markdown: `{{{col\n{{{row\n${block.markdown}\n}}}\n\n{{{row\n${translated}\n}}}\n}}}`,
+                        sourceId: block.id,
+                        placement: 'superBlock'
+                    }];
+                default:
+                    return [{ markdown: translated, sourceId: block.id, placement: 'all' }];
+            }
+        });
+    }
+
+    /**
+     * Write the translated document next to the source document
+     * @returns ID of the created document
+     */
+    static async write(source: DocumentContent, title: string, language: string, items: TranslationItem[]): Promise<string> {
+        if (items.length === 0) {
+            throw new Error('文档内容为空');
+        }
+
+        // The document is created with the first item so it has no empty leading block
+        const docId = await DocumentService.createSiblingDocument(source, title, items[0].markdown);
+        await DocumentService.setBlockAttrs(docId, {
+            [TRANSLATION_SOURCE_ATTR]: source.id,
+            [TRANSLATION_LANGUAGE_ATTR]: language
+        });
+
+        let known = 0;
+        for (let i = 0; i < items.length; i++) {
+            if (i > 0) {
+                await DocumentService.appendToBlock(docId, items[i].markdown);
+            }
+
+            // Blocks created by this item are the children added since the previous one
+            const children = await DocumentService.getChildBlockIds(docId);
+            const created = children.slice(known);
+            known = children.length;
+            await this.markTranslated(items[i], created);
+        }
+
+        console.log(`[DocumentTranslator] Created ${docId} with ${items.length} blocks from ${source.id}`);
+        return docId;
+    }
+
+    private static async markTranslated(item: TranslationItem, created: string[]): Promise<void> {
+        if (!item.sourceId || created.length === 0) return;
+
+        let targets = created;
+        if (item.placement === 'superBlock') {
+            const columns = await DocumentService.getChildBlockIds(created[0]);
+            targets = columns[1] ? await DocumentService.getChildBlockIds(columns[1]) : [];
+        }
+
+        for (const id of targets) {
+            await DocumentService.setBlockAttrs(id, { [TRANSLATION_SOURCE_ATTR]: item.sourceId });
+        }
+    }
+
+    /**
+     * Consecutive blocks grouped to fit the budget
+     */
+    private static batch(blocks: DocumentBlock[], maxTokens: number): DocumentBlock[][] {
+        const batches: DocumentBlock[][] = [];
+        let current: DocumentBlock[] = [];
+        let used = 0;
+
+        for (const block of blocks) {
+            const cost = TokenEstimator.estimateText(block.markdown);
+            if (current.length > 0 && used + cost > maxTokens) {
+                batches.push(current);
+                current = [];
+                used = 0;
+            }
+            current.push(block);
+            used += cost;
+        }
+
+        if (current.length > 0) {
+            batches.push(current);
+        }
+        return batches;
+    }
+}
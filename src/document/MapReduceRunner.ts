@@ -0,0 +1,150 @@
+/**
+ * Map-Reduce Runner - Process documents larger than the context window
+ *
+ * Map: every chunk is processed on its own, with bounded concurrency.
+ * Reduce: the chunk results are merged by a reduce request; when they exceed
+ * the reduce budget they are merged in groups first (several rounds if needed).
+ * Without a reduce step the results are joined in document order
+ * (e.g. translation).
+ *
+ * Progress reports the finished chunk results so the UI can show them while
+ * the run continues; aborting the signal stops pending chunks and requests.
+ */
+
+import { TokenEstimator } from "../context";
+
+/**
+ * Process one chunk
+ */
+export type MapFunction = (chunk: string, index: number, total: number) => Promise<string>;
+
+/**
+ * Merge consecutive partial results
+ * @param final Whether this produces the final result (otherwise an intermediate merge)
+ */
+export type ReduceFunction = (partials: string[], final: boolean) => Promise<string>;
+
+export interface MapReduceProgress {
+    phase: 'map' | 'reduce';
+    /** Requests finished */
+    done: number;
+    /** Requests planned so far (grows when extra reduce rounds are needed) */
+    total: number;
+    /** Chunk results in document order (undefined until the chunk is done) */
+    partials: Array<string | undefined>;
+}
+
+export interface MapReduceOptions {
+    /** Chunks processed at the same time */
+    concurrency: number;
+    /** Token budget of the partial results merged in one reduce request */
+    reduceTokens: number;
+    signal?: AbortSignal;
+    onProgress?: (progress: MapReduceProgress) => void;
+}
+
+export interface MapReduceResult {
+    result: string;
+    /** Chunk results in document order */
+    partials: string[];
+}
+
+/** Reduce rounds before the remaining results are merged regardless of size */
+const MAX_REDUCE_ROUNDS = 3;
+
+export class MapReduceRunner {
+    static async run(
+        chunks: string[],
+        map: MapFunction,
+        reduce: ReduceFunction | null,
+        options: MapReduceOptions
+    ): Promise<MapReduceResult> {
+        const { signal, onProgress } = options;
+        const partials: Array<string | undefined> = new Array(chunks.length).fill(undefined);
+        let total = chunks.length + (reduce && chunks.length > 1 ? 1 : 0);
+        let done = 0;
+
+        // Map with a pool of workers taking the next chunk in order;
+        // once a chunk fails the other workers stop taking new chunks
+        let next = 0;
+        let failed = false;
+        const worker = async () => {
+            while (!failed && next < chunks.length) {
+                this.throwIfAborted(signal);
+                const index = next++;
+                try {
+                    partials[index] = (await map(chunks[index], index, chunks.length)).trim();
+                } catch (error) {
+                    failed = true;
+                    throw error;
+                }
+                done++;
+                onProgress?.({ phase: 'map', done, total, partials: [...partials] });
+            }
+        };
+        const workerCount = Math.max(1, Math.min(Math.floor(options.concurrency) || 1, chunks.length));
+        await Promise.all(Array.from({ length: workerCount }, worker));
+
+        const results = partials as string[];
+        if (!reduce || results.length <= 1) {
+            return { result: results.join('\n\n'), partials: results };
+        }
+
+        // Merge in groups while the results exceed the reduce budget
+        let merged = results;
+        for (let round = 0; round < MAX_REDUCE_ROUNDS; round++) {
+            if (TokenEstimator.estimateText(merged.join('\n\n')) <= options.reduceTokens) break;
+
+            const groups = this.group(merged, options.reduceTokens);
+            if (groups.length >= merged.length) break;
+
+            total += groups.length;
+            const combined: string[] = [];
+            for (const group of groups) {
+                this.throwIfAborted(signal);
+                combined.push((await reduce(group, false)).trim());
+                done++;
+                onProgress?.({ phase: 'reduce', done, total, partials: results });
+            }
+            merged = combined;
+        }
+
+        this.throwIfAborted(signal);
+        const result = (await reduce(merged, true)).trim();
+        onProgress?.({ phase: 'reduce', done: done + 1, total, partials: results });
+        return { result, partials: results };
+    }
+
+    /**
+     * Consecutive results grouped to fit the budget
+     */
+    private static group(items: string[], maxTokens: number): string[][] {
+        const groups: string[][] = [];
+        let current: string[] = [];
+        let used = 0;
+
+        for (const item of items) {
+            const cost = TokenEstimator.estimateText(item);
+            if (current.length > 0 && used + cost > maxTokens) {
+                groups.push(current);
+                current = [];
+                used = 0;
+            }
+            current.push(item);
+            used += cost;
+        }
+
+        if (current.length > 0) {
+            groups.push(current);
+        }
+        return groups;
+    }
+
+    private static throwIfAborted(signal?: AbortSignal): void {
+        if (signal?.aborted) {
+            const error = new Error('Request aborted');
+            error.name = 'AbortError';
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,24 @@
+/**
+ * 文档级 AI 模块
+ * 读取整篇文档，按块边界分段，生成摘要、大纲或要点，并写回文档顶部标注框或子文档
+ * 超出上下文窗口的长文档以 map-reduce 方式按段并发处理预设，再合并结果
+ * 整篇文档按块翻译为同级的双语文档，译文块记录原文块 ID 以便后续同步
+ */
+
+export { DocumentChunker } from "./DocumentChunker";
+export { DocumentDigest, DIGEST_LABELS } from "./DocumentDigest";
+export type { DigestSender, DigestProgressCallback, DigestOptions } from "./DocumentDigest";
+export { MapReduceRunner } from "./MapReduceRunner";
+export type { MapFunction, ReduceFunction, MapReduceProgress, MapReduceOptions, MapReduceResult } from "./MapReduceRunner";
+export { DocumentProcessor } from "./DocumentProcessor";
+export type { DocumentProcessOptions } from "./DocumentProcessor";
+export { DocumentTranslator, TRANSLATION_SOURCE_ATTR, TRANSLATION_LANGUAGE_ATTR } from "./DocumentTranslator";
+export type { TranslationItem, TranslateOptions } from "./DocumentTranslator";
+export { DocumentService } from "./DocumentService";
+export type {
+    DocumentDigestKind,
+    DocumentDigestTarget,
+    DocumentContent,
+    DocumentBlock,
+    TranslationLayout
+} from "./types";
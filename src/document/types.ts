@@ -0,0 +1,50 @@
+/**
+ * 文档级 AI 功能类型定义
+ */
+
+/**
+ * What to generate from a whole document
+ * - summary: a few paragraphs
+ * - outline: nested list following the document structure
+ * - takeaways: short list of key points (TL;DR)
+ */
+export type DocumentDigestKind = 'summary' | 'outline' | 'takeaways';
+
+/**
+ * Where the generated digest goes
+ * - callout: a callout block at the top of the document
+ * - childDoc: a new child document
+ */
+export type DocumentDigestTarget = 'callout' | 'childDoc';
+
+/**
+ * A document loaded for processing
+ */
+export interface DocumentContent {
+    id: string;
+    title: string;
+    /** Notebook ID */
+    box: string;
+    /** Human-readable path (e.g. "/Books/Notes") */
+    hpath: string;
+    /** Document markdown (kramdown without block attributes) */
+    markdown: string;
+}
+
+/**
+ * How a translated document is laid out
+ * - target: translated blocks only
+ * - interleaved: each source block followed by its translation
+ * - sideBySide: source and translation as columns of a super block
+ */
+export type TranslationLayout = 'target' | 'interleaved' | 'sideBySide';
+
+/**
+ * A top-level block of a document
+ */
+export interface DocumentBlock {
+    id: string;
+    /** Block type from the blocks table (p, h, l, t, c, ...) */
+    type: string;
+    markdown: string;
+}
@@ -10,15 +10,23 @@ import type {
     IAIEditProcessor
 } from './types';
 import * as DiffMatchPatch from 'diff-match-patch';
+import { PromptBuilder } from '../quick-edit/PromptBuilder';
+import { ContextExtractor } from '../quick-edit/ContextExtractor';
+import { PresetVariables } from '../quick-edit/PresetVariables';
+import { EditorHelper } from './EditorHelper';
+import { GlossaryLoader, GlossaryMiddleware, type GlossaryConfig, type GlossaryViolation } from '../glossary';
+import type { PromptTemplate } from '../settings/config-types';
 
 export class AIEditProcessor implements IAIEditProcessor {
     private client: ClaudeClient;
     private dmp: DiffMatchPatch.diff_match_patch;
     private activeRequests: Map<string, AbortController> = new Map();
+    private contextExtractor: ContextExtractor;
 
     constructor(claudeClient: ClaudeClient) {
         this.client = claudeClient;
         this.dmp = new DiffMatchPatch.diff_match_patch();
+        this.contextExtractor = new ContextExtractor(new EditorHelper());
     }
 
     /**
@@ -31,11 +39,16 @@ export class AIEditProcessor implements IAIEditProcessor {
         console.log(`[AIEdit] Processing selection ${selection.id}`);
 
         try {
-            // Build the prompt with context
-            const prompt = this.buildPrompt(
-                selection,
-                instruction || "请优化以下文本，保持格式一致"
-            );
+            // Preset edits (batch Quick Edit) use the preset's instruction, system prompt and filter rules
+            const preset = selection.presetId ? this.client.getPreset(selection.presetId) : undefined;
+
+            // Glossary (global + preset) for the prompt and the response check
+            const glossary = await GlossaryLoader.resolveAll(this.client.getGlossaries(selection.presetId));
+
+            // Preset templates are rendered like Quick Edit; free-form instructions get the tagged prompt
+            const prompt = preset?.editInstruction
+                ? await this.buildPresetPrompt(selection, preset, instruction, glossary)
+                : this.buildPrompt(selection, instruction || "请优化以下文本，保持格式一致", glossary);
 
             // Create abort controller for this request
             const abortController = new AbortController();
@@ -43,15 +56,24 @@ export class AIEditProcessor implements IAIEditProcessor {
 
             // Call Claude API (using simple non-streaming for now)
             const startTime = Date.now();
-            const response = await this.client.sendMessageSimple([
-                { role: "user", content: prompt }
-            ]);
+            const response = await this.client.sendMessageSimple(
+                [{ role: "user", content: prompt }],
+                selection.batchId ? "BatchEdit" : "QuickEdit",
+                selection.presetId ? this.client.getFilterRules(selection.presetId) : undefined,
+                preset?.systemPrompt,
+                selection.presetId
+            );
             const processingTime = Date.now() - startTime;
 
             console.log(`[AIEdit] AI response received in ${processingTime}ms for selection ${selection.id}`);
 
             // Parse the response
-            const editResult = this.parseAIResponse(response, selection.selectedText);
+            const editResult = this.parseAIResponse(response, selection.selectedText, glossary);
+
+            const usage = this.client.getLastUsage();
+            if (usage) {
+                editResult.usage = { inputTokens: usage.inputTokens, outputTokens: usage.outputTokens };
+            }
 
             // Cleanup
             this.activeRequests.delete(selection.id);
@@ -68,7 +90,7 @@ export class AIEditProcessor implements IAIEditProcessor {
     /**
      * Build a formatted prompt for AI with context tags
      */
-    buildPrompt(selection: TextSelection, instruction: string): string {
+    buildPrompt(selection: TextSelection, instruction: string, glossary?: GlossaryConfig): string {
         const parts: string[] = [];
 
         // Add context before if available
@@ -98,8 +120,9 @@ export class AIEditProcessor implements IAIEditProcessor {
         parts.push(instruction);
         parts.push('只输出修改后的「待编辑文本」部分的内容，保持格式一致，不要输出上文和下文。');
 
-        // Add appended prompt if available
-        const appendedPrompt = this.client.getAppendedPrompt();
+        // Add appended prompt if available (preset first, then global)
+        const preset = selection.presetId ? this.client.getPreset(selection.presetId) : undefined;
+        const appendedPrompt = preset?.appendedPrompt || this.client.getAppendedPrompt();
         if (appendedPrompt && appendedPrompt.trim()) {
             parts.push('');
             parts.push(appendedPrompt);
@@ -107,7 +130,7 @@ export class AIEditProcessor implements IAIEditProcessor {
 
         parts.push('</编辑指令>');
 
-        const finalPrompt = parts.join('\n');
+        const finalPrompt = PromptBuilder.appendGlossary(parts.join('\n'), glossary, selection.selectedText);
 
         console.log(`[AIEdit] Built prompt for selection ${selection.id}:`, {
             hasContextBefore: !!selection.contextBefore,
@@ -119,10 +142,44 @@ export class AIEditProcessor implements IAIEditProcessor {
         return finalPrompt;
     }
 
+    /**
+     * Render a preset's edit instruction for a selection, the same way Quick Edit does
+     * ({instruction}, {original}, context and document placeholders, template tags and
+     * input variables with their remembered or default values)
+     * @param instruction User instruction ({instruction}); the preset placeholder or name when not given
+     */
+    async buildPresetPrompt(
+        selection: TextSelection,
+        preset: PromptTemplate,
+        instruction?: string,
+        glossary?: GlossaryConfig
+    ): Promise<string> {
+        // The default placeholder is not an instruction (same rule as the Quick Edit popup)
+        const placeholder = preset.inputPlaceholder !== '输入编辑指令...' ? preset.inputPlaceholder?.trim() : undefined;
+        let prompt = await PromptBuilder.renderTemplate(preset.editInstruction || '', {
+            blockIds: [selection.blockId],
+            values: {
+                instruction: instruction || placeholder || preset.name,
+                original: selection.selectedText
+            },
+            contextExtractor: this.contextExtractor,
+            variables: preset.variables?.length ? PresetVariables.initialValues(preset.id, preset.variables) : undefined
+        });
+
+        const appendedPrompt = preset.appendedPrompt || this.client.getAppendedPrompt();
+        if (appendedPrompt && appendedPrompt.trim()) {
+            prompt += '\n\n' + appendedPrompt;
+        }
+
+        console.log(`[AIEdit] Built preset prompt for selection ${selection.id}: ${preset.name}, ${prompt.length} chars`);
+
+        return PromptBuilder.appendGlossary(prompt, glossary, selection.selectedText);
+    }
+
     /**
      * Parse AI response and generate diff
      */
-    parseAIResponse(response: string, original: string): EditResult {
+    parseAIResponse(response: string, original: string, glossary?: GlossaryConfig): EditResult {
         // Clean up the response
         let modified = response.trim();
 
@@ -134,6 +191,14 @@ export class AIEditProcessor implements IAIEditProcessor {
 
         modified = modified.trim();
 
+        // Flag (or fix) glossary violations before diffing, so the diff shows the fixed text
+        let glossaryViolations: GlossaryViolation[] | undefined;
+        if (glossary) {
+            const checked = GlossaryMiddleware.apply(glossary, original, modified, "Edit");
+            modified = checked.text;
+            glossaryViolations = checked.violations;
+        }
+
         // Generate diff patches using diff-match-patch
         const diffs = this.dmp.diff_main(original, modified);
         this.dmp.diff_cleanupSemantic(diffs);
@@ -161,7 +226,8 @@ export class AIEditProcessor implements IAIEditProcessor {
             original,
             modified,
             diff: patches,
-            completedAt: Date.now()
+            completedAt: Date.now(),
+            ...(glossaryViolations?.length && { glossaryViolations })
         };
     }
 
@@ -0,0 +1,128 @@
+/**
+ * Batch Block Collector - Collects editable blocks for batch Quick Edit
+ *
+ * Sources:
+ * - A whole document (paragraphs and headings in document order)
+ * - The result of a user-supplied SQL SELECT (rows must include the block id)
+ *
+ * Only leaf text blocks (paragraphs, headings) are collected; container blocks are
+ * walked through, and code blocks, tables, math etc. are skipped.
+ */
+
+import { SecurityUtils } from "../utils/Security";
+import { SiYuanApi } from "../utils/SiYuanApi";
+
+/** Block types sent to the AI */
+const EDITABLE_TYPES = ['p', 'h'];
+
+/** Container types walked through when collecting a document */
+const CONTAINER_TYPES = ['l', 'i', 'b', 's'];
+
+/** Upper bound for one batch */
+export const MAX_BATCH_BLOCKS = 300;
+
+/**
+ * A block to be edited in a batch
+ */
+export interface BatchBlock {
+    id: string;
+    type: string;
+    /** Block markdown (written back with /api/block/updateBlock) */
+    markdown: string;
+}
+
+/**
+ * Collected blocks and how many were left out
+ */
+export interface BatchCollectResult {
+    blocks: BatchBlock[];
+    /** Blocks skipped (empty, too long, not a text block or over the batch limit) */
+    skipped: number;
+}
+
+export class BatchBlockCollector {
+    /**
+     * Collect the text blocks of a document in document order
+     */
+    static async collectDocument(docId: string, maxTextLength: number): Promise<BatchCollectResult> {
+        const ids: string[] = [];
+        await this.walkChildren(SecurityUtils.sanitizeBlockId(docId), ids);
+
+        console.log(`[BatchEdit] Document ${docId} has ${ids.length} text blocks`);
+        return this.loadBlocks(ids, maxTextLength);
+    }
+
+    /**
+     * Collect the text blocks returned by a SQL query
+     * Rows without an id column and non-text blocks are skipped
+     */
+    static async collectQuery(stmt: string, maxTextLength: number): Promise<BatchCollectResult> {
+        const trimmed = stmt.trim().replace(/;\s*$/, '');
+        if (!/^select\b/i.test(trimmed)) {
+            throw new Error('Only SELECT statements are allowed');
+        }
+        if (trimmed.includes(';')) {
+            throw new Error('Only a single SQL statement is allowed');
+        }
+
+        const rows = await SiYuanApi.sql(trimmed);
+        const ids = Array.from(new Set(rows.map(row => row.id).filter((id): id is string => typeof id === 'string')));
+
+        const result = await this.loadBlocks(ids, maxTextLength);
+        result.skipped += rows.length - ids.length;
+        return result;
+    }
+
+    /**
+     * Walk child blocks depth-first, collecting text block IDs
+     */
+    private static async walkChildren(parentId: string, ids: string[]): Promise<void> {
+        const children = await SiYuanApi.post<Array<{ id: string; type: string }> | null>('/api/block/getChildBlocks', { id: parentId });
+
+        for (const child of children || []) {
+            if (EDITABLE_TYPES.includes(child.type)) {
+                ids.push(child.id);
+            } else if (CONTAINER_TYPES.includes(child.type)) {
+                await this.walkChildren(child.id, ids);
+            }
+        }
+    }
+
+    /**
+     * Load block markdown, keeping the order of `ids`
+     */
+    private static async loadBlocks(ids: string[], maxTextLength: number): Promise<BatchCollectResult> {
+        const rows: BatchBlock[] = [];
+
+        // Query in chunks to keep statements short
+        for (let i = 0; i < ids.length; i += 100) {
+            const chunk = SecurityUtils.sanitizeBlockIds(ids.slice(i, i + 100));
+            if (chunk.length === 0) continue;
+
+            const inList = chunk.map(id => `'${SecurityUtils.escapeSQLString(id)}'`).join(',');
+            rows.push(...await SiYuanApi.sql<BatchBlock>(
+                `SELECT id, type, markdown FROM blocks WHERE id IN (${inList}) LIMIT ${chunk.length}`
+            ));
+        }
+
+        const byId = new Map(rows.map(row => [row.id, row]));
+        const blocks: BatchBlock[] = [];
+        let skipped = 0;
+
+        for (const id of ids) {
+            const row = byId.get(id);
+            const markdown = row?.markdown?.trim();
+            if (!row || !EDITABLE_TYPES.includes(row.type) || !markdown || markdown.length > maxTextLength) {
+                skipped++;
+                continue;
+            }
+            if (blocks.length >= MAX_BATCH_BLOCKS) {
+                skipped++;
+                continue;
+            }
+            blocks.push({ id: row.id, type: row.type, markdown });
+        }
+
+        return { blocks, skipped };
+    }
+}
@@ -0,0 +1,142 @@
+/**
+ * Batch Edit Dialog - Starts a batch Quick Edit
+ *
+ * Lets the user pick a preset and a source (the current document or a SQL query),
+ * then hands both to the plugin which collects the blocks and enqueues them.
+ */
+
+import { Dialog, showMessage } from "siyuan";
+import type { PromptTemplate } from "../settings/config-types";
+import { SecurityUtils } from "../utils/Security";
+import { MAX_BATCH_BLOCKS } from "./BatchBlockCollector";
+
+/**
+ * Source of a batch: a document or a SQL query
+ */
+export type BatchSource =
+    | { type: 'document'; docId: string; title: string }
+    | { type: 'query'; stmt: string };
+
+export interface BatchEditDialogOptions {
+    presets: PromptTemplate[];
+    /** Preselected preset */
+    defaultPresetId?: string;
+    /** Current document (omit to allow SQL only) */
+    document?: { id: string; title: string };
+    maxConcurrentEdits: number;
+    /** Collect and enqueue; rejecting keeps the dialog open */
+    onStart: (preset: PromptTemplate, source: BatchSource) => Promise<void>;
+}
+
+export class BatchEditDialog {
+    private dialog: Dialog | null = null;
+    private options: BatchEditDialogOptions;
+
+    constructor(options: BatchEditDialogOptions) {
+        this.options = options;
+    }
+
+    open(): void {
+        const { presets, defaultPresetId, document: doc, maxConcurrentEdits } = this.options;
+        if (presets.length === 0) {
+            showMessage("没有可用的预设", 3000, "error");
+            return;
+        }
+
+        const presetOptions = presets.map(p => `
+            <option value="${SecurityUtils.escapeHtml(p.id)}" ${p.id === defaultPresetId ? 'selected' : ''}>
+                ${SecurityUtils.escapeHtml(p.icon ? `${p.icon} ${p.name}` : p.name)}
+            </option>
+        `).join('');
+
+        this.dialog = new Dialog({
+            title: "📋 批量 AI 编辑",
+            content: `
+                <div class="b3-dialog__content batch-edit-dialog">
+                    <label class="fn__flex-column">
+                        <span class="ft__smaller ft__secondary">预设</span>
+                        <select class="b3-select fn__block" id="batch-preset">${presetOptions}</select>
+                    </label>
+                    <div class="fn__hr"></div>
+                    <label class="fn__flex" style="gap: 6px; align-items: center;">
+                        <input type="radio" name="batch-source" value="document" ${doc ? 'checked' : 'disabled'}>
+                        <span>当前文档${doc ? `：${SecurityUtils.escapeHtml(doc.title)}` : '（未打开文档）'}</span>
+                    </label>
+                    <label class="fn__flex" style="gap: 6px; align-items: center;">
+                        <input type="radio" name="batch-source" value="query" ${doc ? '' : 'checked'}>
+                        <span>SQL 查询结果</span>
+                    </label>
+                    <textarea class="b3-text-field fn__block" id="batch-sql" rows="4" style="font-family: monospace;"
+                        placeholder="SELECT * FROM blocks WHERE content LIKE '%关键词%' AND type = 'p'" ${doc ? 'disabled' : ''}></textarea>
+                    <div class="fn__hr"></div>
+                    <div class="ft__smaller ft__secondary">
+                        仅处理段落和标题块，最多 ${MAX_BATCH_BLOCKS} 个；同时处理 ${maxConcurrentEdits} 个（设置中的最大并发编辑数）。
+                        修改不会自动写入，需在审阅列表中接受。
+                    </div>
+                </div>
+                <div class="b3-dialog__action">
+                    <button class="b3-button b3-button--cancel" id="batch-cancel">取消</button>
+                    <div class="fn__space"></div>
+                    <button class="b3-button b3-button--text" id="batch-start">开始</button>
+                </div>
+            `,
+            width: "560px",
+            destroyCallback: () => {
+                this.dialog = null;
+            }
+        });
+
+        const element = this.dialog.element;
+        const sqlInput = element.querySelector("#batch-sql") as HTMLTextAreaElement;
+
+        element.querySelectorAll('input[name="batch-source"]').forEach(radio => {
+            radio.addEventListener("change", () => {
+                sqlInput.disabled = this.getSourceType() !== 'query';
+                if (!sqlInput.disabled) sqlInput.focus();
+            });
+        });
+
+        element.querySelector("#batch-cancel")?.addEventListener("click", () => this.dialog?.destroy());
+        element.querySelector("#batch-start")?.addEventListener("click", () => this.start());
+    }
+
+    private getSourceType(): BatchSource['type'] {
+        const checked = this.dialog?.element.querySelector('input[name="batch-source"]:checked') as HTMLInputElement | null;
+        return checked?.value === 'document' ? 'document' : 'query';
+    }
+
+    private async start(): Promise<void> {
+        if (!this.dialog) return;
+        const element = this.dialog.element;
+
+        const presetId = (element.querySelector("#batch-preset") as HTMLSelectElement).value;
+        const preset = this.options.presets.find(p => p.id === presetId);
+        if (!preset) return;
+
+        let source: BatchSource;
+        if (this.getSourceType() === 'document' && this.options.document) {
+            source = { type: 'document', docId: this.options.document.id, title: this.options.document.title };
+        } else {
+            const stmt = (element.querySelector("#batch-sql") as HTMLTextAreaElement).value.trim();
+            if (!stmt) {
+                showMessage("请输入 SQL 查询", 2000, "error");
+                return;
+            }
+            source = { type: 'query', stmt };
+        }
+
+        const startBtn = element.querySelector("#batch-start") as HTMLButtonElement;
+        startBtn.disabled = true;
+        startBtn.textContent = "收集中...";
+
+        try {
+            await this.options.onStart(preset, source);
+            this.dialog?.destroy();
+        } catch (error) {
+            console.error("[BatchEdit] Failed to start batch:", error);
+            showMessage(`❌ ${error instanceof Error ? error.message : String(error)}`, 4000, "error");
+            startBtn.disabled = false;
+            startBtn.textContent = "开始";
+        }
+    }
+}
@@ -0,0 +1,231 @@
+/**
+ * Batch Edit Manager - Runs a preset over many blocks through the edit queue
+ *
+ * Features:
+ * - Enqueues one whole-block selection per collected block (processed up to maxConcurrentEdits at a time)
+ * - Aggregated progress per batch for the queue UI
+ * - Review decisions: accept-all, reject-all or per block
+ *
+ * @see BatchBlockCollector
+ * @see BatchReviewDialog
+ */
+
+import type { TextSelection } from './types';
+import type { TextSelectionManager } from './TextSelectionManager';
+import type { EditQueue } from './EditQueue';
+import type { DiffRenderer } from './DiffRenderer';
+import type { BatchBlock } from './BatchBlockCollector';
+
+export type BatchDecision = 'applied' | 'rejected';
+
+/**
+ * A batch of block edits run with one preset
+ */
+export interface EditBatch {
+    id: string;
+    /** Display label (document title or "SQL") */
+    label: string;
+    presetId: string;
+    presetName: string;
+    selectionIds: string[];
+    createdAt: number;
+}
+
+/**
+ * Aggregated batch progress
+ */
+export interface BatchProgress {
+    total: number;
+    pending: number;
+    processing: number;
+    completed: number;
+    error: number;
+    applied: number;
+    rejected: number;
+    /** Completed edits still waiting for a decision */
+    undecided: number;
+}
+
+export class BatchEditManager {
+    private batches: Map<string, EditBatch> = new Map();
+    private decisions: Map<string, BatchDecision> = new Map();
+    private manager: TextSelectionManager;
+    private queue: EditQueue;
+    private diffRenderer: DiffRenderer;
+    private idCounter = 0;
+
+    constructor(manager: TextSelectionManager, queue: EditQueue, diffRenderer: DiffRenderer) {
+        this.manager = manager;
+        this.queue = queue;
+        this.diffRenderer = diffRenderer;
+    }
+
+    /**
+     * Enqueue every block with the given preset
+     */
+    startBatch(blocks: BatchBlock[], preset: { id: string; name: string }, label: string): EditBatch {
+        const batch: EditBatch = {
+            id: `batch_${Date.now()}_${++this.idCounter}`,
+            label,
+            presetId: preset.id,
+            presetName: preset.name,
+            selectionIds: [],
+            createdAt: Date.now()
+        };
+        this.batches.set(batch.id, batch);
+
+        for (const block of blocks) {
+            const lineCount = block.markdown.split('\n').length;
+            const selection = this.manager.addSelection(
+                block.id,
+                0,
+                lineCount - 1,
+                block.markdown,
+                undefined,
+                { batchId: batch.id, presetId: preset.id }
+            );
+            batch.selectionIds.push(selection.id);
+            this.queue.enqueue(selection);
+        }
+
+        // Batches run even when autoProcessQueue is off
+        this.queue.startProcessing();
+
+        console.log(`[BatchEdit] Started batch ${batch.id} with ${blocks.length} blocks (preset: ${preset.name})`);
+        return batch;
+    }
+
+    getBatch(batchId: string): EditBatch | undefined {
+        return this.batches.get(batchId);
+    }
+
+    /**
+     * All batches that still have selections (oldest first)
+     */
+    getBatches(): EditBatch[] {
+        return Array.from(this.batches.values())
+            .filter(batch => this.getSelections(batch.id).length > 0)
+            .sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    /**
+     * Selections of a batch in block order
+     */
+    getSelections(batchId: string): TextSelection[] {
+        const batch = this.batches.get(batchId);
+        if (!batch) return [];
+
+        return batch.selectionIds
+            .map(id => this.manager.getSelection(id))
+            .filter((s): s is TextSelection => !!s);
+    }
+
+    getDecision(selectionId: string): BatchDecision | undefined {
+        return this.decisions.get(selectionId);
+    }
+
+    getProgress(batchId: string): BatchProgress {
+        const progress: BatchProgress = {
+            total: 0, pending: 0, processing: 0, completed: 0, error: 0, applied: 0, rejected: 0, undecided: 0
+        };
+
+        for (const selection of this.getSelections(batchId)) {
+            progress.total++;
+            const decision = this.decisions.get(selection.id);
+            if (decision) {
+                progress[decision]++;
+            }
+
+            switch (selection.status) {
+                case 'pending': progress.pending++; break;
+                case 'processing': progress.processing++; break;
+                case 'completed':
+                    progress.completed++;
+                    if (!decision) progress.undecided++;
+                    break;
+                case 'error':
+                case 'cancelled':
+                    progress.error++;
+                    break;
+            }
+        }
+
+        return progress;
+    }
+
+    /**
+     * Apply one completed edit to its block
+     */
+    async accept(selectionId: string): Promise<void> {
+        const selection = this.manager.getSelection(selectionId);
+        if (!selection?.editResult || this.decisions.has(selectionId)) {
+            return;
+        }
+
+        await this.diffRenderer.applyChanges(selection);
+        this.decisions.set(selectionId, 'applied');
+    }
+
+    /**
+     * Discard one completed edit
+     */
+    reject(selectionId: string): void {
+        const selection = this.manager.getSelection(selectionId);
+        if (!selection || this.decisions.has(selectionId)) {
+            return;
+        }
+
+        this.diffRenderer.rejectChanges(selection);
+        this.decisions.set(selectionId, 'rejected');
+    }
+
+    /**
+     * Apply all undecided completed edits (sequentially, so block updates do not race)
+     * @returns Number of applied and failed edits
+     */
+    async acceptAll(batchId: string): Promise<{ applied: number; failed: number }> {
+        let applied = 0;
+        let failed = 0;
+
+        for (const selection of this.getUndecided(batchId)) {
+            try {
+                await this.accept(selection.id);
+                applied++;
+            } catch (error) {
+                console.error(`[BatchEdit] Failed to apply ${selection.id}:`, error);
+                failed++;
+            }
+        }
+
+        return { applied, failed };
+    }
+
+    /**
+     * Discard all undecided completed edits
+     */
+    rejectAll(batchId: string): number {
+        const undecided = this.getUndecided(batchId);
+        undecided.forEach(selection => this.reject(selection.id));
+        return undecided.length;
+    }
+
+    /**
+     * Remove a batch and its selections from the queue
+     */
+    removeBatch(batchId: string): void {
+        const batch = this.batches.get(batchId);
+        if (!batch) return;
+
+        batch.selectionIds.forEach(id => {
+            this.manager.removeSelection(id);
+            this.decisions.delete(id);
+        });
+        this.batches.delete(batchId);
+        console.log(`[BatchEdit] Removed batch ${batchId}`);
+    }
+
+    private getUndecided(batchId: string): TextSelection[] {
+        return this.getSelections(batchId)
+            .filter(s => s.status === 'completed' && s.editResult && !this.decisions.has(s.id));
+    }
+}
@@ -0,0 +1,215 @@
+/**
+ * Batch Review Dialog - Review all diffs of a batch Quick Edit in one list
+ *
+ * Features:
+ * - One diff per block, updated live while the batch is processed
+ * - Accept-all / reject-all for completed edits
+ * - Per-block accept / reject
+ *
+ * Opened from the edit queue in UnifiedAIPanel or after starting a batch.
+ */
+
+import { Dialog, showMessage } from "siyuan";
+import type { BatchEditManager } from "./BatchEditManager";
+import type { TextSelectionManager } from "./TextSelectionManager";
+import type { DiffRenderer } from "./DiffRenderer";
+import type { EditEvent, TextSelection } from "./types";
+import { SecurityUtils } from "../utils/Security";
+import { Glossary } from "../glossary";
+
+export class BatchReviewDialog {
+    private dialog: Dialog | null = null;
+    private batchId: string;
+    private batchManager: BatchEditManager;
+    private selectionManager: TextSelectionManager;
+    private diffRenderer: DiffRenderer;
+    private onChanged?: () => void;
+    private eventListener = (event: EditEvent) => this.handleEditEvent(event);
+
+    constructor(
+        batchId: string,
+        batchManager: BatchEditManager,
+        selectionManager: TextSelectionManager,
+        diffRenderer: DiffRenderer,
+        onChanged?: () => void
+    ) {
+        this.batchId = batchId;
+        this.batchManager = batchManager;
+        this.selectionManager = selectionManager;
+        this.diffRenderer = diffRenderer;
+        this.onChanged = onChanged;
+    }
+
+    /**
+     * Open the review dialog
+     */
+    open(): void {
+        const batch = this.batchManager.getBatch(this.batchId);
+        if (!batch) {
+            showMessage("批量编辑已移除", 2000, "info");
+            return;
+        }
+
+        this.dialog = new Dialog({
+            title: `📋 批量编辑审阅 · ${SecurityUtils.escapeHtml(batch.label)} · ${SecurityUtils.escapeHtml(batch.presetName)}`,
+            content: `
+                <div class="batch-review">
+                    <div class="batch-review__toolbar">
+                        <span class="batch-review__summary" id="batch-review-summary"></span>
+                        <button class="b3-button b3-button--outline" id="batch-reject-all">全部拒绝</button>
+                        <button class="b3-button" id="batch-accept-all">全部接受</button>
+                    </div>
+                    <div class="batch-review__list" id="batch-review-list"></div>
+                </div>
+            `,
+            width: "900px",
+            height: "80vh",
+            destroyCallback: () => {
+                this.selectionManager.removeEventListener(this.eventListener);
+                this.dialog = null;
+            }
+        });
+
+        this.selectionManager.addEventListener(this.eventListener);
+
+        const list = this.dialog.element.querySelector("#batch-review-list") as HTMLElement;
+        this.batchManager.getSelections(this.batchId).forEach(selection => {
+            list.appendChild(this.createItem(selection));
+        });
+        this.updateSummary();
+
+        this.dialog.element.querySelector("#batch-accept-all")?.addEventListener("click", () => this.acceptAll());
+        this.dialog.element.querySelector("#batch-reject-all")?.addEventListener("click", () => this.rejectAll());
+    }
+
+    private handleEditEvent(event: EditEvent): void {
+        if (event.selection?.batchId !== this.batchId) {
+            return;
+        }
+        this.updateItem(event.selection.id);
+        this.updateSummary();
+    }
+
+    private createItem(selection: TextSelection): HTMLElement {
+        const item = document.createElement("div");
+        item.className = "batch-review__item";
+        item.dataset.selectionId = selection.id;
+
+        const decision = this.batchManager.getDecision(selection.id);
+        const header = document.createElement("div");
+        header.className = "batch-review__item-header";
+        header.innerHTML = `
+            <span>${this.getStatusIcon(selection)}</span>
+            <span class="batch-review__preview ft__smaller">${SecurityUtils.escapeHtml(selection.selectedText.substring(0, 60))}</span>
+            ${decision ? `<span class="ft__smaller ft__secondary">${decision === 'applied' ? '已接受' : '已拒绝'}</span>` : ''}
+        `;
+        item.appendChild(header);
+
+        if (selection.status === 'completed' && selection.editResult) {
+            if (!decision) {
+                const actions = document.createElement("div");
+                actions.className = "batch-review__actions";
+                actions.innerHTML = `
+                    <button class="b3-button b3-button--outline b3-button--small" data-action="reject">拒绝</button>
+                    <button class="b3-button b3-button--text b3-button--small" data-action="accept">接受</button>
+                `;
+                actions.querySelector('[data-action="accept"]')?.addEventListener("click", () => this.accept(selection.id));
+                actions.querySelector('[data-action="reject"]')?.addEventListener("click", () => this.reject(selection.id));
+                header.appendChild(actions);
+            }
+
+            const diff = document.createElement("div");
+            this.diffRenderer.renderDiff(
+                selection.editResult.original,
+                selection.editResult.modified,
+                diff,
+                (selection.editResult.glossaryViolations || []).map(violation => Glossary.describe(violation))
+            );
+            if (decision) {
+                diff.style.opacity = "0.5";
+            }
+            item.appendChild(diff);
+        } else if (selection.status === 'error' && selection.errorMessage) {
+            const error = document.createElement("div");
+            error.className = "ft__error ft__smaller";
+            error.textContent = `❌ ${selection.errorMessage}`;
+            item.appendChild(error);
+        }
+
+        return item;
+    }
+
+    private updateItem(selectionId: string): void {
+        const existing = this.dialog?.element.querySelector(`[data-selection-id="${selectionId}"]`);
+        const selection = this.selectionManager.getSelection(selectionId);
+        if (existing && selection) {
+            existing.replaceWith(this.createItem(selection));
+        }
+    }
+
+    private updateSummary(): void {
+        const summary = this.dialog?.element.querySelector("#batch-review-summary");
+        if (!summary) return;
+
+        const progress = this.batchManager.getProgress(this.batchId);
+        const done = progress.completed + progress.error;
+        summary.textContent = `${done}/${progress.total} 已处理` +
+            (progress.error ? ` · ${progress.error} 失败` : '') +
+            ` · ${progress.applied} 接受 · ${progress.rejected} 拒绝 · ${progress.undecided} 待审阅`;
+
+        const hasUndecided = progress.undecided > 0;
+        (this.dialog?.element.querySelector("#batch-accept-all") as HTMLButtonElement).disabled = !hasUndecided;
+        (this.dialog?.element.querySelector("#batch-reject-all") as HTMLButtonElement).disabled = !hasUndecided;
+    }
+
+    private async accept(selectionId: string): Promise<void> {
+        try {
+            await this.batchManager.accept(selectionId);
+        } catch (error) {
+            console.error("[BatchEdit] Failed to apply edit:", error);
+            showMessage("❌ 应用修改失败", 3000, "error");
+        }
+        this.refresh(selectionId);
+    }
+
+    private reject(selectionId: string): void {
+        this.batchManager.reject(selectionId);
+        this.refresh(selectionId);
+    }
+
+    private async acceptAll(): Promise<void> {
+        const { applied, failed } = await this.batchManager.acceptAll(this.batchId);
+        showMessage(failed > 0 ? `已应用 ${applied} 处修改，${failed} 处失败` : `✅ 已应用 ${applied} 处修改`, 3000, failed > 0 ? "error" : "info");
+        this.refresh();
+    }
+
+    private rejectAll(): void {
+        const count = this.batchManager.rejectAll(this.batchId);
+        showMessage(`已拒绝 ${count} 处修改`, 2000, "info");
+        this.refresh();
+    }
+
+    /**
+     * Re-render one item (or all) after a decision
+     */
+    private refresh(selectionId?: string): void {
+        if (selectionId) {
+            this.updateItem(selectionId);
+        } else {
+            this.batchManager.getSelections(this.batchId).forEach(s => this.updateItem(s.id));
+        }
+        this.updateSummary();
+        this.onChanged?.();
+    }
+
+    private getStatusIcon(selection: TextSelection): string {
+        switch (selection.status) {
+            case 'pending': return '⏸';
+            case 'processing': return '⏳';
+            case 'completed': return '✓';
+            case 'error': return '❌';
+            case 'cancelled': return '⊘';
+            default: return '?';
+        }
+    }
+}
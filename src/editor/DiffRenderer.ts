@@ -27,8 +27,9 @@ export class DiffRenderer implements IDiffRenderer {
     }
     /**
      * Render diff comparison in a container
+     * @param notes Warnings shown below the comparison (e.g. glossary violations)
      */
-    renderDiff(original: string, modified: string, container: HTMLElement): void {
+    renderDiff(original: string, modified: string, container: HTMLElement, notes: string[] = []): void {
         container.innerHTML = '';
         container.className = 'ai-edit-diff-container';
 
@@ -65,6 +66,13 @@ export class DiffRenderer implements IDiffRenderer {
         diffView.appendChild(originalColumn);
         diffView.appendChild(modifiedColumn);
         container.appendChild(diffView);
+
+        if (notes.length > 0) {
+            const notesView = document.createElement('div');
+            notesView.className = 'ai-edit-diff-notes';
+            notesView.innerHTML = `<div>术语检查</div><ul>${notes.map(note => `<li>${this.escapeHtml(note)}</li>`).join('')}</ul>`;
+            container.appendChild(notesView);
+        }
     }
 
     /**
@@ -133,6 +133,23 @@ export class EditQueue implements IEditQueue {
         }
     }
 
+    /**
+     * Start processing queued items up to maxConcurrentEdits without waiting for them
+     * Used for batches, which are processed even when autoProcessQueue is off
+     */
+    startProcessing(): void {
+        if (this.paused) {
+            return;
+        }
+
+        const freeSlots = Math.max(0, this.settings.maxConcurrentEdits - this.processing.size);
+        const count = Math.min(freeSlots, this.queue.length);
+        for (let i = 0; i < count; i++) {
+            // processNext marks the item as processing before its first await
+            this.processNext();
+        }
+    }
+
     /**
      * Pause queue processing
      */
@@ -30,7 +30,8 @@ export class TextSelectionManager implements ITextSelectionManager {
         startLine: number,
         endLine: number,
         selectedText: string,
-        instruction?: string
+        instruction?: string,
+        options: Pick<TextSelection, 'batchId' | 'presetId'> = {}
     ): TextSelection {
         const id = this.generateId();
 
@@ -52,7 +53,8 @@ export class TextSelectionManager implements ITextSelectionManager {
             timestamp: Date.now(),
             status: 'pending',
             customInstruction: instruction,
-            fullBlockContent
+            fullBlockContent,
+            ...options
         };
 
         this.selections.set(id, selection);
@@ -7,6 +7,10 @@ export { AIEditProcessor } from "./AIEditProcessor";
 export { DiffRenderer } from "./DiffRenderer";
 export { EditQueue } from "./EditQueue";
 export { EditHistory } from "./EditHistory";
+export { BatchBlockCollector } from "./BatchBlockCollector";
+export { BatchEditManager } from "./BatchEditManager";
+export { BatchEditDialog } from "./BatchEditDialog";
+export { BatchReviewDialog } from "./BatchReviewDialog";
 
 // Type exports
 export * from "./types";
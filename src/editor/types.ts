@@ -3,6 +3,7 @@
  */
 
 import type { FilterRule } from "../filter";
+import type { GlossaryConfig, GlossaryViolation } from "../glossary";
 
 /**
  * Custom instruction with optional diff display
@@ -58,6 +59,12 @@ export interface TextSelection {
 
     /** The entire block content (for reference) */
     fullBlockContent?: string;
+
+    /** Batch this selection belongs to (batch Quick Edit) */
+    batchId?: string;
+
+    /** Preset whose instruction, prompts and filter rules are used for this edit */
+    presetId?: string;
 }
 
 /**
@@ -81,6 +88,9 @@ export interface EditResult {
         inputTokens: number;
         outputTokens: number;
     };
+
+    /** Glossary rules broken by the response (modified is already fixed when auto-fix is on) */
+    glossaryViolations?: GlossaryViolation[];
 }
 
 /**
@@ -244,7 +254,7 @@ export type ProgressCallback = (progress: number, message: string) => void;
  * Interface for managing text selections
  */
 export interface ITextSelectionManager {
-    addSelection(blockId: string, startLine: number, endLine: number, selectedText: string, instruction?: string): TextSelection;
+    addSelection(blockId: string, startLine: number, endLine: number, selectedText: string, instruction?: string, options?: Pick<TextSelection, 'batchId' | 'presetId'>): TextSelection;
     getSelection(id: string): TextSelection | undefined;
     getAllSelections(): TextSelection[];
     updateStatus(id: string, status: TextSelection['status'], errorMessage?: string): void;
@@ -257,8 +267,8 @@ export interface ITextSelectionManager {
  */
 export interface IAIEditProcessor {
     processSelection(selection: TextSelection, instruction?: string): Promise<EditResult>;
-    buildPrompt(selection: TextSelection, instruction: string): string;
-    parseAIResponse(response: string, original: string): EditResult;
+    buildPrompt(selection: TextSelection, instruction: string, glossary?: GlossaryConfig): string;
+    parseAIResponse(response: string, original: string, glossary?: GlossaryConfig): EditResult;
     cancelEdit(selectionId: string): void;
 }
 
@@ -266,7 +276,7 @@ export interface IAIEditProcessor {
  * Interface for diff rendering
  */
 export interface IDiffRenderer {
-    renderDiff(original: string, modified: string, container: HTMLElement): void;
+    renderDiff(original: string, modified: string, container: HTMLElement, notes?: string[]): void;
     applyChanges(selection: TextSelection): Promise<boolean>;
     rejectChanges(selection: TextSelection): void;
     highlightDifferences(element: HTMLElement, patches: DiffPatch[]): void;
@@ -0,0 +1,179 @@
+/**
+ * Glossary - Parse, merge and enforce term pairs and forbidden words
+ *
+ * Text format (one entry per line, # starts a comment):
+ *   登录 = 登入          term pair (use the right side for the left side)
+ *   !非常非常            forbidden word
+ *
+ * Only entries whose term occurs in the original text are sent with a request;
+ * forbidden words are always sent. Latin terms match whole words, case-insensitively.
+ */
+
+import type { GlossaryConfig, GlossaryTerm, GlossaryViolation } from "./types";
+
+const PAIR_SEPARATOR_REGEX = /\s*(?:=>|→|=)\s*/;
+
+export interface GlossaryParseResult {
+    terms: GlossaryTerm[];
+    forbidden: string[];
+    errors: string[];
+}
+
+export class Glossary {
+    static parse(text: string): GlossaryParseResult {
+        const terms: GlossaryTerm[] = [];
+        const forbidden: string[] = [];
+        const errors: string[] = [];
+
+        text.split('\n').forEach((raw, i) => {
+            const line = raw.trim();
+            if (!line || line.startsWith('#')) return;
+
+            if (line.startsWith('!')) {
+                const word = line.slice(1).trim();
+                if (word) {
+                    forbidden.push(word);
+                } else {
+                    errors.push(`第 ${i + 1} 行：禁用词为空`);
+                }
+                return;
+            }
+
+            const [source, target, ...rest] = line.split(PAIR_SEPARATOR_REGEX);
+            if (!source || !target || rest.length > 0) {
+                errors.push(`第 ${i + 1} 行：应为「术语 = 规范写法」或「!禁用词」`);
+                return;
+            }
+            terms.push({ source, target });
+        });
+
+        return { terms, forbidden, errors };
+    }
+
+    static format(config: Pick<GlossaryConfig, 'terms' | 'forbidden'>): string {
+        return [
+            ...config.terms.map(term => `${term.source} = ${term.target}`),
+            ...config.forbidden.map(word => `!${word}`)
+        ].join('\n');
+    }
+
+    static isEmpty(config?: GlossaryConfig): boolean {
+        return !config || (config.terms.length === 0 && config.forbidden.length === 0);
+    }
+
+    /**
+     * Merge glossaries; later ones win for the same term and for autoFix
+     */
+    static merge(...configs: Array<GlossaryConfig | undefined>): GlossaryConfig {
+        const terms = new Map<string, GlossaryTerm>();
+        const forbidden = new Set<string>();
+        let autoFix: boolean | undefined;
+
+        for (const config of configs) {
+            if (!config) continue;
+            config.terms.forEach(term => terms.set(term.source.toLowerCase(), term));
+            config.forbidden.forEach(word => forbidden.add(word));
+            if (config.autoFix !== undefined) autoFix = config.autoFix;
+        }
+
+        return { terms: Array.from(terms.values()), forbidden: Array.from(forbidden), autoFix };
+    }
+
+    /**
+     * Entries that matter for a text: terms that occur in it and all forbidden words
+     */
+    static relevant(config: GlossaryConfig, text: string): GlossaryConfig {
+        return {
+            ...config,
+            terms: config.terms.filter(term => this.count(text, term.source) > 0),
+            forbidden: [...config.forbidden]
+        };
+    }
+
+    /**
+     * Prompt section listing the entries (empty when there are none)
+     */
+    static buildPromptSection(config: GlossaryConfig): string {
+        const lines: string[] = [];
+        if (config.terms.length > 0) {
+            lines.push('术语要求（必须遵守）：');
+            lines.push(...config.terms.map(term => `- 「${term.source}」统一写作「${term.target}」`));
+        }
+        if (config.forbidden.length > 0) {
+            lines.push(`禁止使用以下词语：${config.forbidden.map(word => `「${word}」`).join('、')}`);
+        }
+        return lines.join('\n');
+    }
+
+    /**
+     * Find the glossary rules a response breaks
+     * @param original Text the response was generated from (selects the relevant terms)
+     */
+    static check(config: GlossaryConfig, original: string, response: string): GlossaryViolation[] {
+        const violations: GlossaryViolation[] = [];
+
+        for (const term of this.relevant(config, original).terms) {
+            if (term.source.toLowerCase() === term.target.toLowerCase()) continue;
+
+            const kept = this.count(term.target, term.source) === 0 ? this.count(response, term.source) : 0;
+            if (kept > 0) {
+                violations.push({ kind: 'term', found: term.source, expected: term.target, count: kept, fixed: false });
+            } else if (this.count(response, term.target) === 0 && this.count(response, term.source) === 0) {
+                // Translated or rewritten without the preferred wording
+                violations.push({ kind: 'term', found: term.source, expected: term.target, count: 0, fixed: false });
+            }
+        }
+
+        for (const word of config.forbidden) {
+            const count = this.count(response, word);
+            if (count > 0) {
+                violations.push({ kind: 'forbidden', found: word, count, fixed: false });
+            }
+        }
+
+        return violations;
+    }
+
+    /**
+     * Replace kept source terms with their preferred wording
+     * Forbidden words and missing translations cannot be fixed and stay flagged
+     */
+    static fix(response: string, violations: GlossaryViolation[]): { text: string; violations: GlossaryViolation[] } {
+        let text = response;
+        const result = violations.map(violation => {
+            if (violation.kind !== 'term' || violation.count === 0 || violation.expected === undefined) {
+                return violation;
+            }
+            const expected = violation.expected;
+            text = text.replace(this.termRegex(violation.found), () => expected);
+            return { ...violation, fixed: true };
+        });
+        return { text, violations: result };
+    }
+
+    /**
+     * One-line description per violation (for the diff view)
+     */
+    static describe(violation: GlossaryViolation): string {
+        if (violation.kind === 'forbidden') {
+            return `禁用词「${violation.found}」出现 ${violation.count} 次`;
+        }
+        if (violation.count === 0) {
+            return `未使用规范译法「${violation.expected}」（原文：${violation.found}）`;
+        }
+        return violation.fixed
+            ? `已将「${violation.found}」替换为「${violation.expected}」（${violation.count} 处）`
+            : `「${violation.found}」应写作「${violation.expected}」（${violation.count} 处）`;
+    }
+
+    private static count(text: string, term: string): number {
+        return term ? (text.match(this.termRegex(term)) || []).length : 0;
+    }
+
+    private static termRegex(term: string): RegExp {
+        const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const start = /^\w/.test(term) ? '\\b' : '';
+        const end = /\w$/.test(term) ? '\\b' : '';
+        return new RegExp(`${start}${escaped}${end}`, 'gi');
+    }
+}
@@ -0,0 +1,131 @@
+/**
+ * Glossary Loader - Read glossary entries from a SiYuan table or database block
+ *
+ * The first column holds the term and the second its preferred wording; rows
+ * with an empty second column are forbidden words. Markdown tables skip their
+ * header row. Loaded entries are cached for a minute so every request does not
+ * query the block again.
+ */
+
+import { SecurityUtils } from "../utils/Security";
+import { SiYuanApi } from "../utils/SiYuanApi";
+import { Glossary } from "./Glossary";
+import type { GlossaryConfig } from "./types";
+
+const CACHE_TTL_MS = 60 * 1000;
+
+const AV_ID_REGEX = /data-av-id="([^"]+)"/;
+
+export class GlossaryLoader {
+    private static cache = new Map<string, { config: GlossaryConfig; loadedAt: number }>();
+
+    /**
+     * Glossary with the entries of its source block merged in (inline entries win)
+     * A source block that cannot be read is logged and skipped.
+     */
+    static async resolve(config?: GlossaryConfig): Promise<GlossaryConfig | undefined> {
+        if (!config?.sourceBlockId) return config;
+
+        try {
+            const loaded = await this.loadBlock(config.sourceBlockId);
+            return { ...Glossary.merge(loaded, config), sourceBlockId: config.sourceBlockId };
+        } catch (error) {
+            console.warn(`[GlossaryLoader] Failed to load glossary block ${config.sourceBlockId}:`, error);
+            return config;
+        }
+    }
+
+    /**
+     * Resolve and merge glossaries (later ones win)
+     * @returns Undefined when no entries remain
+     */
+    static async resolveAll(configs: GlossaryConfig[]): Promise<GlossaryConfig | undefined> {
+        const resolved = await Promise.all(configs.map(config => this.resolve(config)));
+        const merged = Glossary.merge(...resolved);
+        return Glossary.isEmpty(merged) ? undefined : merged;
+    }
+
+    /**
+     * Load the entries of a table block or database block
+     */
+    static async loadBlock(blockId: string): Promise<GlossaryConfig> {
+        const safeId = SecurityUtils.sanitizeBlockId(blockId);
+        const cached = this.cache.get(safeId);
+        if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+            return cached.config;
+        }
+
+        const rows = await SiYuanApi.sql(
+            `SELECT type, markdown FROM blocks WHERE id = '${safeId}' LIMIT 1`
+        );
+        if (!rows.length) {
+            throw new Error('术语表块不存在');
+        }
+
+        let cells: string[][];
+        if (rows[0].type === 't') {
+            cells = this.parseTable(rows[0].markdown || '');
+        } else if (rows[0].type === 'av') {
+            const avId = AV_ID_REGEX.exec(rows[0].markdown || '')?.[1];
+            if (!avId) {
+                throw new Error('无法读取数据库 ID');
+            }
+            cells = this.parseAttributeView(await SiYuanApi.post('/api/av/renderAttributeView', { id: avId }));
+        } else {
+            throw new Error('术语表块必须是表格或数据库');
+        }
+
+        const config = this.fromRows(cells);
+        this.cache.set(safeId, { config, loadedAt: Date.now() });
+        console.log(`[GlossaryLoader] Loaded ${config.terms.length} terms and ${config.forbidden.length} forbidden words from ${safeId}`);
+        return config;
+    }
+
+    /**
+     * Cell texts of a markdown table without its header and separator rows
+     */
+    static parseTable(markdown: string): string[][] {
+        return markdown
+            .split('\n')
+            .map(line => line.trim())
+            .filter(line => line.startsWith('|'))
+            .slice(2)
+            .map(line => line
+                .replace(/^\|/, '')
+                .replace(/\|$/, '')
+                .split(/(?<!\\)\|/)
+                .map(cell => cell.replace(/\\\|/g, '|').replace(/<br\s*\/?>/gi, ' ').trim()));
+    }
+
+    static fromRows(rows: string[][]): GlossaryConfig {
+        const terms: GlossaryConfig['terms'] = [];
+        const forbidden: string[] = [];
+
+        for (const [source = '', target = ''] of rows) {
+            if (!source) continue;
+            if (target) {
+                terms.push({ source, target });
+            } else {
+                forbidden.push(source);
+            }
+        }
+        return { terms, forbidden };
+    }
+
+    /**
+     * Cell texts of a rendered database view (first two columns)
+     */
+    private static parseAttributeView(data: any): string[][] {
+        const rows: any[] = data?.view?.rows || [];
+        return rows.map(row => ((row.cells || []) as any[]).slice(0, 2).map(cell => this.cellText(cell?.value)));
+    }
+
+    private static cellText(value: any): string {
+        if (!value) return '';
+        const text = value.block?.content
+            ?? value.text?.content
+            ?? (Array.isArray(value.mSelect) ? value.mSelect.map((option: any) => option.content).join(', ') : undefined)
+            ?? '';
+        return String(text).trim();
+    }
+}
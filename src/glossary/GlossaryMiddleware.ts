@@ -0,0 +1,58 @@
+/**
+ * Glossary Middleware - Flag or fix glossary violations in a response
+ *
+ * Checks the response against the glossary entries relevant to the original
+ * text. With autoFix, kept source terms are replaced by their preferred wording.
+ * The violations are stored in the filter context metadata under
+ * GLOSSARY_VIOLATIONS_KEY and kept on the middleware for the caller to display.
+ */
+
+import { FilterPipeline } from "../filter";
+import type { FilterContext, FilterMiddleware } from "../filter";
+import { Glossary } from "./Glossary";
+import type { GlossaryConfig, GlossaryViolation } from "./types";
+
+export const GLOSSARY_VIOLATIONS_KEY = 'glossaryViolations';
+
+export class GlossaryMiddleware implements FilterMiddleware {
+    readonly name = 'Glossary';
+    private violations: GlossaryViolation[] = [];
+
+    constructor(private glossary: GlossaryConfig, private original: string) {}
+
+    process(response: string, context: FilterContext): string {
+        const violations = Glossary.check(this.glossary, this.original, response);
+        const result = this.glossary.autoFix
+            ? Glossary.fix(response, violations)
+            : { text: response, violations };
+
+        this.violations = result.violations;
+        context.metadata.set(GLOSSARY_VIOLATIONS_KEY, result.violations);
+        if (result.violations.length > 0) {
+            console.log(`[Glossary] ${result.violations.length} violations in ${context.feature} response`);
+        }
+        return result.text;
+    }
+
+    /**
+     * Run a response through a glossary pipeline
+     */
+    static apply(
+        glossary: GlossaryConfig,
+        original: string,
+        response: string,
+        feature: string,
+        presetId?: string
+    ): { text: string; violations: GlossaryViolation[] } {
+        const middleware = new GlossaryMiddleware(glossary, original);
+        const text = new FilterPipeline().use(middleware).executeSync(response, feature, presetId);
+        return { text, violations: middleware.getViolations() };
+    }
+
+    /**
+     * Violations found in the last processed response
+     */
+    getViolations(): GlossaryViolation[] {
+        return this.violations;
+    }
+}
@@ -0,0 +1,10 @@
+/**
+ * 术语表模块
+ * 术语对与禁用词（配置或预设中维护，也可从表格块 / 数据库读取），注入提示词并检查、修正响应
+ */
+
+export { Glossary } from "./Glossary";
+export type { GlossaryParseResult } from "./Glossary";
+export { GlossaryLoader } from "./GlossaryLoader";
+export { GlossaryMiddleware, GLOSSARY_VIOLATIONS_KEY } from "./GlossaryMiddleware";
+export type { GlossaryConfig, GlossaryTerm, GlossaryViolation } from "./types";
@@ -0,0 +1,53 @@
+/**
+ * 术语表类型定义
+ * Term pairs and forbidden words enforced in edits and translations
+ */
+
+/**
+ * A term and the wording that must be used for it
+ * (an edit replaces `source` with `target`; a translation renders `source` as `target`)
+ */
+export interface GlossaryTerm {
+    source: string;
+    target: string;
+}
+
+/**
+ * Glossary stored in the profile settings or on a preset
+ */
+export interface GlossaryConfig {
+    terms: GlossaryTerm[];
+
+    /** Words that must not appear in responses */
+    forbidden: string[];
+
+    /**
+     * Table block or database block with more entries
+     * (columns: term, preferred wording; an empty preferred wording marks a forbidden word)
+     */
+    sourceBlockId?: string;
+
+    /** Replace wrong terms in responses instead of only flagging them */
+    autoFix?: boolean;
+}
+
+/**
+ * A glossary rule broken by a response
+ * - term: the source term was kept, or its preferred wording is missing
+ * - forbidden: a forbidden word appears
+ */
+export interface GlossaryViolation {
+    kind: 'term' | 'forbidden';
+
+    /** Text found in the response (or the source term whose translation is missing) */
+    found: string;
+
+    /** Wording that should have been used */
+    expected?: string;
+
+    /** Number of occurrences in the response */
+    count: number;
+
+    /** Whether the violation was fixed in the response */
+    fixed: boolean;
+}
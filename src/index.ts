@@ -15,17 +15,44 @@ import {
     AIEditProcessor,
     DiffRenderer,
     EditQueue,
-    EditHistory
+    EditHistory,
+    BatchBlockCollector,
+    BatchEditManager,
+    BatchEditDialog
 } from "./editor";
 import type { TextSelection } from "./editor/types";
-import { QuickEditManager } from "./quick-edit";
-import type { DockModel, BlockIconEvent, ContentMenuEvent } from "@/types/siyuan";
+import type { BatchSource } from "./editor/BatchEditDialog";
+import type { PromptTemplate } from "./settings/config-types";
+import { PresetVariables, QuickEditManager } from "./quick-edit";
+import { usageTracker } from "./usage";
+import { LogViewerPanel } from "./logger/LogViewerPanel";
+import { HistoryManager } from "./context";
+import {
+    DocumentDigest,
+    DocumentProcessor,
+    DocumentService,
+    DocumentTranslator,
+    DIGEST_LABELS,
+    type DocumentContent,
+    type DocumentDigestKind,
+    type DocumentDigestTarget
+} from "./document";
+import { DocumentProcessDialog } from "./document/DocumentProcessDialog";
+import { GlossaryLoader } from "./glossary";
+import { DocumentTranslateDialog, type DocumentTranslateRequest } from "./document/DocumentTranslateDialog";
+import type { DockModel, BlockIconEvent, ContentMenuEvent, DocTreeMenuEvent, EditorTitleMenuEvent, IMenu } from "@/types/siyuan";
 import { KeyboardShortcutFormatter } from "./utils/KeyboardShortcutFormatter";
 import { Logger, LogLevel } from "./utils/Logger";
 import { IS_DEV, getDefaultLogLevel } from "./config/environment";
 
 const PLUGIN_NAME = "siyuan-plugin-claude-assistant";
 
+/** Tokens of a document request (digest or long document processing) reserved for the instructions */
+const DIGEST_PROMPT_RESERVE = 1000;
+
+/** Smallest document chunk sent in one request */
+const MIN_DIGEST_CHUNK_TOKENS = 2000;
+
 export default class ClaudeAssistantPlugin extends Plugin {
     private settingsManager!: SettingsManager;
     private configManager!: ConfigManager;
@@ -41,6 +68,7 @@ export default class ClaudeAssistantPlugin extends Plugin {
     private diffRenderer: DiffRenderer | null = null;
     private editQueue: EditQueue | null = null;
     private editHistory: EditHistory | null = null;
+    private batchEditManager: BatchEditManager | null = null;
 
     // Quick Edit Mode
     private quickEditManager: QuickEditManager | null = null;
@@ -48,6 +76,8 @@ export default class ClaudeAssistantPlugin extends Plugin {
     // Event handlers for cleanup
     private blockIconHandler: ((event: CustomEvent<BlockIconEvent>) => void) | null = null;
     private contentMenuHandler: ((event: CustomEvent<ContentMenuEvent>) => void) | null = null;
+    private docTreeMenuHandler: ((event: CustomEvent<DocTreeMenuEvent>) => void) | null = null;
+    private editorTitleMenuHandler: ((event: CustomEvent<EditorTitleMenuEvent>) => void) | null = null;
 
     // Initialization promise to track when onload completes
     private initializationComplete: Promise<void> | null = null;
@@ -173,6 +203,17 @@ export default class ClaudeAssistantPlugin extends Plugin {
         this.claudeClient = new ClaudeClient(settings, this.configManager);
         this.claudeClient.setPlugin(this); // Set plugin instance for file storage access
         console.log("[Plugin] ClaudeClient initialized with plugin reference");
+        PresetVariables.init(this).catch(error =>
+            console.warn("[Plugin] Failed to load preset variable values:", error)
+        );
+
+        // Monthly budget warnings from token usage accounting
+        usageTracker.onBudgetWarning((level, spent, budget) => {
+            const message = level === 'exceeded'
+                ? `⚠️ 本月 AI 费用已超出预算: $${spent.toFixed(2)} / $${budget}`
+                : `⚠️ 本月 AI 费用已达预算的 ${Math.round(spent / budget * 100)}%: $${spent.toFixed(2)} / $${budget}`;
+            showMessage(message, 6000, level === 'exceeded' ? "error" : "info");
+        });
 
         // Migrate quickEditPromptTemplate to default preset (new two-level tab system)
         await this.migrateQuickEditToDefaultPreset();
@@ -250,6 +291,24 @@ export default class ClaudeAssistantPlugin extends Plugin {
             },
         });
 
+        // Batch Quick Edit command (current document or SQL results)
+        this.addCommand({
+            langKey: "batchQuickEdit",
+            hotkey: "",
+            editorCallback: (protyle) => {
+                this.openBatchEdit(protyle);
+            },
+        });
+
+        // Request log viewer command
+        this.addCommand({
+            langKey: "openRequestLogs",
+            hotkey: "",
+            callback: () => {
+                this.openLogViewer();
+            },
+        });
+
         // Signal that initialization is complete
         if (this.initializationResolver) {
             this.initializationResolver();
@@ -323,6 +382,9 @@ export default class ClaudeAssistantPlugin extends Plugin {
                                 plugin.diffRenderer,
                                 () => plugin.openSettings()
                             );
+                            if (plugin.batchEditManager) {
+                                plugin.unifiedPanel.setBatchEditManager(plugin.batchEditManager);
+                            }
                             element.innerHTML = '';
                             element.appendChild(plugin.unifiedPanel.getElement());
                             plugin.dockElement = element;
@@ -393,6 +455,14 @@ export default class ClaudeAssistantPlugin extends Plugin {
             this.eventBus.off("open-menu-content", this.contentMenuHandler);
             this.contentMenuHandler = null;
         }
+        if (this.docTreeMenuHandler) {
+            this.eventBus.off("open-menu-doctree", this.docTreeMenuHandler);
+            this.docTreeMenuHandler = null;
+        }
+        if (this.editorTitleMenuHandler) {
+            this.eventBus.off("click-editortitleicon", this.editorTitleMenuHandler);
+            this.editorTitleMenuHandler = null;
+        }
 
         // Cleanup UI components
         if (this.unifiedPanel) {
@@ -579,6 +649,9 @@ export default class ClaudeAssistantPlugin extends Plugin {
                 () => {
                     // Open Prompt Editor Panel
                     this.openPromptEditor();
+                },
+                () => {
+                    this.openLogViewer();
                 }
             );
 
@@ -606,6 +679,61 @@ export default class ClaudeAssistantPlugin extends Plugin {
         }
     }
 
+    /**
+     * Open the request log viewer (reads the saved log path of the active profile)
+     */
+    private openLogViewer(): void {
+        const settings = this.configManager.getActiveProfile().settings;
+        new LogViewerPanel(this.claudeClient, settings.requestLogPath || "").open();
+    }
+
+    /**
+     * Open the batch Quick Edit dialog for the document of the given editor
+     */
+    private openBatchEdit(protyle?: { block?: { rootID?: string }; title?: { element: HTMLElement } }): void {
+        if (!this.batchEditManager) {
+            showMessage("编辑功能未初始化", 3000, "error");
+            return;
+        }
+
+        const docId = protyle?.block?.rootID;
+        const title = protyle?.title?.element?.textContent?.trim() || docId || "";
+        const editSettings = this.configManager.getActiveProfile().settings.editSettings || DEFAULT_SETTINGS.editSettings!;
+
+        new BatchEditDialog({
+            presets: this.configManager.getAllTemplates(),
+            document: docId ? { id: docId, title } : undefined,
+            maxConcurrentEdits: editSettings.maxConcurrentEdits,
+            onStart: (preset, source) => this.startBatchEdit(preset, source, editSettings.maxTextLength)
+        }).open();
+    }
+
+    /**
+     * Collect the blocks of a batch source and enqueue them with the preset
+     */
+    private async startBatchEdit(preset: PromptTemplate, source: BatchSource, maxTextLength: number): Promise<void> {
+        const { blocks, skipped } = source.type === 'document'
+            ? await BatchBlockCollector.collectDocument(source.docId, maxTextLength)
+            : await BatchBlockCollector.collectQuery(source.stmt, maxTextLength);
+
+        if (blocks.length === 0) {
+            throw new Error(skipped > 0 ? `没有可编辑的块（已跳过 ${skipped} 个）` : "没有找到可编辑的块");
+        }
+
+        const label = source.type === 'document' ? source.title : "SQL";
+        this.batchEditManager!.startBatch(blocks, { id: preset.id, name: preset.name }, label);
+
+        showMessage(
+            `📋 已加入 ${blocks.length} 个块到编辑队列` + (skipped > 0 ? `（跳过 ${skipped} 个）` : ""),
+            3000,
+            "info"
+        );
+
+        if (!this.unifiedPanel) {
+            this.toggleDock();
+        }
+    }
+
     /**
      * Open Prompt Editor Panel
      */
@@ -699,6 +827,12 @@ export default class ClaudeAssistantPlugin extends Plugin {
             editSettings
         );
 
+        this.batchEditManager = new BatchEditManager(
+            this.textSelectionManager,
+            this.editQueue,
+            this.diffRenderer
+        );
+
         // Initialize Quick Edit Manager
         console.log("[AIEdit] Creating QuickEditManager...");
         this.quickEditManager = new QuickEditManager(
@@ -742,9 +876,249 @@ export default class ClaudeAssistantPlugin extends Plugin {
         };
         this.eventBus.on("open-menu-content", this.contentMenuHandler);
 
+        // Document tree and title menus - for document-level operations
+        this.docTreeMenuHandler = (event) => {
+            const { menu, elements, type } = event.detail;
+            const docId = type === "doc" ? elements[0]?.getAttribute("data-node-id") : null;
+            if (docId) {
+                this.addDocumentMenu(menu, docId);
+            }
+        };
+        this.eventBus.on("open-menu-doctree", this.docTreeMenuHandler);
+
+        this.editorTitleMenuHandler = (event) => {
+            const docId = event.detail.data?.rootID || event.detail.protyle?.block?.rootID;
+            if (docId) {
+                this.addDocumentMenu(event.detail.menu, docId);
+            }
+        };
+        this.eventBus.on("click-editortitleicon", this.editorTitleMenuHandler);
+
         console.log("[AIEdit] Context menu setup complete");
     }
 
+    /**
+     * Add the document digest items (summary / outline / takeaways), long document processing and translation to a document menu
+     */
+    private addDocumentMenu(menu: IMenu, docId: string): void {
+        const kinds: Array<{ kind: DocumentDigestKind; icon: string }> = [
+            { kind: "summary", icon: "iconAlignLeft" },
+            { kind: "outline", icon: "iconList" },
+            { kind: "takeaways", icon: "iconCheck" }
+        ];
+
+        menu.addSeparator();
+        menu.addItem({
+            icon: "iconFlash",
+            label: (this.i18n && typeof this.i18n.documentDigest === 'string' && this.i18n.documentDigest.trim())
+                ? this.i18n.documentDigest
+                : "AI 文档摘要",
+            type: "submenu",
+            submenu: kinds.map(({ kind, icon }) => ({
+                icon,
+                label: `生成${DIGEST_LABELS[kind]}`,
+                type: "submenu" as const,
+                submenu: [
+                    { label: "插入到文档顶部", click: () => this.runDocumentDigest(docId, kind, "callout") },
+                    { label: "新建子文档", click: () => this.runDocumentDigest(docId, kind, "childDoc") }
+                ]
+            }))
+        });
+        menu.addItem({
+            icon: "iconFile",
+            label: (this.i18n && typeof this.i18n.documentProcess === 'string' && this.i18n.documentProcess.trim())
+                ? this.i18n.documentProcess
+                : "AI 长文档处理",
+            click: () => this.openDocumentProcess(docId)
+        });
+        menu.addItem({
+            icon: "iconLanguage",
+            label: (this.i18n && typeof this.i18n.documentTranslate === 'string' && this.i18n.documentTranslate.trim())
+                ? this.i18n.documentTranslate
+                : "AI 翻译文档",
+            click: () => this.openDocumentTranslate(docId)
+        });
+    }
+
+    /**
+     * Ask for the target language and layout, then translate the document into a sibling document
+     */
+    private async openDocumentTranslate(docId: string): Promise<void> {
+        if (!this.claudeClient?.isConfigured()) {
+            showMessage("❌ 请先在设置中配置 AI 服务", 3000, "error");
+            return;
+        }
+
+        let doc: DocumentContent;
+        try {
+            doc = await DocumentService.loadDocument(docId);
+        } catch (error) {
+            showMessage(`❌ 读取文档失败: ${error instanceof Error ? error.message : String(error)}`, 5000, "error");
+            return;
+        }
+
+        new DocumentTranslateDialog({
+            title: doc.title,
+            presets: this.configManager.getAllTemplates().filter(p => p.category === "translation"),
+            onStart: (request) => this.runDocumentTranslation(doc, request)
+        }).open();
+    }
+
+    /**
+     * Translate the top-level text blocks of a document and write the chosen layout
+     */
+    private async runDocumentTranslation(doc: DocumentContent, request: DocumentTranslateRequest): Promise<void> {
+        const { language, layout, preset } = request;
+        const messageId = `document-translate-${doc.id}`;
+        try {
+            showMessage(`⏳ 正在读取文档块…`, -1, "info", messageId);
+            const blocks = await DocumentService.getTopLevelBlocks(doc.id);
+
+            const translator = new DocumentTranslator((prompt) => this.claudeClient.sendMessageSimple(
+                [{ role: "user", content: prompt }],
+                "DocumentTranslate",
+                this.claudeClient.getFilterRules(preset?.id),
+                preset?.systemPrompt,
+                preset?.id
+            ));
+            const editSettings = this.configManager.getActiveProfile().settings.editSettings || DEFAULT_SETTINGS.editSettings!;
+
+            showMessage(`⏳ 正在翻译…`, -1, "info", messageId);
+            const translations = await translator.translate(blocks, language, {
+                concurrency: editSettings.maxConcurrentEdits,
+                glossary: await GlossaryLoader.resolveAll(this.claudeClient.getGlossaries(preset?.id)),
+                onProgress: ({ done, total }) => {
+                    showMessage(`⏳ 正在翻译（${done}/${total}）…`, -1, "info", messageId);
+                }
+            });
+
+            showMessage(`⏳ 正在写入译文文档…`, -1, "info", messageId);
+            await DocumentTranslator.write(
+                doc,
+                `${doc.title} (${language})`,
+                language,
+                DocumentTranslator.buildLayout(blocks, translations, layout)
+            );
+            const violations = translator.getViolations().filter(violation => !violation.fixed).length;
+            showMessage(
+                `✅ 已翻译 ${translations.size} 个块，译文已保存为同级文档` + (violations > 0 ? `（${violations} 处不符合术语表）` : ""),
+                3000,
+                "info",
+                messageId
+            );
+        } catch (error) {
+            console.error("[DocumentTranslator] Failed:", error);
+            showMessage(`❌ 翻译文档失败: ${error instanceof Error ? error.message : String(error)}`, 5000, "error", messageId);
+        }
+    }
+
+    /**
+     * Run a preset over a whole document in chunks (map-reduce) and save the result as a child document
+     */
+    private async openDocumentProcess(docId: string): Promise<void> {
+        if (!this.claudeClient?.isConfigured()) {
+            showMessage("❌ 请先在设置中配置 AI 服务", 3000, "error");
+            return;
+        }
+
+        let doc: DocumentContent;
+        try {
+            doc = await DocumentService.loadDocument(docId);
+        } catch (error) {
+            showMessage(`❌ 读取文档失败: ${error instanceof Error ? error.message : String(error)}`, 5000, "error");
+            return;
+        }
+
+        const editSettings = this.configManager.getActiveProfile().settings.editSettings || DEFAULT_SETTINGS.editSettings!;
+        const chunkTokens = Math.max(
+            MIN_DIGEST_CHUNK_TOKENS,
+            HistoryManager.getBudget(this.claudeClient.getContextLimits()) - DIGEST_PROMPT_RESERVE
+        );
+
+        new DocumentProcessDialog({
+            // Chain presets and presets without an edit instruction have nothing to apply per chunk
+            presets: this.configManager.getAllTemplates().filter(p => !p.chain?.length && !!p.editInstruction?.trim()),
+            title: doc.title,
+            concurrency: editSettings.maxConcurrentEdits,
+            onRun: async ({ preset, instruction, reducePrompt }, signal, onProgress) => {
+                const processor = new DocumentProcessor((prompt) => this.claudeClient.sendMessageSimple(
+                    [{ role: "user", content: prompt }],
+                    "DocumentProcess",
+                    this.claudeClient.getFilterRules(preset.id),
+                    preset.systemPrompt,
+                    preset.id,
+                    undefined,
+                    signal
+                ));
+
+                const { result } = await processor.process(doc.title, doc.markdown, {
+                    template: preset.editInstruction,
+                    instruction,
+                    docId: doc.id,
+                    variables: PresetVariables.initialValues(preset.id, preset.variables || []),
+                    appendedPrompt: preset.appendedPrompt || this.claudeClient.getAppendedPrompt(),
+                    reducePrompt,
+                    chunkTokens,
+                    concurrency: editSettings.maxConcurrentEdits,
+                    signal,
+                    onProgress
+                });
+
+                await DocumentService.createChildDocument(doc, `${doc.title} - ${preset.name}`, result);
+                return "处理结果已保存为子文档";
+            }
+        }).open();
+    }
+
+    /**
+     * Summarize, outline or extract takeaways from a whole document
+     * Long documents are digested in chunks that fit the model context window
+     */
+    private async runDocumentDigest(docId: string, kind: DocumentDigestKind, target: DocumentDigestTarget): Promise<void> {
+        if (!this.claudeClient?.isConfigured()) {
+            showMessage("❌ 请先在设置中配置 AI 服务", 3000, "error");
+            return;
+        }
+
+        const label = DIGEST_LABELS[kind];
+        const messageId = `document-digest-${docId}`;
+        try {
+            showMessage(`⏳ 正在读取文档…`, -1, "info", messageId);
+            const doc = await DocumentService.loadDocument(docId);
+
+            const chunkTokens = Math.max(
+                MIN_DIGEST_CHUNK_TOKENS,
+                HistoryManager.getBudget(this.claudeClient.getContextLimits()) - DIGEST_PROMPT_RESERVE
+            );
+            const digest = new DocumentDigest((prompt) => this.claudeClient.sendMessageSimple(
+                [{ role: "user", content: prompt }],
+                "DocumentDigest",
+                this.claudeClient.getFilterRules()
+            ));
+
+            showMessage(`⏳ 正在生成${label}…`, -1, "info", messageId);
+            const result = await digest.generate(doc.title, doc.markdown, kind, chunkTokens, {
+                concurrency: (this.configManager.getActiveProfile().settings.editSettings || DEFAULT_SETTINGS.editSettings!).maxConcurrentEdits,
+                onProgress: (done, total) => {
+                    if (total > 1) {
+                        showMessage(`⏳ 正在生成${label}（${done}/${total}）…`, -1, "info", messageId);
+                    }
+                }
+            });
+
+            if (target === "callout") {
+                await DocumentService.prependToDocument(doc.id, DocumentService.buildCallout(`🤖 AI ${label}`, result));
+                showMessage(`✅ ${label}已插入到文档顶部`, 3000, "info", messageId);
+            } else {
+                await DocumentService.createChildDocument(doc, `${doc.title} - AI ${label}`, result);
+                showMessage(`✅ ${label}已保存为子文档`, 3000, "info", messageId);
+            }
+        } catch (error) {
+            console.error("[DocumentDigest] Failed:", error);
+            showMessage(`❌ 生成${label}失败: ${error instanceof Error ? error.message : String(error)}`, 5000, "error", messageId);
+        }
+    }
+
     /**
      * Handle block icon click event (for context menu)
      */
@@ -805,6 +1179,16 @@ export default class ClaudeAssistantPlugin extends Plugin {
             }
         });
 
+        menu.addItem({
+            icon: "iconList",
+            label: (this.i18n && typeof this.i18n.batchQuickEdit === 'string' && this.i18n.batchQuickEdit.trim())
+                ? this.i18n.batchQuickEdit
+                : "批量 AI 编辑",
+            click: () => {
+                this.openBatchEdit(protyle);
+            }
+        });
+
         // [REMOVED] "编辑整个块" menu item - 功能与 dock 的"已选中X个块"重复
         // [REMOVED] Custom instruction submenu - 默认不显示且功能未启用
 
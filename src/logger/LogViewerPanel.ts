@@ -0,0 +1,334 @@
+/**
+ * Log Viewer Panel - Browse and replay logged AI requests
+ *
+ * Features:
+ * - Lists entries from the request log directory (newest first)
+ * - Filters by feature, model, duration, errors and response filtering
+ * - Shows request and response side by side
+ * - Replays a logged request against the current or another provider to compare outputs
+ *
+ * This panel is opened from the logging section in SettingsPanelV3 or the command palette.
+ */
+
+import { Dialog, showMessage } from "siyuan";
+import { RequestLogger, type LogEntry, type LogFilter } from "./RequestLogger";
+import type { UniversalAIClient, ReplayResult } from "../claude";
+import { SecurityUtils } from "../utils/Security";
+
+export class LogViewerPanel {
+    private dialog: Dialog | null = null;
+    private client: UniversalAIClient;
+    private logPath: string;
+
+    private entries: LogEntry[] = [];
+    private filter: LogFilter = {};
+    private selectedId: string | null = null;
+
+    // Replay state (for the selected entry)
+    private replayProvider: string;
+    private replayResult: ReplayResult | null = null;
+    private replaying = false;
+
+    constructor(client: UniversalAIClient, logPath: string) {
+        this.client = client;
+        this.logPath = logPath;
+        this.replayProvider = client.getActiveProvider();
+    }
+
+    /**
+     * Open the log viewer dialog
+     */
+    open(): void {
+        console.log("[LogViewer] Opening log viewer panel");
+
+        if (!this.logPath) {
+            showMessage("请先在设置中配置日志保存路径", 3000, "info");
+            return;
+        }
+
+        this.dialog = new Dialog({
+            title: "🗂️ 请求日志",
+            content: `<div id="log-viewer-container" class="log-viewer"></div>`,
+            width: "1100px",
+            height: "80vh",
+            destroyCallback: () => {
+                console.log("[LogViewer] Dialog closed");
+                this.dialog = null;
+            }
+        });
+
+        this.loadEntries();
+
+        const container = this.dialog.element.querySelector("#log-viewer-container");
+        if (container) {
+            this.renderContent(container as HTMLElement);
+        }
+    }
+
+    /**
+     * Close the dialog
+     */
+    close(): void {
+        if (this.dialog) {
+            this.dialog.destroy();
+            this.dialog = null;
+        }
+    }
+
+    private loadEntries(): void {
+        this.entries = RequestLogger.readEntries(this.logPath);
+        console.log(`[LogViewer] Loaded ${this.entries.length} entries from ${this.logPath}`);
+    }
+
+    //#region Rendering
+
+    private renderContent(container: HTMLElement): void {
+        container.innerHTML = `
+            ${this.createFilterBar()}
+            <div class="log-viewer__body">
+                <div class="log-viewer__list" id="log-viewer-list"></div>
+                <div class="log-viewer__detail" id="log-viewer-detail"></div>
+            </div>
+        `;
+
+        this.attachFilterListeners(container);
+        this.renderList(container);
+        this.renderDetail(container);
+    }
+
+    private createFilterBar(): string {
+        const features = Array.from(new Set(this.entries.map(e => e.feature))).sort();
+        const models = Array.from(new Set(this.entries.map(e => e.request.model))).sort();
+        const options = (values: string[], selected?: string) => values
+            .map(v => `<option value="${this.escapeHtml(v)}" ${v === selected ? 'selected' : ''}>${this.escapeHtml(v)}</option>`)
+            .join('');
+
+        return `
+            <div class="log-viewer__filters">
+                <select class="b3-select" id="log-filter-feature">
+                    <option value="">全部功能</option>
+                    ${options(features, this.filter.feature)}
+                </select>
+                <select class="b3-select" id="log-filter-model">
+                    <option value="">全部模型</option>
+                    ${options(models, this.filter.model)}
+                </select>
+                <input class="b3-text-field" type="number" id="log-filter-duration" min="0" step="500"
+                    placeholder="最短耗时 (ms)" value="${this.filter.minDurationMs ?? ''}" style="width: 130px;">
+                <label class="log-viewer__check">
+                    <input type="checkbox" id="log-filter-errors" ${this.filter.errorsOnly ? 'checked' : ''}> 仅失败
+                </label>
+                <label class="log-viewer__check">
+                    <input type="checkbox" id="log-filter-filtered" ${this.filter.filteredOnly ? 'checked' : ''}> 仅已过滤
+                </label>
+                <input class="b3-text-field" type="text" id="log-filter-search" placeholder="搜索内容..."
+                    value="${this.escapeHtml(this.filter.search || '')}" style="flex: 1;">
+                <button class="b3-button b3-button--outline" id="log-viewer-refresh">刷新</button>
+            </div>
+        `;
+    }
+
+    private renderList(container: HTMLElement): void {
+        const list = container.querySelector("#log-viewer-list") as HTMLElement;
+        if (!list) return;
+
+        const visible = RequestLogger.filterEntries(this.entries, this.filter);
+        if (visible.length === 0) {
+            list.innerHTML = `<div class="ft__secondary" style="padding: 16px; text-align: center;">
+                ${this.entries.length === 0 ? '日志目录中没有记录' : '没有符合条件的记录'}
+            </div>`;
+            return;
+        }
+
+        list.innerHTML = visible.map(entry => `
+            <div class="b3-list-item log-viewer__item ${entry.requestId === this.selectedId ? 'b3-list-item--focus' : ''}"
+                data-request-id="${this.escapeHtml(entry.requestId)}">
+                <div class="log-viewer__item-title">
+                    <span>${entry.error ? '❌' : '✅'} ${this.escapeHtml(entry.feature)}</span>
+                    <span class="ft__smaller ft__secondary">${this.formatTime(entry.timestamp)}</span>
+                </div>
+                <div class="ft__smaller ft__secondary">
+                    ${this.escapeHtml(entry.request.model)} · ${entry.performance?.duration_ms ?? 0}ms
+                    ${entry.filtering?.applied ? ' · 已过滤' : ''}
+                    ${entry.provider?.fallback ? ` · 备用 ${this.escapeHtml(entry.provider.answered)}` : ''}
+                </div>
+            </div>
+        `).join('');
+
+        list.querySelectorAll("[data-request-id]").forEach(item => {
+            item.addEventListener("click", () => {
+                this.selectedId = (item as HTMLElement).dataset.requestId || null;
+                this.replayResult = null;
+                this.renderList(container);
+                this.renderDetail(container);
+            });
+        });
+    }
+
+    private renderDetail(container: HTMLElement): void {
+        const detail = container.querySelector("#log-viewer-detail") as HTMLElement;
+        if (!detail) return;
+
+        const entry = this.entries.find(e => e.requestId === this.selectedId);
+        if (!entry) {
+            detail.innerHTML = `<div class="ft__secondary" style="padding: 16px; text-align: center;">选择左侧的一条记录查看详情</div>`;
+            return;
+        }
+
+        const usage = entry.response?.usage;
+        const providers = this.client.getReplayProviders();
+
+        detail.innerHTML = `
+            <div class="log-viewer__meta ft__smaller ft__secondary">
+                ${this.escapeHtml(entry.requestId)} · ${this.escapeHtml(entry.config?.baseURL || '')} ·
+                temperature ${entry.request.temperature} · max_tokens ${entry.request.max_tokens}
+                ${usage ? ` · ${usage.input_tokens} → ${usage.output_tokens} tokens` : ''}
+                ${usage?.cache_read_tokens || usage?.cache_write_tokens ? ` · 缓存 读 ${usage.cache_read_tokens ?? 0} / 写 ${usage.cache_write_tokens ?? 0}` : ''}
+                ${usage?.cost_usd !== undefined ? ` · $${usage.cost_usd.toFixed(4)}` : ''}
+            </div>
+            <div class="log-viewer__columns">
+                <div class="log-viewer__column">
+                    <div class="log-viewer__column-title">请求</div>
+                    ${entry.request.system ? this.createMessageBlock('system', entry.request.system) : ''}
+                    ${entry.request.messages.map(m => this.createMessageBlock(m.role, m.content)).join('')}
+                </div>
+                <div class="log-viewer__column">
+                    <div class="log-viewer__column-title">响应</div>
+                    ${this.createResponseBlock(entry)}
+                </div>
+            </div>
+            <div class="log-viewer__replay">
+                <select class="b3-select" id="log-replay-provider" ${this.replaying ? 'disabled' : ''}>
+                    ${providers.map(p => `
+                        <option value="${this.escapeHtml(p.type)}" ${p.type === this.replayProvider ? 'selected' : ''}>
+                            ${this.escapeHtml(p.name)}
+                        </option>
+                    `).join('')}
+                </select>
+                <button class="b3-button" id="log-replay-btn" ${this.replaying || providers.length === 0 ? 'disabled' : ''}>
+                    ${this.replaying ? '重放中...' : '▶ 重放请求'}
+                </button>
+            </div>
+            ${this.replayResult ? this.createReplayComparison(entry, this.replayResult) : ''}
+        `;
+
+        const providerSelect = detail.querySelector("#log-replay-provider") as HTMLSelectElement;
+        providerSelect?.addEventListener("change", () => {
+            this.replayProvider = providerSelect.value;
+        });
+        detail.querySelector("#log-replay-btn")?.addEventListener("click", () => {
+            this.replay(container, entry, providerSelect?.value || this.replayProvider);
+        });
+    }
+
+    private createMessageBlock(role: string, content: string): string {
+        return `
+            <div class="log-viewer__message">
+                <div class="ft__smaller ft__secondary">${this.escapeHtml(role)}</div>
+                <pre>${this.escapeHtml(content)}</pre>
+            </div>
+        `;
+    }
+
+    private createResponseBlock(entry: LogEntry): string {
+        if (entry.error) {
+            return `<div class="log-viewer__message log-viewer__message--error">
+                <div class="ft__smaller">${this.escapeHtml(entry.error.type)}</div>
+                <pre>${this.escapeHtml(entry.error.message)}</pre>
+            </div>`;
+        }
+        if (!entry.response) {
+            return `<div class="ft__secondary ft__smaller">未记录响应内容</div>`;
+        }
+
+        const filtering = entry.filtering?.applied
+            ? `<div class="ft__smaller ft__secondary">已应用 ${entry.filtering.rulesCount} 条过滤规则：${entry.filtering.originalLength} → ${entry.filtering.filteredLength} 字符</div>`
+            : '';
+        return `${filtering}${this.createMessageBlock(entry.response.stop_reason || 'assistant', entry.response.content)}`;
+    }
+
+    private createReplayComparison(entry: LogEntry, result: ReplayResult): string {
+        const usage = result.usage ? ` · ${result.usage.inputTokens} → ${result.usage.outputTokens} tokens` : '';
+        return `
+            <div class="log-viewer__columns">
+                <div class="log-viewer__column">
+                    <div class="log-viewer__column-title">
+                        原始响应 <span class="ft__smaller ft__secondary">${this.escapeHtml(entry.request.model)} · ${entry.performance?.duration_ms ?? 0}ms</span>
+                    </div>
+                    ${this.createResponseBlock(entry)}
+                </div>
+                <div class="log-viewer__column">
+                    <div class="log-viewer__column-title">
+                        重放结果 <span class="ft__smaller ft__secondary">${this.escapeHtml(result.providerName)} / ${this.escapeHtml(result.model)} · ${result.durationMs}ms${usage}</span>
+                    </div>
+                    ${this.createMessageBlock('assistant', result.content)}
+                </div>
+            </div>
+        `;
+    }
+
+    //#endregion
+
+    //#region Event Handling
+
+    private attachFilterListeners(container: HTMLElement): void {
+        const update = () => {
+            const duration = parseInt((container.querySelector("#log-filter-duration") as HTMLInputElement)?.value, 10);
+            this.filter = {
+                feature: (container.querySelector("#log-filter-feature") as HTMLSelectElement)?.value || undefined,
+                model: (container.querySelector("#log-filter-model") as HTMLSelectElement)?.value || undefined,
+                minDurationMs: duration > 0 ? duration : undefined,
+                errorsOnly: (container.querySelector("#log-filter-errors") as HTMLInputElement)?.checked,
+                filteredOnly: (container.querySelector("#log-filter-filtered") as HTMLInputElement)?.checked,
+                search: (container.querySelector("#log-filter-search") as HTMLInputElement)?.value || undefined,
+            };
+            this.renderList(container);
+        };
+
+        container.querySelectorAll(".log-viewer__filters select, .log-viewer__filters input[type='checkbox']").forEach(el => {
+            el.addEventListener("change", update);
+        });
+        container.querySelectorAll(".log-viewer__filters input[type='text'], .log-viewer__filters input[type='number']").forEach(el => {
+            el.addEventListener("input", update);
+        });
+
+        container.querySelector("#log-viewer-refresh")?.addEventListener("click", () => {
+            this.loadEntries();
+            this.renderContent(container);
+        });
+    }
+
+    private async replay(container: HTMLElement, entry: LogEntry, providerType: string): Promise<void> {
+        this.replayProvider = providerType;
+        this.replaying = true;
+        this.replayResult = null;
+        this.renderDetail(container);
+
+        try {
+            const result = await this.client.replayLogEntry(entry, providerType);
+            // Discard the result if the user selected another entry meanwhile
+            if (this.selectedId === entry.requestId) {
+                this.replayResult = result;
+            }
+        } catch (error) {
+            console.error("[LogViewer] Replay failed:", error);
+            showMessage(`❌ 重放失败: ${error instanceof Error ? error.message : String(error)}`, 5000, "error");
+        } finally {
+            this.replaying = false;
+            if (this.dialog) {
+                this.renderDetail(container);
+            }
+        }
+    }
+
+    //#endregion
+
+    private formatTime(timestamp: string): string {
+        const date = new Date(timestamp);
+        return isNaN(date.getTime()) ? timestamp : date.toLocaleString();
+    }
+
+    private escapeHtml(text: string): string {
+        return SecurityUtils.escapeHtml(text);
+    }
+}
@@ -40,6 +40,14 @@ export interface LogEntry {
         usage?: {
             input_tokens: number;
             output_tokens: number;
+            /** 推理 token (包含在 output_tokens 中) */
+            thinking_tokens?: number;
+            /** 从提示词缓存读取的输入 token (不含在 input_tokens 中) */
+            cache_read_tokens?: number;
+            /** 写入提示词缓存的输入 token (不含在 input_tokens 中) */
+            cache_write_tokens?: number;
+            /** 估算费用 (USD) */
+            cost_usd?: number;
         };
     };
     /** 性能统计 */
@@ -60,8 +68,63 @@ export interface LogEntry {
         originalLength: number;
         filteredLength: number;
     };
+    /** 实际应答的提供商 (可选，发生重试或切换时记录) */
+    provider?: {
+        /** 实际应答的提供商 */
+        answered: string;
+        /** 请求时的当前提供商 */
+        requested: string;
+        /** 是否切换到了备用提供商 */
+        fallback: boolean;
+        /** 失败的尝试 */
+        attempts: Array<{
+            provider: string;
+            errorType: string;
+            error: string;
+        }>;
+    };
+    /** 请求失败时的错误信息 (可选) */
+    error?: {
+        type: string;
+        message: string;
+    };
+}
+
+/**
+ * 日志轮转限制
+ */
+export interface LogLimits {
+    /** 单个日志文件上限 (MB)，超出后写入同日期的下一个分卷 */
+    maxFileSizeMB: number;
+    /** 日志目录总大小上限 (MB)，超出后删除最旧的文件 */
+    maxTotalSizeMB: number;
+}
+
+export const DEFAULT_LOG_LIMITS: LogLimits = {
+    maxFileSizeMB: 5,
+    maxTotalSizeMB: 50
+};
+
+/**
+ * 日志浏览器筛选条件
+ */
+export interface LogFilter {
+    feature?: string;
+    model?: string;
+    /** 最短耗时 (ms) */
+    minDurationMs?: number;
+    /** 仅显示失败的请求 */
+    errorsOnly?: boolean;
+    /** 仅显示应用了过滤规则的请求 */
+    filteredOnly?: boolean;
+    /** 在请求和响应内容中搜索 */
+    search?: string;
 }
 
+const LOG_SEPARATOR = '\n---\n';
+const LOG_FILE_PATTERN = /^ai-requests-(\d{4}-\d{2}-\d{2})(?:\.(\d+))?\.log$/;
+const BYTES_PER_MB = 1024 * 1024;
+
 /**
  * RequestLogger 类
  * 负责将AI请求和响应写入日志文件
@@ -70,6 +133,7 @@ export class RequestLogger {
     private enabled: boolean = false;
     private logPath: string = '';
     private includeResponse: boolean = true;
+    private limits: LogLimits = { ...DEFAULT_LOG_LIMITS };
 
     constructor() {
         console.log('[RequestLogger] Initialized');
@@ -78,10 +142,11 @@ export class RequestLogger {
     /**
      * 配置日志记录器
      */
-    configure(enabled: boolean, logPath: string, includeResponse: boolean = true): void {
+    configure(enabled: boolean, logPath: string, includeResponse: boolean = true, limits?: Partial<LogLimits>): void {
         this.enabled = enabled;
         this.logPath = logPath;
         this.includeResponse = includeResponse;
+        this.limits = { ...DEFAULT_LOG_LIMITS, ...limits };
 
         if (this.enabled && this.logPath) {
             console.log(`[RequestLogger] Enabled, logging to: ${this.logPath}`);
@@ -116,25 +181,27 @@ export class RequestLogger {
                 delete logEntry.response;
             }
 
-            const fileName = this.getLogFileName();
-            const logLine = JSON.stringify(logEntry, null, 2) + '\n---\n';  // 添加分隔符
+            const logLine = JSON.stringify(logEntry, null, 2) + LOG_SEPARATOR;  // 添加分隔符
 
             // 在Electron环境中使用Node.js fs模块
             if (typeof window !== 'undefined' && window.require) {
                 const fs = window.require('fs');
                 const path = window.require('path');
 
-                const filePath = path.join(this.logPath, fileName);
-
                 // 确保目录存在
                 if (!fs.existsSync(this.logPath)) {
                     console.log(`[RequestLogger] Creating directory: ${this.logPath}`);
                     fs.mkdirSync(this.logPath, { recursive: true });
                 }
 
+                // 当前文件超出大小上限时写入下一个分卷
+                const filePath = path.join(this.logPath, this.getLogFileName(fs, path, Buffer.byteLength(logLine)));
+
                 // 追加写入文件
                 fs.appendFileSync(filePath, logLine, 'utf-8');
                 console.log(`[RequestLogger] ✅ Log written to ${filePath}`);
+
+                this.enforceTotalSize(fs, path, filePath);
             } else {
                 console.error('[RequestLogger] ❌ Node.js fs module not available (not in Electron environment)');
                 this.enabled = false;  // 禁用日志功能
@@ -152,13 +219,145 @@ export class RequestLogger {
 
     /**
      * 生成日志文件名 (按日期)
+     * 同一天的日志超出单文件上限时依次写入 ai-requests-YYYY-MM-DD.1.log、.2.log ...
      */
-    private getLogFileName(): string {
+    private getLogFileName(fs: typeof import('fs'), path: typeof import('path'), incomingBytes: number): string {
         const now = new Date();
         const year = now.getFullYear();
         const month = String(now.getMonth() + 1).padStart(2, '0');
         const day = String(now.getDate()).padStart(2, '0');
-        return `ai-requests-${year}-${month}-${day}.log`;
+        const baseName = `ai-requests-${year}-${month}-${day}`;
+        const maxBytes = this.limits.maxFileSizeMB * BYTES_PER_MB;
+
+        for (let part = 0; ; part++) {
+            const fileName = part === 0 ? `${baseName}.log` : `${baseName}.${part}.log`;
+            const filePath = path.join(this.logPath, fileName);
+            if (maxBytes <= 0 || !fs.existsSync(filePath) || fs.statSync(filePath).size + incomingBytes <= maxBytes) {
+                return fileName;
+            }
+        }
+    }
+
+    /**
+     * 删除最旧的日志文件，直到目录总大小低于上限 (当前写入的文件始终保留)
+     */
+    private enforceTotalSize(fs: typeof import('fs'), path: typeof import('path'), currentFile: string): void {
+        const maxBytes = this.limits.maxTotalSizeMB * BYTES_PER_MB;
+        if (maxBytes <= 0) {
+            return;
+        }
+
+        const files = RequestLogger.listLogFiles(fs, this.logPath)
+            .map(name => {
+                const filePath = path.join(this.logPath, name);
+                return { filePath, size: fs.statSync(filePath).size };
+            });
+        let total = files.reduce((sum, file) => sum + file.size, 0);
+
+        // listLogFiles 按从新到旧排序，从末尾开始删除
+        for (let i = files.length - 1; i >= 0 && total > maxBytes; i--) {
+            if (files[i].filePath === currentFile) {
+                continue;
+            }
+            fs.unlinkSync(files[i].filePath);
+            total -= files[i].size;
+            console.log(`[RequestLogger] Removed old log file: ${files[i].filePath}`);
+        }
+    }
+
+    /**
+     * 读取日志目录中的所有条目 (从新到旧)
+     * @param limit 最多返回的条目数
+     */
+    static readEntries(logPath: string, limit: number = 1000): LogEntry[] {
+        if (!logPath || typeof window === 'undefined' || !window.require) {
+            return [];
+        }
+
+        const fs = window.require('fs');
+        const path = window.require('path');
+        if (!fs.existsSync(logPath)) {
+            return [];
+        }
+
+        const entries: LogEntry[] = [];
+        for (const name of this.listLogFiles(fs, logPath)) {
+            try {
+                const content = fs.readFileSync(path.join(logPath, name), 'utf-8');
+                entries.push(...this.parseLogContent(content).reverse());
+            } catch (error) {
+                console.warn(`[RequestLogger] Failed to read ${name}:`, error);
+            }
+            if (entries.length >= limit) {
+                break;
+            }
+        }
+
+        return entries.slice(0, limit);
+    }
+
+    /**
+     * 解析日志文件内容 (条目以 --- 分隔，损坏的条目被跳过)
+     */
+    static parseLogContent(content: string): LogEntry[] {
+        const entries: LogEntry[] = [];
+
+        for (const chunk of content.split(LOG_SEPARATOR)) {
+            if (!chunk.trim()) {
+                continue;
+            }
+            try {
+                const entry = JSON.parse(chunk);
+                if (entry && typeof entry.requestId === 'string' && entry.request) {
+                    entries.push(entry as LogEntry);
+                }
+            } catch {
+                console.warn('[RequestLogger] Skipping malformed log entry');
+            }
+        }
+
+        return entries;
+    }
+
+    /**
+     * 按条件筛选日志条目
+     */
+    static filterEntries(entries: LogEntry[], filter: LogFilter): LogEntry[] {
+        const search = filter.search?.trim().toLowerCase();
+
+        return entries.filter(entry => {
+            if (filter.feature && entry.feature !== filter.feature) return false;
+            if (filter.model && entry.request.model !== filter.model) return false;
+            if (filter.minDurationMs && (entry.performance?.duration_ms ?? 0) < filter.minDurationMs) return false;
+            if (filter.errorsOnly && !entry.error) return false;
+            if (filter.filteredOnly && !entry.filtering?.applied) return false;
+
+            if (search) {
+                const haystack = [
+                    entry.request.system || '',
+                    ...entry.request.messages.map(m => m.content),
+                    entry.response?.content || '',
+                    entry.error?.message || ''
+                ].join('\n').toLowerCase();
+                if (!haystack.includes(search)) return false;
+            }
+
+            return true;
+        });
+    }
+
+    /**
+     * 列出日志文件 (从新到旧：日期倒序，同日期分卷号倒序)
+     */
+    private static listLogFiles(fs: typeof import('fs'), logPath: string): string[] {
+        return fs.readdirSync(logPath)
+            .map(name => ({ name, match: name.match(LOG_FILE_PATTERN) }))
+            .filter((file): file is { name: string; match: RegExpMatchArray } => file.match !== null)
+            .sort((a, b) =>
+                b.match[1].localeCompare(a.match[1]) ||
+                parseInt(b.match[2] || '0', 10) - parseInt(a.match[2] || '0', 10)
+            )
+            .map(file => file.name);
     }
 
     /**
@@ -0,0 +1,210 @@
+/**
+ * Attribute Output - Map AI answers to block and document attributes
+ *
+ * A preset can send its answer to attributes instead of the text
+ * (auto-tagging, summaries in custom-summary, generated titles).
+ * Each target reads the whole answer, or one field of a structured answer.
+ *
+ * Targets are edited as one mapping per line: `[source ->] [doc.]field`
+ *   doc.tags                  whole answer → tags of the document
+ *   summary -> custom-summary structured field "summary" → custom-summary
+ *   title -> doc.title        structured field "title" → document title
+ */
+
+/** Attributes an answer can be written to */
+export type AttributeField = 'custom' | 'tags' | 'alias' | 'title' | 'name' | 'memo';
+
+/**
+ * Where one output goes
+ */
+export interface AttributeTarget {
+    /** Structured output field to read (omitted: the whole answer) */
+    source?: string;
+    /** Attribute to write */
+    field: AttributeField;
+    /** Custom attribute name without the custom- prefix (field 'custom') */
+    name?: string;
+    /** Selected block or its document */
+    scope: 'block' | 'doc';
+}
+
+/**
+ * A value ready to be written to its target
+ */
+export interface AttributeValue {
+    target: AttributeTarget;
+    value: string;
+}
+
+/** Fields holding comma-separated lists; new values are merged into existing ones */
+const LIST_FIELDS: AttributeField[] = ['tags', 'alias'];
+
+/** Fields holding a single line */
+const LINE_FIELDS: AttributeField[] = ['title', 'name'];
+
+const FIELD_LABELS: Record<AttributeField, string> = {
+    custom: '自定义属性',
+    tags: '标签',
+    alias: '别名',
+    title: '标题',
+    name: '命名',
+    memo: '备注'
+};
+
+const CUSTOM_NAME_REGEX = /^[a-z0-9][a-z0-9-]*$/;
+
+export class AttributeOutput {
+    /**
+     * Parse mapping lines (empty lines and # comments are skipped)
+     */
+    static parseTargets(text: string): { targets: AttributeTarget[]; errors: string[] } {
+        const targets: AttributeTarget[] = [];
+        const errors: string[] = [];
+
+        text.split('\n').forEach((rawLine, index) => {
+            const line = rawLine.trim();
+            if (!line || line.startsWith('#')) return;
+
+            const arrow = line.indexOf('->');
+            const source = arrow === -1 ? undefined : line.slice(0, arrow).trim();
+            let destination = (arrow === -1 ? line : line.slice(arrow + 2)).trim().toLowerCase();
+
+            if (source !== undefined && !source) {
+                errors.push(`第 ${index + 1} 行：缺少来源字段`);
+                return;
+            }
+
+            let scope: AttributeTarget['scope'] = 'block';
+            if (destination.startsWith('doc.')) {
+                scope = 'doc';
+                destination = destination.slice(4);
+            }
+
+            let target: AttributeTarget;
+            if (destination.startsWith('custom-')) {
+                const name = destination.slice(7);
+                if (!CUSTOM_NAME_REGEX.test(name)) {
+                    errors.push(`第 ${index + 1} 行：自定义属性名只能包含小写字母、数字和连字符`);
+                    return;
+                }
+                target = { field: 'custom', name, scope };
+            } else if (destination !== 'custom' && Object.keys(FIELD_LABELS).includes(destination)) {
+                target = { field: destination as AttributeField, scope };
+            } else {
+                errors.push(`第 ${index + 1} 行：未知属性 "${destination}"（可用：tags、alias、title、name、memo、custom-名称）`);
+                return;
+            }
+
+            if (target.field === 'title' && scope !== 'doc') {
+                errors.push(`第 ${index + 1} 行：title 只能写入文档（doc.title）`);
+                return;
+            }
+            // SiYuan only shows the tags attribute of documents; other blocks use #tag# in their text
+            if (target.field === 'tags' && scope !== 'doc') {
+                errors.push(`第 ${index + 1} 行：tags 只能写入文档（doc.tags），普通块的标签是正文中的 #标签#`);
+                return;
+            }
+
+            targets.push(source ? { source, ...target } : target);
+        });
+
+        return { targets, errors };
+    }
+
+    /**
+     * Mapping lines for editing (inverse of parseTargets)
+     */
+    static formatTargets(targets: AttributeTarget[]): string {
+        return targets.map(target => {
+            const destination = `${target.scope === 'doc' ? 'doc.' : ''}${target.field === 'custom' ? `custom-${target.name}` : target.field}`;
+            return target.source ? `${target.source} -> ${destination}` : destination;
+        }).join('\n');
+    }
+
+    /**
+     * Values for each target from the answer (targets without a value are skipped)
+     * @param text Answer text
+     * @param data Parsed structured answer (for targets with a source field)
+     */
+    static collectValues(targets: AttributeTarget[], text: string, data?: any): AttributeValue[] {
+        const values: AttributeValue[] = [];
+        for (const target of targets) {
+            const raw = target.source ? data?.[target.source] : text;
+            const value = this.formatValue(target.field, raw);
+            if (value) {
+                values.push({ target, value });
+            }
+        }
+        return values;
+    }
+
+    /**
+     * Attributes to set on one block, merging list fields into its existing attributes
+     */
+    static toAttributes(values: AttributeValue[], existing: Record<string, string> = {}): Record<string, string> {
+        const attributes: Record<string, string> = {};
+        for (const { target, value } of values) {
+            const name = this.attributeName(target);
+            if (LIST_FIELDS.includes(target.field)) {
+                const current = attributes[name] ?? existing[name] ?? '';
+                attributes[name] = this.mergeList(current, value);
+            } else {
+                attributes[name] = value;
+            }
+        }
+        return attributes;
+    }
+
+    /**
+     * SiYuan attribute name of a target
+     */
+    static attributeName(target: AttributeTarget): string {
+        return target.field === 'custom' ? `custom-${target.name}` : target.field;
+    }
+
+    /**
+     * Markdown preview of the values shown before they are applied
+     */
+    static describe(values: AttributeValue[]): string {
+        if (values.length === 0) {
+            return '（回答中没有可写入属性的内容）';
+        }
+        return values.map(({ target, value }) => {
+            const label = target.field === 'custom' ? `custom-${target.name}` : FIELD_LABELS[target.field];
+            return `- ${target.scope === 'doc' ? '文档' : '块'}${label}：${value.replace(/\n+/g, ' ')}`;
+        }).join('\n');
+    }
+
+    private static formatValue(field: AttributeField, raw: any): string {
+        if (raw === undefined || raw === null) return '';
+
+        if (LIST_FIELDS.includes(field)) {
+            const items = Array.isArray(raw) ? raw.map(String) : String(raw).split(/[,，、\n]+/);
+            return this.mergeList('', items.join(','));
+        }
+
+        const text = Array.isArray(raw)
+            ? raw.map(String).join(', ')
+            : typeof raw === 'object' ? JSON.stringify(raw) : String(raw).trim();
+
+        if (LINE_FIELDS.includes(field)) {
+            const line = text.split('\n').map(l => l.trim()).find(l => l.length > 0) || '';
+            return line.replace(/^#+\s*/, '').replace(/^["'“《]+|["'”》]+$/g, '').trim();
+        }
+        return text;
+    }
+
+    /**
+     * Comma-separated list without duplicates (tags lose their # marks)
+     */
+    private static mergeList(current: string, added: string): string {
+        const items: string[] = [];
+        for (const item of [...current.split(','), ...added.split(',')]) {
+            const clean = item.trim().replace(/^#+|#+$/g, '').trim();
+            if (clean && !items.includes(clean)) {
+                items.push(clean);
+            }
+        }
+        return items.join(',');
+    }
+}
@@ -3,6 +3,9 @@
  * Handles all SiYuan API operations for block manipulation
  */
 
+import { AttributeOutput, type AttributeValue } from './AttributeOutput';
+import { SiYuanApi } from '../utils/SiYuanApi';
+
 export interface BlockInsertResult {
     success: boolean;
     blockId?: string;
@@ -404,6 +407,118 @@ export class BlockOperations {
         }
     }
 
+    /**
+     * Set attributes of a block (custom attributes must be named custom-*)
+     * @param blockId Block ID to update
+     * @param attrs Attribute names and values (an empty value removes the attribute)
+     * @returns Update result
+     */
+    async setBlockAttrs(blockId: string, attrs: Record<string, string>): Promise<BlockUpdateResult> {
+        try {
+            const response = await fetch('/api/attr/setBlockAttrs', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    id: blockId,
+                    attrs
+                })
+            });
+
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}`);
+            }
+
+            const result = await response.json();
+
+            return {
+                success: result.code === 0,
+                blockId,
+                error: result.code !== 0 ? result : undefined
+            };
+        } catch (error) {
+            console.error(`[BlockOperations] Set attributes of block ${blockId} failed:`, error);
+            return {
+                success: false,
+                blockId,
+                error: error instanceof Error ? error : new Error(String(error))
+            };
+        }
+    }
+
+    /**
+     * Get the attributes of a block
+     * @param blockId Block ID
+     * @returns Attribute names and values (empty if the request fails)
+     */
+    async getBlockAttrs(blockId: string): Promise<Record<string, string>> {
+        try {
+            const response = await fetch('/api/attr/getBlockAttrs', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ id: blockId })
+            });
+
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}`);
+            }
+
+            const result = await response.json();
+            return result.code === 0 && result.data ? result.data : {};
+        } catch (error) {
+            console.error(`[BlockOperations] Get attributes of block ${blockId} failed:`, error);
+            return {};
+        }
+    }
+
+    /**
+     * Get the ID of the document containing a block
+     * @param blockId Block ID
+     * @returns Document ID (null if the block is not found)
+     */
+    async getDocumentId(blockId: string): Promise<string | null> {
+        // SiYuan block IDs: 14 digits, hyphen, 7 lowercase alphanumeric chars
+        if (!/^[0-9]{14}-[0-9a-z]{7}$/i.test(blockId)) {
+            return null;
+        }
+
+        try {
+            const rows = await SiYuanApi.sql(`SELECT root_id FROM blocks WHERE id = '${blockId}'`);
+            return rows[0]?.root_id ?? null;
+        } catch (error) {
+            console.error(`[BlockOperations] Get document of block ${blockId} failed:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Apply AI output as attributes of a block and/or its document
+     * Tags and aliases are merged into the existing values; other fields are replaced
+     * @param blockId Block the output was generated for
+     * @param values Values with their target attributes
+     * @returns One result per updated block (block and/or document)
+     */
+    async applyAttributeValues(blockId: string, values: AttributeValue[]): Promise<BlockUpdateResult[]> {
+        const results: BlockUpdateResult[] = [];
+
+        for (const scope of ['block', 'doc'] as const) {
+            const scopeValues = values.filter(v => v.target.scope === scope);
+            if (scopeValues.length === 0) continue;
+
+            const targetId = scope === 'doc' ? await this.getDocumentId(blockId) : blockId;
+            if (!targetId) {
+                results.push({ success: false, blockId, error: new Error('Document not found') });
+                continue;
+            }
+
+            const existing = await this.getBlockAttrs(targetId);
+            const attrs = AttributeOutput.toAttributes(scopeValues, existing);
+            console.log(`[BlockOperations] Setting ${Object.keys(attrs).join(', ')} on ${scope} ${targetId}`);
+            results.push(await this.setBlockAttrs(targetId, attrs));
+        }
+
+        return results;
+    }
+
     /**
      * Apply markdown formatting based on block type
      * Preserves original block formatting when possible
@@ -65,6 +65,10 @@ export class ContextExtractor {
     // 自定义块引用占位符正则表达式 - 匹配 {custom=((blockid 'name'))} 格式
     private static readonly CUSTOM_BLOCK_REGEX = /\{custom=\(\(([0-9]{14}-[0-9a-z]{7})\s*(?:'([^']*)')?\)\)\}/gi;
 
+    // 每次请求都会变化的占位符 ({instruction}, {original}, {above=N}, {doc_title}, {attrs.x} 等，自定义块引用和转义的 \{ 除外)
+    // 以及模板标签 {{#if ...}}（条件分支必须整体留在可变部分）
+    private static readonly VARIABLE_PLACEHOLDER_REGEX = /(?<!\\)\{(?:\{|(?!custom=)[a-z_]+(?:[.=:][^}|]*)?(?:\|[^}]*)?\})/i;
+
     constructor(editorHelper: EditorHelper) {
         this.editorHelper = editorHelper;
     }
@@ -103,6 +107,25 @@ export class ContextExtractor {
         return ContextExtractor.PLACEHOLDER_REGEX.test(template);
     }
 
+    /**
+     * 检查模板是否包含自定义块引用占位符 {custom=((blockid 'name'))}
+     */
+    public hasCustomBlockPlaceholders(template: string): boolean {
+        return this.parseCustomBlockPlaceholders(template).length > 0;
+    }
+
+    /**
+     * 拆分模板：第一个可变占位符之前的部分为稳定前缀
+     * 稳定前缀（含固定引用块 {custom=...}）在多次请求间保持不变，可作为提示词缓存断点
+     * @param template 提示词模板
+     * @returns 稳定前缀和剩余部分
+     */
+    public splitStablePrefix(template: string): { prefix: string; rest: string } {
+        const match = ContextExtractor.VARIABLE_PLACEHOLDER_REGEX.exec(template);
+        const index = match ? match.index : template.length;
+        return { prefix: template.slice(0, index), rest: template.slice(index) };
+    }
+
     /**
      * 解析自定义块引用占位符 {custom=((blockid 'name'))}
      * @param template 模板字符串
@@ -222,6 +245,20 @@ export class ContextExtractor {
         }
     }
 
+    /**
+     * 获取选中块之前/之后各个块的内容（模板中的 {{#each above_blocks}} 循环）
+     * @param blockIds 选中的块ID数组
+     * @param direction 方向（above/below）
+     * @param count 块数
+     * @returns 每个块的内容
+     */
+    public async getContextBlockContents(blockIds: string[], direction: 'above' | 'below', count: number): Promise<string[]> {
+        if (blockIds.length === 0) return [];
+        const blockId = direction === 'above' ? blockIds[0] : blockIds[blockIds.length - 1];
+        const blocks = await this.getSiblingBlocks(blockId, direction, count);
+        return blocks.map(block => block.content);
+    }
+
     /**
      * 获取指定块周围的SiYuan块
      * @param blockId 块ID
@@ -371,6 +371,102 @@ export class InlineEditRenderer {
         }
     }
 
+    /**
+     * Show glossary violations of the suggestion above the toolbar (hidden when empty)
+     */
+    public showGlossaryViolations(blockElement: HTMLElement, messages: string[]): void {
+        let section = blockElement.querySelector('.inline-edit-block__glossary') as HTMLElement | null;
+        if (messages.length === 0) {
+            section?.remove();
+            return;
+        }
+
+        if (!section) {
+            section = document.createElement('div');
+            section.className = 'inline-edit-block__glossary';
+            const toolbar = blockElement.querySelector('.inline-edit-block__toolbar');
+            if (toolbar?.parentElement) {
+                toolbar.parentElement.insertBefore(section, toolbar);
+            } else {
+                blockElement.appendChild(section);
+            }
+        }
+        section.innerHTML = `<div>术语检查</div><ul>${messages.map(message => `<li>${this.escapeHtml(message)}</li>`).join('')}</ul>`;
+    }
+
+    /**
+     * Show the steps of a preset chain above the suggestion
+     * Finished steps can be selected to review (and accept) their output
+     */
+    public showChainStages(
+        blockElement: HTMLElement,
+        stages: { labels: string[]; finished: number; active: number; running: boolean },
+        onSelect: (index: number) => void
+    ): void {
+        let section = blockElement.querySelector('.inline-edit-block__chain') as HTMLElement | null;
+        if (stages.labels.length === 0) {
+            section?.remove();
+            return;
+        }
+
+        if (!section) {
+            section = document.createElement('div');
+            section.className = 'inline-edit-block__chain';
+            section.addEventListener('click', (e) => {
+                const item = (e.target as HTMLElement).closest('[data-chain-stage]') as HTMLButtonElement | null;
+                if (item && !item.disabled) {
+                    onSelect(Number(item.dataset.chainStage));
+                }
+            });
+            const suggestion = blockElement.querySelector('.inline-edit-block__suggestion');
+            if (suggestion?.parentElement) {
+                suggestion.parentElement.insertBefore(section, suggestion);
+            } else {
+                blockElement.appendChild(section);
+            }
+        }
+
+        section.innerHTML = stages.labels.map((label, i) => {
+            const classes = ['inline-edit-block__chain-step'];
+            if (i === stages.active) classes.push('inline-edit-block__chain-step--active');
+            if (stages.running && i === stages.finished) classes.push('inline-edit-block__chain-step--running');
+            return `<button class="${classes.join(' ')}" type="button" data-chain-stage="${i}" title="${this.escapeHtml(label)}"${i >= stages.finished ? ' disabled' : ''}>${i + 1}. ${this.escapeHtml(label)}</button>`;
+        }).join('<span class="inline-edit-block__chain-arrow">→</span>');
+    }
+
+    /**
+     * Show provider comparison columns in place of the suggestion (removed when null)
+     */
+    public showProviderComparison(blockElement: HTMLElement, columns: HTMLElement | null): void {
+        blockElement.querySelector('.inline-edit-block__compare')?.remove();
+        const suggestion = blockElement.querySelector('.inline-edit-block__suggestion') as HTMLElement | null;
+        if (!columns) {
+            if (suggestion) suggestion.style.display = 'block';
+            return;
+        }
+
+        const progress = blockElement.querySelector('.inline-edit-block__progress') as HTMLElement | null;
+        if (progress) progress.style.display = 'none';
+        if (suggestion) suggestion.style.display = 'none';
+
+        columns.classList.add('inline-edit-block__compare');
+        if (suggestion?.parentElement) {
+            suggestion.parentElement.insertBefore(columns, suggestion);
+        } else {
+            blockElement.appendChild(columns);
+        }
+    }
+
+    /**
+     * Show reject/retry once every compared provider finished (a column is accepted directly)
+     */
+    public showComparisonReviewButtons(blockElement: HTMLElement): void {
+        this.showReviewButtons(blockElement);
+        blockElement.querySelectorAll<HTMLElement>('[data-action="insert"], [data-action="accept"]').forEach(btn => {
+            btn.style.display = 'none';
+        });
+    }
+
     /**
      * Remove comparison block from DOM
      */
@@ -7,6 +7,7 @@ import type { PromptTemplate } from '@/settings/config-types';
 import type { ConfigManager } from '@/settings/ConfigManager';
 import type { PresetSelectionManager } from '@/settings/PresetSelectionManager';
 import { InstructionHistoryManager } from './InstructionHistoryManager';
+import { PresetVariables } from './PresetVariables';
 import { showMessage } from 'siyuan';
 import { SecurityUtils } from '@/utils/Security';
 
@@ -16,7 +17,7 @@ export class InstructionInputPopup {
     private presets: PromptTemplate[];
     private configManager: ConfigManager;
     private presetSelectionManager: PresetSelectionManager | null = null; // NEW v0.9.0
-    private onSubmitCallback?: (instruction: string) => void;
+    private onSubmitCallback?: (instruction: string, variables?: Record<string, string>, compare?: boolean) => void;
     private onCancelCallback?: () => void;
     private onPresetSwitchCallback?: (presetId: string) => void;
     private currentSelectedPresetId: string = 'custom'; // Track currently selected preset in the popup
@@ -97,7 +98,7 @@ export class InstructionInputPopup {
             }
         } else if (!lastPresetId) {
             // First time use: auto-select the first available preset
-            const firstPreset = this.presets.find(p => p.editInstruction && p.editInstruction.trim());
+            const firstPreset = this.presets.find(p => this.isQuickEditPreset(p));
             if (firstPreset) {
                 presetIdToUse = firstPreset.id;
                 instructionToUse = ''; // Keep empty for user input
@@ -164,7 +165,7 @@ export class InstructionInputPopup {
      * Set callbacks
      */
     public setCallbacks(callbacks: {
-        onSubmit?: (instruction: string) => void;
+        onSubmit?: (instruction: string, variables?: Record<string, string>, compare?: boolean) => void;
         onCancel?: () => void;
         onPresetSwitch?: (presetId: string) => void;
     }): void {
@@ -173,6 +174,13 @@ export class InstructionInputPopup {
         this.onPresetSwitchCallback = callbacks.onPresetSwitch;
     }
 
+    /**
+     * Presets offered for quick edit: with an edit instruction, or chain presets
+     */
+    private isQuickEditPreset(preset: PromptTemplate): boolean {
+        return !!preset.editInstruction?.trim() || !!preset.chain?.length;
+    }
+
     /**
      * Check if preset is currently active
      */
@@ -291,7 +299,7 @@ export class InstructionInputPopup {
         }
 
         // Generate dropdown options - simplified to show preset names only
-        const presetsWithEditInstruction = this.presets.filter(p => p.editInstruction && p.editInstruction.trim());
+        const presetsWithEditInstruction = this.presets.filter(p => this.isQuickEditPreset(p));
         const options = presetsWithEditInstruction
             .map((preset) => {
                 const selected = preset.id === presetId ? ' selected' : '';
@@ -334,6 +342,7 @@ export class InstructionInputPopup {
                     </select>
                 </div>
                 ` : ''}
+                <div class="instruction-variables fn__none"></div>
                 ${autoActionSection}
                 <input
                     type="text"
@@ -347,12 +356,15 @@ export class InstructionInputPopup {
                         <svg><use xlink:href="#iconClose"></use></svg>
                         <span>取消</span>
                     </button>
+                    <button class="b3-button b3-button--outline popup-compare" title="多模型对比 (Ctrl+Enter)">
+                        <span>⚖️ 对比</span>
+                    </button>
                     <button class="b3-button b3-button--text popup-confirm" title="确认 (Enter)">
                         <svg><use xlink:href="#iconCheck"></use></svg>
                         <span>确认</span>
                     </button>
                 </div>
-                <div class="popup-hint">Enter 确认 | Esc 取消</div>
+                <div class="popup-hint">Enter 确认 | Ctrl+Enter 多模型对比 | Esc 取消</div>
             </div>
         `;
 
@@ -360,6 +372,7 @@ export class InstructionInputPopup {
         const closeBtn = popup.querySelector('.popup-close') as HTMLButtonElement;
         const cancelBtn = popup.querySelector('.popup-cancel') as HTMLButtonElement;
         const confirmBtn = popup.querySelector('.popup-confirm') as HTMLButtonElement;
+        const compareBtn = popup.querySelector('.popup-compare') as HTMLButtonElement;
         const presetSelect = popup.querySelector('#instruction-preset') as HTMLSelectElement;
         const input = popup.querySelector('#instruction-input') as HTMLInputElement;
 
@@ -368,6 +381,8 @@ export class InstructionInputPopup {
             presetSelect.value = presetId;
         }
 
+        this.renderVariables(popup, presetId);
+
         // Bind auto action buttons
         const autoActionBtns = popup.querySelectorAll('.auto-action-btn') as NodeListOf<HTMLButtonElement>;
         autoActionBtns.forEach(btn => {
@@ -388,6 +403,7 @@ export class InstructionInputPopup {
         closeBtn?.addEventListener('click', () => this.handleCancel());
         cancelBtn?.addEventListener('click', () => this.handleCancel());
         confirmBtn?.addEventListener('click', () => this.handleSubmit(input.value));
+        compareBtn?.addEventListener('click', () => this.handleSubmit(input.value, true));
 
         presetSelect?.addEventListener('change', (e) => {
             const value = (e.target as HTMLSelectElement).value;
@@ -403,6 +419,7 @@ export class InstructionInputPopup {
             }
 
             // Update UI immediately
+            this.renderVariables(popup, value);
             this.applyPresetToInput(value, input);
             this.refreshActiveIndicators();
         });
@@ -416,10 +433,10 @@ export class InstructionInputPopup {
                 e.preventDefault();
                 this.navigateHistory('down', input);
             }
-            // Enter to submit
+            // Enter to submit (Ctrl/Cmd+Enter: compare providers)
             else if (e.key === 'Enter' && !e.shiftKey) {
                 e.preventDefault();
-                this.handleSubmit(input.value);
+                this.handleSubmit(input.value, e.ctrlKey || e.metaKey);
             }
             // Escape to cancel
             else if (e.key === 'Escape') {
@@ -453,7 +470,7 @@ export class InstructionInputPopup {
             else if (e.key === 'Enter' && document.activeElement !== input) {
                 e.preventDefault();
                 e.stopPropagation();
-                this.handleSubmit(input.value);
+                this.handleSubmit(input.value, e.ctrlKey || e.metaKey);
             }
         };
 
@@ -478,8 +495,9 @@ export class InstructionInputPopup {
 
     /**
      * Handle submit
+     * @param compare Send to several providers side by side
      */
-    private handleSubmit(instruction: string): void {
+    private handleSubmit(instruction: string, compare: boolean = false): void {
         let trimmedInstruction = instruction.trim();
 
         // If input is empty, use the input's placeholder as default instruction
@@ -497,6 +515,11 @@ export class InstructionInputPopup {
             }
         }
 
+        const variables = this.collectVariables();
+        if (variables === null) {
+            return;
+        }
+
         // Validate: callback must exist
         if (!this.onSubmitCallback) {
             console.error('[InstructionInputPopup] No submit callback registered');
@@ -517,13 +540,79 @@ export class InstructionInputPopup {
             });
         }
 
+        if (variables) {
+            PresetVariables.remember(this.currentSelectedPresetId, variables);
+        }
+
         // Call callback with instruction (either user input or placeholder)
-        this.onSubmitCallback(trimmedInstruction);
+        this.onSubmitCallback(trimmedInstruction, variables, compare || undefined);
 
         // Only close after successful submission
         this.close();
     }
 
+    /**
+     * Render the input variables form of a preset (last used values or defaults)
+     */
+    private renderVariables(popup: HTMLElement, presetId: string): void {
+        const container = popup.querySelector('.instruction-variables') as HTMLElement | null;
+        if (!container) return;
+
+        const variables = this.presets.find(p => p.id === presetId)?.variables || [];
+        container.classList.toggle('fn__none', variables.length === 0);
+        if (variables.length === 0) {
+            container.innerHTML = '';
+            return;
+        }
+
+        const values = PresetVariables.initialValues(presetId, variables);
+        container.innerHTML = variables.map(variable => {
+            const name = this.escapeHtml(variable.name);
+            const value = values[variable.name] ?? '';
+            let field: string;
+            if (variable.type === 'enum') {
+                const options = (variable.options || []).map(option =>
+                    `<option value="${this.escapeHtml(option)}"${option === value ? ' selected' : ''}>${this.escapeHtml(option)}</option>`
+                ).join('');
+                field = `<select class="b3-select" data-variable="${name}">${options}</select>`;
+            } else {
+                const type = variable.type === 'number' ? 'number' : 'text';
+                const min = variable.min !== undefined ? ` min="${variable.min}"` : '';
+                const max = variable.max !== undefined ? ` max="${variable.max}"` : '';
+                field = `<input class="b3-text-field" type="${type}" data-variable="${name}" value="${this.escapeHtml(value)}"${min}${max}>`;
+            }
+            return `
+                <label class="instruction-variables__item">
+                    <span class="instruction-variables__label">${this.escapeHtml(variable.label || variable.name)}</span>
+                    ${field}
+                </label>
+            `;
+        }).join('');
+    }
+
+    /**
+     * Read the variables form
+     * @returns Undefined when the preset has no variables, null when a value is invalid
+     */
+    private collectVariables(): Record<string, string> | undefined | null {
+        const variables = this.presets.find(p => p.id === this.currentSelectedPresetId)?.variables || [];
+        if (variables.length === 0 || !this.element) return undefined;
+
+        const values: Record<string, string> = {};
+        for (const variable of variables) {
+            const field = this.element.querySelector(`[data-variable="${CSS.escape(variable.name)}"]`) as HTMLInputElement | HTMLSelectElement | null;
+            const value = (field?.value ?? variable.default ?? '').trim();
+            const error = PresetVariables.check(variable, value);
+            if (error) {
+                showMessage(`${variable.label || variable.name}：${error}`, 3000, 'error');
+                field?.focus();
+                return null;
+            }
+            values[variable.name] = value;
+        }
+        return values;
+    }
+
     /**
      * Handle cancel
      */
@@ -767,7 +856,7 @@ export class InstructionInputPopup {
                 const currentValue = selector.value;
 
                 // Rebuild options (simplified - no "custom" option)
-                const presetsWithEditInstruction = this.presets.filter(p => p.editInstruction && p.editInstruction.trim());
+                const presetsWithEditInstruction = this.presets.filter(p => this.isQuickEditPreset(p));
                 selector.innerHTML = presetsWithEditInstruction
                     .map((preset) => {
                         const selected = preset.id === currentValue ? ' selected' : '';
@@ -0,0 +1,562 @@
+/**
+ * Placeholder Registry - Named placeholders for prompt templates
+ *
+ * Syntax:
+ *   {name}                 value of the placeholder
+ *   {name=arg}             with an argument ({above=5}, {date=YYYY-MM-DD HH:mm})
+ *   {attrs.custom-x}       block attribute ({attrs.doc.custom-x} for the document)
+ *   {sql:SELECT ...}       result of a read-only SQL query
+ *   {name|default}         default used when the value is empty
+ *   \{name}                literal text, not replaced
+ *
+ * Unknown placeholders, and request values the caller did not provide (e.g.
+ * {selection} in a quick edit), are left unchanged. The template is scanned once,
+ * so placeholder text inside resolved values is never replaced again.
+ */
+
+import { SecurityUtils } from "../utils/Security";
+import { SiYuanApi } from "../utils/SiYuanApi";
+import type { ContextExtractor } from "./ContextExtractor";
+
+/**
+ * Where a placeholder is resolved
+ */
+export interface PlaceholderContext {
+    /** Selected block IDs (the first one is used for block and document placeholders) */
+    blockIds: string[];
+
+    /** Request values such as instruction, original, selection and question */
+    values?: Record<string, string>;
+
+    /** Resolves {above=N}, {below=N}, {above_blocks=N}, {below_blocks=N} and {custom=((id))} */
+    contextExtractor?: ContextExtractor;
+
+    /** Values entered for the preset's input variables ({var.name}) */
+    variables?: Record<string, string>;
+}
+
+export interface PlaceholderDefinition {
+    name: string;
+
+    /** Short Chinese description (autocomplete and help) */
+    description: string;
+
+    /** Text inserted by autocomplete */
+    snippet: string;
+
+    /** Argument separator; required arguments cannot be omitted */
+    argument?: { separator: '=' | ':' | '.'; required?: boolean };
+
+    /**
+     * @returns The value, or undefined to leave the placeholder unchanged
+     */
+    resolve(arg: string | undefined, lookup: PlaceholderLookup): Promise<string | undefined> | string | undefined;
+
+    /**
+     * Items for {{#each name}} loops (the argument is optional there)
+     */
+    resolveList?(arg: string | undefined, lookup: PlaceholderLookup): Promise<string[] | undefined>;
+}
+
+/**
+ * A placeholder occurrence in a template
+ */
+export interface PlaceholderToken {
+    /** Placeholder text as written */
+    raw: string;
+    name: string;
+    separator?: string;
+    arg?: string;
+    /** Default value after | */
+    fallback?: string;
+    index: number;
+}
+
+/**
+ * Resolved value of a placeholder occurrence (preset editor preview)
+ */
+export interface PlaceholderPreview {
+    raw: string;
+    known: boolean;
+    value?: string;
+    error?: string;
+}
+
+// Escaped brace, or {name[.=:arg][|default]}
+const TOKEN_REGEX = /\\\{|\{([a-z_]+)(?:([.=:])([^}|]*))?(?:\|([^}]*))?\}/gi;
+
+const SQL_ROW_LIMIT = 50;
+
+const DEFAULT_LIST_COUNT = 5;
+
+// SQL block types to the node types used in the editor (data-type)
+const NODE_TYPES: Record<string, string> = {
+    d: 'NodeDocument',
+    h: 'NodeHeading',
+    p: 'NodeParagraph',
+    l: 'NodeList',
+    i: 'NodeListItem',
+    b: 'NodeBlockquote',
+    s: 'NodeSuperBlock',
+    c: 'NodeCodeBlock',
+    m: 'NodeMathBlock',
+    t: 'NodeTable',
+    html: 'NodeHTMLBlock',
+    query_embed: 'NodeBlockQueryEmbed',
+    av: 'NodeAttributeView',
+    callout: 'NodeCallout',
+    widget: 'NodeWidget',
+    iframe: 'NodeIFrame',
+    video: 'NodeVideo',
+    audio: 'NodeAudio',
+    tb: 'NodeThematicBreak'
+};
+
+interface BlockRow {
+    id: string;
+    root_id: string;
+    box: string;
+    type: string;
+    subtype: string;
+    hpath: string;
+    content: string;
+}
+
+/**
+ * Lookups shared by the placeholders of one template (each query runs once)
+ */
+export class PlaceholderLookup {
+    private cache = new Map<string, Promise<any>>();
+
+    constructor(readonly context: PlaceholderContext) {}
+
+    get blockId(): string | undefined {
+        return this.context.blockIds[0];
+    }
+
+    value(name: string): string | undefined {
+        return this.context.values?.[name];
+    }
+
+    block(): Promise<BlockRow | undefined> {
+        const blockId = this.blockId;
+        return blockId ? this.row(blockId) : Promise.resolve(undefined);
+    }
+
+    async document(): Promise<BlockRow | undefined> {
+        const block = await this.block();
+        return block ? this.row(block.root_id) : undefined;
+    }
+
+    attrs(blockId: string): Promise<Record<string, string>> {
+        const safeId = SecurityUtils.sanitizeBlockId(blockId);
+        return this.memo(`attrs:${safeId}`, async () => (await this.post('/api/attr/getBlockAttrs', { id: safeId })) || {});
+    }
+
+    sql(stmt: string): Promise<any[]> {
+        return this.memo(`sql:${stmt}`, async () => (await this.post('/api/query/sql', { stmt })) || []);
+    }
+
+    post(url: string, body: object): Promise<any> {
+        return this.memo(`${url}:${JSON.stringify(body)}`, () => SiYuanApi.post(url, body));
+    }
+
+    private async row(blockId: string): Promise<BlockRow | undefined> {
+        const safeId = SecurityUtils.sanitizeBlockId(blockId);
+        const rows = await this.sql(
+            `SELECT id, root_id, box, type, subtype, hpath, content FROM blocks WHERE id = '${safeId}' LIMIT 1`
+        );
+        return rows[0];
+    }
+
+    private memo<T>(key: string, load: () => Promise<T>): Promise<T> {
+        let pending = this.cache.get(key);
+        if (!pending) {
+            pending = load();
+            this.cache.set(key, pending);
+        }
+        return pending;
+    }
+}
+
+export class PlaceholderRegistry {
+    private static definitions = new Map<string, PlaceholderDefinition>();
+
+    /**
+     * Add or replace a placeholder
+     */
+    static register(definition: PlaceholderDefinition): void {
+        this.definitions.set(definition.name, definition);
+    }
+
+    static get(name: string): PlaceholderDefinition | undefined {
+        return this.definitions.get(name);
+    }
+
+    static list(): PlaceholderDefinition[] {
+        return Array.from(this.definitions.values());
+    }
+
+    /**
+     * Placeholders for autocomplete: names starting with the typed text first
+     */
+    static suggest(typed: string): PlaceholderDefinition[] {
+        const query = typed.toLowerCase();
+        const all = this.list();
+        return [
+            ...all.filter(definition => definition.name.startsWith(query)),
+            ...all.filter(definition => !definition.name.startsWith(query) && definition.name.includes(query))
+        ];
+    }
+
+    /**
+     * Split a template into literal text and placeholder tokens (escapes are unescaped)
+     */
+    static parse(template: string): Array<string | PlaceholderToken> {
+        const segments: Array<string | PlaceholderToken> = [];
+        const regex = new RegExp(TOKEN_REGEX.source, 'gi');
+        let last = 0;
+        let match: RegExpExecArray | null;
+
+        while ((match = regex.exec(template)) !== null) {
+            if (match.index > last) {
+                segments.push(template.slice(last, match.index));
+            }
+            last = match.index + match[0].length;
+
+            if (match[0] === '\\{') {
+                segments.push('{');
+                continue;
+            }
+            segments.push({
+                raw: match[0],
+                name: match[1].toLowerCase(),
+                separator: match[2],
+                arg: match[3],
+                fallback: match[4],
+                index: match.index
+            });
+        }
+
+        if (last < template.length) {
+            segments.push(template.slice(last));
+        }
+        return segments;
+    }
+
+    /**
+     * Replace the placeholders in a template
+     * Failing placeholders are logged and replaced by their default (or nothing).
+     */
+    static async render(
+        template: string,
+        context: PlaceholderContext,
+        lookup: PlaceholderLookup = new PlaceholderLookup(context)
+    ): Promise<string> {
+        const parts = await Promise.all(this.parse(template).map(async segment => {
+            if (typeof segment === 'string') return segment;
+
+            const { value, error } = await this.resolveToken(segment, lookup);
+            if (error) {
+                console.warn(`[PlaceholderRegistry] Failed to resolve ${segment.raw}: ${error}`);
+            }
+            return this.applyFallback(segment, value, !!error);
+        }));
+        return parts.join('');
+    }
+
+    /**
+     * Value of a single placeholder (template conditions)
+     * @returns Undefined when unknown, unavailable or failing
+     */
+    static async resolve(token: Omit<PlaceholderToken, 'raw' | 'index'>, lookup: PlaceholderLookup): Promise<string | undefined> {
+        const { value, error } = await this.resolveToken({ ...token, raw: '', index: 0 }, lookup);
+        if (error) {
+            console.warn(`[PlaceholderRegistry] Failed to resolve ${token.name}: ${error}`);
+        }
+        return value;
+    }
+
+    /**
+     * Whether a placeholder can be looped over with {{#each}}
+     */
+    static isList(name: string): boolean {
+        return !!this.definitions.get(name)?.resolveList;
+    }
+
+    /**
+     * Items of a list placeholder (template loops); failures give no items
+     */
+    static async resolveList(token: Omit<PlaceholderToken, 'raw' | 'index'>, lookup: PlaceholderLookup): Promise<string[]> {
+        const definition = this.definitions.get(token.name);
+        if (!definition?.resolveList) return [];
+
+        try {
+            return (await definition.resolveList(token.arg?.trim() || undefined, lookup)) || [];
+        } catch (error) {
+            console.warn(`[PlaceholderRegistry] Failed to resolve list ${token.name}:`, error);
+            return [];
+        }
+    }
+
+    /**
+     * Resolved value of every placeholder in a template (distinct occurrences)
+     */
+    static async preview(template: string, context: PlaceholderContext): Promise<PlaceholderPreview[]> {
+        const lookup = new PlaceholderLookup(context);
+        const tokens = this.parse(template).filter((segment): segment is PlaceholderToken => typeof segment !== 'string');
+        const distinct = Array.from(new Map(tokens.map(token => [token.raw, token])).values());
+
+        return Promise.all(distinct.map(async token => {
+            const known = this.matches(token);
+            const { value, error } = await this.resolveToken(token, lookup);
+            return {
+                raw: token.raw,
+                known,
+                ...(error ? { error } : { value: known ? this.applyFallback(token, value, false) : undefined })
+            };
+        }));
+    }
+
+    /**
+     * Format a date; tokens: YYYY MM DD HH mm ss
+     */
+    static formatDate(date: Date, pattern: string = 'YYYY-MM-DD'): string {
+        const pad = (n: number) => String(n).padStart(2, '0');
+        const parts: Record<string, string> = {
+            YYYY: String(date.getFullYear()),
+            MM: pad(date.getMonth() + 1),
+            DD: pad(date.getDate()),
+            HH: pad(date.getHours()),
+            mm: pad(date.getMinutes()),
+            ss: pad(date.getSeconds())
+        };
+        return pattern.replace(/YYYY|MM|DD|HH|mm|ss/g, token => parts[token]);
+    }
+
+    private static async resolveToken(
+        token: PlaceholderToken,
+        lookup: PlaceholderLookup
+    ): Promise<{ value?: string; error?: string }> {
+        if (!this.matches(token)) return {};
+
+        try {
+            const value = await this.definitions.get(token.name)!.resolve(token.arg?.trim(), lookup);
+            return { value };
+        } catch (error) {
+            return { error: error instanceof Error ? error.message : String(error) };
+        }
+    }
+
+    /**
+     * Whether a token is a registered placeholder written with its argument syntax
+     */
+    private static matches(token: PlaceholderToken): boolean {
+        const definition = this.definitions.get(token.name);
+        if (!definition) return false;
+        if (!definition.argument) return !token.separator;
+        if (!token.separator) return !definition.argument.required;
+        return token.separator === definition.argument.separator && (!!token.arg?.trim() || !definition.argument.required);
+    }
+
+    private static applyFallback(token: PlaceholderToken, value: string | undefined, failed: boolean): string {
+        if (value !== undefined && value.trim() !== '') return value;
+        if (token.fallback !== undefined) return token.fallback;
+        return value === undefined && !failed ? token.raw : '';
+    }
+}
+
+/**
+ * Placeholder resolved by the context extractor ({above=N}, {custom=((id))} ...)
+ */
+function contextPlaceholder(name: string, pattern: RegExp) {
+    return async (arg: string | undefined, lookup: PlaceholderLookup): Promise<string | undefined> => {
+        const extractor = lookup.context.contextExtractor;
+        if (!extractor || !arg || !pattern.test(arg)) return undefined;
+        return extractor.processTemplate(`{${name}=${arg}}`, lookup.context.blockIds);
+    };
+}
+
+/**
+ * Contents of the blocks before or after the selection ({{#each above_blocks=N}})
+ */
+function contextBlocks(direction: 'above' | 'below') {
+    return async (arg: string | undefined, lookup: PlaceholderLookup): Promise<string[] | undefined> => {
+        const extractor = lookup.context.contextExtractor;
+        if (!extractor) return undefined;
+        const count = parseInt(arg || '', 10) || DEFAULT_LIST_COUNT;
+        return extractor.getContextBlockContents(lookup.context.blockIds, direction, count);
+    };
+}
+
+async function documentTags(lookup: PlaceholderLookup): Promise<string[] | undefined> {
+    const block = await lookup.block();
+    if (!block) return undefined;
+    const tags = (await lookup.attrs(block.root_id)).tags || '';
+    return tags.split(',').map(tag => tag.trim()).filter(Boolean);
+}
+
+async function backlinkContents(arg: string | undefined, lookup: PlaceholderLookup): Promise<string[] | undefined> {
+    const block = await lookup.block();
+    if (!block) return undefined;
+    const limit = Math.min(Math.max(parseInt(arg || '', 10) || DEFAULT_LIST_COUNT, 1), SQL_ROW_LIMIT);
+    const rootId = SecurityUtils.sanitizeBlockId(block.root_id);
+    const rows = await lookup.sql(
+        `SELECT b.content FROM refs r JOIN blocks b ON b.id = r.block_id ` +
+        `WHERE r.def_block_root_id = '${rootId}' AND b.root_id != '${rootId}' LIMIT ${limit}`
+    );
+    return rows.map(row => row.content);
+}
+
+async function childBlockContents(lookup: PlaceholderLookup): Promise<string[] | undefined> {
+    const blockId = lookup.blockId;
+    if (!blockId) return undefined;
+    const children = await lookup.post('/api/block/getChildBlocks', {
+        id: SecurityUtils.sanitizeBlockId(blockId)
+    }) as Array<{ id: string }> | null;
+    const ids = SecurityUtils.sanitizeBlockIds((children || []).map(child => child.id));
+    if (ids.length === 0) return [];
+
+    const rows = await lookup.sql(
+        `SELECT id, markdown FROM blocks WHERE id IN (${ids.map(id => `'${id}'`).join(',')}) LIMIT ${ids.length}`
+    );
+    const byId = new Map(rows.map(row => [row.id, row.markdown || '']));
+    return ids.map(id => byId.get(id) || '').filter(Boolean);
+}
+
+async function sqlRows(arg: string | undefined, lookup: PlaceholderLookup): Promise<string[]> {
+    const stmt = (arg || '').trim();
+    if (!/^select\b/i.test(stmt) || stmt.includes(';')) {
+        throw new Error('仅支持单条 SELECT 语句');
+    }
+    const rows = (await lookup.sql(stmt)).slice(0, SQL_ROW_LIMIT);
+    return rows.map(row => Object.values(row).map(value => String(value ?? '')).join(' | '));
+}
+
+function requestValue(name: string) {
+    return (_arg: string | undefined, lookup: PlaceholderLookup) => lookup.value(name);
+}
+
+const BUILTIN_PLACEHOLDERS: PlaceholderDefinition[] = [
+    { name: 'instruction', description: '用户输入的编辑指令', snippet: '{instruction}', resolve: requestValue('instruction') },
+    { name: 'original', description: '选中的原始文本', snippet: '{original}', resolve: requestValue('original') },
+    { name: 'selection', description: '选区问答：选中的文本', snippet: '{selection}', resolve: requestValue('selection') },
+    { name: 'question', description: '选区问答：用户的问题', snippet: '{question}', resolve: requestValue('question') },
+    {
+        name: 'var', description: '预设输入变量的值（在预设的「输入变量」中定义）', snippet: '{var.}',
+        argument: { separator: '.', required: true },
+        resolve: (arg, lookup) => arg ? lookup.context.variables?.[arg] : undefined
+    },
+    {
+        name: 'above', description: '选中内容之前的 N 行', snippet: '{above=5}',
+        argument: { separator: '=', required: true }, resolve: contextPlaceholder('above', /^\d+$/)
+    },
+    {
+        name: 'below', description: '选中内容之后的 N 行', snippet: '{below=5}',
+        argument: { separator: '=', required: true }, resolve: contextPlaceholder('below', /^\d+$/)
+    },
+    {
+        name: 'above_blocks', description: '选中块之前的 N 个块', snippet: '{above_blocks=3}',
+        argument: { separator: '=', required: true }, resolve: contextPlaceholder('above_blocks', /^\d+$/),
+        resolveList: contextBlocks('above')
+    },
+    {
+        name: 'below_blocks', description: '选中块之后的 N 个块', snippet: '{below_blocks=3}',
+        argument: { separator: '=', required: true }, resolve: contextPlaceholder('below_blocks', /^\d+$/),
+        resolveList: contextBlocks('below')
+    },
+    {
+        name: 'custom', description: '引用块的内容', snippet: "{custom=((块ID '名称'))}",
+        argument: { separator: '=', required: true }, resolve: contextPlaceholder('custom', /^\(\(.*\)\)$/)
+    },
+    {
+        name: 'doc_title', description: '所在文档的标题', snippet: '{doc_title}',
+        resolve: async (_arg, lookup) => (await lookup.document())?.content
+    },
+    {
+        name: 'doc_path', description: '所在文档的路径', snippet: '{doc_path}',
+        resolve: async (_arg, lookup) => (await lookup.document())?.hpath
+    },
+    {
+        name: 'notebook', description: '所在笔记本的名称', snippet: '{notebook}',
+        resolve: async (_arg, lookup) => {
+            const block = await lookup.block();
+            if (!block) return undefined;
+            const data = await lookup.post('/api/notebook/lsNotebooks', {});
+            return (data?.notebooks || []).find((notebook: any) => notebook.id === block.box)?.name;
+        }
+    },
+    {
+        name: 'block_type', description: '选中块的类型（如 NodeHeading、NodeListItem、NodeCodeBlock）', snippet: '{block_type}',
+        resolve: async (_arg, lookup) => {
+            const block = await lookup.block();
+            return block ? NODE_TYPES[block.type] || block.type : undefined;
+        }
+    },
+    {
+        name: 'block_subtype', description: '选中块的子类型（如 h2；列表 o/u/t）', snippet: '{block_subtype}',
+        resolve: async (_arg, lookup) => (await lookup.block())?.subtype
+    },
+    {
+        name: 'tags', description: '所在文档的标签', snippet: '{tags}',
+        resolve: async (_arg, lookup) => (await documentTags(lookup))?.join(', '),
+        resolveList: async (_arg, lookup) => documentTags(lookup)
+    },
+    {
+        name: 'attrs', description: '选中块的属性（doc. 前缀读取文档属性）', snippet: '{attrs.custom-}',
+        argument: { separator: '.', required: true },
+        resolve: async (arg, lookup) => {
+            const block = await lookup.block();
+            if (!block || !arg) return undefined;
+            const onDocument = arg.startsWith('doc.');
+            const attrs = await lookup.attrs(onDocument ? block.root_id : block.id);
+            return attrs[onDocument ? arg.slice(4) : arg] ?? '';
+        }
+    },
+    {
+        name: 'date', description: '当前日期（可指定格式，如 {date=YYYY-MM-DD HH:mm}）', snippet: '{date}',
+        argument: { separator: '=' },
+        resolve: arg => PlaceholderRegistry.formatDate(new Date(), arg || undefined)
+    },
+    {
+        name: 'clipboard', description: '剪贴板中的文本', snippet: '{clipboard}',
+        resolve: async () => {
+            if (!navigator.clipboard?.readText) {
+                throw new Error('无法读取剪贴板');
+            }
+            return navigator.clipboard.readText();
+        }
+    },
+    {
+        name: 'parent_heading', description: '选中块所属的最近一级标题', snippet: '{parent_heading}',
+        resolve: async (_arg, lookup) => {
+            const blockId = lookup.blockId;
+            if (!blockId) return undefined;
+            const path = await lookup.post('/api/block/getBlockBreadcrumb', {
+                id: SecurityUtils.sanitizeBlockId(blockId),
+                excludeTypes: []
+            }) as Array<{ id: string; name: string; type: string }> | null;
+            const headings = (path || []).filter(node => node.type === 'NodeHeading' && node.id !== blockId);
+            return headings.length > 0 ? headings[headings.length - 1].name : '';
+        }
+    },
+    {
+        name: 'backlinks', description: '引用所在文档的块（默认最多 5 个）', snippet: '{backlinks=5}',
+        argument: { separator: '=' },
+        resolve: async (arg, lookup) => (await backlinkContents(arg, lookup))?.map(content => `- ${content}`).join('\n'),
+        resolveList: backlinkContents
+    },
+    {
+        name: 'children', description: '选中块的子块（标题下的内容、列表项等）', snippet: '{children}',
+        resolve: async (_arg, lookup) => (await childBlockContents(lookup))?.join('\n\n'),
+        resolveList: async (_arg, lookup) => childBlockContents(lookup)
+    },
+    {
+        name: 'sql', description: 'SQL 查询结果（仅限 SELECT）', snippet: '{sql:SELECT content FROM blocks WHERE }',
+        argument: { separator: ':', required: true },
+        resolve: async (arg, lookup) => (await sqlRows(arg, lookup)).join('\n'),
+        resolveList: sqlRows
+    }
+];
+
+BUILTIN_PLACEHOLDERS.forEach(definition => PlaceholderRegistry.register(definition));
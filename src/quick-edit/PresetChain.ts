@@ -0,0 +1,170 @@
+/**
+ * Preset Chain - Multi-step quick edit pipelines
+ *
+ * A chain preset runs its steps in order: each step is either another preset
+ * (its edit instruction, system prompt and filter rules) or an inline
+ * instruction, and the output of a step is the {original} of the next one
+ * ("fix grammar → shorten → translate", "draft → critique → revise").
+ *
+ * Steps are edited as one line each:
+ *   @语法修正             reference a preset by name (or ID)
+ *   精简到原来的一半长度   inline instruction ({original} is appended when missing)
+ *   @翻译成英文 | nofilter  skip the filter rules for this step
+ */
+
+import type { PromptTemplate } from "../settings/config-types";
+
+export interface PresetChainStep {
+    /** Referenced preset (edit instruction, system prompt and filter rules) */
+    presetId?: string;
+    /** Inline instruction template (when no preset is referenced) */
+    instruction?: string;
+    /** Apply the filter rules to the step output (default: true) */
+    applyFilters?: boolean;
+}
+
+export interface PresetChainStage {
+    step: PresetChainStep;
+    /** Step output (input of the next step) */
+    output: string;
+}
+
+export interface PresetChainProgress {
+    /** Finished steps in order */
+    stages: PresetChainStage[];
+    /** Step running now (undefined once the chain is done) */
+    running?: number;
+    total: number;
+}
+
+/**
+ * Run one step on the output of the previous one
+ */
+export type PresetChainStepFunction = (step: PresetChainStep, input: string, index: number) => Promise<string>;
+
+const NO_FILTER_REGEX = /\s*\|\s*nofilter\s*$/i;
+
+export class PresetChain {
+    /**
+     * @param presets Presets that steps may reference (by ID or name)
+     * @param selfId The chain preset itself (cannot be referenced)
+     */
+    static parse(text: string, presets: PromptTemplate[], selfId?: string): { steps: PresetChainStep[]; errors: string[] } {
+        const steps: PresetChainStep[] = [];
+        const errors: string[] = [];
+
+        text.split('\n').forEach((raw, i) => {
+            let line = raw.trim();
+            if (!line || line.startsWith('#')) return;
+
+            const step: PresetChainStep = {};
+            if (NO_FILTER_REGEX.test(line)) {
+                step.applyFilters = false;
+                line = line.replace(NO_FILTER_REGEX, '');
+            }
+
+            if (!line.startsWith('@')) {
+                if (!line) {
+                    errors.push(`第 ${i + 1} 行：缺少指令`);
+                    return;
+                }
+                steps.push({ instruction: line, ...step });
+                return;
+            }
+
+            const ref = line.slice(1).trim();
+            const preset = presets.find(p => p.id === ref) || presets.find(p => p.name === ref);
+            if (!preset) {
+                errors.push(`第 ${i + 1} 行：找不到预设「${ref}」`);
+            } else if (preset.id === selfId) {
+                errors.push(`第 ${i + 1} 行：不能引用链式预设自身`);
+            } else if (preset.chain?.length) {
+                errors.push(`第 ${i + 1} 行：「${preset.name}」是链式预设，不能嵌套引用`);
+            } else if (!preset.editInstruction?.trim()) {
+                errors.push(`第 ${i + 1} 行：预设「${preset.name}」没有快速编辑模版`);
+            } else if (preset.variables?.length) {
+                // The chain only asks for its own variables
+                errors.push(`第 ${i + 1} 行：预设「${preset.name}」有输入变量，不能在链式步骤中引用`);
+            } else {
+                steps.push({ presetId: preset.id, ...step });
+            }
+        });
+
+        return { steps, errors };
+    }
+
+    static format(steps: PresetChainStep[], presets: PromptTemplate[]): string {
+        return steps.map(step => {
+            const suffix = step.applyFilters === false ? ' | nofilter' : '';
+            if (!step.presetId) {
+                return `${step.instruction || ''}${suffix}`;
+            }
+            // Names are shown when they identify the preset, IDs otherwise
+            const preset = presets.find(p => p.id === step.presetId);
+            const unique = preset && presets.filter(p => p.name === preset.name).length === 1;
+            return `@${unique ? preset.name : step.presetId}${suffix}`;
+        }).join('\n');
+    }
+
+    /**
+     * Step name shown in the stage bar
+     */
+    static describe(step: PresetChainStep, presets: PromptTemplate[]): string {
+        if (step.presetId) {
+            return presets.find(p => p.id === step.presetId)?.name || step.presetId;
+        }
+        return step.instruction || '';
+    }
+
+    /**
+     * Request template of a step
+     * @param preset The referenced preset
+     */
+    static stepTemplate(step: PresetChainStep, preset?: PromptTemplate): string {
+        if (step.presetId) {
+            return preset?.editInstruction || '';
+        }
+        const instruction = step.instruction || '';
+        return instruction.includes('{original}') ? instruction : `${instruction}\n\n原文：\n{original}`;
+    }
+
+    /**
+     * Run the steps in order, each on the output of the previous one
+     * @returns Output of every step
+     */
+    static async run(
+        steps: PresetChainStep[],
+        original: string,
+        runStep: PresetChainStepFunction,
+        options: { signal?: AbortSignal; onProgress?: (progress: PresetChainProgress) => void } = {}
+    ): Promise<PresetChainStage[]> {
+        const { signal, onProgress } = options;
+        const stages: PresetChainStage[] = [];
+        let input = original;
+
+        for (let index = 0; index < steps.length; index++) {
+            this.throwIfAborted(signal);
+            onProgress?.({ stages: [...stages], running: index, total: steps.length });
+
+            const output = (await runStep(steps[index], input, index)).trim();
+            this.throwIfAborted(signal);
+            if (!output) {
+                throw new Error(`第 ${index + 1} 步没有输出`);
+            }
+
+            stages.push({ step: steps[index], output });
+            input = output;
+        }
+
+        onProgress?.({ stages: [...stages], total: steps.length });
+        return stages;
+    }
+
+    private static throwIfAborted(signal?: AbortSignal): void {
+        if (signal?.aborted) {
+            const error = new Error('Request aborted');
+            error.name = 'AbortError';
+            throw error;
+        }
+    }
+}
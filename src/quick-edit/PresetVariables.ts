@@ -0,0 +1,237 @@
+/**
+ * Preset Variables - Typed inputs a preset asks for on every quick edit
+ *
+ * The instruction popup shows a compact form for the variables of the chosen
+ * preset (target language, tone, length …) and remembers the last values per
+ * preset. Templates and the system prompt read them as {var.name}.
+ *
+ * Variables are edited as one declaration per line: `name [(label)]: type [= default]`
+ *   language (目标语言): enum(中文|English|日本語) = English
+ *   tone: text = 正式
+ *   length (字数): number(50..2000) = 300
+ *
+ * Last values are persisted with plugin.saveData (localStorage as fallback).
+ */
+
+import type { ISiYuanPlugin } from '../types/siyuan';
+
+/** Input types */
+export type PresetVariableType = 'text' | 'number' | 'enum';
+
+export interface PresetVariable {
+    /** Name used in templates ({var.name}) */
+    name: string;
+    /** Form label (defaults to the name) */
+    label?: string;
+    type: PresetVariableType;
+    /** Choices (enum) */
+    options?: string[];
+    /** Initial value before anything was entered */
+    default?: string;
+    /** Bounds (number) */
+    min?: number;
+    max?: number;
+}
+
+const DECLARATION_REGEX = /^([a-z_][\w-]*)\s*(?:\(([^)]*)\))?\s*:\s*(text|number|enum)\s*(?:\(([^)]*)\))?\s*(?:=\s*(.*))?$/i;
+
+const RANGE_REGEX = /^\s*(-?\d+(?:\.\d+)?)?\s*\.\.\s*(-?\d+(?:\.\d+)?)?\s*$/;
+
+const STORAGE_KEY = 'claude-preset-variable-values';
+const FILE_NAME = 'preset-variable-values.json';
+const INIT_TIMEOUT = 3000; // 3s timeout for file loading
+
+/** Last values per preset ID */
+type StoredValues = Record<string, Record<string, string>>;
+
+/** File storage of the plugin */
+type ValueStorage = Pick<ISiYuanPlugin, 'loadData' | 'saveData'>;
+
+export class PresetVariables {
+    private static plugin: ValueStorage | null = null;
+    /** Values loaded from file storage (null until loaded) */
+    private static stored: StoredValues | null = null;
+
+    /**
+     * Load remembered values from file storage (localStorage as fallback)
+     */
+    static async init(plugin: ValueStorage): Promise<void> {
+        this.plugin = plugin;
+        if (typeof plugin.loadData !== 'function') {
+            return;
+        }
+
+        let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
+        try {
+            const timeoutPromise = new Promise<never>((_, reject) => {
+                timeoutHandle = setTimeout(() => reject(new Error('File load timeout')), INIT_TIMEOUT);
+            });
+            const loadPromise = plugin.loadData(FILE_NAME) as Promise<unknown>;
+            const stored = this.validate(await Promise.race([loadPromise, timeoutPromise]));
+            if (stored) {
+                this.stored = stored;
+            }
+        } catch (error) {
+            console.warn('[PresetVariables] Failed to load variable values from file:', error);
+        } finally {
+            clearTimeout(timeoutHandle);
+        }
+    }
+
+    static parse(text: string): { variables: PresetVariable[]; errors: string[] } {
+        const variables: PresetVariable[] = [];
+        const errors: string[] = [];
+
+        text.split('\n').forEach((raw, i) => {
+            const line = raw.trim();
+            if (!line || line.startsWith('#')) return;
+
+            const match = DECLARATION_REGEX.exec(line);
+            if (!match) {
+                errors.push(`第 ${i + 1} 行：应为「名称 (标签): 类型 = 默认值」`);
+                return;
+            }
+
+            const [, name, label, rawType, args, rawDefault] = match;
+            const type = rawType.toLowerCase() as PresetVariableType;
+            const variable: PresetVariable = { name, type };
+            if (label?.trim()) variable.label = label.trim();
+            if (rawDefault?.trim()) variable.default = rawDefault.trim();
+
+            if (variables.some(existing => existing.name === name)) {
+                errors.push(`第 ${i + 1} 行：变量「${name}」重复`);
+                return;
+            }
+
+            if (type === 'enum') {
+                const options = (args || '').split('|').map(option => option.trim()).filter(Boolean);
+                if (options.length === 0) {
+                    errors.push(`第 ${i + 1} 行：enum 需要选项，如 enum(a|b)`);
+                    return;
+                }
+                variable.options = options;
+            } else if (type === 'number' && args !== undefined) {
+                const range = RANGE_REGEX.exec(args);
+                if (!range) {
+                    errors.push(`第 ${i + 1} 行：number 的范围应为 number(最小..最大)`);
+                    return;
+                }
+                if (range[1] !== undefined) variable.min = Number(range[1]);
+                if (range[2] !== undefined) variable.max = Number(range[2]);
+            } else if (args !== undefined) {
+                errors.push(`第 ${i + 1} 行：text 不接受参数`);
+                return;
+            }
+
+            if (variable.default !== undefined) {
+                const error = this.check(variable, variable.default);
+                if (error) {
+                    errors.push(`第 ${i + 1} 行：默认值${error}`);
+                    return;
+                }
+            }
+            variables.push(variable);
+        });
+
+        return { variables, errors };
+    }
+
+    static format(variables: PresetVariable[]): string {
+        return variables.map(variable => {
+            let type: string = variable.type;
+            if (variable.type === 'enum') {
+                type = `enum(${(variable.options || []).join('|')})`;
+            } else if (variable.type === 'number' && (variable.min !== undefined || variable.max !== undefined)) {
+                type = `number(${variable.min ?? ''}..${variable.max ?? ''})`;
+            }
+            const label = variable.label ? ` (${variable.label})` : '';
+            const defaultValue = variable.default !== undefined ? ` = ${variable.default}` : '';
+            return `${variable.name}${label}: ${type}${defaultValue}`;
+        }).join('\n');
+    }
+
+    /**
+     * Why a value is not valid for a variable
+     * @returns Undefined when valid
+     */
+    static check(variable: PresetVariable, value: string): string | undefined {
+        if (variable.type === 'enum' && !(variable.options || []).includes(value)) {
+            return `「${value}」不在选项中`;
+        }
+        if (variable.type === 'number') {
+            const number = Number(value);
+            if (value.trim() === '' || isNaN(number)) return `「${value}」不是数字`;
+            if (variable.min !== undefined && number < variable.min) return `不能小于 ${variable.min}`;
+            if (variable.max !== undefined && number > variable.max) return `不能大于 ${variable.max}`;
+        }
+        return undefined;
+    }
+
+    /**
+     * Values to show in the form: last used values that are still valid, then defaults
+     */
+    static initialValues(presetId: string, variables: PresetVariable[]): Record<string, string> {
+        const last = this.loadAll()[presetId] || {};
+        const values: Record<string, string> = {};
+
+        for (const variable of variables) {
+            const remembered = last[variable.name];
+            if (remembered !== undefined && !this.check(variable, remembered)) {
+                values[variable.name] = remembered;
+            } else {
+                values[variable.name] = variable.default ?? (variable.type === 'enum' ? variable.options?.[0] ?? '' : '');
+            }
+        }
+        return values;
+    }
+
+    /**
+     * Remember the values entered for a preset
+     */
+    static remember(presetId: string, values: Record<string, string>): void {
+        const all = { ...this.loadAll(), [presetId]: values };
+        this.stored = all;
+
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+        } catch (error) {
+            console.warn('[PresetVariables] Failed to save variable values to localStorage:', error);
+        }
+
+        if (this.plugin && typeof this.plugin.saveData === 'function') {
+            this.plugin.saveData(FILE_NAME, all).catch(error =>
+                console.warn('[PresetVariables] Failed to save variable values to file storage:', error)
+            );
+        }
+    }
+
+    private static loadAll(): StoredValues {
+        if (this.stored) {
+            return this.stored;
+        }
+
+        try {
+            return this.validate(JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}')) || {};
+        } catch {
+            return {};
+        }
+    }
+
+    /**
+     * Keep only string values grouped by preset ID
+     */
+    private static validate(data: unknown): StoredValues | null {
+        if (!data || typeof data !== 'object' || Array.isArray(data)) {
+            return null;
+        }
+
+        const values: StoredValues = {};
+        for (const [presetId, presetValues] of Object.entries(data as Record<string, unknown>)) {
+            if (!presetValues || typeof presetValues !== 'object' || Array.isArray(presetValues)) continue;
+            values[presetId] = Object.fromEntries(
+                Object.entries(presetValues as Record<string, unknown>).filter(([, value]) => typeof value === 'string')
+            ) as Record<string, string>;
+        }
+        return values;
+    }
+}
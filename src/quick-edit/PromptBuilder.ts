@@ -6,6 +6,9 @@
 import type { PromptTemplate } from '@/settings/config-types';
 import type { Message } from '@/claude/types';
 import { ContextExtractor } from './ContextExtractor';
+import type { PlaceholderContext } from './PlaceholderRegistry';
+import { TemplateEngine } from './TemplateEngine';
+import { Glossary, type GlossaryConfig } from '@/glossary';
 
 export interface PromptBuildOptions {
     /** User instruction */
@@ -20,6 +23,8 @@ export interface PromptBuildOptions {
     blockSubtype?: string;
     /** Additional context */
     additionalContext?: string;
+    /** Glossary; entries relevant to the original text are added to the prompt */
+    glossary?: GlossaryConfig;
 }
 
 export interface BuiltPrompt {
@@ -69,35 +74,44 @@ export class PromptBuilder {
 
     /**
      * Replace placeholders in template
-     * Supports: {instruction}, {original}, {above=N}, {below=N}, {above_blocks=N}, {below_blocks=N}
+     * Supports every placeholder in PlaceholderRegistry ({instruction}, {original}, {above=N}, {doc_title} ...)
+     * and the TemplateEngine tags ({{#if ...}}, {{#each ...}})
      */
     private async replacePlaceholders(
         template: string,
         options: PromptBuildOptions
     ): Promise<string> {
-        let result = template;
-
-        // Replace {instruction}
-        result = result.replace(/\{instruction\}/g, options.instruction);
-
-        // Replace {original}
-        result = result.replace(/\{original\}/g, options.originalText);
-
-        // Extract context if needed
-        if (result.includes('{above') || result.includes('{below')) {
-            const context = await this.contextExtractor.extractContext(
-                result,
-                options.blockId
-            );
-            result = context.processedInstruction;
-        }
+        let result = await PromptBuilder.renderTemplate(template, {
+            blockIds: [options.blockId],
+            values: { instruction: options.instruction, original: options.originalText },
+            contextExtractor: this.contextExtractor
+        });
 
         // Add additional context if provided
         if (options.additionalContext) {
             result += `\n\nAdditional Context:\n${options.additionalContext}`;
         }
 
-        return result;
+        return PromptBuilder.appendGlossary(result, options.glossary, options.originalText);
+    }
+
+    /**
+     * Evaluate the template tags and replace the placeholders of a template
+     * @throws {ValidationError} When the template has syntax errors
+     */
+    static async renderTemplate(template: string, context: PlaceholderContext): Promise<string> {
+        return TemplateEngine.render(template, context);
+    }
+
+    /**
+     * Append the glossary entries relevant to a text to a prompt
+     * @returns The prompt unchanged when no entries apply
+     */
+    static appendGlossary(prompt: string, glossary: GlossaryConfig | undefined, text: string): string {
+        if (!glossary) return prompt;
+
+        const section = Glossary.buildPromptSection(Glossary.relevant(glossary, text));
+        return section ? `${prompt}\n\n${section}` : prompt;
     }
 
     /**
@@ -19,7 +19,7 @@ import { AIEditProcessor } from '@/editor/AIEditProcessor';
 import { EditHistory } from '@/editor/EditHistory';
 import { ClaudeClient } from '@/claude';
 import type { ConfigManager } from '@/settings/ConfigManager';
-import type { FilterRule } from '@/settings/config-types';
+import type { FilterRule, PromptTemplate } from '@/settings/config-types';
 import { ContextExtractor } from './ContextExtractor';
 import { EditorHelper } from '@/editor/EditorHelper';
 import { SimpleCache } from '@/utils/Performance';
@@ -27,6 +27,15 @@ import { Logger } from '@/utils/Logger';
 import { PresetSelectionManager } from '@/settings/PresetSelectionManager';
 import type { PresetEvent } from '@/settings/PresetEventBus';
 import { BlockOperations } from './BlockOperations';
+import { ImageLoader } from '@/vision';
+import type { ImageAttachment, Message } from '@/claude/types';
+import { StructuredRenderer, type StructuredOutputConfig } from '@/structured';
+import { AttributeOutput, type AttributeTarget, type AttributeValue } from './AttributeOutput';
+import { PromptBuilder } from './PromptBuilder';
+import type { PlaceholderContext } from './PlaceholderRegistry';
+import { PresetChain, type PresetChainStep } from './PresetChain';
+import { Glossary, GlossaryLoader, GlossaryMiddleware, type GlossaryConfig } from '@/glossary';
+import { ComparisonView, type ComparisonColumn } from '@/compare';
 
 /**
  * FIX Phase 5: Fetch with timeout protection
@@ -73,6 +82,7 @@ export class QuickEditManager {
     // Request cancellation and concurrency control
     private activeRequestBlockId: string | null = null;
     private isProcessing: boolean = false;
+    private requestAbortController: AbortController | null = null; // Structured, chain and compare requests
 
     // FIX 1.1: Store keyboard handlers for cleanup
     private keyboardHandlers: Map<string, (e: KeyboardEvent) => void> = new Map();
@@ -136,7 +146,7 @@ export class QuickEditManager {
 
         // Setup popup callbacks
         this.inputPopup.setCallbacks({
-            onSubmit: (instruction) => this.handleInstructionSubmit(instruction),
+            onSubmit: (instruction, variables, compare) => this.handleInstructionSubmit(instruction, variables, compare),
             onCancel: () => {
                 this.pendingSelection = null;
             },
@@ -500,6 +510,7 @@ export class QuickEditManager {
 
         // 取消 ClaudeClient 的网络请求
         this.claudeClient.cancelActiveRequest();
+        this.requestAbortController?.abort();
 
         // 清理 UI（使用 reject 的清理逻辑）
         if (block) {
@@ -516,7 +527,7 @@ export class QuickEditManager {
     /**
      * Handle instruction submit
      */
-    private async handleInstructionSubmit(instruction: string): Promise<void> {
+    private async handleInstructionSubmit(instruction: string, variables?: Record<string, string>, compare?: boolean): Promise<void> {
         // 设置处理中标志，防止并发
         this.isProcessing = true;
 
@@ -562,6 +573,8 @@ export class QuickEditManager {
             originalText: selection.text,
             suggestedText: '',
             instruction,
+            variables,
+            compare,
             state: 'processing' as InlineEditState,
             element: null,
             position: {
@@ -734,15 +747,25 @@ export class QuickEditManager {
             let fullResponseWithIndentChunks: string[] = []; // Chunks with indent
             let chunkCount = 0;
             let totalChars = 0;
+            let reasoningChars = 0; // Thinking text is counted only, never applied
 
             // FIX: 构建请求模板 - 使用当前选中 preset 的 editInstruction
             // 获取当前选中的 preset ID (await to ensure file loading completes)
             const currentPresetId = await this.getCurrentPresetId();
             let template: string;
 
+            // 链式预设：依次执行各步骤，上一步的输出作为下一步的 {original}
+            const chainPreset = currentPresetId ? this.configManager.getTemplateById(currentPresetId) : undefined;
+            if (chainPreset?.chain?.length) {
+                await this.processChainEdit(block, chainPreset);
+                return;
+            }
+
             // FIX: 如果有选中的 preset，使用 preset 的完整配置（editInstruction + systemPrompt + appendedPrompt）
             let presetSystemPrompt: string | undefined = undefined;
             let presetAppendedPrompt: string | undefined = undefined;
+            let presetOutputSchema: StructuredOutputConfig | undefined = undefined;
+            let presetAttributeTargets: AttributeTarget[] | undefined = undefined;
 
             if (currentPresetId) {
                 // NEW v0.9.0: Use getTemplateById() instead of find() for better performance
@@ -754,6 +777,8 @@ export class QuickEditManager {
                     // FIX: 提取 preset 的 systemPrompt 和 appendedPrompt
                     presetSystemPrompt = currentPreset.systemPrompt;
                     presetAppendedPrompt = currentPreset.appendedPrompt;
+                    presetOutputSchema = currentPreset.outputSchema;
+                    presetAttributeTargets = currentPreset.attributeTargets?.length ? currentPreset.attributeTargets : undefined;
 
                     this.logger.debug(`Using preset: ${currentPreset.name} (${currentPresetId})`);
                     this.logger.debug(`SystemPrompt length: ${presetSystemPrompt?.length ?? 0}, AppendedPrompt length: ${presetAppendedPrompt?.length ?? 0}`);
@@ -779,21 +804,26 @@ export class QuickEditManager {
 重要：只返回修改后的完整文本，不要添加任何前言、说明、解释或格式标记（如"以下是..."、"主要改进："等）。直接输出修改后的文本内容即可。`;
             }
 
-            // ✨ 处理上下文占位符 {above=x}, {below=x}, {above_blocks=x}, {below_blocks=x}
-            let processedTemplate = template;
-            try {
-                if (this.contextExtractor.hasPlaceholders(template)) {
-                    processedTemplate = await this.contextExtractor.processTemplate(template, block.selectedBlockIds || []);
-                }
-            } catch (error) {
-                console.error(`[QuickEdit] Error processing context placeholders:`, error);
-                processedTemplate = template;
+            // ✨ 处理模板标签 {{#if}}/{{#each}} 和占位符（{instruction}, {original}, 上下文 {above=x}, 引用块 {custom=((id))}, 文档信息 {doc_title} 等）
+            // 第一个可变占位符之前的稳定前缀单独处理，其中的固定引用块可作为提示词缓存前缀
+            const placeholderContext: PlaceholderContext = {
+                blockIds: block.selectedBlockIds?.length ? block.selectedBlockIds : [block.blockId],
+                values: { instruction: block.instruction, original: block.originalText },
+                contextExtractor: this.contextExtractor,
+                variables: block.variables
+            };
+            // 预设输入变量也可用于系统提示词（{var.name}）
+            if (block.variables && presetSystemPrompt) {
+                presetSystemPrompt = await PromptBuilder.renderTemplate(presetSystemPrompt, placeholderContext);
             }
+            const { prefix, rest } = this.contextExtractor.splitStablePrefix(template);
+            const [processedPrefix, processedRest] = await Promise.all([
+                PromptBuilder.renderTemplate(prefix, placeholderContext),
+                PromptBuilder.renderTemplate(rest, placeholderContext)
+            ]);
+            const cachePrefixLength = processedPrefix !== prefix ? processedPrefix.length : 0;
 
-            // 替换占位符构建用户消息
-            let userPrompt = processedTemplate
-                .replace('{instruction}', block.instruction)
-                .replace('{original}', block.originalText);
+            let userPrompt = processedPrefix + processedRest;
 
             // FIX: 统一提示词管线：优先使用 preset 的 appendedPrompt，否则使用全局的
             const appendedPrompt = presetAppendedPrompt || this.claudeClient.getAppendedPrompt();
@@ -801,14 +831,51 @@ export class QuickEditManager {
                 userPrompt += '\n\n' + appendedPrompt;
             }
 
+            // 术语表（全局 + 预设）：与原文相关的术语和禁用词加入提示词，完成后检查响应
+            const glossary = await GlossaryLoader.resolveAll(this.claudeClient.getGlossaries(currentPresetId));
+            userPrompt = PromptBuilder.appendGlossary(userPrompt, glossary, block.originalText);
+
             // 获取 filterRules（全局 + 预设）
             const filterRules: FilterRule[] = this.claudeClient.getFilterRules(currentPresetId) || [];
 
             // Diagnostic logging for request parameters
             this.logger.debug(`Request params - UserPrompt: ${userPrompt.length} chars, FilterRules: ${filterRules.length}, SystemPrompt: ${presetSystemPrompt ? 'preset' : 'global'}`);
 
+            // 图片输入：所选块中引用的资源图片（仅限支持视觉的模型）
+            let images: ImageAttachment[] = [];
+            if (this.claudeClient.supportsVision()) {
+                try {
+                    const blockIds = block.selectedBlockIds?.length ? block.selectedBlockIds : [block.blockId];
+                    images = (await ImageLoader.fromBlocks(blockIds)).images;
+                    if (images.length > 0) {
+                        this.logger.debug(`Attached ${images.length} images from selected blocks`);
+                    }
+                } catch (error) {
+                    this.logger.warn('Failed to load images from selected blocks:', error);
+                }
+            }
+
+            const userMessage: Message = {
+                role: 'user',
+                content: userPrompt,
+                ...(images.length > 0 && { images }),
+                ...(cachePrefixLength > 0 && { cachePrefixLength })
+            };
+
+            // 结构化输出：预设声明了 outputSchema 时请求 JSON，校验后渲染为思源块
+            if (presetOutputSchema) {
+                await this.processStructuredEdit(block, userMessage, presetOutputSchema, presetAttributeTargets, presetSystemPrompt, currentPresetId);
+                return;
+            }
+
+            // 对比模式：同一提示词并行发送给多个提供商，分栏显示后一键采用
+            if (block.compare) {
+                await this.processComparisonEdit(block, userMessage, filterRules, presetSystemPrompt, currentPresetId, glossary, presetAttributeTargets);
+                return;
+            }
+
             await this.claudeClient.sendMessage(
-                [{ role: 'user', content: userPrompt }],
+                [userMessage],
                 // onMessage callback
                 (chunk) => {
                     // 检测是否是过滤后的替换消息
@@ -873,28 +940,7 @@ export class QuickEditManager {
                 },
                 // onError callback
                 (error) => {
-                    block.state = 'error' as InlineEditState;
-                    block.error = error.message;
-
-                    // 清理处理状态
-                    this.isProcessing = false;
-                    this.activeRequestBlockId = null;
-
-                    // Remove red marking from original blocks on error
-                    if (block.selectedBlockIds && block.selectedBlockIds.length > 0) {
-                        const selector = block.selectedBlockIds.map(id => `[data-node-id="${id}"]`).join(',');
-                        const blockElements = document.querySelectorAll(selector);
-                        blockElements.forEach(el => el.classList.remove('quick-edit-original-block'));
-                    }
-
-                    if (block.element) {
-                        this.renderer.showError(block.element, error.message);
-                        // 显示重试/拒绝按钮，隐藏取消按钮
-                        this.renderer.showReviewButtons(block.element);
-                    }
-
-                    console.error('[QuickEdit] Error:', error);
-                    showMessage(`❌ 快速编辑失败: ${error.message}`, 3000, 'error');
+                    this.failInlineEdit(block, error);
                 },
                 // onComplete callback
                 () => {
@@ -902,14 +948,36 @@ export class QuickEditManager {
                     block.updatedAt = Date.now();
 
                     // Join all chunks once at the end (O(n) instead of O(n²))
-                    const fullResponse = fullResponseChunks.join('');
-                    const fullResponseWithIndent = fullResponseWithIndentChunks.join('');
+                    let fullResponse = fullResponseChunks.join('');
+                    let fullResponseWithIndent = fullResponseWithIndentChunks.join('');
+
+                    if (reasoningChars > 0) {
+                        this.logger.debug(`Discarded ${reasoningChars} chars of reasoning`);
+                    }
 
                     // Validate response length
                     if (fullResponse.length !== totalChars) {
                         console.error(`[QuickEdit] Response length mismatch: expected ${totalChars}, got ${fullResponse.length}`);
                     }
 
+                    // 术语表检查：标记（或自动修正）术语和禁用词，结果显示在建议下方
+                    if (glossary) {
+                        const checked = GlossaryMiddleware.apply(glossary, block.originalText, fullResponse, "QuickEdit", currentPresetId);
+                        block.glossaryViolations = checked.violations;
+                        if (checked.text !== fullResponse) {
+                            fullResponse = checked.text;
+                            fullResponseWithIndent = block.indentPrefix
+                                ? fullResponse.replace(/\n(?!$)/g, '\n' + block.indentPrefix)
+                                : fullResponse;
+                            if (block.element) {
+                                this.renderer.replaceStreamingContent(block.element, fullResponseWithIndent);
+                            }
+                        }
+                        if (block.element) {
+                            this.renderer.showGlossaryViolations(block.element, checked.violations.map(v => Glossary.describe(v)));
+                        }
+                    }
+
                     // Validate DOM text
                     if (block.element) {
                         const suggestionContent = block.element.querySelector('[data-content-type="suggestion"]') as HTMLElement;
@@ -924,26 +992,13 @@ export class QuickEditManager {
                             }
                         }
 
-                        // Check auto action setting - read from ConfigManager for live updates
-                        const currentProfile = this.configManager.getActiveProfile();
-                        const autoAction = currentProfile?.settings?.editSettings?.quickEditAutoAction || 'preview';
-
-                        if (autoAction === 'preview') {
-                            // Default: show review buttons
-                            this.renderer.completeStreaming(block.element);
-                        } else {
-                            // Auto mode: show hint, then auto-apply
-                            this.renderer.completeStreamingAutoMode(block.element, autoAction);
-
-                            // Delay to let user see the result, then auto-apply
-                            setTimeout(() => {
-                                if (autoAction === 'replace') {
-                                    this.handleAccept(block.id);
-                                } else if (autoAction === 'insert') {
-                                    this.handleInsert(block.id);
-                                }
-                            }, 500);
+                        // 属性应用模式：回答写入块/文档属性，预览将要设置的属性
+                        if (presetAttributeTargets) {
+                            block.attributeValues = AttributeOutput.collectValues(presetAttributeTargets, fullResponse);
+                            this.renderer.replaceStreamingContent(block.element, AttributeOutput.describe(block.attributeValues));
                         }
+
+                        this.completeInlineEdit(block, block.element);
                     }
 
                     // Save final joined responses
@@ -956,7 +1011,12 @@ export class QuickEditManager {
                 },
                 "QuickEdit",         // feature
                 filterRules,         // filterRules
-                presetSystemPrompt   // FIX: systemPrompt - 优先使用 preset 的 systemPrompt，否则使用全局的
+                presetSystemPrompt,  // FIX: systemPrompt - 优先使用 preset 的 systemPrompt，否则使用全局的
+                currentPresetId,     // presetId - 用量统计按预设汇总
+                // onReasoning - 思考过程单独传递，不写入 suggestedText，不会被应用到文档
+                (chunk) => {
+                    reasoningChars += chunk.length;
+                }
             );
 
         } catch (error) {
@@ -975,6 +1035,393 @@ export class QuickEditManager {
         }
     }
 
+    /**
+     * Request a structured answer, validate it against the preset schema and render it as blocks
+     * (the schema is enforced natively where the provider supports it, otherwise validated and retried once)
+     */
+    private async processStructuredEdit(
+        block: InlineEditBlock,
+        message: Message,
+        outputSchema: StructuredOutputConfig,
+        attributeTargets?: AttributeTarget[],
+        systemPrompt?: string,
+        presetId?: string
+    ): Promise<void> {
+        const controller = new AbortController();
+        this.requestAbortController = controller;
+
+        try {
+            const data = await this.claudeClient.sendStructuredMessage(
+                [message],
+                { name: 'structured_output', schema: outputSchema.schema },
+                "QuickEdit",
+                systemPrompt,
+                presetId,
+                controller.signal
+            );
+
+            // 请求期间已取消（块已被移除）
+            if (!this.activeBlocks.has(block.id)) return;
+
+            const result = StructuredRenderer.render(data, outputSchema.render);
+
+            // 属性应用模式：预设的属性目标优先；"块属性"渲染方式写入所选块的 custom-* 属性
+            if (attributeTargets) {
+                block.attributeValues = AttributeOutput.collectValues(attributeTargets, JSON.stringify(data), data);
+            } else if (result.attributes) {
+                block.attributeValues = Object.entries(result.attributes).map(([name, value]): AttributeValue => ({
+                    target: { field: 'custom', name: name.replace(/^custom-/, ''), scope: 'block' },
+                    value
+                }));
+            }
+            if (block.attributeValues) {
+                result.markdown = AttributeOutput.describe(block.attributeValues);
+            }
+
+            let markdownWithIndent = result.markdown;
+            if (block.indentPrefix && block.indentPrefix.length > 0) {
+                markdownWithIndent = result.markdown.replace(/\n(?!$)/g, '\n' + block.indentPrefix);
+            }
+
+            block.structuredResult = result;
+            block.suggestedText = result.markdown;
+            block.suggestedTextWithIndent = markdownWithIndent;
+            block.state = 'reviewing' as InlineEditState;
+            block.updatedAt = Date.now();
+            this.logger.debug(`Structured output rendered as ${outputSchema.render}: ${result.markdown.length} chars, ${Object.keys(result.attributes || {}).length} attributes`);
+
+            if (block.element) {
+                this.renderer.replaceStreamingContent(block.element, markdownWithIndent);
+                this.completeInlineEdit(block, block.element);
+            }
+
+            this.isProcessing = false;
+            this.activeRequestBlockId = null;
+        } catch (error) {
+            if (!this.activeBlocks.has(block.id)) return;
+            this.failInlineEdit(block, error instanceof Error ? error : new Error(String(error)));
+        } finally {
+            if (this.requestAbortController === controller) {
+                this.requestAbortController = null;
+            }
+        }
+    }
+
+    /**
+     * Run the steps of a chain preset, showing every step's output as it finishes
+     * The last output is suggested; any finished step can be selected and accepted instead
+     */
+    private async processChainEdit(block: InlineEditBlock, chainPreset: PromptTemplate): Promise<void> {
+        const steps = chainPreset.chain || [];
+        const controller = new AbortController();
+        this.requestAbortController = controller;
+        block.chainStages = [];
+
+        try {
+            const stages = await PresetChain.run(
+                steps,
+                block.originalText,
+                (step, input) => this.runChainStep(block, chainPreset, step, input, controller.signal),
+                {
+                    signal: controller.signal,
+                    onProgress: (progress) => {
+                        if (!this.activeBlocks.has(block.id)) return;
+                        block.chainStages = progress.stages;
+                        this.showChainStage(block, steps, progress.stages.length - 1, progress.running !== undefined);
+                    }
+                }
+            );
+
+            if (!this.activeBlocks.has(block.id)) return;
+            this.logger.debug(`Chain ${chainPreset.name} finished: ${stages.map(stage => stage.output.length).join(' → ')} chars`);
+
+            block.state = 'reviewing' as InlineEditState;
+            block.updatedAt = Date.now();
+            this.isProcessing = false;
+            this.activeRequestBlockId = null;
+
+            if (block.element) {
+                if (block.glossaryViolations) {
+                    this.renderer.showGlossaryViolations(block.element, block.glossaryViolations.map(v => Glossary.describe(v)));
+                }
+                this.completeInlineEdit(block, block.element);
+            }
+        } catch (error) {
+            if (!this.activeBlocks.has(block.id)) return;
+            this.failInlineEdit(block, error instanceof Error ? error : new Error(String(error)));
+        } finally {
+            if (this.requestAbortController === controller) {
+                this.requestAbortController = null;
+            }
+        }
+    }
+
+    /**
+     * Send the prompt to several providers at once and show their answers side by side
+     * Accepting a column replaces the selection with that answer (the auto action is not applied)
+     */
+    private async processComparisonEdit(
+        block: InlineEditBlock,
+        userMessage: Message,
+        filterRules: FilterRule[],
+        systemPrompt: string | undefined,
+        presetId: string | undefined,
+        glossary: GlossaryConfig | undefined,
+        attributeTargets: AttributeTarget[] | undefined
+    ): Promise<void> {
+        let columns: ComparisonColumn[];
+        try {
+            columns = this.claudeClient.getComparisonProviders();
+        } catch (error) {
+            this.failInlineEdit(block, new Error(`对比模式不可用：${error instanceof Error ? error.message : String(error)}`));
+            return;
+        }
+        const controller = new AbortController();
+        this.requestAbortController = controller;
+
+        const view = new ComparisonView(columns, {
+            acceptLabel: '采用',
+            onAccept: (result) => {
+                controller.abort();
+                this.acceptComparisonResult(block, result.content, glossary, attributeTargets, presetId).catch((error) => {
+                    this.logger.error('Failed to accept comparison result:', error);
+                    showMessage(`应用修改失败: ${error instanceof Error ? error.message : String(error)}`, 5000, 'error');
+                });
+            }
+        });
+        if (block.element) {
+            this.renderer.showProviderComparison(block.element, view.element);
+        }
+
+        try {
+            const results = await this.claudeClient.sendComparison([userMessage], columns, {
+                feature: "QuickEdit",
+                filterRules,
+                systemPrompt,
+                presetId,
+                signal: controller.signal,
+                onChunk: (index, chunk) => view.append(index, chunk),
+                onResult: (index, result) => view.complete(index, result)
+            });
+
+            // Accepted (or cancelled) before every provider finished
+            if (!this.activeBlocks.has(block.id) || controller.signal.aborted) return;
+            block.comparisonResults = results;
+            this.logger.debug(`Comparison finished: ${results.map(r => `${r.name} ${r.error ? 'failed' : `${r.content.length} chars`}`).join(', ')}`);
+
+            if (results.every(result => result.error)) {
+                this.failInlineEdit(block, new Error(results.map(result => `${result.name}: ${result.error}`).join('；')));
+                return;
+            }
+
+            block.state = 'reviewing' as InlineEditState;
+            block.updatedAt = Date.now();
+            this.isProcessing = false;
+            this.activeRequestBlockId = null;
+            if (block.element) {
+                this.renderer.showComparisonReviewButtons(block.element);
+            }
+        } finally {
+            if (this.requestAbortController === controller) {
+                this.requestAbortController = null;
+            }
+        }
+    }
+
+    /**
+     * Apply the answer chosen in the comparison (glossary fixes and attribute mode included)
+     */
+    private async acceptComparisonResult(
+        block: InlineEditBlock,
+        text: string,
+        glossary: GlossaryConfig | undefined,
+        attributeTargets: AttributeTarget[] | undefined,
+        presetId: string | undefined
+    ): Promise<void> {
+        if (!this.activeBlocks.has(block.id)) return;
+
+        const content = glossary
+            ? GlossaryMiddleware.apply(glossary, block.originalText, text, "QuickEdit", presetId).text
+            : text;
+        block.suggestedText = content;
+        block.suggestedTextWithIndent = block.indentPrefix
+            ? content.replace(/\n(?!$)/g, '\n' + block.indentPrefix)
+            : content;
+        if (attributeTargets) {
+            block.attributeValues = AttributeOutput.collectValues(attributeTargets, content);
+        }
+
+        block.state = 'reviewing' as InlineEditState;
+        this.isProcessing = false;
+        this.activeRequestBlockId = null;
+        await this.handleAccept(block.id);
+    }
+
+    /**
+     * Send one chain step: a referenced preset (its template, system prompt and filter rules)
+     * or an inline instruction (with the chain preset's system prompt and filter rules)
+     */
+    private async runChainStep(
+        block: InlineEditBlock,
+        chainPreset: PromptTemplate,
+        step: PresetChainStep,
+        input: string,
+        signal: AbortSignal
+    ): Promise<string> {
+        const preset = step.presetId ? this.configManager.getTemplateById(step.presetId) : undefined;
+        if (step.presetId && !preset?.editInstruction) {
+            throw new Error(`链式步骤引用的预设不存在或没有快速编辑模版：${step.presetId}`);
+        }
+        if (preset?.variables?.length) {
+            throw new Error(`链式步骤引用的预设「${preset.name}」有输入变量，不能在链式预设中使用`);
+        }
+        const source = preset || chainPreset;
+
+        const prompt = await PromptBuilder.renderTemplate(PresetChain.stepTemplate(step, preset), {
+            blockIds: block.selectedBlockIds?.length ? block.selectedBlockIds : [block.blockId],
+            values: { instruction: block.instruction, original: input },
+            contextExtractor: this.contextExtractor,
+            variables: block.variables
+        });
+        const appendedPrompt = source.appendedPrompt || this.claudeClient.getAppendedPrompt();
+        const glossary = await GlossaryLoader.resolveAll(this.claudeClient.getGlossaries(source.id));
+        const userPrompt = PromptBuilder.appendGlossary(
+            appendedPrompt?.trim() ? `${prompt}\n\n${appendedPrompt}` : prompt,
+            glossary,
+            input
+        );
+        const filterRules = step.applyFilters === false ? [] : this.claudeClient.getFilterRules(source.id);
+
+        const output = await this.claudeClient.sendMessageSimple(
+            [{ role: 'user', content: userPrompt }],
+            "QuickEdit",
+            filterRules,
+            source.systemPrompt || chainPreset.systemPrompt || undefined,
+            source.id,
+            undefined,
+            signal
+        );
+        if (!glossary) {
+            block.glossaryViolations = undefined;
+            return output;
+        }
+
+        // 每一步都按其预设的术语表检查；最后一步的结果显示在建议下方
+        const checked = GlossaryMiddleware.apply(glossary, input, output, "QuickEdit", source.id);
+        block.glossaryViolations = checked.violations;
+        return checked.text;
+    }
+
+    /**
+     * Show the output of a finished chain step as the suggestion
+     * @param running Whether the next step is still running
+     */
+    private showChainStage(block: InlineEditBlock, steps: PresetChainStep[], index: number, running: boolean = false): void {
+        const stages = block.chainStages || [];
+        const stage = stages[index];
+        if (stage) {
+            block.suggestedText = stage.output;
+            block.suggestedTextWithIndent = block.indentPrefix
+                ? stage.output.replace(/\n(?!$)/g, '\n' + block.indentPrefix)
+                : stage.output;
+        }
+        if (!block.element) return;
+
+        if (stage) {
+            this.renderer.replaceStreamingContent(block.element, block.suggestedTextWithIndent || '');
+        }
+        const presets = this.configManager.getAllTemplates();
+        this.renderer.showChainStages(
+            block.element,
+            { labels: steps.map(step => PresetChain.describe(step, presets)), finished: stages.length, active: index, running },
+            (selected) => this.showChainStage(block, steps, selected)
+        );
+    }
+
+    /**
+     * Finish a completed edit: show review buttons, or auto-apply per the quick edit auto action
+     */
+    private completeInlineEdit(block: InlineEditBlock, element: HTMLElement): void {
+        // Check auto action setting - read from ConfigManager for live updates
+        const currentProfile = this.configManager.getActiveProfile();
+        const autoAction = currentProfile?.settings?.editSettings?.quickEditAutoAction || 'preview';
+
+        if (autoAction === 'preview') {
+            // Default: show review buttons
+            this.renderer.completeStreaming(element);
+        } else {
+            // Auto mode: show hint, then auto-apply
+            this.renderer.completeStreamingAutoMode(element, autoAction);
+
+            // Delay to let user see the result, then auto-apply
+            setTimeout(() => {
+                if (autoAction === 'replace') {
+                    this.handleAccept(block.id);
+                } else if (autoAction === 'insert') {
+                    this.handleInsert(block.id);
+                }
+            }, 500);
+        }
+    }
+
+    /**
+     * Show a failed edit with retry/reject buttons
+     */
+    private failInlineEdit(block: InlineEditBlock, error: Error): void {
+        block.state = 'error' as InlineEditState;
+        block.error = error.message;
+
+        // 清理处理状态
+        this.isProcessing = false;
+        this.activeRequestBlockId = null;
+
+        // Remove red marking from original blocks on error
+        if (block.selectedBlockIds && block.selectedBlockIds.length > 0) {
+            const selector = block.selectedBlockIds.map(id => `[data-node-id="${id}"]`).join(',');
+            const blockElements = document.querySelectorAll(selector);
+            blockElements.forEach(el => el.classList.remove('quick-edit-original-block'));
+        }
+
+        if (block.element) {
+            this.renderer.showError(block.element, error.message);
+            // 显示重试/拒绝按钮，隐藏取消按钮
+            this.renderer.showReviewButtons(block.element);
+        }
+
+        console.error('[QuickEdit] Error:', error);
+        showMessage(`❌ 快速编辑失败: ${error.message}`, 3000, 'error');
+    }
+
+    /**
+     * Write the answer to block/document attributes (the text is kept)
+     */
+    private async applyAttributeOutput(block: InlineEditBlock, values: AttributeValue[]): Promise<void> {
+        if (values.length === 0) {
+            showMessage('回答中没有可写入属性的内容', 3000, 'error');
+            return;
+        }
+
+        const results = await this.blockOps.applyAttributeValues(block.blockId, values);
+        const failed = results.find(r => !r.success);
+        if (failed) {
+            throw failed.error instanceof Error ? failed.error : new Error('设置属性失败');
+        }
+
+        this.pauseObserver();
+        if (block.element && document.contains(block.element)) {
+            this.renderer.removeBlock(block.element);
+        }
+        if (block.selectedBlockIds && block.selectedBlockIds.length > 0) {
+            const selector = block.selectedBlockIds.map(id => `[data-node-id="${id}"]`).join(',');
+            document.querySelectorAll(selector).forEach(el => el.classList.remove('quick-edit-original-block'));
+        }
+        block.markedSpan = null;
+        this.resumeObserver();
+
+        this.cleanupBlock(block.id);
+        showMessage(`✅ 已设置 ${values.length} 项属性`, 2000);
+    }
+
     /**
      * Bind action buttons
      */
@@ -1112,17 +1559,28 @@ export class QuickEditManager {
     private async handleAccept(blockId: string): Promise<void> {
         const block = this.activeBlocks.get(blockId);
         if (!block || !block.element) return;
+        if (block.compare && !block.suggestedText) {
+            showMessage('请先在对比结果中采用一个回答', 2000, 'info');
+            return;
+        }
 
         try {
             // IMPORTANT: Use SiYuan's transaction API for proper undo/redo support
             // Do NOT modify DOM directly - let SiYuan handle all rendering
 
+            // 属性应用模式：只设置块/文档属性，不修改正文
+            if (block.attributeValues) {
+                await this.applyAttributeOutput(block, block.attributeValues);
+                return;
+            }
+
             // FIX: Use indented text if available (preserves indentation shown in preview)
             let textToApply = block.suggestedTextWithIndent || block.suggestedText;
 
             // FIX Issue #1: Apply Markdown formatting for single-block selections
+            // (structured output already renders its own block markdown: tables, task lists)
             const isSingleBlock = !block.selectedBlockIds || block.selectedBlockIds.length === 1;
-            if (isSingleBlock && block.originalBlockType) {
+            if (isSingleBlock && block.originalBlockType && !block.structuredResult) {
                 textToApply = this.applyMarkdownFormatting(
                     textToApply,
                     block.originalBlockType,
@@ -1248,14 +1706,24 @@ export class QuickEditManager {
     private async handleInsert(blockId: string): Promise<void> {
         const block = this.activeBlocks.get(blockId);
         if (!block || !block.element) return;
+        if (block.compare && !block.suggestedText) {
+            showMessage('请先在对比结果中采用一个回答', 2000, 'info');
+            return;
+        }
 
         try {
+            // 属性应用模式：只设置块/文档属性
+            if (block.attributeValues) {
+                await this.applyAttributeOutput(block, block.attributeValues);
+                return;
+            }
+
             // Use indented text if available
             let textToApply = block.suggestedTextWithIndent || block.suggestedText;
 
-            // Apply Markdown formatting for single-block selections
+            // Apply Markdown formatting for single-block selections (not for structured output)
             const isSingleBlock = !block.selectedBlockIds || block.selectedBlockIds.length === 1;
-            if (isSingleBlock && block.originalBlockType) {
+            if (isSingleBlock && block.originalBlockType && !block.structuredResult) {
                 textToApply = this.applyMarkdownFormatting(
                     textToApply,
                     block.originalBlockType,
@@ -1389,7 +1857,13 @@ export class QuickEditManager {
 
         // Reset block state
         block.suggestedText = '';
+        block.structuredResult = undefined;
+        block.attributeValues = undefined;
+        block.chainStages = undefined;
+        block.comparisonResults = undefined;
         block.state = 'processing' as InlineEditState;
+        this.renderer.showChainStages(block.element, { labels: [], finished: 0, active: 0, running: false }, () => {});
+        this.renderer.showProviderComparison(block.element, null);
 
         // Clear suggestion content
         const suggestionContent = block.element.querySelector('[data-content-type="suggestion"]') as HTMLElement;
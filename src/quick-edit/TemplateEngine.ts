@@ -0,0 +1,442 @@
+/**
+ * Template Engine - Conditions and loops in prompt templates
+ *
+ * Tags:
+ *   {{#if block_type == "NodeHeading"}} … {{else if …}} … {{else}} … {{/if}}
+ *   {{#each above_blocks=3}} {{@index}}. {{this}} {{else}} (no items) {{/each}}
+ *   {{name}}               value of a variable (this, @index, or any placeholder name)
+ *
+ * Conditions compare variables and "string" / number literals with == != > < >= <=
+ * and contains, combined with && || ! and parentheses; no code is evaluated.
+ * Variables are placeholder names without braces (block_type, original,
+ * attrs.custom-x, …), plus this / @index / @first / @last inside loops.
+ *
+ * Text outside the tags goes through PlaceholderRegistry; loop items and
+ * variable values are inserted as they are. A line holding only a block tag is
+ * removed with its line break. \{{ is not a tag.
+ */
+
+import { ValidationError } from "../utils/errors";
+import { PlaceholderLookup, PlaceholderRegistry, type PlaceholderContext } from "./PlaceholderRegistry";
+
+type Expression =
+    | { kind: 'literal'; value: string }
+    | { kind: 'variable'; path: string }
+    | { kind: 'not'; operand: Expression }
+    | { kind: 'binary'; operator: BinaryOperator; left: Expression; right: Expression };
+
+type BinaryOperator = '==' | '!=' | '>' | '<' | '>=' | '<=' | 'contains' | '&&' | '||';
+
+type TemplateNode =
+    | { kind: 'text'; text: string }
+    | { kind: 'output'; path: string }
+    | { kind: 'if'; branches: Array<{ condition: Expression | null; body: TemplateNode[] }> }
+    | { kind: 'each'; list: string; body: TemplateNode[]; empty: TemplateNode[] };
+
+interface Tag {
+    content: string;
+    start: number;
+    end: number;
+    line: number;
+}
+
+interface LoopScope {
+    item: string;
+    index: number;
+    count: number;
+}
+
+// {{ … }} not preceded by a backslash
+const TAG_REGEX = /(?<!\\)\{\{([\s\S]*?)\}\}/g;
+
+const BLOCK_TAG_REGEX = /^(#if|#each|else|\/if|\/each)\b\s*([\s\S]*)$/;
+
+const EXPRESSION_TOKEN_REGEX = /\s*(?:("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|(-?\d+(?:\.\d+)?)(?![\w.-])|(==|!=|>=|<=|&&|\|\||[<>!()])|([@a-z_][\w.-]*(?:[=:](?!=)[^\s()]*)?))/iy;
+
+const LOOP_VARIABLES = ['this', '@index', '@first', '@last'];
+
+export class TemplateEngine {
+    /**
+     * Whether a template uses template tags
+     */
+    static hasTags(template: string): boolean {
+        return new RegExp(TAG_REGEX.source).test(template);
+    }
+
+    /**
+     * Syntax errors of a template (empty when valid)
+     */
+    static validate(template: string): string[] {
+        try {
+            this.parse(template);
+            return [];
+        } catch (error) {
+            return [error instanceof Error ? error.message : String(error)];
+        }
+    }
+
+    /**
+     * Template without its tags (placeholder preview)
+     */
+    static stripTags(template: string): string {
+        return template.replace(TAG_REGEX, ' ');
+    }
+
+    /**
+     * Evaluate the tags and replace the placeholders of a template
+     * @throws {ValidationError} On syntax errors
+     */
+    static async render(template: string, context: PlaceholderContext): Promise<string> {
+        if (!this.hasTags(template)) {
+            return PlaceholderRegistry.render(template, context);
+        }
+
+        const nodes = this.parse(template);
+        const lookup = new PlaceholderLookup(context);
+        return this.renderNodes(nodes, lookup, []);
+    }
+
+    /**
+     * @throws {ValidationError} On syntax errors (message includes the line)
+     */
+    private static parse(template: string): TemplateNode[] {
+        const tags = this.scanTags(template);
+        const root: TemplateNode[] = [];
+        const stack: Array<{ node: Extract<TemplateNode, { kind: 'if' | 'each' }>; body: TemplateNode[]; tag: Tag; hasElse: boolean }> = [];
+        let current = root;
+        let last = 0;
+        const inLoop = () => stack.some(frame => frame.node.kind === 'each');
+
+        for (const tag of tags) {
+            if (tag.start > last) {
+                current.push({ kind: 'text', text: template.slice(last, tag.start) });
+            }
+            last = tag.end;
+
+            const content = tag.content;
+            const fail: (message: string) => never = message => {
+                throw new ValidationError(`模板第 ${tag.line} 行：${message}`);
+            };
+            const [, keyword = '', rest = ''] = BLOCK_TAG_REGEX.exec(content) || [];
+            const frame = stack[stack.length - 1];
+
+            switch (keyword) {
+                case '#if': {
+                    const condition = this.parseExpression(rest, inLoop(), fail);
+                    const node: TemplateNode = { kind: 'if', branches: [{ condition, body: [] }] };
+                    current.push(node);
+                    current = node.branches[0].body;
+                    stack.push({ node, body: current, tag, hasElse: false });
+                    break;
+                }
+                case '#each': {
+                    const name = this.splitPath(rest.trim()).name;
+                    if (!name) fail('{{#each}} 缺少列表名');
+                    if (!PlaceholderRegistry.isList(name)) {
+                        const lists = PlaceholderRegistry.list().filter(definition => definition.resolveList).map(definition => definition.name);
+                        fail(`{{#each ${name}}} 只能遍历：${lists.join('、')}`);
+                    }
+                    const node: TemplateNode = { kind: 'each', list: rest.trim(), body: [], empty: [] };
+                    current.push(node);
+                    current = node.body;
+                    stack.push({ node, body: current, tag, hasElse: false });
+                    break;
+                }
+                case 'else': {
+                    if (!frame) fail('{{else}} 不在 {{#if}} 或 {{#each}} 内');
+                    if (frame.hasElse) fail('{{else}} 之后不能再有分支');
+
+                    if (frame.node.kind === 'each') {
+                        if (rest) fail('{{#each}} 内只能使用 {{else}}');
+                        current = frame.node.empty;
+                        frame.hasElse = true;
+                    } else if (/^if\b/.test(rest)) {
+                        const branch = { condition: this.parseExpression(rest.slice(2), inLoop(), fail), body: [] as TemplateNode[] };
+                        frame.node.branches.push(branch);
+                        current = branch.body;
+                    } else if (rest) {
+                        fail(`无法识别 {{${content}}}，应为 {{else}} 或 {{else if 条件}}`);
+                    } else {
+                        const branch = { condition: null, body: [] as TemplateNode[] };
+                        frame.node.branches.push(branch);
+                        current = branch.body;
+                        frame.hasElse = true;
+                    }
+                    frame.body = current;
+                    break;
+                }
+                case '/if':
+                case '/each': {
+                    if (rest) fail(`{{${keyword}}} 不接受参数`);
+                    if (!frame) fail(`多余的 {{${keyword}}}`);
+                    if (frame.node.kind !== keyword.slice(1)) {
+                        fail(`{{${keyword}}} 与第 ${frame.tag.line} 行的 {{#${frame.node.kind}}} 不匹配`);
+                    }
+                    stack.pop();
+                    current = stack.length > 0 ? stack[stack.length - 1].body : root;
+                    break;
+                }
+                default: {
+                    if (content.startsWith('#') || content.startsWith('/')) fail(`未知的标签 {{${content}}}`);
+                    const expression = this.parseExpression(content, inLoop(), fail);
+                    if (expression.kind !== 'variable') fail(`{{${content}}} 只能输出变量`);
+                    current.push({ kind: 'output', path: (expression as { path: string }).path });
+                }
+            }
+        }
+
+        if (stack.length > 0) {
+            const frame = stack[stack.length - 1];
+            throw new ValidationError(`模板第 ${frame.tag.line} 行：{{#${frame.node.kind}}} 缺少 {{/${frame.node.kind}}}`);
+        }
+        if (last < template.length) {
+            root.push({ kind: 'text', text: template.slice(last) });
+        }
+        return root;
+    }
+
+    /**
+     * Tags in order; a line holding only a block tag is consumed with its line break
+     */
+    private static scanTags(template: string): Tag[] {
+        const tags: Tag[] = [];
+        const regex = new RegExp(TAG_REGEX.source, 'g');
+        let match: RegExpExecArray | null;
+
+        while ((match = regex.exec(template)) !== null) {
+            const content = match[1].trim();
+            let start = match.index;
+            let end = match.index + match[0].length;
+
+            if (BLOCK_TAG_REGEX.test(content)) {
+                const lineStart = template.lastIndexOf('\n', start - 1) + 1;
+                const newline = template.indexOf('\n', end);
+                const lineEnd = newline === -1 ? template.length : newline;
+                if (!template.slice(lineStart, start).trim() && !template.slice(end, lineEnd).trim()) {
+                    start = lineStart;
+                    end = newline === -1 ? lineEnd : newline + 1;
+                }
+            }
+
+            tags.push({
+                content,
+                start,
+                end,
+                line: template.slice(0, match.index).split('\n').length
+            });
+        }
+        return tags;
+    }
+
+    //#region Expressions
+
+    private static parseExpression(source: string, inLoop: boolean, fail: (message: string) => never): Expression {
+        const tokens = this.tokenize(source, fail);
+        let position = 0;
+
+        const peek = () => tokens[position];
+        const next = () => tokens[position++];
+
+        const parseOr = (): Expression => {
+            let left = parseAnd();
+            while (peek()?.value === '||') {
+                next();
+                left = { kind: 'binary', operator: '||', left, right: parseAnd() };
+            }
+            return left;
+        };
+
+        const parseAnd = (): Expression => {
+            let left = parseNot();
+            while (peek()?.value === '&&') {
+                next();
+                left = { kind: 'binary', operator: '&&', left, right: parseNot() };
+            }
+            return left;
+        };
+
+        const parseNot = (): Expression => {
+            if (peek()?.value === '!') {
+                next();
+                return { kind: 'not', operand: parseNot() };
+            }
+            return parseComparison();
+        };
+
+        const parseComparison = (): Expression => {
+            const left = parsePrimary();
+            const operator = peek()?.value;
+            if (operator && ['==', '!=', '>', '<', '>=', '<=', 'contains'].includes(operator)) {
+                next();
+                return { kind: 'binary', operator: operator as BinaryOperator, left, right: parsePrimary() };
+            }
+            return left;
+        };
+
+        const parsePrimary = (): Expression => {
+            const token = next();
+            if (!token) fail('条件不完整');
+            if (token.type === 'string') return { kind: 'literal', value: token.value };
+            if (token.type === 'number') return { kind: 'literal', value: token.value };
+            if (token.value === '(') {
+                const inner = parseOr();
+                if (next()?.value !== ')') fail('缺少 )');
+                return inner;
+            }
+            if (token.type === 'name') {
+                this.checkVariable(token.value, inLoop, fail);
+                return { kind: 'variable', path: token.value };
+            }
+            return fail(`意外的「${token.value}」`);
+        };
+
+        if (tokens.length === 0) fail('缺少条件');
+        const expression = parseOr();
+        if (position < tokens.length) fail(`意外的「${tokens[position].value}」`);
+        return expression;
+    }
+
+    private static tokenize(
+        source: string,
+        fail: (message: string) => never
+    ): Array<{ type: 'string' | 'number' | 'operator' | 'name'; value: string }> {
+        const tokens: Array<{ type: 'string' | 'number' | 'operator' | 'name'; value: string }> = [];
+        const regex = new RegExp(EXPRESSION_TOKEN_REGEX.source, 'iy');
+        const text = source.trimEnd();
+
+        while (regex.lastIndex < text.length) {
+            const match = regex.exec(text);
+            if (!match) {
+                fail(`无法解析「${text.slice(regex.lastIndex).trim()}」`);
+            }
+            const [, string, number, operator, name] = match!;
+            if (string !== undefined) {
+                tokens.push({ type: 'string', value: string.slice(1, -1).replace(/\\(.)/g, '$1') });
+            } else if (number !== undefined) {
+                tokens.push({ type: 'number', value: number });
+            } else if (operator !== undefined) {
+                tokens.push({ type: 'operator', value: operator });
+            } else if (name === 'contains') {
+                tokens.push({ type: 'operator', value: name });
+            } else {
+                tokens.push({ type: 'name', value: name });
+            }
+        }
+        return tokens;
+    }
+
+    private static checkVariable(path: string, inLoop: boolean, fail: (message: string) => never): void {
+        if (LOOP_VARIABLES.includes(path)) {
+            if (!inLoop) fail(`${path} 只能在 {{#each}} 内使用`);
+            return;
+        }
+
+        const { name, separator } = this.splitPath(path);
+        const definition = PlaceholderRegistry.get(name);
+        if (!definition) fail(`未知变量「${name}」`);
+        if (separator && definition!.argument?.separator !== separator) fail(`变量「${name}」不接受参数`);
+        if (!separator && definition!.argument?.required) fail(`变量「${name}」需要参数`);
+    }
+
+    private static splitPath(path: string): { name: string; separator?: string; arg?: string } {
+        const match = /^([a-z_]+)(?:([.=:])(.*))?$/i.exec(path);
+        return match ? { name: match[1].toLowerCase(), separator: match[2], arg: match[3] } : { name: path };
+    }
+
+    //#endregion
+
+    //#region Evaluation
+
+    private static async renderNodes(nodes: TemplateNode[], lookup: PlaceholderLookup, loops: LoopScope[]): Promise<string> {
+        let result = '';
+        for (const node of nodes) {
+            switch (node.kind) {
+                case 'text':
+                    result += await PlaceholderRegistry.render(node.text, lookup.context, lookup);
+                    break;
+                case 'output':
+                    result += await this.variable(node.path, lookup, loops);
+                    break;
+                case 'if':
+                    for (const branch of node.branches) {
+                        if (!branch.condition || this.truthy(await this.evaluate(branch.condition, lookup, loops))) {
+                            result += await this.renderNodes(branch.body, lookup, loops);
+                            break;
+                        }
+                    }
+                    break;
+                case 'each': {
+                    const items = await PlaceholderRegistry.resolveList(this.splitPath(node.list), lookup);
+                    if (items.length === 0) {
+                        result += await this.renderNodes(node.empty, lookup, loops);
+                    }
+                    for (let index = 0; index < items.length; index++) {
+                        const scope = { item: items[index], index, count: items.length };
+                        result += await this.renderNodes(node.body, lookup, [...loops, scope]);
+                    }
+                    break;
+                }
+            }
+        }
+        return result;
+    }
+
+    private static async evaluate(expression: Expression, lookup: PlaceholderLookup, loops: LoopScope[]): Promise<string> {
+        switch (expression.kind) {
+            case 'literal':
+                return expression.value;
+            case 'variable':
+                return this.variable(expression.path, lookup, loops);
+            case 'not':
+                return this.truthy(await this.evaluate(expression.operand, lookup, loops)) ? '' : 'true';
+        }
+
+        const left = await this.evaluate(expression.left, lookup, loops);
+        if (expression.operator === '&&' && !this.truthy(left)) return '';
+        if (expression.operator === '||' && this.truthy(left)) return left;
+        const right = await this.evaluate(expression.right, lookup, loops);
+
+        switch (expression.operator) {
+            case '&&':
+            case '||':
+                return right;
+            case '==':
+                return left === right ? 'true' : '';
+            case '!=':
+                return left !== right ? 'true' : '';
+            case 'contains':
+                return left.includes(right) ? 'true' : '';
+            default:
+                return this.compare(left, right, expression.operator) ? 'true' : '';
+        }
+    }
+
+    private static compare(left: string, right: string, operator: '>' | '<' | '>=' | '<='): boolean {
+        const numeric = left.trim() !== '' && right.trim() !== '' && !isNaN(Number(left)) && !isNaN(Number(right));
+        const a: number | string = numeric ? Number(left) : left;
+        const b: number | string = numeric ? Number(right) : right;
+        switch (operator) {
+            case '>': return a > b;
+            case '<': return a < b;
+            case '>=': return a >= b;
+            case '<=': return a <= b;
+        }
+    }
+
+    private static async variable(path: string, lookup: PlaceholderLookup, loops: LoopScope[]): Promise<string> {
+        const loop = loops[loops.length - 1];
+        switch (path) {
+            case 'this': return loop?.item ?? '';
+            case '@index': return loop ? String(loop.index) : '';
+            case '@first': return loop?.index === 0 ? 'true' : '';
+            case '@last': return loop && loop.index === loop.count - 1 ? 'true' : '';
+        }
+        return (await PlaceholderRegistry.resolve(this.splitPath(path), lookup)) ?? '';
+    }
+
+    private static truthy(value: string): boolean {
+        return value.trim() !== '' && value !== 'false' && value !== '0';
+    }
+
+    //#endregion
+}
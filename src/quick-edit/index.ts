@@ -11,14 +11,23 @@ export { QuickEditManager } from './QuickEditManager';
 // Modular components (new architecture)
 export { SelectionHandler } from './SelectionHandler';
 export { BlockOperations } from './BlockOperations';
+export { AttributeOutput } from './AttributeOutput';
 export { PromptBuilder } from './PromptBuilder';
 export { EditStateManager } from './EditStateManager';
 
 // Support components
 export { ContextExtractor } from './ContextExtractor';
+export { PlaceholderRegistry, PlaceholderLookup } from './PlaceholderRegistry';
+export { TemplateEngine } from './TemplateEngine';
+export { PresetVariables } from './PresetVariables';
+export { PresetChain } from './PresetChain';
 export { InlineEditRenderer } from './InlineEditRenderer';
 export { InstructionInputPopup } from './InstructionInputPopup';
 
 // Additional types
 export type { BlockInsertResult, BlockDeleteResult, BlockUpdateResult } from './BlockOperations';
+export type { AttributeField, AttributeTarget, AttributeValue } from './AttributeOutput';
 export type { PromptBuildOptions, BuiltPrompt } from './PromptBuilder';
+export type { PlaceholderContext, PlaceholderDefinition, PlaceholderToken, PlaceholderPreview } from './PlaceholderRegistry';
+export type { PresetVariable, PresetVariableType } from './PresetVariables';
+export type { PresetChainStep, PresetChainStage, PresetChainProgress, PresetChainStepFunction } from './PresetChain';
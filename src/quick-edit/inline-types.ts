@@ -4,6 +4,11 @@
  */
 
 import type { EditResult } from '@/editor/types';
+import type { StructuredRenderResult } from '@/structured';
+import type { AttributeValue } from './AttributeOutput';
+import type { GlossaryViolation } from '@/glossary';
+import type { PresetChainStage } from './PresetChain';
+import type { ComparisonResult } from '@/compare';
 
 /**
  * Inline Edit state machine
@@ -86,6 +91,27 @@ export interface InlineEditBlock {
     /** 原始块类型信息（用于保留块格式） - FIX Issue #1 */
     originalBlockType?: string;       // data-type attribute (e.g., "h", "l", "p", "c")
     originalBlockSubtype?: string;    // data-subtype attribute (e.g., "h1", "h2", "u", "o")
+
+    /** 结构化输出结果（预设声明了 outputSchema 时），suggestedText 为渲染后的 Markdown */
+    structuredResult?: StructuredRenderResult;
+
+    /** 写入块/文档属性的值（属性应用模式），接受或插入时只设置属性，不修改正文 */
+    attributeValues?: AttributeValue[];
+
+    /** 术语表检查结果（违规项；开启自动修正时 suggestedText 已修正） */
+    glossaryViolations?: GlossaryViolation[];
+
+    /** 预设输入变量的取值（{var.name}） */
+    variables?: Record<string, string>;
+
+    /** 链式预设各步骤的输出（可选择任一步骤的结果接受） */
+    chainStages?: PresetChainStage[];
+
+    /** 对比模式：同一提示词发送给多个提供商，分栏显示后采用其中一个 */
+    compare?: boolean;
+
+    /** 对比模式各提供商的回答 */
+    comparisonResults?: ComparisonResult[];
 }
 
 /**
@@ -0,0 +1,144 @@
+/**
+ * BM25 Index - In-memory keyword index for notebook retrieval
+ *
+ * Tokenization handles mixed CJK / Latin text:
+ * - Latin words and numbers are lowercased whole tokens
+ * - CJK runs are split into overlapping bigrams (single characters stay unigrams)
+ *
+ * @module BM25Index
+ * @see NotebookRetriever
+ */
+
+export interface BM25SearchResult {
+    id: string;
+    score: number;
+}
+
+const LATIN_TOKEN = /[a-z0-9]+/g;
+const CJK_RUN = /[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\u3040-\u30ff\uac00-\ud7af]+/g;
+
+export class BM25Index {
+    /** term -> (document ID -> term frequency) */
+    private postings = new Map<string, Map<string, number>>();
+    private docLengths = new Map<string, number>();
+    private totalLength = 0;
+
+    constructor(private k1: number = 1.2, private b: number = 0.75) {}
+
+    get size(): number {
+        return this.docLengths.size;
+    }
+
+    clear(): void {
+        this.postings.clear();
+        this.docLengths.clear();
+        this.totalLength = 0;
+    }
+
+    /**
+     * Add a document (an existing document with the same ID is replaced)
+     */
+    add(id: string, text: string): void {
+        if (this.docLengths.has(id)) {
+            this.remove(id);
+        }
+
+        const tokens = BM25Index.tokenize(text);
+        if (tokens.length === 0) {
+            return;
+        }
+
+        const frequencies = new Map<string, number>();
+        for (const token of tokens) {
+            frequencies.set(token, (frequencies.get(token) || 0) + 1);
+        }
+
+        for (const [term, frequency] of frequencies) {
+            let posting = this.postings.get(term);
+            if (!posting) {
+                posting = new Map();
+                this.postings.set(term, posting);
+            }
+            posting.set(id, frequency);
+        }
+
+        this.docLengths.set(id, tokens.length);
+        this.totalLength += tokens.length;
+    }
+
+    remove(id: string): void {
+        const length = this.docLengths.get(id);
+        if (length === undefined) {
+            return;
+        }
+
+        for (const [term, posting] of this.postings) {
+            if (posting.delete(id) && posting.size === 0) {
+                this.postings.delete(term);
+            }
+        }
+
+        this.docLengths.delete(id);
+        this.totalLength -= length;
+    }
+
+    /**
+     * Rank documents against a query
+     * @returns Up to `limit` results, best first
+     */
+    search(query: string, limit: number = 10): BM25SearchResult[] {
+        const docCount = this.docLengths.size;
+        if (docCount === 0) {
+            return [];
+        }
+
+        const avgLength = this.totalLength / docCount;
+        const scores = new Map<string, number>();
+        const queryTerms = new Set(BM25Index.tokenize(query));
+
+        for (const term of queryTerms) {
+            const posting = this.postings.get(term);
+            if (!posting) {
+                continue;
+            }
+
+            const idf = Math.log(1 + (docCount - posting.size + 0.5) / (posting.size + 0.5));
+            for (const [id, frequency] of posting) {
+                const length = this.docLengths.get(id)!;
+                const norm = frequency + this.k1 * (1 - this.b + this.b * length / avgLength);
+                const score = idf * (frequency * (this.k1 + 1)) / norm;
+                scores.set(id, (scores.get(id) || 0) + score);
+            }
+        }
+
+        return Array.from(scores, ([id, score]) => ({ id, score }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+    }
+
+    /**
+     * Split text into index terms
+     */
+    static tokenize(text: string): string[] {
+        const lower = (text || '').toLowerCase();
+        const tokens: string[] = [];
+
+        for (const word of lower.match(LATIN_TOKEN) || []) {
+            if (word.length > 1 || /\d/.test(word)) {
+                tokens.push(word);
+            }
+        }
+
+        for (const run of lower.match(CJK_RUN) || []) {
+            if (run.length === 1) {
+                tokens.push(run);
+                continue;
+            }
+            for (let i = 0; i < run.length - 1; i++) {
+                tokens.push(run.substring(i, i + 2));
+            }
+        }
+
+        return tokens;
+    }
+}
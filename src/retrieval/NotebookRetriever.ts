@@ -0,0 +1,208 @@
+/**
+ * Notebook Retriever - "Ask my notebook" retrieval over the whole workspace
+ *
+ * Features:
+ * - Local BM25 index built from /api/query/sql results
+ * - Index is rebuilt lazily when it is older than INDEX_TTL
+ * - Optional embedding backend reranks the keyword candidates
+ * - Builds the prompt that injects the top-k blocks with their IDs
+ *
+ * @module NotebookRetriever
+ * @see BM25Index
+ */
+
+import { BM25Index } from './BM25Index';
+import { OpenAIEmbeddingBackend } from './OpenAIEmbeddingBackend';
+import { SiYuanApi } from '../utils/SiYuanApi';
+import type { EmbeddingBackend, IndexedBlock, RetrievalSettings, RetrievedBlock } from './types';
+import { DEFAULT_RETRIEVAL_SETTINGS } from './types';
+
+const INDEXED_BLOCK_TYPES = ['d', 'h', 'p', 'c', 't', 'm'];
+const PAGE_SIZE = 2000;
+const INDEX_TTL = 10 * 60 * 1000; // Rebuild after 10 minutes
+const CANDIDATE_MULTIPLIER = 4;
+const MAX_BLOCK_CHARS = 1200;
+
+export class NotebookRetriever {
+    private index = new BM25Index();
+    private blocks = new Map<string, IndexedBlock>();
+    private builtAt = 0;
+    private buildPromise: Promise<void> | null = null;
+    private settings: RetrievalSettings;
+    private embeddingBackend: EmbeddingBackend | null = null;
+    /** Cached embeddings keyed by `${id}@${updated}` */
+    private embeddingCache = new Map<string, number[]>();
+
+    constructor(settings?: Partial<RetrievalSettings>) {
+        this.settings = { ...DEFAULT_RETRIEVAL_SETTINGS };
+        this.updateSettings(settings);
+    }
+
+    /**
+     * Apply new settings (the index is kept; the embedding backend is recreated)
+     */
+    updateSettings(settings?: Partial<RetrievalSettings>): void {
+        this.settings = {
+            ...DEFAULT_RETRIEVAL_SETTINGS,
+            ...settings,
+            embedding: { ...DEFAULT_RETRIEVAL_SETTINGS.embedding, ...settings?.embedding }
+        };
+
+        const embedding = this.settings.embedding;
+        this.embeddingBackend = embedding.enabled && embedding.baseURL && embedding.model
+            ? new OpenAIEmbeddingBackend(embedding)
+            : null;
+        this.embeddingCache.clear();
+    }
+
+    getIndexedCount(): number {
+        return this.blocks.size;
+    }
+
+    /**
+     * Build the index if it is empty or stale
+     */
+    async ensureIndex(forceRebuild: boolean = false): Promise<void> {
+        const isStale = Date.now() - this.builtAt > INDEX_TTL;
+        if (!forceRebuild && this.blocks.size > 0 && !isStale) {
+            return;
+        }
+
+        if (!this.buildPromise) {
+            this.buildPromise = this.buildIndex().finally(() => {
+                this.buildPromise = null;
+            });
+        }
+        return this.buildPromise;
+    }
+
+    /**
+     * Retrieve the most relevant blocks for a question
+     */
+    async retrieve(query: string, topK: number = this.settings.topK): Promise<RetrievedBlock[]> {
+        await this.ensureIndex();
+
+        const candidates = this.index
+            .search(query, this.embeddingBackend ? topK * CANDIDATE_MULTIPLIER : topK)
+            .map(result => ({ ...this.blocks.get(result.id)!, score: result.score }))
+            .filter(block => block.id);
+
+        if (!this.embeddingBackend || candidates.length <= 1) {
+            return candidates.slice(0, topK);
+        }
+
+        try {
+            return (await this.rerank(query, candidates)).slice(0, topK);
+        } catch (error) {
+            console.warn('[NotebookRetriever] Embedding rerank failed, using keyword ranking:', error);
+            return candidates.slice(0, topK);
+        }
+    }
+
+    /**
+     * Build the user prompt with retrieved blocks and citation instructions
+     */
+    static buildPrompt(question: string, blocks: RetrievedBlock[]): string {
+        if (blocks.length === 0) {
+            return `笔记库中没有检索到与问题相关的内容。请说明这一点，再尽量回答。\n\n用户问题：${question}`;
+        }
+
+        const sources = blocks.map((block, index) => {
+            const content = block.content.length > MAX_BLOCK_CHARS
+                ? block.content.substring(0, MAX_BLOCK_CHARS) + '...'
+                : block.content;
+            return `[${index + 1}] 块ID: ${block.id}\n文档: ${block.hpath}\n${content}`;
+        });
+
+        return `以下是从笔记库中检索到的相关内容块：
+
+${sources.join('\n\n')}
+
+---
+
+请根据以上内容回答问题。引用某个块时，在相关句子后用 ((块ID)) 标注来源，例如 ((${blocks[0].id}))。如果这些内容不足以回答，请明确说明。
+
+用户问题：${question}`;
+    }
+
+    /**
+     * Load blocks page by page and rebuild the BM25 index
+     */
+    private async buildIndex(): Promise<void> {
+        const startTime = Date.now();
+        const maxBlocks = this.settings.maxIndexedBlocks;
+        const types = INDEXED_BLOCK_TYPES.map(t => `'${t}'`).join(', ');
+
+        const index = new BM25Index();
+        const blocks = new Map<string, IndexedBlock>();
+
+        for (let offset = 0; offset < maxBlocks; offset += PAGE_SIZE) {
+            const limit = Math.min(PAGE_SIZE, maxBlocks - offset);
+            const rows = await SiYuanApi.sql(
+                `SELECT id, root_id, hpath, type, content, updated FROM blocks ` +
+                `WHERE type IN (${types}) AND content != '' ` +
+                `ORDER BY updated DESC LIMIT ${limit} OFFSET ${offset}`
+            );
+
+            for (const row of rows) {
+                const block: IndexedBlock = {
+                    id: row.id,
+                    rootId: row.root_id,
+                    hpath: row.hpath || '',
+                    type: row.type,
+                    content: row.content || '',
+                    updated: row.updated || ''
+                };
+                blocks.set(block.id, block);
+                // Include the document path so document titles also match
+                index.add(block.id, `${block.hpath} ${block.content}`);
+            }
+
+            if (rows.length < limit) {
+                break;
+            }
+        }
+
+        this.index = index;
+        this.blocks = blocks;
+        this.builtAt = Date.now();
+
+        console.log(`[NotebookRetriever] Indexed ${blocks.size} blocks in ${Date.now() - startTime}ms`);
+    }
+
+    /**
+     * Rerank keyword candidates by combining normalized BM25 and cosine similarity
+     */
+    private async rerank(query: string, candidates: RetrievedBlock[]): Promise<RetrievedBlock[]> {
+        const missing = candidates.filter(block => !this.embeddingCache.has(this.cacheKey(block)));
+        const vectors = await this.embeddingBackend!.embed([query, ...missing.map(block => block.content)]);
+
+        const queryVector = vectors[0];
+        missing.forEach((block, i) => this.embeddingCache.set(this.cacheKey(block), vectors[i + 1]));
+
+        const maxScore = Math.max(...candidates.map(block => block.score)) || 1;
+
+        return candidates
+            .map(block => {
+                const similarity = this.cosine(queryVector, this.embeddingCache.get(this.cacheKey(block))!);
+                return { ...block, score: 0.5 * (block.score / maxScore) + 0.5 * similarity };
+            })
+            .sort((a, b) => b.score - a.score);
+    }
+
+    private cacheKey(block: IndexedBlock): string {
+        return `${block.id}@${block.updated}`;
+    }
+
+    private cosine(a: number[], b: number[]): number {
+        let dot = 0;
+        let normA = 0;
+        let normB = 0;
+        for (let i = 0; i < Math.min(a.length, b.length); i++) {
+            dot += a[i] * b[i];
+            normA += a[i] * a[i];
+            normB += b[i] * b[i];
+        }
+        return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+    }
+}
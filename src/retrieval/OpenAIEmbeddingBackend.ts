@@ -0,0 +1,60 @@
+/**
+ * OpenAI-compatible embedding backend
+ * Works with OpenAI and local servers exposing /v1/embeddings (Ollama, LM Studio, llama.cpp)
+ *
+ * @module OpenAIEmbeddingBackend
+ * @see NotebookRetriever
+ */
+
+import type { EmbeddingBackend, EmbeddingSettings } from './types';
+
+const BATCH_SIZE = 64;
+const REQUEST_TIMEOUT = 30000;
+
+export class OpenAIEmbeddingBackend implements EmbeddingBackend {
+    constructor(private settings: EmbeddingSettings) {}
+
+    async embed(texts: string[]): Promise<number[][]> {
+        const vectors: number[][] = [];
+        for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+            vectors.push(...await this.embedBatch(texts.slice(i, i + BATCH_SIZE)));
+        }
+        return vectors;
+    }
+
+    private async embedBatch(texts: string[]): Promise<number[][]> {
+        const url = `${this.settings.baseURL.replace(/\/+$/, '')}/embeddings`;
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.settings.apiKey) {
+            headers['Authorization'] = `Bearer ${this.settings.apiKey}`;
+        }
+
+        const controller = new AbortController();
+        const timeoutHandle = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+        try {
+            const response = await fetch(url, {
+                method: 'POST',
+                headers,
+                body: JSON.stringify({ model: this.settings.model, input: texts }),
+                signal: controller.signal
+            });
+
+            if (!response.ok) {
+                throw new Error(`Embedding request failed: HTTP ${response.status}`);
+            }
+
+            const result = await response.json();
+            const data: Array<{ index: number; embedding: number[] }> = result.data || [];
+            if (data.length !== texts.length) {
+                throw new Error(`Embedding response has ${data.length} vectors for ${texts.length} inputs`);
+            }
+
+            return data
+                .sort((a, b) => a.index - b.index)
+                .map(item => item.embedding);
+        } finally {
+            clearTimeout(timeoutHandle);
+        }
+    }
+}
@@ -0,0 +1,11 @@
+/**
+ * 笔记库检索模块
+ * 本地 BM25 关键词索引 + 可选的向量重排，用于"笔记库问答"模式
+ */
+
+export { BM25Index } from "./BM25Index";
+export type { BM25SearchResult } from "./BM25Index";
+export { NotebookRetriever } from "./NotebookRetriever";
+export { OpenAIEmbeddingBackend } from "./OpenAIEmbeddingBackend";
+export type { IndexedBlock, RetrievedBlock, RetrievalSettings, EmbeddingSettings, EmbeddingBackend } from "./types";
+export { DEFAULT_RETRIEVAL_SETTINGS } from "./types";
@@ -0,0 +1,84 @@
+/**
+ * 笔记库检索类型定义
+ * "Ask my notebook" mode: local keyword index with optional embedding rerank
+ */
+
+/**
+ * A block stored in the local index
+ */
+export interface IndexedBlock {
+    /** Block ID */
+    id: string;
+
+    /** Document (root block) ID */
+    rootId: string;
+
+    /** Readable document path, e.g. /Projects/Plugin */
+    hpath: string;
+
+    /** Block type (d, h, p, c, t, m) */
+    type: string;
+
+    /** Plain text content */
+    content: string;
+
+    /** Last update time (yyyyMMddHHmmss) */
+    updated: string;
+}
+
+/**
+ * A retrieved block with its relevance score
+ */
+export interface RetrievedBlock extends IndexedBlock {
+    score: number;
+}
+
+/**
+ * OpenAI-compatible embedding endpoint settings
+ */
+export interface EmbeddingSettings {
+    /** Rerank keyword candidates with embeddings */
+    enabled: boolean;
+
+    /** API base URL (e.g. https://api.openai.com/v1 or http://localhost:11434/v1) */
+    baseURL: string;
+
+    /** API key (optional for local servers) */
+    apiKey: string;
+
+    /** Embedding model ID */
+    model: string;
+}
+
+/**
+ * Retrieval settings (stored in ClaudeSettings.retrieval)
+ */
+export interface RetrievalSettings {
+    /** Number of blocks injected into the prompt */
+    topK: number;
+
+    /** Maximum number of blocks in the local index */
+    maxIndexedBlocks: number;
+
+    /** Optional embedding backend */
+    embedding: EmbeddingSettings;
+}
+
+export const DEFAULT_RETRIEVAL_SETTINGS: RetrievalSettings = {
+    topK: 8,
+    maxIndexedBlocks: 20000,
+    embedding: {
+        enabled: false,
+        baseURL: 'https://api.openai.com/v1',
+        apiKey: '',
+        model: 'text-embedding-3-small'
+    }
+};
+
+/**
+ * Embedding backend used to rerank keyword candidates
+ */
+export interface EmbeddingBackend {
+    /** Embed texts, returning one vector per input (same order) */
+    embed(texts: string[]): Promise<number[][]>;
+}
@@ -18,12 +18,20 @@ import type { FilterRule } from "../filter/types";
 import { BUILTIN_FILTER_TEMPLATES } from "../filter/types";
 import { responseFilter } from "../filter";
 import { SecurityUtils } from "../utils/Security";
+import type { StructuredRenderMode } from "../structured";
+import { AttributeOutput } from "../quick-edit/AttributeOutput";
+import { Glossary, type GlossaryConfig } from "../glossary";
+import { PlaceholderRegistry } from "../quick-edit/PlaceholderRegistry";
+import { TemplateEngine } from "../quick-edit/TemplateEngine";
+import { PresetVariables } from "../quick-edit/PresetVariables";
+import { PresetChain } from "../quick-edit/PresetChain";
+import { PlaceholderAssist } from "./ui/PlaceholderAssist";
 
 type TabType = "templates" | "system" | "appended" | "quickEditPrompt" | "responseFilters";
 
 // New two-level tab system types
-type MainTabType = "presets" | "filters";
-type SubTabType = "system" | "appended" | "quickEdit" | "selectionQA";
+type MainTabType = "presets" | "filters" | "glossary";
+type SubTabType = "system" | "appended" | "quickEdit" | "selectionQA" | "output" | "attributes" | "glossary" | "variables" | "chain";
 
 export class PromptEditorPanel {
     private dialog: Dialog | null = null;
@@ -245,6 +253,11 @@ export class PromptEditorPanel {
             ? `<span class="b3-chip" style="margin-left: 8px; font-size: 12px; background: var(--b3-theme-primary-light);" title="配置了AI快速编辑指令">✏️ 快速编辑</span>`
             : '';
 
+        // Chain presets run other presets in order
+        const chainBadge = preset.chain?.length
+            ? `<span class="b3-chip" style="margin-left: 8px; font-size: 12px; background: var(--b3-theme-primary-light);" title="链式预设：依次执行 ${preset.chain.length} 个步骤">⛓ 链式 ${preset.chain.length} 步</span>`
+            : '';
+
         // Active preset badge
         const activeBadge = isActive
             ? `<span class="b3-chip" style="margin-left: 8px; font-size: 12px; background: var(--b3-theme-success-light); color: var(--b3-theme-success); font-weight: 500;" title="当前正在使用此预设">✓ 当前使用</span>`
@@ -286,6 +299,7 @@ export class PromptEditorPanel {
                             ${preset.category ? `<span class="b3-chip" style="margin-left: 8px; font-size: 12px;">${preset.category}</span>` : ''}
                             ${activeBadge}
                             ${editInstructionBadge}
+                            ${chainBadge}
                         </div>
                         ${preset.description ? `<div class="ft__smaller ft__secondary" style="margin-bottom: 8px;">${preset.description}</div>` : ''}
                         <div class="ft__smaller" style="color: var(--b3-theme-on-surface-light);">
@@ -739,7 +753,7 @@ export class PromptEditorPanel {
     private attachEventListeners(container: HTMLElement): void {
         // ===== New Two-Level Tab System =====
 
-        // Main tab switching (Level 1: Presets | Filters)
+        // Main tab switching (Level 1: Presets | Filters | Glossary)
         container.querySelectorAll('[data-main-tab]').forEach(tab => {
             tab.addEventListener('click', (e) => {
                 const tabId = (e.currentTarget as HTMLElement).dataset.mainTab as MainTabType;
@@ -789,6 +803,17 @@ export class PromptEditorPanel {
             saveBtn.addEventListener('click', () => this.handleSaveSubTab(container));
         }
 
+        // Placeholder autocomplete and preview for template textareas
+        container.querySelectorAll('.placeholder-assist textarea').forEach(textarea => {
+            new PlaceholderAssist(textarea as HTMLTextAreaElement);
+        });
+
+        // Save global glossary button
+        const saveGlossaryBtn = container.querySelector('#save-global-glossary-btn');
+        if (saveGlossaryBtn) {
+            saveGlossaryBtn.addEventListener('click', () => this.handleSaveGlobalGlossary(container));
+        }
+
         // Textarea character count update
         const textarea = container.querySelector('textarea');
         if (textarea) {
@@ -997,6 +1022,7 @@ export class PromptEditorPanel {
         if (saveBtn) {
             saveBtn.addEventListener('click', () => {
                 if (editor) {
+                    if (!this.checkTemplateSyntax(editor.value)) return;
                     this.currentSettings.quickEditPromptTemplate = editor.value;
                     this.onSave({ quickEditPromptTemplate: editor.value });
                     showMessage("✅ 快速编辑提示词模板已保存", 2000, "info");
@@ -1331,7 +1357,9 @@ export class PromptEditorPanel {
                 editInstruction,
                 inputPlaceholder,
                 showDiff,
-                selectionQATemplate
+                selectionQATemplate,
+                outputSchema: isEdit ? template!.outputSchema : undefined,
+                attributeTargets: isEdit ? template!.attributeTargets : undefined
             };
 
             if (isEdit) {
@@ -2479,12 +2507,13 @@ export class PromptEditorPanel {
     //#region New Two-Level Tab System Methods
 
     /**
-     * Create main tab bar (Level 1: Presets | Filters)
+     * Create main tab bar (Level 1: Presets | Filters | Glossary)
      */
     private createMainTabBar(): string {
         const tabs = [
             { id: "presets", label: "提示词预设", icon: "iconList" },
-            { id: "filters", label: "响应过滤", icon: "iconFilter" }
+            { id: "filters", label: "响应过滤", icon: "iconFilter" },
+            { id: "glossary", label: "术语表", icon: "iconLanguage" }
         ];
 
         return `
@@ -2510,6 +2539,8 @@ export class PromptEditorPanel {
                 return this.createPresetsManagementView();
             case "filters":
                 return this.createResponseFiltersTab(); // Existing method
+            case "glossary":
+                return this.createGlobalGlossaryTab();
             default:
                 return "";
         }
@@ -2593,14 +2624,19 @@ export class PromptEditorPanel {
     }
 
     /**
-     * Create sub-tab bar (Level 2: System | Appended | Quick Edit | Selection Q&A)
+     * Create sub-tab bar (Level 2: System | Appended | Quick Edit | Selection Q&A | Structured Output | Attributes | Glossary | Variables | Chain)
      */
     private createSubTabBar(): string {
         const subTabs = [
             { id: "system", label: "系统提示词" },
             { id: "appended", label: "追加提示词" },
             { id: "quickEdit", label: "快速编辑模版" },
-            { id: "selectionQA", label: "Selection Q&A 模版" }
+            { id: "selectionQA", label: "Selection Q&A 模版" },
+            { id: "output", label: "结构化输出" },
+            { id: "attributes", label: "写入属性" },
+            { id: "glossary", label: "术语表" },
+            { id: "variables", label: "输入变量" },
+            { id: "chain", label: "链式步骤" }
         ];
 
         return `
@@ -2648,6 +2684,21 @@ export class PromptEditorPanel {
             case "selectionQA":
                 content = this.createSelectionQASubTab(data);
                 break;
+            case "output":
+                content = this.createOutputSchemaSubTab(data);
+                break;
+            case "attributes":
+                content = this.createAttributeTargetsSubTab(data);
+                break;
+            case "glossary":
+                content = this.createGlossarySubTab(data);
+                break;
+            case "variables":
+                content = this.createVariablesSubTab(data);
+                break;
+            case "chain":
+                content = this.createChainSubTab(data);
+                break;
         }
 
         return `<div class="b3-tab-container" style="padding: 16px;"><div class="sub-tab-content" style="max-width: 900px; margin: 0 auto;">${content}</div></div>`;
@@ -2722,16 +2773,17 @@ export class PromptEditorPanel {
         return `
             <div style="margin-bottom: 12px;">
                 <h4 style="margin: 0 0 8px 0; font-size: 15px;">快速编辑模版</h4>
-                <div class="ft__smaller ft__secondary">
-                    支持占位符: <code>{instruction}</code>, <code>{original}</code>, <code>{above=n}</code>, <code>{below=n}</code>, <code>{above_blocks=n}</code>, <code>{below_blocks=n}</code>
-                </div>
+                ${this.createPlaceholderHelp()}
+            </div>
+            <div class="placeholder-assist">
+                <textarea
+                    id="quick-edit-template-textarea"
+                    class="b3-text-field"
+                    rows="10"
+                    style="width: 100%; font-family: Consolas, monospace; font-size: 13px; resize: vertical;"
+                    placeholder="${this.escapeHtml(defaultTemplate)}">${this.escapeHtml(preset.editInstruction || '')}</textarea>
+                ${PlaceholderAssist.createMarkup()}
             </div>
-            <textarea
-                id="quick-edit-template-textarea"
-                class="b3-text-field"
-                rows="10"
-                style="width: 100%; font-family: Consolas, monospace; font-size: 13px; resize: vertical;"
-                placeholder="${this.escapeHtml(defaultTemplate)}">${this.escapeHtml(preset.editInstruction || '')}</textarea>
             <div style="margin-top: 12px;">
                 <label style="display: block; margin-bottom: 8px; font-weight: 500;">输入框提示文本</label>
                 <input
@@ -2760,6 +2812,23 @@ export class PromptEditorPanel {
         `;
     }
 
+    /**
+     * Placeholder syntax help listing the registered placeholders
+     */
+    private createPlaceholderHelp(): string {
+        const names = PlaceholderRegistry.list()
+            .map(definition => `<code title="${this.escapeHtml(definition.description)}">${this.escapeHtml(definition.snippet)}</code>`)
+            .join(' ');
+        return `
+            <div class="ft__smaller ft__secondary" style="line-height: 1.8;">
+                输入 <code>{</code> 选择占位符；<code>{tags|无标签}</code> 在值为空时使用默认值，<code>\\{</code> 表示字面量 <code>{</code><br>
+                ${names}<br>
+                条件与循环：<code>{{#if block_type == "NodeHeading"}}…{{else if original contains "\`\`\`"}}…{{else}}…{{/if}}</code>、
+                <code>{{#each above_blocks=3}}{{@index}}. {{this}}{{/each}}</code>；条件支持 <code>== != &gt; &lt; contains &amp;&amp; || !</code>
+            </div>
+        `;
+    }
+
     /**
      * Create Selection Q&A template sub-tab content
      */
@@ -2774,16 +2843,105 @@ export class PromptEditorPanel {
         return `
             <div style="margin-bottom: 12px;">
                 <h4 style="margin: 0 0 8px 0; font-size: 15px;">Selection Q&A 模版</h4>
+                ${this.createPlaceholderHelp()}
+            </div>
+            <div class="placeholder-assist">
+                <textarea
+                    id="selection-qa-template-textarea"
+                    class="b3-text-field"
+                    rows="10"
+                    style="width: 100%; font-family: Consolas, monospace; font-size: 13px; resize: vertical;"
+                    placeholder="${this.escapeHtml(defaultTemplate)}">${this.escapeHtml(preset.selectionQATemplate || '')}</textarea>
+                ${PlaceholderAssist.createMarkup()}
+            </div>
+            <div style="margin-top: 12px; display: flex; justify-content: flex-end;">
+                <button class="b3-button b3-button--text" id="save-sub-tab-btn">
+                    <svg class="fn__size200"><use xlink:href="#iconSave"></use></svg>
+                    <span style="margin-left: 4px;">保存</span>
+                </button>
+            </div>
+        `;
+    }
+
+    /**
+     * Create structured output sub-tab content
+     */
+    private createOutputSchemaSubTab(preset: PromptTemplate): string {
+        const schemaExample = JSON.stringify({
+            type: 'object',
+            properties: {
+                tasks: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: { text: { type: 'string' }, done: { type: 'boolean' } },
+                        required: ['text']
+                    }
+                }
+            },
+            required: ['tasks']
+        }, null, 2);
+        const render = preset.outputSchema?.render || 'table';
+        const renderModes: Array<{ value: StructuredRenderMode; label: string }> = [
+            { value: 'table', label: '表格（对象数组的每个字段为一列）' },
+            { value: 'tasks', label: '任务列表（done/completed 为 true 时勾选）' },
+            { value: 'list', label: '列表' },
+            { value: 'attributes', label: '块属性（顶层字段写入 custom-* 属性，不修改正文）' },
+            { value: 'json', label: 'JSON 代码块' }
+        ];
+        return `
+            <div style="margin-bottom: 12px;">
+                <h4 style="margin: 0 0 8px 0; font-size: 15px;">结构化输出</h4>
                 <div class="ft__smaller ft__secondary">
-                    支持占位符: <code>{selection}</code>, <code>{question}</code>, <code>{above_blocks=n}</code>, <code>{below_blocks=n}</code>, <code>{above=n}</code>, <code>{below=n}</code>
+                    为快速编辑定义 JSON Schema（根节点须为 object），AI 将按此结构返回 JSON 并渲染为思源块。支持原生结构化输出的服务商（OpenAI、Gemini、Anthropic、xAI）直接约束输出，其他服务商校验失败时自动重试一次。留空则关闭。
                 </div>
             </div>
             <textarea
-                id="selection-qa-template-textarea"
+                id="output-schema-textarea"
                 class="b3-text-field"
-                rows="10"
+                rows="14"
+                style="width: 100%; font-family: Consolas, monospace; font-size: 13px; resize: vertical;"
+                placeholder="${this.escapeHtml(schemaExample)}">${this.escapeHtml(preset.outputSchema ? JSON.stringify(preset.outputSchema.schema, null, 2) : '')}</textarea>
+            <div style="margin-top: 12px;">
+                <label style="display: block; margin-bottom: 8px;">渲染方式</label>
+                <select id="output-render-select" class="b3-select" style="width: 100%;">
+                    ${renderModes.map(mode => `<option value="${mode.value}" ${mode.value === render ? 'selected' : ''}>${mode.label}</option>`).join('')}
+                </select>
+            </div>
+            <div style="margin-top: 12px; display: flex; justify-content: flex-end;">
+                <button class="b3-button b3-button--text" id="save-sub-tab-btn">
+                    <svg class="fn__size200"><use xlink:href="#iconSave"></use></svg>
+                    <span style="margin-left: 4px;">保存</span>
+                </button>
+            </div>
+        `;
+    }
+
+    /**
+     * Create attribute targets sub-tab content
+     */
+    private createAttributeTargetsSubTab(preset: PromptTemplate): string {
+        const example = `# 整个回答写入所在文档的标签
+doc.tags
+# 结构化输出的字段写入文档属性
+summary -> doc.custom-summary
+title -> doc.title`;
+        return `
+            <div style="margin-bottom: 12px;">
+                <h4 style="margin: 0 0 8px 0; font-size: 15px;">写入属性</h4>
+                <div class="ft__smaller ft__secondary" style="line-height: 1.6;">
+                    设置后，快速编辑的结果写入块或文档属性，而不修改正文（自动打标签、摘要写入属性、生成标题）。每行一个映射：<code>[来源字段 -&gt;] [doc.]属性</code><br>
+                    • 属性：<code>tags</code>（仅文档）、<code>alias</code>、<code>title</code>（仅文档）、<code>name</code>、<code>memo</code>、<code>custom-名称</code>；加 <code>doc.</code> 前缀写入所在文档<br>
+                    • 来源字段：结构化输出中的字段名；省略时使用整个回答<br>
+                    • 标签和别名会合并到已有值中，其他属性直接覆盖。留空则关闭。
+                </div>
+            </div>
+            <textarea
+                id="attribute-targets-textarea"
+                class="b3-text-field"
+                rows="8"
                 style="width: 100%; font-family: Consolas, monospace; font-size: 13px; resize: vertical;"
-                placeholder="${this.escapeHtml(defaultTemplate)}">${this.escapeHtml(preset.selectionQATemplate || '')}</textarea>
+                placeholder="${this.escapeHtml(example)}">${this.escapeHtml(AttributeOutput.formatTargets(preset.attributeTargets || []))}</textarea>
             <div style="margin-top: 12px; display: flex; justify-content: flex-end;">
                 <button class="b3-button b3-button--text" id="save-sub-tab-btn">
                     <svg class="fn__size200"><use xlink:href="#iconSave"></use></svg>
@@ -2793,6 +2951,202 @@ export class PromptEditorPanel {
         `;
     }
 
+    /**
+     * Create glossary sub-tab content (preset glossary, merged over the global one)
+     */
+    private createGlossarySubTab(preset: PromptTemplate): string {
+        return `
+            <div style="margin-bottom: 12px;">
+                <h4 style="margin: 0 0 8px 0; font-size: 15px;">预设术语表</h4>
+                <div class="ft__smaller ft__secondary">使用此预设时与全局术语表合并，同一术语以预设为准</div>
+            </div>
+            ${this.createGlossaryEditor(preset.glossary)}
+            <div style="margin-top: 12px; display: flex; justify-content: flex-end;">
+                <button class="b3-button b3-button--text" id="save-sub-tab-btn">
+                    <svg class="fn__size200"><use xlink:href="#iconSave"></use></svg>
+                    <span style="margin-left: 4px;">保存</span>
+                </button>
+            </div>
+        `;
+    }
+
+    /**
+     * Create input variables sub-tab content (asked for in the instruction popup)
+     */
+    private createVariablesSubTab(preset: PromptTemplate): string {
+        const example = `language (目标语言): enum(中文|English|日本語) = English
+tone (语气): text = 正式
+length (字数): number(50..2000) = 300`;
+        return `
+            <div style="margin-bottom: 12px;">
+                <h4 style="margin: 0 0 8px 0; font-size: 15px;">输入变量</h4>
+                <div class="ft__smaller ft__secondary" style="line-height: 1.6;">
+                    使用此预设快速编辑时，在指令输入框中填写这些变量，并记住每个预设上次的取值。每行一个变量：<code>名称 [(标签)]: 类型 [= 默认值]</code><br>
+                    • 类型：<code>text</code> 文本、<code>number</code> 数字（可写范围 <code>number(1..10)</code>）、<code>enum(选项1|选项2)</code> 选项<br>
+                    • 在快速编辑模版和系统提示词中以 <code>{var.名称}</code> 引用，条件中写作 <code>{{#if var.名称 == "值"}}</code>。留空则关闭。
+                </div>
+            </div>
+            <textarea
+                id="preset-variables-textarea"
+                class="b3-text-field"
+                rows="8"
+                style="width: 100%; font-family: Consolas, monospace; font-size: 13px; resize: vertical;"
+                placeholder="${this.escapeHtml(example)}">${this.escapeHtml(PresetVariables.format(preset.variables || []))}</textarea>
+            <div style="margin-top: 12px; display: flex; justify-content: flex-end;">
+                <button class="b3-button b3-button--text" id="save-sub-tab-btn">
+                    <svg class="fn__size200"><use xlink:href="#iconSave"></use></svg>
+                    <span style="margin-left: 4px;">保存</span>
+                </button>
+            </div>
+        `;
+    }
+
+    /**
+     * Create chain steps sub-tab content (runs other presets or inline instructions in order)
+     */
+    private createChainSubTab(preset: PromptTemplate): string {
+        const example = `# 每行一个步骤，上一步的输出作为下一步的 {original}
+@语法修正
+精简到原来的一半长度
+@翻译成英文 | nofilter`;
+        return `
+            <div style="margin-bottom: 12px;">
+                <h4 style="margin: 0 0 8px 0; font-size: 15px;">链式步骤</h4>
+                <div class="ft__smaller ft__secondary" style="line-height: 1.6;">
+                    设置后，此预设成为链式预设：快速编辑依次执行各步骤，每一步的输出作为下一步的 <code>{original}</code>，完成后可查看每一步的结果并接受其中任意一步。每行一个步骤：<br>
+                    • <code>@预设名称</code>：使用该预设的快速编辑模版、系统提示词和过滤规则<br>
+                    • 其他行：内联指令（可使用占位符，未写 <code>{original}</code> 时自动附加上一步的输出），使用此预设的系统提示词和过滤规则<br>
+                    • 行末加 <code>| nofilter</code> 时该步骤不应用过滤规则。留空则关闭。
+                </div>
+            </div>
+            <textarea
+                id="preset-chain-textarea"
+                class="b3-text-field"
+                rows="8"
+                style="width: 100%; font-family: Consolas, monospace; font-size: 13px; resize: vertical;"
+                placeholder="${this.escapeHtml(example)}">${this.escapeHtml(PresetChain.format(preset.chain || [], this.configManager.getAllTemplates()))}</textarea>
+            <div style="margin-top: 12px; display: flex; justify-content: flex-end;">
+                <button class="b3-button b3-button--text" id="save-sub-tab-btn">
+                    <svg class="fn__size200"><use xlink:href="#iconSave"></use></svg>
+                    <span style="margin-left: 4px;">保存</span>
+                </button>
+            </div>
+        `;
+    }
+
+    /**
+     * Create global glossary tab (applies to every preset)
+     */
+    private createGlobalGlossaryTab(): string {
+        return `
+            <div class="b3-tab-container" style="padding: 16px;">
+                <div style="max-width: 900px; margin: 0 auto;">
+                    <div style="margin-bottom: 12px;">
+                        <h4 style="margin: 0 0 8px 0; font-size: 15px;">全局术语表</h4>
+                        <div class="ft__smaller ft__secondary">作用于快速编辑、AI 编辑和文档翻译，预设可在「术语表」子标签中补充或覆盖</div>
+                    </div>
+                    ${this.createGlossaryEditor(this.currentSettings.glossary)}
+                    <div style="margin-top: 12px; display: flex; justify-content: flex-end;">
+                        <button class="b3-button b3-button--text" id="save-global-glossary-btn">
+                            <svg class="fn__size200"><use xlink:href="#iconSave"></use></svg>
+                            <span style="margin-left: 4px;">保存</span>
+                        </button>
+                    </div>
+                </div>
+            </div>
+        `;
+    }
+
+    /**
+     * Glossary entries, source block and auto-fix fields shared by the glossary tabs
+     */
+    private createGlossaryEditor(glossary?: GlossaryConfig): string {
+        const example = `# 术语 = 规范写法
+登陆 = 登录
+plugin = 插件
+# 禁用词
+!非常非常`;
+        return `
+            <div class="ft__smaller ft__secondary" style="line-height: 1.6; margin-bottom: 8px;">
+                每行一条：<code>术语 = 规范写法</code> 或 <code>!禁用词</code>，<code>#</code> 开头为注释。<br>
+                • 只有原文中出现的术语会随请求发送；禁用词始终发送<br>
+                • 回答中仍保留原术语、缺少规范写法或出现禁用词时会在结果中标出
+            </div>
+            <textarea
+                id="glossary-textarea"
+                class="b3-text-field"
+                rows="10"
+                style="width: 100%; font-family: Consolas, monospace; font-size: 13px; resize: vertical;"
+                placeholder="${this.escapeHtml(example)}">${this.escapeHtml(glossary ? Glossary.format(glossary) : '')}</textarea>
+            <div style="margin-top: 12px;">
+                <label style="display: block; margin-bottom: 6px; font-size: 13px;">术语表块 ID（可选）</label>
+                <input type="text" id="glossary-source-block" class="b3-text-field" style="width: 100%;"
+                       placeholder="表格块或数据库块 ID：第一列为术语，第二列为规范写法（留空表示禁用词）"
+                       value="${this.escapeHtml(glossary?.sourceBlockId || '')}">
+            </div>
+            <label style="display: flex; align-items: center; gap: 8px; margin-top: 12px; font-size: 13px;">
+                <input type="checkbox" id="glossary-auto-fix" class="b3-switch" ${glossary?.autoFix ? 'checked' : ''}>
+                <span>自动将保留的原术语替换为规范写法（否则只标出）</span>
+            </label>
+        `;
+    }
+
+    /**
+     * Read the glossary fields
+     * @returns Undefined when empty, null when the entries have errors (already shown)
+     */
+    private readGlossaryEditor(container: HTMLElement): GlossaryConfig | undefined | null {
+        const textarea = container.querySelector('#glossary-textarea') as HTMLTextAreaElement;
+        const sourceInput = container.querySelector('#glossary-source-block') as HTMLInputElement;
+        const autoFixCheckbox = container.querySelector('#glossary-auto-fix') as HTMLInputElement;
+        if (!textarea) return undefined;
+
+        const { terms, forbidden, errors } = Glossary.parse(textarea.value);
+        if (errors.length > 0) {
+            showMessage(`❌ ${errors.join('；')}`, 5000, "error");
+            return null;
+        }
+
+        const sourceBlockId = sourceInput?.value.trim() || undefined;
+        if (sourceBlockId) {
+            try {
+                SecurityUtils.sanitizeBlockId(sourceBlockId);
+            } catch {
+                showMessage('❌ 术语表块 ID 格式错误', 4000, "error");
+                return null;
+            }
+        }
+        if (terms.length === 0 && forbidden.length === 0 && !sourceBlockId) {
+            return undefined;
+        }
+        return { terms, forbidden, sourceBlockId, autoFix: autoFixCheckbox?.checked || false };
+    }
+
+    /**
+     * Show template syntax errors ({{#if}} / {{#each}} tags)
+     * @returns Whether the template can be saved
+     */
+    private checkTemplateSyntax(template: string): boolean {
+        const errors = TemplateEngine.validate(template);
+        if (errors.length > 0) {
+            showMessage(`❌ ${errors.join('；')}`, 6000, "error");
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Handle save global glossary
+     */
+    private handleSaveGlobalGlossary(container: HTMLElement): void {
+        const glossary = this.readGlossaryEditor(container);
+        if (glossary === null) return;
+
+        this.currentSettings.glossary = glossary;
+        this.onSave({ glossary });
+        showMessage("✅ 已保存", 2000, "info");
+    }
+
     /**
      * Switch main tab (Level 1)
      */
@@ -2967,6 +3321,7 @@ export class PromptEditorPanel {
                 const inputPlaceholderInput = container.querySelector('#input-placeholder-input') as HTMLInputElement;
                 const showDiffCheckbox = container.querySelector('#show-diff-checkbox') as HTMLInputElement;
                 if (quickEditTextarea) {
+                    if (!this.checkTemplateSyntax(quickEditTextarea.value)) return;
                     preset.editInstruction = quickEditTextarea.value;
                     preset.inputPlaceholder = inputPlaceholderInput?.value.trim() || undefined;
                     preset.showDiff = showDiffCheckbox?.checked || false;
@@ -2975,9 +3330,74 @@ export class PromptEditorPanel {
             case "selectionQA":
                 const selectionQATextarea = container.querySelector('#selection-qa-template-textarea') as HTMLTextAreaElement;
                 if (selectionQATextarea) {
+                    if (!this.checkTemplateSyntax(selectionQATextarea.value)) return;
                     preset.selectionQATemplate = selectionQATextarea.value;
                 }
                 break;
+            case "output":
+                const schemaTextarea = container.querySelector('#output-schema-textarea') as HTMLTextAreaElement;
+                const renderSelect = container.querySelector('#output-render-select') as HTMLSelectElement;
+                if (schemaTextarea) {
+                    const schemaText = schemaTextarea.value.trim();
+                    if (!schemaText) {
+                        preset.outputSchema = undefined;
+                        break;
+                    }
+                    let schema: any;
+                    try {
+                        schema = JSON.parse(schemaText);
+                    } catch (error) {
+                        showMessage(`❌ JSON Schema 格式错误: ${error instanceof Error ? error.message : String(error)}`, 4000, "error");
+                        return;
+                    }
+                    if (!schema || typeof schema !== 'object' || schema.type !== 'object') {
+                        showMessage('❌ JSON Schema 的根节点必须是 "type": "object"', 4000, "error");
+                        return;
+                    }
+                    preset.outputSchema = {
+                        schema,
+                        render: (renderSelect?.value || 'table') as StructuredRenderMode
+                    };
+                }
+                break;
+            case "attributes":
+                const targetsTextarea = container.querySelector('#attribute-targets-textarea') as HTMLTextAreaElement;
+                if (targetsTextarea) {
+                    const { targets, errors } = AttributeOutput.parseTargets(targetsTextarea.value);
+                    if (errors.length > 0) {
+                        showMessage(`❌ ${errors.join('；')}`, 5000, "error");
+                        return;
+                    }
+                    preset.attributeTargets = targets.length > 0 ? targets : undefined;
+                }
+                break;
+            case "glossary":
+                const glossary = this.readGlossaryEditor(container);
+                if (glossary === null) return;
+                preset.glossary = glossary;
+                break;
+            case "variables":
+                const variablesTextarea = container.querySelector('#preset-variables-textarea') as HTMLTextAreaElement;
+                if (variablesTextarea) {
+                    const { variables, errors } = PresetVariables.parse(variablesTextarea.value);
+                    if (errors.length > 0) {
+                        showMessage(`❌ ${errors.join('；')}`, 5000, "error");
+                        return;
+                    }
+                    preset.variables = variables.length > 0 ? variables : undefined;
+                }
+                break;
+            case "chain":
+                const chainTextarea = container.querySelector('#preset-chain-textarea') as HTMLTextAreaElement;
+                if (chainTextarea) {
+                    const { steps, errors } = PresetChain.parse(chainTextarea.value, this.configManager.getAllTemplates(), preset.id);
+                    if (errors.length > 0) {
+                        showMessage(`❌ ${errors.join('；')}`, 5000, "error");
+                        return;
+                    }
+                    preset.chain = steps.length > 0 ? steps : undefined;
+                }
+                break;
         }
 
         // Save to config manager
@@ -49,6 +49,7 @@ export class SettingsPanelV3 {
     // Callbacks
     private onSave: (settings: Partial<ClaudeSettings>) => void;
     private onOpenPromptEditor: () => void;
+    private onOpenLogViewer: () => void;
 
     // Modular components (Task 1.1 refactoring)
     private profileManager: ProfileManager;
@@ -59,12 +60,14 @@ export class SettingsPanelV3 {
     constructor(
         configManager: ConfigManager,
         onSave: (settings: Partial<ClaudeSettings>) => void,
-        onOpenPromptEditor: () => void
+        onOpenPromptEditor: () => void,
+        onOpenLogViewer: () => void = () => {}
     ) {
         this.configManager = configManager;
         this.currentProfile = configManager.getActiveProfile();
         this.onSave = onSave;
         this.onOpenPromptEditor = onOpenPromptEditor;
+        this.onOpenLogViewer = onOpenLogViewer;
 
         // Initialize modular components
         this.profileManager = new ProfileManager(configManager);
@@ -100,9 +103,12 @@ export class SettingsPanelV3 {
             this.currentProfile
         );
         const connectionSection = SettingsUIBuilder.createConnectionSection(this.currentProfile);
+        const customProvidersSection = SettingsUIBuilder.createCustomProvidersSection(this.currentProfile);
         const promptEditorSection = SettingsUIBuilder.createPromptEditorSection();
         const keyboardShortcutsSection = SettingsUIBuilder.createKeyboardShortcutsSection(this.currentProfile);
         const loggingSection = SettingsUIBuilder.createLoggingSection(this.currentProfile);
+        const retrievalSection = SettingsUIBuilder.createRetrievalSection(this.currentProfile);
+        const usageSection = SettingsUIBuilder.createUsageSection(this.currentProfile, this.getPresetNames());
 
         console.log("[SettingsPanelV3] Sections created, profile section length:", profileSection.length);
 
@@ -116,15 +122,24 @@ export class SettingsPanelV3 {
                     <div class="settings-section" id="section-connection">
                         ${connectionSection}
                     </div>
+                    <div class="settings-section" id="section-custom-providers">
+                        ${customProvidersSection}
+                    </div>
                     <div class="settings-section" id="section-prompt">
                         ${promptEditorSection}
                     </div>
                     <div class="settings-section" id="section-shortcuts">
                         ${keyboardShortcutsSection}
                     </div>
+                    <div class="settings-section" id="section-usage">
+                        ${usageSection}
+                    </div>
                     <div class="settings-section" id="section-logging">
                         ${loggingSection}
                     </div>
+                    <div class="settings-section" id="section-retrieval">
+                        ${retrievalSection}
+                    </div>
                 </div>
             </div>
         `;
@@ -155,15 +170,30 @@ export class SettingsPanelV3 {
             onOpenPromptEditor: () => {
                 this.onOpenPromptEditor();
             },
+            onOpenLogViewer: () => {
+                this.onOpenLogViewer();
+            },
             onSave: () => {
                 this.triggerSave();
             },
+            getPresetNames: () => this.getPresetNames(),
         });
 
         // Load preset information asynchronously
         this.presetInfoLoader.loadPresetInfo(this.currentProfile, container);
     }
 
+    /**
+     * Preset ID → name map for the usage dashboard
+     */
+    private getPresetNames(): Record<string, string> {
+        const names: Record<string, string> = {};
+        this.configManager.getAllTemplates().forEach(t => {
+            names[t.id] = t.name;
+        });
+        return names;
+    }
+
     /**
      * Save settings (delegates to SettingsPersistence)
      *
@@ -6,6 +6,11 @@
 
 import type { ClaudeSettings } from "../claude";
 import type { FilterRule } from "../filter";
+import type { StructuredOutputConfig } from "../structured";
+import type { AttributeTarget } from "../quick-edit/AttributeOutput";
+import type { GlossaryConfig } from "../glossary";
+import type { PresetVariable } from "../quick-edit/PresetVariables";
+import type { PresetChainStep } from "../quick-edit/PresetChain";
 
 /**
  * Prompt Template
@@ -54,6 +59,40 @@ export interface PromptTemplate {
      * If not set, uses default format
      */
     selectionQATemplate?: string;
+
+    /**
+     * Optional output schema (for quick edit)
+     * The AI answers with JSON matching the schema, rendered as a table, task list,
+     * list, block attributes or a JSON code block
+     */
+    outputSchema?: StructuredOutputConfig;
+
+    /**
+     * Optional attribute targets (for quick edit)
+     * When set, the answer is written to block/document attributes (tags, alias,
+     * title, custom-*) instead of the text; each target reads the whole answer
+     * or one field of the structured output
+     */
+    attributeTargets?: AttributeTarget[];
+
+    /**
+     * Optional preset glossary (merged after the profile glossary)
+     * Relevant term pairs and forbidden words are added to edit and translation
+     * prompts, and responses are checked (or fixed) against them
+     */
+    glossary?: GlossaryConfig;
+
+    /**
+     * Optional input variables asked for in the instruction popup
+     * Values are remembered per preset and read as {var.name}
+     */
+    variables?: PresetVariable[];
+
+    /**
+     * Optional chain steps (makes this a chain preset)
+     * Quick edit runs the steps in order, each on the previous step's output
+     */
+    chain?: PresetChainStep[];
 }
 
 /**
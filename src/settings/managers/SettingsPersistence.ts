@@ -16,8 +16,12 @@ import type { ClaudeSettings, MultiProviderSettings, ProviderConfig } from "../.
 import type { ConfigManager } from "../ConfigManager";
 import type { ConfigProfile } from "../config-types";
 import type { AIProviderType } from "../../ai/types";
+import { AIProviderFactory } from "../../ai/AIProviderFactory";
 import { UniversalAIClient } from "../../claude/UniversalAIClient";
 import { KeyboardShortcutFormatter } from "../../utils/KeyboardShortcutFormatter";
+import { DEFAULT_RETRIEVAL_SETTINGS } from "../../retrieval";
+import { DEFAULT_FALLBACK_SETTINGS } from "../../claude/ProviderFallback";
+import { DEFAULT_USAGE_SETTINGS } from "../../usage";
 
 /**
  * Manager class for settings persistence operations
@@ -80,6 +84,19 @@ export class SettingsPersistence {
                 ...settings.providers,
                 [activeProvider]: providerConfig,
             },
+            customProviders: settings.customProviders || [],
+            fallback: {
+                ...DEFAULT_FALLBACK_SETTINGS,
+                ...settings.fallback,
+                enabled: (container.querySelector("#fallback-enabled") as HTMLInputElement)?.checked ?? false,
+                maxRetries: Math.min(5, Math.max(0, parseInt((container.querySelector("#fallback-max-retries") as HTMLInputElement)?.value) || 0)),
+                order: Array.from(container.querySelectorAll<HTMLElement>("#fallback-order-list [data-fallback-provider]"))
+                    .filter(row => (row.querySelector('[data-action="toggle"]') as HTMLInputElement)?.checked)
+                    .map(row => row.dataset.fallbackProvider!),
+            },
+            compareProviders: Array.from(container.querySelectorAll<HTMLElement>("#compare-provider-list [data-compare-provider]"))
+                .filter(row => (row.querySelector('input[type="checkbox"]') as HTMLInputElement)?.checked)
+                .map(row => row.dataset.compareProvider!),
             // Keep global params for backward compatibility with old code paths
             // NOTE: The old UI sliders (#claude-max-tokens, #claude-temperature) no longer exist.
             // We preserve existing settings values here instead of reading from deleted UI elements.
@@ -89,6 +106,22 @@ export class SettingsPersistence {
             enableRequestLogging: (container.querySelector("#enable-request-logging") as HTMLInputElement)?.checked ?? false,
             requestLogPath: (container.querySelector("#request-log-path") as HTMLInputElement)?.value || "",
             requestLogIncludeResponse: (container.querySelector("#log-include-response") as HTMLInputElement)?.checked ?? true,
+            requestLogMaxFileSizeMB: Math.max(0, parseFloat((container.querySelector("#log-max-file-size") as HTMLInputElement)?.value) || 0),
+            requestLogMaxTotalSizeMB: Math.max(0, parseFloat((container.querySelector("#log-max-total-size") as HTMLInputElement)?.value) || 0),
+            retrieval: {
+                topK: parseInt((container.querySelector("#retrieval-top-k") as HTMLInputElement)?.value) || DEFAULT_RETRIEVAL_SETTINGS.topK,
+                maxIndexedBlocks: parseInt((container.querySelector("#retrieval-max-blocks") as HTMLInputElement)?.value) || DEFAULT_RETRIEVAL_SETTINGS.maxIndexedBlocks,
+                embedding: {
+                    enabled: (container.querySelector("#retrieval-embedding-enabled") as HTMLInputElement)?.checked ?? false,
+                    baseURL: (container.querySelector("#retrieval-embedding-base-url") as HTMLInputElement)?.value.trim() || DEFAULT_RETRIEVAL_SETTINGS.embedding.baseURL,
+                    apiKey: (container.querySelector("#retrieval-embedding-api-key") as HTMLInputElement)?.value.trim() || "",
+                    model: (container.querySelector("#retrieval-embedding-model") as HTMLInputElement)?.value.trim() || DEFAULT_RETRIEVAL_SETTINGS.embedding.model,
+                },
+            },
+            usage: {
+                monthlyBudget: Math.max(0, parseFloat((container.querySelector("#usage-monthly-budget") as HTMLInputElement)?.value) || 0),
+                warnAtPercent: Math.min(100, Math.max(1, parseInt((container.querySelector("#usage-warn-percent") as HTMLInputElement)?.value) || DEFAULT_USAGE_SETTINGS.warnAtPercent)),
+            },
             keyboardShortcuts: {
                 quickEdit: KeyboardShortcutFormatter.toMacFormat(
                     (container.querySelector("#shortcut-quick-edit") as HTMLInputElement)?.value || "Ctrl+Shift+Q"
@@ -154,7 +187,8 @@ export class SettingsPersistence {
                 },
             };
 
-            if (!providerConfig.apiKey || providerConfig.apiKey.trim() === "") {
+            const requiresApiKey = AIProviderFactory.getMetadata(activeProvider).requiresApiKey !== false;
+            if (requiresApiKey && (!providerConfig.apiKey || providerConfig.apiKey.trim() === "")) {
                 throw new Error("请输入 API Key");
             }
 
@@ -0,0 +1,223 @@
+/**
+ * Placeholder Assist - Autocomplete and live preview for prompt template textareas
+ *
+ * Typing `{` opens a list of the registered placeholders (arrow keys, Enter/Tab
+ * to insert, Esc to close). Below the textarea template syntax errors are shown,
+ * and every placeholder of the template is listed with what it resolves to for
+ * the block selected (or first shown) in the active editor, with sample values
+ * for the request placeholders.
+ *
+ * @module PlaceholderAssist
+ * @see PlaceholderRegistry
+ */
+
+import { PlaceholderRegistry, type PlaceholderContext, type PlaceholderDefinition } from "../../quick-edit/PlaceholderRegistry";
+import { ContextExtractor } from "../../quick-edit/ContextExtractor";
+import { TemplateEngine } from "../../quick-edit/TemplateEngine";
+import { EditorHelper } from "../../editor/EditorHelper";
+import { SecurityUtils } from "../../utils/Security";
+
+const PREVIEW_DEBOUNCE_MS = 600;
+const PREVIEW_MAX_CHARS = 200;
+const MAX_SUGGESTIONS = 8;
+
+// `{` and the name typed so far, right before the caret (not escaped)
+const TYPED_PLACEHOLDER_REGEX = /(?<!\\)\{([a-z_]*)$/i;
+
+const SAMPLE_VALUES: Record<string, string> = {
+    instruction: '（示例指令）',
+    question: '（示例问题）'
+};
+
+export class PlaceholderAssist {
+    private menu: HTMLElement;
+    private preview: HTMLElement;
+    private suggestions: PlaceholderDefinition[] = [];
+    private activeIndex = 0;
+    private typedStart = -1;
+    private previewTimer: number | null = null;
+    private previewRun = 0;
+    private contextExtractor = new ContextExtractor(new EditorHelper());
+
+    /**
+     * Markup placed right after the textarea, inside an element with class placeholder-assist
+     */
+    static createMarkup(): string {
+        return `
+            <div class="placeholder-assist__menu fn__none"></div>
+            <div class="placeholder-assist__preview"></div>
+        `;
+    }
+
+    constructor(private textarea: HTMLTextAreaElement) {
+        const wrapper = textarea.closest('.placeholder-assist') as HTMLElement;
+        this.menu = wrapper.querySelector('.placeholder-assist__menu') as HTMLElement;
+        this.preview = wrapper.querySelector('.placeholder-assist__preview') as HTMLElement;
+
+        textarea.addEventListener('input', () => {
+            this.updateMenu();
+            this.schedulePreview();
+        });
+        textarea.addEventListener('keydown', (e) => this.handleKeydown(e));
+        textarea.addEventListener('click', () => this.updateMenu());
+        textarea.addEventListener('blur', () => {
+            // Delay so a click on a suggestion lands first
+            window.setTimeout(() => this.hideMenu(), 150);
+        });
+
+        this.menu.addEventListener('mousedown', (e) => {
+            const item = (e.target as HTMLElement).closest('[data-index]') as HTMLElement | null;
+            if (item) {
+                e.preventDefault();
+                this.insert(this.suggestions[Number(item.dataset.index)]);
+            }
+        });
+
+        this.schedulePreview(0);
+    }
+
+    private handleKeydown(e: KeyboardEvent): void {
+        if (this.menu.classList.contains('fn__none')) return;
+
+        switch (e.key) {
+            case 'ArrowDown':
+            case 'ArrowUp':
+                e.preventDefault();
+                this.activeIndex = (this.activeIndex + (e.key === 'ArrowDown' ? 1 : -1) + this.suggestions.length) % this.suggestions.length;
+                this.renderMenu();
+                break;
+            case 'Enter':
+            case 'Tab':
+                e.preventDefault();
+                this.insert(this.suggestions[this.activeIndex]);
+                break;
+            case 'Escape':
+                e.preventDefault();
+                e.stopPropagation();
+                this.hideMenu();
+                break;
+        }
+    }
+
+    private updateMenu(): void {
+        const caret = this.textarea.selectionStart;
+        const match = TYPED_PLACEHOLDER_REGEX.exec(this.textarea.value.slice(0, caret));
+        this.suggestions = match ? PlaceholderRegistry.suggest(match[1]).slice(0, MAX_SUGGESTIONS) : [];
+
+        if (!match || this.suggestions.length === 0) {
+            this.hideMenu();
+            return;
+        }
+
+        this.typedStart = caret - match[0].length;
+        this.activeIndex = 0;
+        this.renderMenu();
+    }
+
+    private renderMenu(): void {
+        this.menu.innerHTML = this.suggestions.map((definition, i) => `
+            <div class="placeholder-assist__item ${i === this.activeIndex ? 'placeholder-assist__item--active' : ''}" data-index="${i}">
+                <code>${SecurityUtils.escapeHtml(definition.snippet)}</code>
+                <span class="ft__smaller ft__secondary">${SecurityUtils.escapeHtml(definition.description)}</span>
+            </div>
+        `).join('');
+        this.menu.classList.remove('fn__none');
+    }
+
+    private hideMenu(): void {
+        this.menu.classList.add('fn__none');
+        this.suggestions = [];
+    }
+
+    /**
+     * Replace the typed `{name` with the snippet; the caret goes inside required arguments
+     */
+    private insert(definition: PlaceholderDefinition | undefined): void {
+        if (!definition || this.typedStart < 0) return;
+
+        const value = this.textarea.value;
+        const caret = this.textarea.selectionStart;
+        this.textarea.value = value.slice(0, this.typedStart) + definition.snippet + value.slice(caret);
+
+        const end = this.typedStart + definition.snippet.length;
+        const position = definition.argument?.required ? end - 1 : end;
+        this.textarea.setSelectionRange(position, position);
+        this.textarea.focus();
+
+        this.hideMenu();
+        this.textarea.dispatchEvent(new Event('input', { bubbles: true }));
+    }
+
+    private schedulePreview(delay: number = PREVIEW_DEBOUNCE_MS): void {
+        if (this.previewTimer !== null) {
+            window.clearTimeout(this.previewTimer);
+        }
+        this.previewTimer = window.setTimeout(() => {
+            this.previewTimer = null;
+            void this.renderPreview();
+        }, delay);
+    }
+
+    private async renderPreview(): Promise<void> {
+        const run = ++this.previewRun;
+        const context = this.getPreviewContext();
+        const template = this.textarea.value;
+        const errors = TemplateEngine.validate(template);
+        const previews = await PlaceholderRegistry.preview(TemplateEngine.stripTags(template), context);
+        if (run !== this.previewRun || !this.preview.isConnected) return;
+
+        const errorHtml = errors
+            .map(error => `<div class="ft__error">❌ ${SecurityUtils.escapeHtml(error)}</div>`)
+            .join('');
+        if (previews.length === 0) {
+            this.preview.innerHTML = errorHtml;
+            return;
+        }
+
+        const rows = previews.map(preview => {
+            let value: string;
+            if (preview.error) {
+                value = `<span class="ft__error">❌ ${SecurityUtils.escapeHtml(preview.error)}</span>`;
+            } else if (!preview.known) {
+                value = '<span class="ft__secondary">未知占位符，将原样保留</span>';
+            } else if (preview.value === preview.raw) {
+                value = '<span class="ft__secondary">（此处不可用，将原样保留）</span>';
+            } else if (!preview.value) {
+                value = '<span class="ft__secondary">（空）</span>';
+            } else {
+                const text = preview.value.length > PREVIEW_MAX_CHARS
+                    ? `${preview.value.slice(0, PREVIEW_MAX_CHARS)}…`
+                    : preview.value;
+                value = SecurityUtils.escapeHtml(text);
+            }
+            return `
+                <div class="placeholder-assist__row">
+                    <code>${SecurityUtils.escapeHtml(preview.raw)}</code>
+                    <span class="placeholder-assist__value">${value}</span>
+                </div>
+            `;
+        }).join('');
+
+        const note = context.blockIds.length === 0
+            ? '<div class="ft__smaller ft__secondary">打开一个文档后可预览文档相关的占位符</div>'
+            : '';
+        this.preview.innerHTML = `${errorHtml}<div class="placeholder-assist__title">占位符预览</div>${note}${rows}`;
+    }
+
+    /**
+     * Block selected (or first shown) in the active editor, with sample request values
+     */
+    private getPreviewContext(): PlaceholderContext {
+        const protyle = document.querySelector('.layout__wnd--active .protyle:not(.fn__none)')
+            || document.querySelector('.protyle:not(.fn__none)');
+        const block = (protyle?.querySelector('.protyle-wysiwyg--select[data-node-id]')
+            || protyle?.querySelector('.protyle-wysiwyg [data-node-id]')) as HTMLElement | null;
+        const text = block?.textContent?.trim() || '';
+
+        return {
+            blockIds: block?.dataset.nodeId ? [block.dataset.nodeId] : [],
+            values: { ...SAMPLE_VALUES, original: text, selection: text },
+            contextExtractor: this.contextExtractor
+        };
+    }
+}
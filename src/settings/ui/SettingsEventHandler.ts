@@ -16,14 +16,16 @@
 
 import type { MultiProviderSettings, ProviderConfig } from "../../claude";
 import type { ConfigProfile } from "../config-types";
-import type { AIProviderType } from "../../ai/types";
+import type { AIProviderType, CustomProviderAuthStyle, CustomProviderDefinition } from "../../ai/types";
 import { AIProviderFactory } from "../../ai/AIProviderFactory";
+import { LocalModelProvider } from "../../ai/providers";
 import { KeyboardShortcutFormatter } from "../../utils/KeyboardShortcutFormatter";
 import { KeyboardRecorder } from "../../utils/KeyboardRecorder";
 import { ShortcutValidator } from "../../utils/ShortcutValidator";
 import { SettingsUIBuilder } from "./SettingsUIBuilder";
 import { ProfileManager } from "../managers/ProfileManager";
 import { SettingsPersistence } from "../managers/SettingsPersistence";
+import { usageTracker } from "../../usage";
 
 /**
  * Callbacks for event handling
@@ -31,7 +33,9 @@ import { SettingsPersistence } from "../managers/SettingsPersistence";
 export interface EventHandlerCallbacks {
     onProfileChanged: (profile: ConfigProfile) => void;
     onOpenPromptEditor: () => void;
+    onOpenLogViewer: () => void;
     onSave: () => void;
+    getPresetNames: () => Record<string, string>;
 }
 
 /**
@@ -85,7 +89,19 @@ export class SettingsEventHandler {
         this.attachPromptEditorListeners(container, callbacks);
 
         // Logging configuration
-        this.attachLoggingListeners(container);
+        this.attachLoggingListeners(container, callbacks);
+
+        // Provider fallback order
+        this.attachFallbackListeners(container);
+
+        // Custom OpenAI-compatible providers
+        this.attachCustomProviderListeners(container, callbacks);
+
+        // Notebook retrieval
+        this.attachRetrievalListeners(container);
+
+        // Usage dashboard
+        this.attachUsageListeners(container, callbacks);
 
         // Quick Edit auto action
         this.attachQuickEditAutoActionListener(container);
@@ -234,6 +250,13 @@ export class SettingsEventHandler {
             // Update API key help text
             if (apiKeyHelp && currentInfo.url) {
                 apiKeyHelp.innerHTML = `📍 获取 API Key: <a href="${currentInfo.url}" target="_blank" style="color: var(--b3-theme-on-background);">${currentInfo.name} 控制台</a>`;
+            } else if (apiKeyHelp) {
+                apiKeyHelp.textContent = currentInfo.requiresApiKey ? '' : '💡 本地模型服务无需 API Key，可留空';
+            }
+
+            // Local servers: load installed models from the server
+            if (selectedProvider === 'local') {
+                this.refreshLocalModels(container, providerConfig?.model || '');
             }
 
             // Update "测试连接" button help text
@@ -294,6 +317,43 @@ export class SettingsEventHandler {
         toggleKeyBtn?.addEventListener("click", () => {
             apiKeyInput.type = apiKeyInput.type === "password" ? "text" : "password";
         });
+
+        // Local servers: reload models when the endpoint changes
+        const baseURLInput = container.querySelector("#provider-base-url") as HTMLInputElement;
+        baseURLInput?.addEventListener("change", () => {
+            if (providerSelector?.value === 'local') {
+                this.refreshLocalModels(container, modelSelect?.value || '');
+            }
+        });
+
+        if (providerSelector?.value === 'local') {
+            this.refreshLocalModels(container, modelSelect?.value || '');
+        }
+    }
+
+    /**
+     * Query the local model server and rebuild the model dropdown
+     */
+    private async refreshLocalModels(container: HTMLElement, selectedModel: string): Promise<void> {
+        const modelSelect = container.querySelector("#provider-model") as HTMLSelectElement;
+        const modelHelp = container.querySelector("#model-help") as HTMLElement;
+        const useCustomEndpoint = (container.querySelector('input[name="api-endpoint-type"]:checked') as HTMLInputElement)?.value === "custom";
+        const baseURL = useCustomEndpoint
+            ? (container.querySelector("#provider-base-url") as HTMLInputElement)?.value.trim()
+            : '';
+
+        if (modelHelp) modelHelp.textContent = '正在检测本地模型...';
+
+        const models = await LocalModelProvider.refreshModels(baseURL || undefined);
+
+        if (modelSelect) {
+            modelSelect.innerHTML = SettingsUIBuilder.getModelOptionsForProvider('local', selectedModel);
+        }
+        if (modelHelp) {
+            modelHelp.textContent = models.length > 0
+                ? `检测到 ${models.length} 个本地模型`
+                : '未检测到本地模型，请确认服务已启动（Ollama 默认 http://localhost:11434）';
+        }
     }
 
     /**
@@ -411,12 +471,13 @@ export class SettingsEventHandler {
     /**
      * Attach logging configuration event listeners
      */
-    private attachLoggingListeners(container: HTMLElement): void {
+    private attachLoggingListeners(container: HTMLElement, callbacks: EventHandlerCallbacks): void {
         const enableLoggingCheckbox = container.querySelector("#enable-request-logging") as HTMLInputElement;
         const logPathContainer = container.querySelector("#log-path-container") as HTMLElement;
         const logPathInput = container.querySelector("#request-log-path") as HTMLInputElement;
         const logResponseContainer = container.querySelector("#log-response-container") as HTMLElement;
         const logResponseCheckbox = container.querySelector("#log-include-response") as HTMLInputElement;
+        const logLimitsContainer = container.querySelector("#log-limits-container") as HTMLElement;
 
         enableLoggingCheckbox?.addEventListener("change", (e) => {
             const enabled = (e.target as HTMLInputElement).checked;
@@ -436,6 +497,260 @@ export class SettingsEventHandler {
             if (logResponseCheckbox) {
                 logResponseCheckbox.disabled = !enabled;
             }
+            if (logLimitsContainer) {
+                logLimitsContainer.style.opacity = enabled ? "1" : "0.5";
+                logLimitsContainer.style.pointerEvents = enabled ? "auto" : "none";
+                logLimitsContainer.querySelectorAll("input").forEach(input => {
+                    input.disabled = !enabled;
+                });
+            }
+        });
+
+        container.querySelector("#open-log-viewer-btn")?.addEventListener("click", () => {
+            callbacks.onOpenLogViewer();
+        });
+    }
+
+    /**
+     * Attach custom provider list and form listeners
+     */
+    private attachCustomProviderListeners(container: HTMLElement, callbacks: EventHandlerCallbacks): void {
+        const list = container.querySelector("#custom-provider-list") as HTMLElement;
+        const authStyleSelect = container.querySelector("#custom-provider-auth-style") as HTMLSelectElement;
+        const authHeaderInput = container.querySelector("#custom-provider-auth-header") as HTMLInputElement;
+
+        authStyleSelect?.addEventListener("change", () => {
+            authHeaderInput.style.display = authStyleSelect.value === "header" ? "" : "none";
+        });
+
+        list?.addEventListener("click", (e) => {
+            const button = (e.target as HTMLElement).closest("[data-action]") as HTMLElement | null;
+            const providerId = button?.closest("[data-provider-id]")?.getAttribute("data-provider-id");
+            if (!button || !providerId) return;
+
+            const definitions = this.getCustomProviders();
+            const definition = definitions.find(d => d.id === providerId);
+            if (!definition) return;
+
+            if (button.dataset.action === "edit") {
+                this.fillCustomProviderForm(container, definition);
+            } else if (button.dataset.action === "delete") {
+                if (!confirm(`确定删除自定义提供商 "${definition.name}" 吗？`)) return;
+                this.updateCustomProviders(container, definitions.filter(d => d.id !== providerId), callbacks);
+            }
+        });
+
+        container.querySelector("#custom-provider-reset")?.addEventListener("click", () => {
+            this.fillCustomProviderForm(container, null);
+        });
+
+        container.querySelector("#custom-provider-save")?.addEventListener("click", () => {
+            try {
+                const definition = this.readCustomProviderForm(container);
+                const definitions = this.getCustomProviders();
+                const index = definitions.findIndex(d => d.id === definition.id);
+
+                if (index >= 0) {
+                    definitions[index] = definition;
+                } else {
+                    definitions.push(definition);
+                }
+
+                this.updateCustomProviders(container, definitions, callbacks);
+                this.fillCustomProviderForm(container, null);
+            } catch (error) {
+                alert(error instanceof Error ? error.message : String(error));
+            }
+        });
+    }
+
+    private getCustomProviders(): CustomProviderDefinition[] {
+        return [...((this.currentProfile.settings as MultiProviderSettings).customProviders || [])];
+    }
+
+    /**
+     * Store the custom provider list, register it and refresh dependent UI
+     */
+    private updateCustomProviders(
+        container: HTMLElement,
+        definitions: CustomProviderDefinition[],
+        callbacks: EventHandlerCallbacks
+    ): void {
+        this.currentProfile.settings = {
+            ...this.currentProfile.settings,
+            customProviders: definitions,
+        } as MultiProviderSettings;
+
+        AIProviderFactory.registerCustomProviders(definitions);
+
+        const list = container.querySelector("#custom-provider-list") as HTMLElement;
+        if (list) {
+            list.innerHTML = SettingsUIBuilder.renderCustomProviderList(definitions);
+        }
+
+        // Rebuild the provider selector; fall back to Anthropic if the active provider was removed
+        const providerSelector = container.querySelector("#ai-provider-selector") as HTMLSelectElement;
+        if (providerSelector) {
+            const activeProvider = providerSelector.value;
+            const stillRegistered = AIProviderFactory.hasProvider(activeProvider);
+            providerSelector.innerHTML = SettingsUIBuilder.getProviderSelectorOptions(stillRegistered ? activeProvider : 'anthropic');
+            if (!stillRegistered) {
+                providerSelector.dispatchEvent(new Event("change"));
+            }
+        }
+
+        callbacks.onSave();
+        console.log(`[SettingsEventHandler] Custom providers updated: ${definitions.length}`);
+    }
+
+    private fillCustomProviderForm(container: HTMLElement, definition: CustomProviderDefinition | null): void {
+        const field = <T extends HTMLElement>(id: string) => container.querySelector(`#${id}`) as T;
+
+        field<HTMLInputElement>("custom-provider-id").value = definition?.id || "";
+        field<HTMLInputElement>("custom-provider-name").value = definition?.name || "";
+        field<HTMLInputElement>("custom-provider-base-url").value = definition?.baseURL || "";
+        field<HTMLSelectElement>("custom-provider-auth-style").value = definition?.authStyle || "bearer";
+        field<HTMLInputElement>("custom-provider-auth-header").value = definition?.authHeaderName || "";
+        field<HTMLInputElement>("custom-provider-auth-header").style.display = definition?.authStyle === "header" ? "" : "none";
+        field<HTMLTextAreaElement>("custom-provider-models").value = (definition?.models || [])
+            .map(m => [m.id, m.displayName, m.contextWindow].filter(v => v !== undefined && v !== "").join(" | "))
+            .join("\n");
+        field<HTMLTextAreaElement>("custom-provider-headers").value = Object.entries(definition?.extraHeaders || {})
+            .map(([name, value]) => `${name}: ${value}`)
+            .join("\n");
+        field<HTMLInputElement>("custom-provider-max-temperature").value = String(definition?.maxTemperature ?? 2);
+        field<HTMLInputElement>("custom-provider-max-tokens").value = String(definition?.maxOutputTokens ?? 8192);
+        field<HTMLInputElement>("custom-provider-supports-tools").checked = definition?.supportsTools ?? false;
+    }
+
+    /**
+     * Read and validate the custom provider form
+     * @throws Error with a user-facing message when a field is invalid
+     */
+    private readCustomProviderForm(container: HTMLElement): CustomProviderDefinition {
+        const value = (id: string) => ((container.querySelector(`#${id}`) as HTMLInputElement)?.value || "").trim();
+
+        const name = value("custom-provider-name");
+        const baseURL = value("custom-provider-base-url").replace(/\/+$/, "");
+        if (!name) {
+            throw new Error("请输入提供商名称");
+        }
+        if (!/^https?:\/\/.+/.test(baseURL)) {
+            throw new Error("API 地址必须以 http:// 或 https:// 开头");
+        }
+
+        const models = value("custom-provider-models")
+            .split("\n")
+            .map(line => line.split("|").map(part => part.trim()))
+            .filter(parts => parts[0])
+            .map(([id, displayName, contextWindow]) => ({
+                id,
+                displayName: displayName || undefined,
+                contextWindow: parseInt(contextWindow) || undefined,
+            }));
+        if (models.length === 0) {
+            throw new Error("请至少填写一个模型");
+        }
+
+        const extraHeaders: Record<string, string> = {};
+        for (const line of value("custom-provider-headers").split("\n")) {
+            const separator = line.indexOf(":");
+            if (separator > 0) {
+                extraHeaders[line.substring(0, separator).trim()] = line.substring(separator + 1).trim();
+            }
+        }
+
+        const existingId = value("custom-provider-id");
+        const authStyle = value("custom-provider-auth-style") as CustomProviderAuthStyle;
+        const maxTemperature = parseFloat(value("custom-provider-max-temperature"));
+        const maxOutputTokens = parseInt(value("custom-provider-max-tokens"));
+
+        return {
+            id: existingId || this.generateCustomProviderId(name),
+            name,
+            baseURL,
+            authStyle,
+            authHeaderName: authStyle === "header" ? value("custom-provider-auth-header") || "api-key" : undefined,
+            extraHeaders,
+            models,
+            maxTemperature: isNaN(maxTemperature) ? undefined : maxTemperature,
+            maxOutputTokens: isNaN(maxOutputTokens) ? undefined : maxOutputTokens,
+            supportsTools: (container.querySelector("#custom-provider-supports-tools") as HTMLInputElement)?.checked ?? false,
+        };
+    }
+
+    /**
+     * Generate a unique provider type key such as "custom-openrouter"
+     */
+    private generateCustomProviderId(name: string): string {
+        const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "provider";
+        const base = `custom-${slug}`;
+
+        let id = base;
+        for (let i = 2; AIProviderFactory.hasProvider(id); i++) {
+            id = `${base}-${i}`;
+        }
+        return id;
+    }
+
+    /**
+     * Attach provider fallback event listeners
+     * Moving a row only reorders the DOM; the order is read on save
+     */
+    private attachFallbackListeners(container: HTMLElement): void {
+        const list = container.querySelector("#fallback-order-list") as HTMLElement;
+
+        list?.addEventListener("click", (e) => {
+            const button = (e.target as HTMLElement).closest("button[data-action]") as HTMLButtonElement;
+            const row = button?.closest("[data-fallback-provider]") as HTMLElement;
+            if (!button || !row) return;
+
+            e.preventDefault();
+            if (button.dataset.action === "up" && row.previousElementSibling) {
+                list.insertBefore(row, row.previousElementSibling);
+            } else if (button.dataset.action === "down" && row.nextElementSibling) {
+                list.insertBefore(row.nextElementSibling, row);
+            }
+        });
+    }
+
+    /**
+     * Attach notebook retrieval event listeners
+     */
+    private attachRetrievalListeners(container: HTMLElement): void {
+        const embeddingCheckbox = container.querySelector("#retrieval-embedding-enabled") as HTMLInputElement;
+        const embeddingContainer = container.querySelector("#retrieval-embedding-container") as HTMLElement;
+
+        embeddingCheckbox?.addEventListener("change", () => {
+            if (embeddingContainer) {
+                embeddingContainer.style.opacity = embeddingCheckbox.checked ? "1" : "0.5";
+                embeddingContainer.style.pointerEvents = embeddingCheckbox.checked ? "auto" : "none";
+            }
+        });
+    }
+
+    /**
+     * Attach usage dashboard event listeners
+     */
+    private attachUsageListeners(container: HTMLElement, callbacks: EventHandlerCallbacks): void {
+        const rangeSelect = container.querySelector("#usage-range") as HTMLSelectElement;
+        const tables = container.querySelector("#usage-tables") as HTMLElement;
+        const clearBtn = container.querySelector("#usage-clear") as HTMLButtonElement;
+
+        const render = () => {
+            if (tables) {
+                tables.innerHTML = SettingsUIBuilder.renderUsageTables(parseInt(rangeSelect?.value) || 30, callbacks.getPresetNames());
+            }
+        };
+
+        rangeSelect?.addEventListener("change", render);
+
+        clearBtn?.addEventListener("click", async () => {
+            if (!confirm("确定要清除所有用量统计吗？此操作无法撤销。")) {
+                return;
+            }
+            await usageTracker.clear();
+            render();
         });
     }
 
@@ -776,11 +1091,11 @@ export class SettingsEventHandler {
     /**
      * Get provider info from AIProviderFactory
      */
-    private getProviderInfo(type: string): { name: string; icon: string; url: string; defaultBaseURL: string } {
+    private getProviderInfo(type: string): { name: string; icon: string; url: string; defaultBaseURL: string; requiresApiKey: boolean } {
         try {
             if (!AIProviderFactory.hasProvider(type)) {
                 console.warn(`[SettingsEventHandler] Provider "${type}" not registered, using fallback`);
-                return { name: 'Unknown Provider', icon: '❓', url: '', defaultBaseURL: '' };
+                return { name: 'Unknown Provider', icon: '❓', url: '', defaultBaseURL: '', requiresApiKey: true };
             }
 
             const metadata = AIProviderFactory.getMetadata(type);
@@ -789,10 +1104,11 @@ export class SettingsEventHandler {
                 icon: metadata.icon,
                 url: metadata.apiKeyUrl,
                 defaultBaseURL: metadata.defaultBaseURL,
+                requiresApiKey: metadata.requiresApiKey !== false,
             };
         } catch (error) {
             console.error(`[SettingsEventHandler] Failed to get provider info for ${type}:`, error);
-            return { name: 'Unknown Provider', icon: '❓', url: '', defaultBaseURL: '' };
+            return { name: 'Unknown Provider', icon: '❓', url: '', defaultBaseURL: '', requiresApiKey: true };
         }
     }
 }
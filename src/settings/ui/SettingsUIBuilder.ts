@@ -10,10 +10,15 @@
 
 import type { MultiProviderSettings, ProviderConfig } from "../../claude";
 import type { ConfigProfile } from "../config-types";
-import type { AIProviderType } from "../../ai/types";
+import type { AIProviderType, CustomProviderDefinition } from "../../ai/types";
 import { AIProviderFactory } from "../../ai/AIProviderFactory";
 import { KeyboardShortcutFormatter } from "../../utils/KeyboardShortcutFormatter";
 import { SecurityUtils } from "../../utils/Security";
+import { DEFAULT_RETRIEVAL_SETTINGS } from "../../retrieval";
+import { DEFAULT_FALLBACK_SETTINGS, type FallbackSettings } from "../../claude/ProviderFallback";
+import { MAX_COMPARE_PROVIDERS } from "../../compare";
+import { usageTracker, DEFAULT_USAGE_SETTINGS, type UsageDimension } from "../../usage";
+import { DEFAULT_LOG_LIMITS } from "../../logger/RequestLogger";
 
 /**
  * Utility class for building settings UI HTML
@@ -41,6 +46,10 @@ export class SettingsUIBuilder {
                     <svg class="settings-nav-icon"><use xlink:href="#iconLink"></use></svg>
                     <span>连接设置</span>
                 </div>
+                <div class="settings-nav-item" data-section="custom-providers">
+                    <svg class="settings-nav-icon"><use xlink:href="#iconCloud"></use></svg>
+                    <span>自定义提供商</span>
+                </div>
                 <div class="settings-nav-item" data-section="prompt">
                     <svg class="settings-nav-icon"><use xlink:href="#iconEdit"></use></svg>
                     <span>提示词设置</span>
@@ -49,6 +58,14 @@ export class SettingsUIBuilder {
                     <svg class="settings-nav-icon"><use xlink:href="#iconKeymap"></use></svg>
                     <span>快捷键设置</span>
                 </div>
+                <div class="settings-nav-item" data-section="retrieval">
+                    <svg class="settings-nav-icon"><use xlink:href="#iconSearch"></use></svg>
+                    <span>笔记检索</span>
+                </div>
+                <div class="settings-nav-item" data-section="usage">
+                    <svg class="settings-nav-icon"><use xlink:href="#iconSparkles"></use></svg>
+                    <span>用量统计</span>
+                </div>
                 <div class="settings-nav-item" data-section="logging">
                     <svg class="settings-nav-icon"><use xlink:href="#iconLog"></use></svg>
                     <span>日志配置</span>
@@ -150,6 +167,8 @@ export class SettingsUIBuilder {
         const thinkingBudget = providerConfig?.thinkingBudget ?? 10000;
         const reasoningEffort = providerConfig?.reasoningEffort ?? 'low';
 
+        const fallback = { ...DEFAULT_FALLBACK_SETTINGS, ...settings.fallback };
+
         return `
             <div class="section-header" style="margin-bottom: 16px;">
                 <h3 style="margin: 0; font-size: 15px; font-weight: 500;">
@@ -216,6 +235,7 @@ export class SettingsUIBuilder {
                 </div>
                 <div class="ft__smaller ft__secondary" style="margin-top: 8px;" id="api-key-help">
                     ${currentInfo.url ? `📍 获取 API Key: <a href="${currentInfo.url}" target="_blank" style="color: var(--b3-theme-on-background);">${currentInfo.name} 控制台</a>` : ''}
+                    ${currentInfo.requiresApiKey ? '' : '💡 本地模型服务无需 API Key，可留空'}
                 </div>
             </div>
 
@@ -370,9 +390,87 @@ export class SettingsUIBuilder {
                     验证 ${currentInfo.name} API 连接是否正常
                 </div>
             </div>
+
+            <!-- Provider Fallback -->
+            <div class="setting-item" style="margin-bottom: 16px; margin-top: 24px; padding-top: 16px; border-top: 1px solid var(--b3-border-color);">
+                <div style="display: flex; align-items: center; justify-content: space-between; margin-bottom: 12px;">
+                    <div>
+                        <span style="font-weight: 500;">🔁 失败重试与备用提供商</span>
+                        <div class="ft__smaller ft__secondary" style="margin-top: 4px;">
+                            遇到限流 (429)、服务端错误 (5xx) 或超时时，先重试当前提供商，再按顺序切换到备用提供商
+                        </div>
+                    </div>
+                    <input type="checkbox" id="fallback-enabled" class="b3-switch fn__flex-center" ${fallback.enabled ? 'checked' : ''}>
+                </div>
+
+                <div style="display: flex; align-items: center; justify-content: space-between; margin-bottom: 12px;">
+                    <span class="ft__smaller" style="font-weight: 500;">每个提供商重试次数</span>
+                    <input class="b3-text-field" type="number" id="fallback-max-retries" min="0" max="5" value="${fallback.maxRetries}" style="width: 80px;">
+                </div>
+
+                <div class="ft__smaller" style="font-weight: 500; margin-bottom: 8px;">备用顺序</div>
+                <div id="fallback-order-list">
+                    ${this.renderFallbackOrderList(fallback)}
+                </div>
+                <div class="ft__smaller ft__secondary" style="margin-top: 8px;">
+                    💡 当前提供商总是最先尝试；未配置 API Key 的提供商会被跳过
+                </div>
+            </div>
+
+            <!-- Provider Comparison -->
+            <div class="setting-item" style="margin-bottom: 16px; margin-top: 24px; padding-top: 16px; border-top: 1px solid var(--b3-border-color);">
+                <div style="margin-bottom: 12px;">
+                    <span style="font-weight: 500;">⚖️ 多模型对比</span>
+                    <div class="ft__smaller ft__secondary" style="margin-top: 4px;">
+                        对比模式把同一提示词同时发送给选中的提供商，分栏显示结果、耗时与 token 用量（快速编辑按 Ctrl+Enter，对话面板勾选“对比”）
+                    </div>
+                </div>
+                <div id="compare-provider-list">
+                    ${this.renderCompareProviderList(settings.compareProviders || [])}
+                </div>
+                <div class="ft__smaller ft__secondary" style="margin-top: 8px;">
+                    💡 最多使用前 ${MAX_COMPARE_PROVIDERS} 个已配置 API Key 的提供商；都不勾选时使用当前提供商和其他已配置的提供商
+                </div>
+            </div>
         `;
     }
 
+    /**
+     * Render the compare mode provider list
+     */
+    static renderCompareProviderList(selected: string[]): string {
+        return AIProviderFactory.getProviderTypes().map(type => {
+            const info = this.getProviderInfo(type);
+            return `
+            <label class="b3-list-item" style="display: flex; align-items: center; gap: 8px; padding: 4px 8px;" data-compare-provider="${this.escapeHtml(type)}">
+                <input type="checkbox" class="b3-switch" ${selected.includes(type) ? 'checked' : ''}>
+                <span style="flex: 1;">${this.escapeHtml(`${info.icon} ${info.name}`)}</span>
+            </label>`;
+        }).join('');
+    }
+
+    /**
+     * Render the fallback order list (checked providers first, in fallback order)
+     */
+    static renderFallbackOrderList(fallback: FallbackSettings): string {
+        const providerTypes = AIProviderFactory.getProviderTypes();
+        const ordered = [
+            ...fallback.order.filter(type => providerTypes.includes(type)),
+            ...providerTypes.filter(type => !fallback.order.includes(type)),
+        ];
+
+        return ordered.map(type => {
+            const info = this.getProviderInfo(type);
+            return `
+            <div class="b3-list-item" style="display: flex; align-items: center; gap: 8px; padding: 4px 8px;" data-fallback-provider="${this.escapeHtml(type)}">
+                <input type="checkbox" class="b3-switch" data-action="toggle" ${fallback.order.includes(type) ? 'checked' : ''}>
+                <span style="flex: 1;">${this.escapeHtml(`${info.icon} ${info.name}`)}</span>
+                <button class="b3-button b3-button--text" data-action="up" title="上移" style="padding: 2px 6px;">↑</button>
+                <button class="b3-button b3-button--text" data-action="down" title="下移" style="padding: 2px 6px;">↓</button>
+            </div>`;
+        }).join('');
+    }
+
     /**
      * Create prompt editor section
      */
@@ -435,6 +533,8 @@ export class SettingsUIBuilder {
         const enabled = settings.enableRequestLogging ?? false;
         const logPath = settings.requestLogPath || '';
         const includeResponse = settings.requestLogIncludeResponse ?? true;
+        const maxFileSizeMB = settings.requestLogMaxFileSizeMB ?? DEFAULT_LOG_LIMITS.maxFileSizeMB;
+        const maxTotalSizeMB = settings.requestLogMaxTotalSizeMB ?? DEFAULT_LOG_LIMITS.maxTotalSizeMB;
 
         return `
                 <div class="section-header" style="margin-bottom: 16px;">
@@ -487,6 +587,29 @@ export class SettingsUIBuilder {
                     </div>
                 </div>
 
+                <!-- Rotation Limits -->
+                <div class="setting-item" style="margin-top: 16px; ${enabled ? '' : 'opacity: 0.5; pointer-events: none;'}" id="log-limits-container">
+                    <div style="display: flex; gap: 16px;">
+                        <label style="flex: 1;">
+                            <div style="font-weight: 500; margin-bottom: 8px;">单个文件上限 (MB)</div>
+                            <input class="b3-text-field" type="number" id="log-max-file-size" min="0" step="1" value="${maxFileSizeMB}" style="width: 100%;" ${enabled ? '' : 'disabled'}>
+                        </label>
+                        <label style="flex: 1;">
+                            <div style="font-weight: 500; margin-bottom: 8px;">日志总大小上限 (MB)</div>
+                            <input class="b3-text-field" type="number" id="log-max-total-size" min="0" step="1" value="${maxTotalSizeMB}" style="width: 100%;" ${enabled ? '' : 'disabled'}>
+                        </label>
+                    </div>
+                    <div class="ft__smaller ft__secondary" style="margin-top: 8px;">
+                        超出单文件上限后写入 ai-requests-YYYY-MM-DD.1.log 等分卷；超出总大小时自动删除最旧的日志（0 表示不限制）
+                    </div>
+                </div>
+
+                <!-- Log Viewer -->
+                <button class="b3-button b3-button--outline" id="open-log-viewer-btn" style="width: 100%; padding: 10px; margin-top: 16px;">
+                    <svg style="width: 16px; height: 16px;"><use xlink:href="#iconList"></use></svg>
+                    <span style="margin-left: 8px; font-weight: 500;">浏览请求日志</span>
+                </button>
+
                 <!-- Info Box -->
                 <div style="margin-top: 16px; padding: 12px; background: var(--b3-theme-surface); border-radius: 4px; border-left: 3px solid var(--b3-theme-primary);">
                     <div class="ft__smaller" style="line-height: 1.6;">
@@ -502,6 +625,357 @@ export class SettingsUIBuilder {
         `;
     }
 
+    /**
+     * Create token usage dashboard section
+     * @param presetNames Preset ID → display name
+     */
+    static createUsageSection(currentProfile: ConfigProfile, presetNames: Record<string, string>): string {
+        const usage = { ...DEFAULT_USAGE_SETTINGS, ...currentProfile.settings.usage };
+        const month = usageTracker.getMonthTotals();
+        const budgetPercent = usage.monthlyBudget > 0
+            ? Math.min(100, month.cost / usage.monthlyBudget * 100)
+            : 0;
+        const budgetColor = budgetPercent >= 100
+            ? 'var(--b3-theme-error)'
+            : budgetPercent >= usage.warnAtPercent ? 'var(--b3-card-warning-color)' : 'var(--b3-theme-primary)';
+
+        return `
+                <div class="section-header" style="margin-bottom: 16px;">
+                    <h3 style="margin: 0; font-size: 15px; font-weight: 500;">
+                        📊 用量统计
+                    </h3>
+                    <div class="ft__smaller ft__secondary" style="margin-top: 4px;">
+                        按日期、提供商、功能和预设汇总 Token 用量与估算费用
+                    </div>
+                </div>
+
+                <!-- This Month -->
+                <div class="setting-item" style="margin-bottom: 16px; padding: 12px; background: var(--b3-theme-surface); border-radius: 4px;">
+                    <div style="display: flex; justify-content: space-between; align-items: baseline;">
+                        <span style="font-weight: 500;">本月</span>
+                        <span style="font-size: 18px; font-weight: 500;">${this.formatCost(month.cost)}${usage.monthlyBudget > 0 ? ` <span class="ft__smaller ft__secondary">/ $${usage.monthlyBudget}</span>` : ''}</span>
+                    </div>
+                    <div class="ft__smaller ft__secondary" style="margin-top: 4px;">
+                        ${month.requests} 次请求 · 输入 ${this.formatTokens(month.inputTokens)} · 输出 ${this.formatTokens(month.outputTokens)}${month.thinkingTokens > 0 ? ` (推理 ${this.formatTokens(month.thinkingTokens)})` : ''}
+                    </div>
+                    ${usage.monthlyBudget > 0 ? `
+                    <div style="margin-top: 8px; height: 6px; background: var(--b3-theme-background); border-radius: 3px; overflow: hidden;">
+                        <div style="width: ${budgetPercent.toFixed(1)}%; height: 100%; background: ${budgetColor};"></div>
+                    </div>` : ''}
+                </div>
+
+                <!-- Monthly Budget -->
+                <div class="setting-item" style="margin-bottom: 16px;">
+                    <div style="display: flex; align-items: center; justify-content: space-between; margin-bottom: 8px;">
+                        <span style="font-weight: 500;">每月预算 (USD)</span>
+                        <input class="b3-text-field" type="number" id="usage-monthly-budget" min="0" step="1" value="${usage.monthlyBudget}" style="width: 100px;">
+                    </div>
+                    <div style="display: flex; align-items: center; justify-content: space-between;">
+                        <span class="ft__smaller" style="font-weight: 500;">达到预算的百分比时提醒</span>
+                        <input class="b3-text-field" type="number" id="usage-warn-percent" min="1" max="100" step="5" value="${usage.warnAtPercent}" style="width: 100px;">
+                    </div>
+                    <div class="ft__smaller ft__secondary" style="margin-top: 8px;">
+                        💡 预算为 0 时不提醒；每月每个级别只提醒一次
+                    </div>
+                </div>
+
+                <!-- Range -->
+                <div class="setting-item" style="margin-bottom: 12px; display: flex; align-items: center; justify-content: space-between;">
+                    <span style="font-weight: 500;">统计范围</span>
+                    <select class="b3-select" id="usage-range">
+                        <option value="7">最近 7 天</option>
+                        <option value="30" selected>最近 30 天</option>
+                        <option value="90">最近 90 天</option>
+                    </select>
+                </div>
+
+                <div id="usage-tables">
+                    ${this.renderUsageTables(30, presetNames)}
+                </div>
+
+                <div class="setting-item" style="margin-top: 16px;">
+                    <button class="b3-button b3-button--outline" id="usage-clear" style="width: 100%;">清除用量统计</button>
+                    <div class="ft__smaller ft__secondary" style="margin-top: 8px;">
+                        💡 费用按内置价格表估算（美元/百万 Token），本地模型和未知模型计为 0
+                    </div>
+                </div>
+        `;
+    }
+
+    /**
+     * Render usage tables for the last `days` days
+     */
+    static renderUsageTables(days: number, presetNames: Record<string, string>): string {
+        const daily = usageTracker.getDailyTotals(days);
+        const sinceDayKey = daily[0].date;
+
+        if (!daily.some(d => d.requests > 0)) {
+            return '<div class="ft__smaller ft__secondary" style="padding: 12px 0;">此期间没有用量记录</div>';
+        }
+
+        const maxTokens = Math.max(...daily.map(d => d.inputTokens + d.outputTokens), 1);
+        const dailyRows = daily
+            .filter(d => d.requests > 0)
+            .reverse()
+            .map(d => {
+                const width = ((d.inputTokens + d.outputTokens) / maxTokens * 100).toFixed(1);
+                return `
+                <div style="display: flex; align-items: center; gap: 8px; padding: 2px 0;" class="ft__smaller">
+                    <span style="width: 80px; flex-shrink: 0;">${d.date.substring(5)}</span>
+                    <div style="flex: 1; height: 8px; background: var(--b3-theme-surface); border-radius: 4px; overflow: hidden;">
+                        <div style="width: ${width}%; height: 100%; background: var(--b3-theme-primary);"></div>
+                    </div>
+                    <span style="width: 160px; text-align: right;" class="ft__secondary">${this.formatTokens(d.inputTokens + d.outputTokens)} · ${this.formatCost(d.cost)}</span>
+                </div>`;
+            }).join('');
+
+        const providerName = (type: string) => AIProviderFactory.hasProvider(type)
+            ? this.getProviderInfo(type).name
+            : type;
+        const presetName = (id: string) => presetNames[id] || (id === 'default' ? '默认' : id);
+
+        return `
+            <div style="font-weight: 500; margin: 8px 0;">按日期</div>
+            ${dailyRows}
+            ${this.renderUsageGroup('按提供商', 'provider', sinceDayKey, providerName)}
+            ${this.renderUsageGroup('按模型', 'model', sinceDayKey, id => id)}
+            ${this.renderUsageGroup('按功能', 'feature', sinceDayKey, id => id)}
+            ${this.renderUsageGroup('按预设', 'presetId', sinceDayKey, presetName)}
+        `;
+    }
+
+    private static renderUsageGroup(
+        title: string,
+        dimension: UsageDimension,
+        sinceDayKey: string,
+        label: (key: string) => string
+    ): string {
+        const rows = usageTracker.getTotalsBy(dimension, sinceDayKey);
+
+        return `
+            <div style="font-weight: 500; margin: 16px 0 8px;">${title}</div>
+            <table class="ft__smaller" style="width: 100%; border-collapse: collapse;">
+                <tr class="ft__secondary" style="text-align: right;">
+                    <th style="text-align: left; font-weight: normal;"></th>
+                    <th style="font-weight: normal;">请求</th>
+                    <th style="font-weight: normal;">输入</th>
+                    <th style="font-weight: normal;">输出</th>
+                    <th style="font-weight: normal;">费用</th>
+                </tr>
+                ${rows.map(row => `
+                <tr style="text-align: right; border-top: 1px solid var(--b3-border-color);">
+                    <td style="text-align: left; padding: 4px 0;">${this.escapeHtml(label(row.key))}</td>
+                    <td>${row.requests}</td>
+                    <td>${this.formatTokens(row.inputTokens)}</td>
+                    <td title="${row.thinkingTokens > 0 ? `推理 ${row.thinkingTokens}` : ''}">${this.formatTokens(row.outputTokens)}</td>
+                    <td>${this.formatCost(row.cost)}</td>
+                </tr>`).join('')}
+            </table>
+        `;
+    }
+
+    private static formatTokens(tokens: number): string {
+        if (tokens >= 1000000) return `${(tokens / 1000000).toFixed(2)}M`;
+        if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}K`;
+        return String(tokens);
+    }
+
+    private static formatCost(cost: number): string {
+        return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+    }
+
+    /**
+     * Create custom providers section (user-defined OpenAI-compatible endpoints)
+     */
+    static createCustomProvidersSection(currentProfile: ConfigProfile): string {
+        const definitions = (currentProfile.settings as MultiProviderSettings).customProviders || [];
+
+        return `
+                <div class="section-header" style="margin-bottom: 16px;">
+                    <h3 style="margin: 0; font-size: 15px; font-weight: 500;">
+                        🔌 自定义提供商
+                    </h3>
+                    <div class="ft__smaller ft__secondary" style="margin-top: 4px;">
+                        添加任意 OpenAI 兼容接口（OpenRouter、Azure OpenAI、SiliconFlow、内部网关等），保存后可在"连接设置"中选择
+                    </div>
+                </div>
+
+                <div id="custom-provider-list" style="margin-bottom: 16px;">
+                    ${this.renderCustomProviderList(definitions)}
+                </div>
+
+                <div id="custom-provider-form" style="padding: 12px; border: 1px solid var(--b3-border-color); border-radius: 6px;">
+                    <input type="hidden" id="custom-provider-id" value="">
+
+                    <div class="setting-item" style="margin-bottom: 12px;">
+                        <div class="setting-label" style="margin-bottom: 8px;">
+                            <span style="font-weight: 500;">名称 <span style="color: var(--b3-theme-error);">*</span></span>
+                        </div>
+                        <input class="b3-text-field" type="text" id="custom-provider-name" placeholder="OpenRouter" style="width: 100%;">
+                    </div>
+
+                    <div class="setting-item" style="margin-bottom: 12px;">
+                        <div class="setting-label" style="margin-bottom: 8px;">
+                            <span style="font-weight: 500;">API 地址 <span style="color: var(--b3-theme-error);">*</span></span>
+                        </div>
+                        <input class="b3-text-field" type="text" id="custom-provider-base-url" placeholder="https://openrouter.ai/api/v1" style="width: 100%;">
+                        <div class="ft__smaller ft__secondary" style="margin-top: 8px;">
+                            包含版本路径，请求将发送到 {API 地址}/chat/completions
+                        </div>
+                    </div>
+
+                    <div class="setting-item" style="margin-bottom: 12px;">
+                        <div class="setting-label" style="margin-bottom: 8px;">
+                            <span style="font-weight: 500;">认证方式</span>
+                        </div>
+                        <div style="display: flex; gap: 8px;">
+                            <select class="b3-select" id="custom-provider-auth-style" style="flex: 1;">
+                                <option value="bearer">Authorization: Bearer</option>
+                                <option value="header">自定义请求头 (如 Azure api-key)</option>
+                                <option value="none">无需认证</option>
+                            </select>
+                            <input class="b3-text-field" type="text" id="custom-provider-auth-header" placeholder="api-key" style="flex: 1; display: none;">
+                        </div>
+                    </div>
+
+                    <div class="setting-item" style="margin-bottom: 12px;">
+                        <div class="setting-label" style="margin-bottom: 8px;">
+                            <span style="font-weight: 500;">模型列表 <span style="color: var(--b3-theme-error);">*</span></span>
+                        </div>
+                        <textarea class="b3-text-field" id="custom-provider-models" rows="4" style="width: 100%; font-family: var(--b3-font-family-code);" placeholder="每行一个：模型ID | 显示名称 | 上下文长度&#10;anthropic/claude-sonnet-4.5 | Claude Sonnet 4.5 | 200000&#10;deepseek-ai/DeepSeek-V3"></textarea>
+                    </div>
+
+                    <div class="setting-item" style="margin-bottom: 12px;">
+                        <div class="setting-label" style="margin-bottom: 8px;">
+                            <span style="font-weight: 500;">额外请求头</span>
+                        </div>
+                        <textarea class="b3-text-field" id="custom-provider-headers" rows="2" style="width: 100%; font-family: var(--b3-font-family-code);" placeholder="每行一个：Header-Name: value&#10;HTTP-Referer: https://b3log.org/siyuan"></textarea>
+                    </div>
+
+                    <div class="setting-item" style="margin-bottom: 12px; display: flex; gap: 16px;">
+                        <div style="flex: 1;">
+                            <div class="setting-label" style="margin-bottom: 8px;">
+                                <span style="font-weight: 500;">最大温度</span>
+                            </div>
+                            <input class="b3-text-field" type="number" id="custom-provider-max-temperature" min="0" max="2" step="0.1" value="2" style="width: 100%;">
+                        </div>
+                        <div style="flex: 1;">
+                            <div class="setting-label" style="margin-bottom: 8px;">
+                                <span style="font-weight: 500;">最大输出 Tokens</span>
+                            </div>
+                            <input class="b3-text-field" type="number" id="custom-provider-max-tokens" min="256" step="256" value="8192" style="width: 100%;">
+                        </div>
+                    </div>
+
+                    <div class="setting-item" style="margin-bottom: 12px;">
+                        <label style="display: flex; align-items: center; cursor: pointer;">
+                            <input type="checkbox" id="custom-provider-supports-tools" style="margin-right: 8px;">
+                            <span>支持工具调用 (OpenAI tools)</span>
+                        </label>
+                    </div>
+
+                    <div style="display: flex; gap: 8px; justify-content: flex-end;">
+                        <button class="b3-button b3-button--cancel" id="custom-provider-reset">清空</button>
+                        <button class="b3-button b3-button--text" id="custom-provider-save">保存提供商</button>
+                    </div>
+                </div>
+        `;
+    }
+
+    /**
+     * Render the list of custom providers with edit/delete actions
+     */
+    static renderCustomProviderList(definitions: CustomProviderDefinition[]): string {
+        if (definitions.length === 0) {
+            return '<div class="ft__smaller ft__secondary">尚未添加自定义提供商</div>';
+        }
+
+        return definitions.map(definition => `
+            <div class="b3-list-item" style="display: flex; align-items: center; gap: 8px; padding: 6px 8px;" data-provider-id="${this.escapeHtml(definition.id)}">
+                <span style="flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;">
+                    🔌 ${this.escapeHtml(definition.name)}
+                    <span class="ft__smaller ft__secondary" style="margin-left: 8px;">${this.escapeHtml(definition.baseURL)} · ${definition.models.length} 个模型</span>
+                </span>
+                <button class="b3-button b3-button--outline" data-action="edit" style="padding: 2px 8px;">编辑</button>
+                <button class="b3-button b3-button--outline" data-action="delete" style="padding: 2px 8px;">删除</button>
+            </div>
+        `).join('');
+    }
+
+    /**
+     * Create notebook retrieval section (Ask my notebook mode)
+     */
+    static createRetrievalSection(currentProfile: ConfigProfile): string {
+        const retrieval = {
+            ...DEFAULT_RETRIEVAL_SETTINGS,
+            ...currentProfile.settings.retrieval
+        };
+        const embedding = { ...DEFAULT_RETRIEVAL_SETTINGS.embedding, ...retrieval.embedding };
+        const embeddingStyle = embedding.enabled ? '' : 'opacity: 0.5; pointer-events: none;';
+
+        return `
+                <div class="section-header" style="margin-bottom: 16px;">
+                    <h3 style="margin: 0; font-size: 15px; font-weight: 500;">
+                        📚 笔记检索
+                    </h3>
+                    <div class="ft__smaller ft__secondary" style="margin-top: 4px;">
+                        "笔记库问答"模式从整个工作空间检索相关块，并附带块引用回答问题
+                    </div>
+                </div>
+
+                <!-- Top K -->
+                <div class="setting-item" style="margin-bottom: 16px;">
+                    <div class="setting-label" style="margin-bottom: 8px;">
+                        <span style="font-weight: 500;">每次注入的块数量</span>
+                    </div>
+                    <input class="b3-text-field" type="number" id="retrieval-top-k" min="1" max="30" value="${retrieval.topK}" style="width: 120px;">
+                </div>
+
+                <!-- Max Indexed Blocks -->
+                <div class="setting-item" style="margin-bottom: 16px;">
+                    <div class="setting-label" style="margin-bottom: 8px;">
+                        <span style="font-weight: 500;">索引块数量上限</span>
+                    </div>
+                    <input class="b3-text-field" type="number" id="retrieval-max-blocks" min="1000" max="200000" step="1000" value="${retrieval.maxIndexedBlocks}" style="width: 120px;">
+                    <div class="ft__smaller ft__secondary" style="margin-top: 8px;">
+                        优先索引最近更新的块，较大的值会占用更多内存
+                    </div>
+                </div>
+
+                <!-- Embedding Backend -->
+                <div class="setting-item" style="margin-bottom: 16px;">
+                    <label style="display: flex; align-items: center; cursor: pointer;">
+                        <input type="checkbox" id="retrieval-embedding-enabled" ${embedding.enabled ? 'checked' : ''} style="margin-right: 8px;">
+                        <span style="font-weight: 500;">启用向量重排 (Embedding)</span>
+                    </label>
+                    <div class="ft__smaller ft__secondary" style="margin-top: 8px; margin-left: 24px;">
+                        使用 OpenAI 兼容的 /embeddings 接口对关键词检索结果重新排序（支持 Ollama、LM Studio 等本地服务）
+                    </div>
+                </div>
+
+                <div id="retrieval-embedding-container" style="${embeddingStyle}">
+                    <div class="setting-item" style="margin-bottom: 12px;">
+                        <div class="setting-label" style="margin-bottom: 8px;">
+                            <span style="font-weight: 500;">API 地址</span>
+                        </div>
+                        <input class="b3-text-field" type="text" id="retrieval-embedding-base-url" placeholder="https://api.openai.com/v1" value="${this.escapeHtml(embedding.baseURL)}" style="width: 100%;">
+                    </div>
+                    <div class="setting-item" style="margin-bottom: 12px;">
+                        <div class="setting-label" style="margin-bottom: 8px;">
+                            <span style="font-weight: 500;">API Key</span>
+                        </div>
+                        <input class="b3-text-field" type="password" id="retrieval-embedding-api-key" placeholder="本地服务可留空" value="${this.escapeHtml(embedding.apiKey)}" style="width: 100%;">
+                    </div>
+                    <div class="setting-item">
+                        <div class="setting-label" style="margin-bottom: 8px;">
+                            <span style="font-weight: 500;">模型</span>
+                        </div>
+                        <input class="b3-text-field" type="text" id="retrieval-embedding-model" placeholder="text-embedding-3-small" value="${this.escapeHtml(embedding.model)}" style="width: 100%;">
+                    </div>
+                </div>
+        `;
+    }
+
     /**
      * Create keyboard shortcuts section
      */
@@ -797,7 +1271,18 @@ export class SettingsUIBuilder {
             ],
         };
 
-        const models = modelsByProvider[provider] || [];
+        // Providers without a static list (e.g. local servers) use metadata models
+        let models = modelsByProvider[provider];
+        if (!models) {
+            models = AIProviderFactory.hasProvider(provider)
+                ? AIProviderFactory.getMetadata(provider).models.map(m => ({ value: m.id, label: m.displayName }))
+                : [];
+            // Keep a saved model selectable even if the server no longer reports it
+            if (selectedModel && !models.some(m => m.value === selectedModel)) {
+                models.unshift({ value: selectedModel, label: selectedModel });
+            }
+        }
+
         return models
             .map(m => `<option value="${this.escapeHtml(m.value)}" ${m.value === selectedModel ? 'selected' : ''}>${this.escapeHtml(m.label)}</option>`)
             .join('');
@@ -807,11 +1292,11 @@ export class SettingsUIBuilder {
      * Get provider metadata from AIProviderFactory
      * Returns display info (name, icon, URL, defaultBaseURL) for a provider type
      */
-    private static getProviderInfo(type: string): { name: string; icon: string; url: string; defaultBaseURL: string } {
+    private static getProviderInfo(type: string): { name: string; icon: string; url: string; defaultBaseURL: string; requiresApiKey: boolean } {
         try {
             if (!AIProviderFactory.hasProvider(type)) {
                 console.warn(`[SettingsUIBuilder] Provider "${type}" not registered, using fallback`);
-                return { name: 'Unknown Provider', icon: '❓', url: '', defaultBaseURL: '' };
+                return { name: 'Unknown Provider', icon: '❓', url: '', defaultBaseURL: '', requiresApiKey: true };
             }
 
             const metadata = AIProviderFactory.getMetadata(type);
@@ -820,10 +1305,11 @@ export class SettingsUIBuilder {
                 icon: metadata.icon,
                 url: metadata.apiKeyUrl,
                 defaultBaseURL: metadata.defaultBaseURL,
+                requiresApiKey: metadata.requiresApiKey !== false,
             };
         } catch (error) {
             console.error(`[SettingsUIBuilder] Failed to get provider info for ${type}:`, error);
-            return { name: 'Unknown Provider', icon: '❓', url: '', defaultBaseURL: '' };
+            return { name: 'Unknown Provider', icon: '❓', url: '', defaultBaseURL: '', requiresApiKey: true };
         }
     }
 
@@ -11,6 +11,7 @@ import { TextSelectionManager } from "../editor/TextSelectionManager";
 import { DiffRenderer } from "../editor/DiffRenderer";
 import { EditQueue } from "../editor/EditQueue";
 import { SecurityUtils } from "../utils/Security";
+import { Glossary } from "../glossary";
 
 export class EditPanel {
     private element: HTMLElement;
@@ -248,7 +249,8 @@ export class EditPanel {
         this.renderer.renderDiff(
             selection.editResult.original,
             selection.editResult.modified,
-            diffContainer
+            diffContainer,
+            (selection.editResult.glossaryViolations || []).map(violation => Glossary.describe(violation))
         );
 
         // Also add inline highlighted diff
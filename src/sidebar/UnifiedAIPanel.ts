@@ -5,13 +5,14 @@
  * text editing in a single interface with collapsible queue region.
  */
 
-import type { ClaudeClient } from "../claude/ClaudeClient";
+import type { ClaudeClient } from "../claude";
 import type {
     UnifiedMessage,
     ChatMessage,
     EditMessage,
     EditQueueState,
-    UnifiedPanelConfig
+    UnifiedPanelConfig,
+    ChatSession
 } from "./unified-types";
 import type { TextSelection, EditEvent } from "../editor/types";
 import type { IProtyle } from "../types/siyuan";
@@ -20,8 +21,11 @@ import { TextSelectionManager } from "../editor/TextSelectionManager";
 import { AIEditProcessor } from "../editor/AIEditProcessor";
 import { EditQueue } from "../editor/EditQueue";
 import { DiffRenderer } from "../editor/DiffRenderer";
+import { BatchReviewDialog } from "../editor/BatchReviewDialog";
+import type { BatchEditManager } from "../editor/BatchEditManager";
 import { EditorHelper } from "../editor";
 import { ContextExtractor } from "../quick-edit/ContextExtractor";
+import { PromptBuilder } from "../quick-edit/PromptBuilder";
 import { DEFAULT_SELECTION_QA_TEMPLATE } from "../settings/config-types";
 import { SecurityUtils } from "../utils/Security";
 import { UnifiedPanelUIBuilder } from "./unified/ui/UnifiedPanelUIBuilder";
@@ -30,7 +34,19 @@ import { MessageRenderer } from "./unified/MessageRenderer";
 import { SelectionManager } from "./unified/SelectionManager";
 import { PresetManager } from "./unified/PresetManager";
 import { QueueRenderer } from "./unified/QueueRenderer";
+import { ChatSessionManager } from "./unified/ChatSessionManager";
+import { ConversationExporter, type ExportTurnStyle } from "./unified/ConversationExporter";
 import type { PresetEvent } from "../settings/PresetEventBus";
+import { ToolRegistry, SiYuanTools, type EditProposal } from "../ai/tools";
+import type { ToolCall } from "../ai/types";
+import type { Message, ImageAttachment } from "../claude/types";
+import type { FilterRule } from "../filter";
+import { NotebookRetriever, type RetrievedBlock } from "../retrieval";
+import { ImageLoader, MAX_IMAGES_PER_MESSAGE } from "../vision";
+import { HistoryManager, TokenEstimator, type HistoryFitResult } from "../context";
+import { Glossary } from "../glossary";
+import { ComparisonView, type ComparisonResult } from "../compare";
+import { Dialog, openTab, showMessage } from "siyuan";
 import { marked } from "marked";
 import hljs from "highlight.js";
 import DOMPurify from "dompurify";
@@ -44,6 +60,7 @@ export class UnifiedAIPanel {
     // Chat state
     private messages: UnifiedMessage[] = [];
     private isStreaming: boolean = false;
+    private pendingImages: ImageAttachment[] = []; // Images attached to the next message
     private activeChatPresetId: string = 'default'; // Active preset for chat
 
     // Edit state
@@ -52,6 +69,7 @@ export class UnifiedAIPanel {
     private editQueue: EditQueue;
     private diffRenderer: DiffRenderer;
     private contextExtractor: ContextExtractor;
+    private batchEditManager: BatchEditManager | null = null;
     private editQueueState: EditQueueState = {
         expanded: false,
         queueSize: 0,
@@ -59,7 +77,8 @@ export class UnifiedAIPanel {
     };
 
     // Panel mode state (for automatic mode switching)
-    private panelMode: 'freeChat' | 'selectionQA' = 'freeChat';
+    private panelMode: 'freeChat' | 'selectionQA' | 'notebookQA' = 'freeChat';
+    private notebookModeEnabled: boolean = false;
     private currentSelection: {
         blockIds: string[];
         text: string;
@@ -81,6 +100,28 @@ export class UnifiedAIPanel {
     private messagesContainer?: HTMLElement;
     private diffContainer?: HTMLElement;
 
+    // Persisted chat sessions
+    private sessionManager: ChatSessionManager;
+    private sessionListVisible: boolean = false;
+
+    // Tool calling (SQL search, block reading, edit proposals)
+    private toolRegistry: ToolRegistry;
+    private toolsEnabled: boolean = false;
+
+    // Compare mode: the same question sent to several providers side by side
+    private compareEnabled: boolean = false;
+    // Aborts the running comparison; the turn stays pending until a column is adopted or it is dismissed
+    private compareAbortController: AbortController | null = null;
+    private contextFitAbortController: AbortController | null = null;
+
+    // Notebook Q&A retrieval
+    private notebookRetriever: NotebookRetriever;
+    private appliedRetrievalSettings: string = '';
+
+    // Context window: history trimming / summarization
+    private historyManager: HistoryManager;
+    private lastDroppedCount: number = 0;
+
     // Preset event subscription (NEW v0.9.0)
     private presetEventUnsubscribe: (() => void) | null = null;
 
@@ -108,6 +149,15 @@ export class UnifiedAIPanel {
         this.contextExtractor = new ContextExtractor(new EditorHelper());
         this.onSettingsCallback = onSettings;
         this.config = { ...DEFAULT_UNIFIED_PANEL_CONFIG, ...config };
+        this.sessionManager = new ChatSessionManager(this.claudeClient.plugin, this.config.maxHistorySize);
+        this.notebookRetriever = new NotebookRetriever();
+        this.historyManager = new HistoryManager(
+            (prompt, signal) => this.claudeClient.sendMessageCheap([{ role: 'user', content: prompt }], "HistorySummary", undefined, undefined, signal)
+        );
+        this.toolRegistry = new ToolRegistry();
+        SiYuanTools.register(this.toolRegistry, {
+            onProposeEdit: (proposal) => this.queueProposedEdit(proposal)
+        });
 
         // Configure markdown
         this.configureMarkdown();
@@ -163,6 +213,13 @@ export class UnifiedAIPanel {
         // Start selection monitoring for automatic mode switching
         this.startSelectionMonitoring();
 
+        // Restore the last active chat session
+        if (this.config.persistChatHistory) {
+            this.sessionManager.init()
+                .then(() => this.restoreActiveSession())
+                .catch((error) => console.warn('[UnifiedAIPanel] Failed to load chat sessions:', error));
+        }
+
         // Initialize provider info badge
         setTimeout(() => this.updateProviderInfoBadge(), 100);
     }
@@ -233,7 +290,7 @@ export class UnifiedAIPanel {
             // No selection - switch to free chat if we had a selection before
             if (this.currentSelection) {
                 this.currentSelection = null;
-                this.switchToFreeChatMode();
+                this.switchToBaseMode();
             }
         }
     }
@@ -267,6 +324,53 @@ export class UnifiedAIPanel {
         console.log('[UnifiedAIPanel] Switched to Free Chat mode');
     }
 
+    /**
+     * Switch to Notebook Q&A mode (answers from the whole workspace)
+     */
+    private switchToNotebookQAMode(): void {
+        if (this.panelMode === 'notebookQA') {
+            return;
+        }
+
+        this.panelMode = 'notebookQA';
+        this.updateModeUI();
+        console.log('[UnifiedAIPanel] Switched to Notebook Q&A mode');
+    }
+
+    /**
+     * Return to the mode used when nothing is selected
+     */
+    private switchToBaseMode(): void {
+        if (this.notebookModeEnabled) {
+            this.switchToNotebookQAMode();
+        } else {
+            this.switchToFreeChatMode();
+        }
+    }
+
+    /**
+     * Toggle Notebook Q&A mode from the header button
+     * A block selection still takes precedence (Selection Q&A)
+     */
+    private toggleNotebookMode(): void {
+        this.notebookModeEnabled = !this.notebookModeEnabled;
+
+        const button = this.element.querySelector('#claude-notebook-mode-btn') as HTMLElement;
+        button?.classList.toggle('b3-button--outline', this.notebookModeEnabled);
+        button?.classList.toggle('b3-button--text', !this.notebookModeEnabled);
+
+        if (this.panelMode !== 'selectionQA') {
+            this.switchToBaseMode();
+        }
+
+        if (this.notebookModeEnabled) {
+            // Warm up the index in the background
+            this.syncRetrievalSettings();
+            this.notebookRetriever.ensureIndex()
+                .catch((error) => console.warn('[UnifiedAIPanel] Failed to build notebook index:', error));
+        }
+    }
+
     /**
      * Update UI to reflect current mode
      */
@@ -293,8 +397,8 @@ export class UnifiedAIPanel {
         // Clear internal state
         this.currentSelection = null;
 
-        // Switch to Free Chat mode (updates mode badge)
-        this.switchToFreeChatMode();
+        // Switch back to Free Chat / Notebook Q&A mode (updates mode badge)
+        this.switchToBaseMode();
 
         // ===== STEP 3: User Feedback =====
 
@@ -339,7 +443,14 @@ export class UnifiedAIPanel {
         const sendBtn = this.element.querySelector("#claude-send-btn") as HTMLButtonElement;
         const settingsBtn = this.element.querySelector("#claude-settings-btn");
         const clearBtn = this.element.querySelector("#claude-clear-chat");
+        const sessionsBtn = this.element.querySelector("#claude-sessions-btn");
+        const exportBtn = this.element.querySelector("#claude-export-chat");
+        const newSessionBtn = this.element.querySelector("#claude-new-session-btn");
+        const sessionItems = this.element.querySelector("#claude-session-items");
         const presetSelector = this.element.querySelector("#claude-preset-selector") as HTMLSelectElement;
+        const toolsToggle = this.element.querySelector("#claude-tools-toggle") as HTMLInputElement;
+        const compareToggle = this.element.querySelector("#claude-compare-toggle") as HTMLInputElement;
+        const notebookModeBtn = this.element.querySelector("#claude-notebook-mode-btn");
 
         // Queue controls
         const queueSummary = this.element.querySelector("#claude-queue-summary");
@@ -387,6 +498,54 @@ export class UnifiedAIPanel {
         });
         clearBtn?.addEventListener("click", () => this.clearChat());
 
+        // Session list event listeners
+        sessionsBtn?.addEventListener("click", () => this.toggleSessionList());
+        exportBtn?.addEventListener("click", () => this.openExportDialog());
+        notebookModeBtn?.addEventListener("click", () => this.toggleNotebookMode());
+        this.messagesContainer?.addEventListener("click", (e) => this.handleBlockReferenceClick(e as MouseEvent));
+        newSessionBtn?.addEventListener("click", () => this.clearChat());
+        sessionItems?.addEventListener("click", (e) => this.handleSessionListClick(e as MouseEvent));
+
+        // Tool calling toggle
+        toolsToggle?.addEventListener("change", () => this.setToolsEnabled(toolsToggle.checked));
+        compareToggle?.addEventListener("change", () => { this.compareEnabled = compareToggle.checked; });
+
+        // Image attachments: file picker, paste and drag & drop
+        const attachBtn = this.element.querySelector("#claude-attach-btn");
+        const attachInput = this.element.querySelector("#claude-attach-input") as HTMLInputElement;
+        const inputArea = this.element.querySelector(".claude-input-area") as HTMLElement;
+        attachBtn?.addEventListener("click", () => attachInput?.click());
+        attachInput?.addEventListener("change", () => {
+            this.addImageFiles(Array.from(attachInput.files || []));
+            attachInput.value = "";
+        });
+        input?.addEventListener("paste", (e) => {
+            const files = Array.from(e.clipboardData?.files || []).filter(f => f.type.startsWith("image/"));
+            if (files.length > 0) {
+                e.preventDefault();
+                this.addImageFiles(files);
+            }
+        });
+        inputArea?.addEventListener("dragover", (e) => {
+            if (e.dataTransfer?.types.includes("Files")) {
+                e.preventDefault();
+            }
+        });
+        inputArea?.addEventListener("drop", (e) => {
+            const files = Array.from(e.dataTransfer?.files || []).filter(f => f.type.startsWith("image/"));
+            if (files.length > 0) {
+                e.preventDefault();
+                this.addImageFiles(files);
+            }
+        });
+        this.element.querySelector("#claude-attachments")?.addEventListener("click", (e) => {
+            const removeBtn = (e.target as HTMLElement).closest("[data-remove-image]");
+            if (removeBtn) {
+                this.pendingImages.splice(Number(removeBtn.getAttribute("data-remove-image")), 1);
+                this.renderPendingImages();
+            }
+        });
+
         // Queue event listeners
         queueSummary?.addEventListener("click", () => this.toggleQueueExpansion());
         queueToggle?.addEventListener("click", (e) => {
@@ -428,6 +587,8 @@ export class UnifiedAIPanel {
         // Prepare content based on mode
         let content = userMessage;
         let isSelectionQA = false;
+        let isNotebookQA = false;
+        let retrievedBlocks: RetrievedBlock[] = [];
 
         // If in Selection Q&A mode, use template with context extraction
         if (this.panelMode === 'selectionQA' && this.currentSelection) {
@@ -442,25 +603,43 @@ export class UnifiedAIPanel {
             }
 
             // Get Selection Q&A template from preset (fallback to default)
-            let template = activePreset?.selectionQATemplate || DEFAULT_SELECTION_QA_TEMPLATE;
+            const template = activePreset?.selectionQATemplate || DEFAULT_SELECTION_QA_TEMPLATE;
+
+            // Evaluate template tags and replace placeholders ({selection}, {question}, context and document placeholders)
+            try {
+                content = await PromptBuilder.renderTemplate(template, {
+                    blockIds: this.currentSelection.blockIds,
+                    values: { selection: this.currentSelection.text, question: userMessage },
+                    contextExtractor: this.contextExtractor
+                });
+            } catch (error) {
+                console.error('[UnifiedAIPanel] Invalid Selection Q&A template:', error);
+                this.addSystemMessage(`❌ 选区问答模板错误: ${error instanceof Error ? error.message : String(error)}`);
+                return;
+            }
+        } else if (this.panelMode === 'notebookQA') {
+            isNotebookQA = true;
+
+            this.isStreaming = true;
+            sendBtn.disabled = true;
+            sendBtn.textContent = "检索中...";
 
-            // Process context placeholders (if template contains them)
             try {
-                if (this.contextExtractor.hasPlaceholders(template)) {
-                    template = await this.contextExtractor.processTemplate(
-                        template,
-                        this.currentSelection.blockIds
-                    );
+                this.syncRetrievalSettings();
+                if (this.notebookRetriever.getIndexedCount() === 0) {
+                    this.addSystemMessage("📚 正在建立笔记索引，首次检索可能需要一些时间...");
                 }
+                retrievedBlocks = await this.notebookRetriever.retrieve(userMessage);
             } catch (error) {
-                console.error('[UnifiedAIPanel] Error processing context placeholders:', error);
-                // Fall back to template without context extraction
+                console.error('[UnifiedAIPanel] Notebook retrieval failed:', error);
+                this.addSystemMessage(`❌ 笔记检索失败: ${error instanceof Error ? error.message : String(error)}`);
+                this.isStreaming = false;
+                sendBtn.disabled = false;
+                sendBtn.textContent = "Send";
+                return;
             }
 
-            // Replace content placeholders
-            content = template
-                .replace(/{selection}/g, this.currentSelection.text)
-                .replace(/{question}/g, userMessage);
+            content = NotebookRetriever.buildPrompt(userMessage, retrievedBlocks);
         }
 
         // Create chat message (store original user message for display)
@@ -470,12 +649,24 @@ export class UnifiedAIPanel {
             role: 'user',
             content: userMessage,  // Display original message to user
             timestamp: Date.now(),
-            isSelectionQA: isSelectionQA  // Mark as Selection Q&A message
+            isSelectionQA: isSelectionQA,  // Mark as Selection Q&A message
+            referencedBlockIds: isSelectionQA
+                ? [...this.currentSelection!.blockIds]
+                : isNotebookQA ? retrievedBlocks.map(b => b.id) : undefined
         };
 
+        const images = await this.takeMessageImages(isSelectionQA);
+        if (images.length > 0) {
+            chatMessage.images = images;
+        }
+
         this.messages.push(chatMessage);
         this.addChatMessageToUI(chatMessage);
 
+        if (isNotebookQA) {
+            this.addSystemMessage(`🔎 从 ${this.notebookRetriever.getIndexedCount()} 个块中检索到 ${retrievedBlocks.length} 个相关块`);
+        }
+
         // Clear input
         input.value = "";
 
@@ -489,19 +680,22 @@ export class UnifiedAIPanel {
 
         // Send to Claude
         let fullResponse = "";
+        let reasoning = "";
 
         // Build API messages - use enriched content for the last message if in Selection Q&A mode
         const apiMessages = this.messages.filter(isChatMessage).map((m, index, arr) => {
-            // For the last user message in Selection Q&A mode, use enriched content
-            if (isSelectionQA && index === arr.length - 1 && m.role === 'user') {
+            // For the last user message in Selection / Notebook Q&A mode, use enriched content
+            if ((isSelectionQA || isNotebookQA) && index === arr.length - 1 && m.role === 'user') {
                 return {
                     role: m.role,
-                    content: content  // Use selection-enriched content
+                    content: content,  // Use selection- or retrieval-enriched content
+                    images: m.images
                 };
             }
             return {
                 role: m.role,
-                content: m.content
+                content: m.content,
+                images: m.images
             };
         });
 
@@ -518,7 +712,7 @@ export class UnifiedAIPanel {
 
         // Append the appended prompt to the last user message (only for non-selection messages)
         const appendedPrompt = activePreset?.appendedPrompt || this.claudeClient.getAppendedPrompt();
-        if (appendedPrompt && apiMessages.length > 0 && !isSelectionQA) {
+        if (appendedPrompt && apiMessages.length > 0 && !isSelectionQA && !isNotebookQA) {
             const lastMessage = apiMessages[apiMessages.length - 1];
             if (lastMessage.role === 'user') {
                 lastMessage.content += '\n\n' + appendedPrompt;
@@ -532,8 +726,28 @@ export class UnifiedAIPanel {
         console.log(`[UnifiedAIPanel] Sending message - Preset: ${activePreset?.name ?? 'default'} (${this.activeChatPresetId})`);
         console.log(`[UnifiedAIPanel] SystemPrompt: ${systemPrompt?.length ?? 0} chars, Messages: ${apiMessages.length}, FilterRules: ${filterRules?.length ?? 0}`);
 
+        const contextMessages = await this.fitToContextWindow(apiMessages, systemPrompt);
+        if (!contextMessages) {
+            // Cancelled while older turns were being summarized
+            document.getElementById(streamingMsgId)?.remove();
+            this.isStreaming = false;
+            sendBtn.disabled = false;
+            sendBtn.textContent = "Send";
+            return;
+        }
+
+        if (this.compareEnabled) {
+            await this.sendMessageWithComparison(contextMessages, streamingMsgId, chatMessage, isSelectionQA, filterRules, systemPrompt);
+            return;
+        }
+
+        if (this.toolsEnabled && this.claudeClient.supportsTools()) {
+            await this.sendMessageWithTools(contextMessages, streamingMsgId, isSelectionQA, filterRules, systemPrompt);
+            return;
+        }
+
         await this.claudeClient.sendMessage(
-            apiMessages,
+            contextMessages,
             (chunk) => {
                 fullResponse += chunk;
                 this.updateStreamingMessage(streamingMsgId, fullResponse);
@@ -550,11 +764,13 @@ export class UnifiedAIPanel {
                     type: 'chat',
                     role: 'assistant',
                     content: fullResponse,
+                    reasoning: reasoning || undefined,
                     timestamp: Date.now(),
                     isSelectionQA: isSelectionQA  // Mark as Selection Q&A message
                 };
 
                 this.messages.push(assistantMessage);
+                this.updateContextMeter();
                 this.isStreaming = false;
                 sendBtn.disabled = false;
                 sendBtn.textContent = "Send";
@@ -567,13 +783,100 @@ export class UnifiedAIPanel {
 
                 // Add message to UI with action buttons if in Selection Q&A mode
                 this.addChatMessageToUI(assistantMessage, isSelectionQA);
+                this.notifyFallbackProvider();
+
+                this.persistActiveSession();
             },
             "Chat",
             filterRules,
-            systemPrompt
+            systemPrompt,
+            this.activeChatPresetId,
+            (chunk) => {
+                reasoning += chunk;
+                this.updateStreamingReasoning(streamingMsgId, reasoning);
+            }
         );
     }
 
+    /**
+     * Fit the conversation into the model's context window (older turns are summarized or dropped)
+     * @returns null if the request was cancelled while summarizing
+     */
+    private async fitToContextWindow(apiMessages: Message[], systemPrompt: string): Promise<Message[] | null> {
+        const controller = new AbortController();
+        this.contextFitAbortController = controller;
+
+        let result: HistoryFitResult;
+        try {
+            result = await this.historyManager.fit(apiMessages, this.claudeClient.getContextLimits(), systemPrompt, controller.signal);
+        } finally {
+            if (this.contextFitAbortController === controller) {
+                this.contextFitAbortController = null;
+            }
+        }
+        if (controller.signal.aborted) {
+            return null;
+        }
+
+        // Only announce when more turns fall out of the window
+        if (result.droppedCount > this.lastDroppedCount) {
+            this.addSystemMessage(result.summarized
+                ? `🗜️ 对话超出上下文窗口，较早的 ${result.droppedCount} 条消息已压缩为摘要`
+                : `✂️ 对话超出上下文窗口，较早的 ${result.droppedCount} 条消息未发送`);
+        }
+        this.lastDroppedCount = result.droppedCount;
+
+        this.updateContextMeter(result.estimatedTokens);
+        return result.messages;
+    }
+
+    /**
+     * Forget trimming state for a new or resumed conversation
+     */
+    private resetContextWindow(): void {
+        this.historyManager.reset();
+        this.lastDroppedCount = 0;
+        this.updateContextMeter();
+    }
+
+    /**
+     * Update the context usage meter in the header
+     * @param estimatedTokens Prompt estimate; computed from the current chat when omitted
+     */
+    private updateContextMeter(estimatedTokens?: number): void {
+        const meter = this.element?.querySelector('#claude-context-meter') as HTMLElement | null;
+        if (!meter) return;
+
+        const limits = this.claudeClient.getContextLimits();
+        const budget = HistoryManager.getBudget(limits);
+        if (estimatedTokens === undefined) {
+            const systemPrompt = this.claudeClient.getPreset(this.activeChatPresetId)?.systemPrompt || this.claudeClient.getSystemPrompt();
+            const history = this.messages.filter(isChatMessage).map(m => ({ role: m.role, content: m.content, images: m.images }));
+            estimatedTokens = TokenEstimator.estimatePrompt(history, systemPrompt);
+        }
+
+        const ratio = estimatedTokens / budget;
+        const fill = meter.querySelector('.claude-context-meter__fill') as HTMLElement;
+        const text = meter.querySelector('.claude-context-meter__text') as HTMLElement;
+        fill.style.width = `${Math.min(100, Math.round(ratio * 100))}%`;
+        text.textContent = `${Math.round(ratio * 100)}%`;
+        meter.classList.toggle('claude-context-meter--warning', ratio >= 0.8 && ratio < 1);
+        meter.classList.toggle('claude-context-meter--full', ratio >= 1);
+        meter.title = `上下文用量：约 ${UnifiedPanelHelpers.formatTokens(estimatedTokens)} / ${UnifiedPanelHelpers.formatTokens(budget)} tokens`
+            + `（窗口 ${UnifiedPanelHelpers.formatTokens(limits.contextWindow)}，预留回复 ${UnifiedPanelHelpers.formatTokens(limits.maxTokens)}）`
+            + (ratio >= 1 ? '\n超出部分的较早消息将被摘要或省略' : '');
+    }
+
+    /**
+     * Tell the user when a fallback provider answered instead of the active one
+     */
+    private notifyFallbackProvider(): void {
+        const answered = this.claudeClient.getLastAnsweringProvider();
+        if (answered?.fallback) {
+            this.addSystemMessage(`⚠️ ${this.claudeClient.getProviderName()} 请求失败，本次回答由 ${answered.name} 提供`);
+        }
+    }
+
     /**
      * Process edit mode request with user instruction
      * @param instruction User's editing instruction
@@ -683,6 +986,12 @@ export class UnifiedAIPanel {
         }
 
         messageDiv.appendChild(headerDiv);
+        if (message.images?.length) {
+            messageDiv.appendChild(this.createImageStrip(message.images));
+        }
+        if (message.role === "assistant" && message.reasoning) {
+            messageDiv.appendChild(MessageRenderer.createThinkingBlock(message.reasoning));
+        }
         messageDiv.appendChild(contentDiv);
 
         // Add Selection Q&A action buttons if applicable
@@ -718,6 +1027,9 @@ export class UnifiedAIPanel {
                     if (this.claudeClient && typeof (this.claudeClient as any).cancelActiveRequest === 'function') {
                         (this.claudeClient as any).cancelActiveRequest();
                     }
+                    // A running comparison withdraws its own question
+                    this.compareAbortController?.abort();
+                    this.contextFitAbortController?.abort();
                 }
 
                 // Edge Case 2: If user typed long message, show confirmation
@@ -749,6 +1061,9 @@ export class UnifiedAIPanel {
                     if (this.claudeClient && typeof (this.claudeClient as any).cancelActiveRequest === 'function') {
                         (this.claudeClient as any).cancelActiveRequest();
                     }
+                    // A running comparison withdraws its own question
+                    this.compareAbortController?.abort();
+                    this.contextFitAbortController?.abort();
                 }
 
                 // Edge Case 2: If user typed long message, show confirmation
@@ -795,6 +1110,85 @@ export class UnifiedAIPanel {
         MessageRenderer.updateStreamingMessage(this.element, messageId, content);
     }
 
+    private updateStreamingReasoning(messageId: string, reasoning: string) {
+        MessageRenderer.updateStreamingReasoning(this.element, messageId, reasoning);
+    }
+
+    /**
+     * Add image files (paste, drop or file picker) to the next message
+     */
+    private async addImageFiles(files: File[]): Promise<void> {
+        const room = MAX_IMAGES_PER_MESSAGE - this.pendingImages.length;
+        const { images, skipped } = await ImageLoader.fromFiles(files, Math.max(0, room));
+        this.pendingImages.push(...images);
+        this.renderPendingImages();
+
+        if (skipped > 0) {
+            showMessage(`已跳过 ${skipped} 张图片（仅支持 PNG/JPEG/GIF/WebP，单张不超过 5MB，每条消息最多 ${MAX_IMAGES_PER_MESSAGE} 张）`, 4000, "info");
+        }
+    }
+
+    /**
+     * Render the thumbnails of the pending images above the input
+     */
+    private renderPendingImages(): void {
+        const container = this.element.querySelector("#claude-attachments") as HTMLElement;
+        if (!container) return;
+
+        container.style.display = this.pendingImages.length > 0 ? "flex" : "none";
+        container.innerHTML = this.pendingImages.map((image, index) => `
+            <div class="claude-attachments__item" title="${SecurityUtils.escapeHtml(image.name || '')}">
+                <img src="${ImageLoader.toDataURL(image)}" alt="">
+                <span class="claude-attachments__remove" data-remove-image="${index}">×</span>
+            </div>
+        `).join('');
+    }
+
+    /**
+     * Take the images for the message being sent: pending images plus, in Selection Q&A,
+     * images referenced in the selected blocks. Images are dropped for providers without vision.
+     */
+    private async takeMessageImages(isSelectionQA: boolean): Promise<ImageAttachment[]> {
+        const images = this.pendingImages;
+        this.pendingImages = [];
+        this.renderPendingImages();
+
+        const vision = this.claudeClient.supportsVision();
+        if (vision && isSelectionQA && this.currentSelection && images.length < MAX_IMAGES_PER_MESSAGE) {
+            try {
+                const fromBlocks = await ImageLoader.fromBlocks(this.currentSelection.blockIds, MAX_IMAGES_PER_MESSAGE - images.length);
+                images.push(...fromBlocks.images);
+            } catch (error) {
+                console.warn('[UnifiedAIPanel] Failed to load images from selected blocks:', error);
+            }
+        }
+
+        if (images.length > 0 && !vision) {
+            this.addSystemMessage(`⚠️ ${this.claudeClient.getProviderName()} 不支持图片输入，已忽略 ${images.length} 张图片`);
+            return [];
+        }
+
+        return images;
+    }
+
+    /**
+     * Thumbnails of the images sent with a message
+     */
+    private createImageStrip(images: ImageAttachment[]): HTMLElement {
+        const strip = document.createElement("div");
+        strip.className = "claude-attachments";
+        images.forEach(image => {
+            const item = document.createElement("div");
+            item.className = "claude-attachments__item";
+            item.title = image.name || "";
+            const img = document.createElement("img");
+            img.src = ImageLoader.toDataURL(image);
+            item.appendChild(img);
+            strip.appendChild(item);
+        });
+        return strip;
+    }
+
     private addSystemMessage(message: string) {
         if (!this.messagesContainer) return;
 
@@ -809,6 +1203,12 @@ export class UnifiedAIPanel {
     private clearChat() {
         // Only clear chat messages, keep edit messages
         this.messages = this.messages.filter(isEditMessage);
+        this.resetContextWindow();
+
+        // The previous conversation stays in the session list; the next message starts a new session
+        this.sessionManager.startNewSession()
+            .then(() => this.renderSessionList())
+            .catch((error) => console.warn('[UnifiedAIPanel] Failed to start new session:', error));
 
         if (this.messagesContainer) {
             // Re-render all messages
@@ -872,6 +1272,8 @@ export class UnifiedAIPanel {
             element?.remove();
         }
 
+        this.persistActiveSession();
+
         this.addSystemMessage("✅ 已清除 AI 答复");
         console.log('[UnifiedAIPanel] Cleared QA response');
     }
@@ -933,9 +1335,11 @@ export class UnifiedAIPanel {
         const streamingMsgId = this.createStreamingChatMessage();
 
         let fullResponse = "";
+        let reasoning = "";
         const apiMessages = this.messages.filter(isChatMessage).map(m => ({
             role: m.role,
-            content: m.content
+            content: m.content,
+            images: m.images
         }));
 
         // Get active preset
@@ -965,8 +1369,18 @@ export class UnifiedAIPanel {
         console.log(`[UnifiedAIPanel] Sending message - Preset: ${activePreset?.name ?? 'default'} (${this.activeChatPresetId})`);
         console.log(`[UnifiedAIPanel] SystemPrompt: ${systemPrompt?.length ?? 0} chars, Messages: ${apiMessages.length}, FilterRules: ${filterRules?.length ?? 0}`);
 
+        const contextMessages = await this.fitToContextWindow(apiMessages, systemPrompt);
+        if (!contextMessages) {
+            // Cancelled while older turns were being summarized
+            document.getElementById(streamingMsgId)?.remove();
+            this.isStreaming = false;
+            sendBtn.disabled = false;
+            sendBtn.textContent = "Send";
+            return;
+        }
+
         await this.claudeClient.sendMessage(
-            apiMessages,
+            contextMessages,
             (chunk) => {
                 fullResponse += chunk;
                 this.updateStreamingMessage(streamingMsgId, fullResponse);
@@ -983,10 +1397,12 @@ export class UnifiedAIPanel {
                     type: 'chat',
                     role: 'assistant',
                     content: fullResponse,
+                    reasoning: reasoning || undefined,
                     timestamp: Date.now()
                 };
 
                 this.messages.push(assistantMessage);
+                this.updateContextMeter();
                 this.isStreaming = false;
                 sendBtn.disabled = false;
                 sendBtn.textContent = "Send";
@@ -997,10 +1413,18 @@ export class UnifiedAIPanel {
                     streamingMsg.remove();
                 }
                 this.addChatMessageToUI(assistantMessage);
+                this.notifyFallbackProvider();
+
+                this.persistActiveSession();
             },
             "Chat",
             filterRules,
-            systemPrompt
+            systemPrompt,
+            this.activeChatPresetId,
+            (chunk) => {
+                reasoning += chunk;
+                this.updateStreamingReasoning(streamingMsgId, reasoning);
+            }
         );
     }
     //#endregion
@@ -1012,8 +1436,8 @@ export class UnifiedAIPanel {
         // Update queue UI
         this.refreshQueueUI();
 
-        // If edit completed, add to message stream
-        if (event.type === 'edit_completed' as any && event.selection) {
+        // If edit completed, add to message stream (batch edits are reviewed in the batch dialog)
+        if (event.type === 'edit_completed' as any && event.selection && !event.selection.batchId) {
             this.addEditCompletedMessage(event.selection);
         }
 
@@ -1099,7 +1523,8 @@ export class UnifiedAIPanel {
             this.diffRenderer.renderDiff(
                 message.result.original,
                 message.result.modified,
-                diffContainerDiv
+                diffContainerDiv,
+                (message.result.glossaryViolations || []).map(violation => Glossary.describe(violation))
             );
             contentDiv.appendChild(diffContainerDiv);
         } else if (message.status === 'error' && message.errorMessage) {
@@ -1246,11 +1671,28 @@ export class UnifiedAIPanel {
             element: this.element,
             textSelectionManager: this.textSelectionManager,
             editQueue: this.editQueue,
-            queueState: this.editQueueState
+            queueState: this.editQueueState,
+            batchEditManager: this.batchEditManager ?? undefined,
+            onReviewBatch: (batchId: string) => this.openBatchReview(batchId)
         };
         QueueRenderer.refreshQueueUI(context);
     }
 
+    /**
+     * Open the review dialog of a batch Quick Edit
+     */
+    openBatchReview(batchId: string): void {
+        if (!this.batchEditManager) return;
+
+        new BatchReviewDialog(
+            batchId,
+            this.batchEditManager,
+            this.textSelectionManager,
+            this.diffRenderer,
+            () => this.refreshQueueUI()
+        ).open();
+    }
+
     private createQueueItem(selection: TextSelection): string {
         return QueueRenderer.createQueueItem(selection);
     }
@@ -1360,6 +1802,506 @@ export class UnifiedAIPanel {
     }
     //#endregion
 
+    //#region Chat Sessions
+
+    /**
+     * Save the current conversation into the active session
+     */
+    private persistActiveSession(): void {
+        if (!this.config.persistChatHistory) return;
+
+        const settings = this.claudeClient.getSettings();
+        this.sessionManager.saveActiveSession(this.messages.filter(isChatMessage), {
+            presetId: this.activeChatPresetId,
+            provider: this.claudeClient.getActiveProvider(),
+            model: settings.model
+        })
+            .then(() => this.renderSessionList())
+            .catch((error) => console.warn('[UnifiedAIPanel] Failed to save chat session:', error));
+    }
+
+    /**
+     * Restore the session that was active when the panel was last used
+     */
+    private restoreActiveSession(): void {
+        const session = this.sessionManager.getActiveSession();
+        if (session && !this.messages.some(isChatMessage)) {
+            this.loadSession(session);
+        }
+        this.renderSessionList();
+    }
+
+    /**
+     * Resume a saved session: restore its messages and preset
+     */
+    private async resumeSession(sessionId: string): Promise<void> {
+        if (this.isStreaming) {
+            this.addSystemMessage("Please wait for the current response to complete");
+            return;
+        }
+
+        const session = this.sessionManager.getSession(sessionId);
+        if (!session) return;
+
+        await this.sessionManager.setActiveSession(sessionId);
+        this.loadSession(session);
+        this.renderSessionList();
+    }
+
+    private loadSession(session: ChatSession): void {
+        // Keep edit messages, replace the chat history with the session's
+        this.messages = [
+            ...this.messages.filter(isEditMessage),
+            ...session.messages.map(m => ({ ...m }))
+        ];
+        this.resetContextWindow();
+
+        // Restore the preset used by the session (if it still exists)
+        const configManager = (this.claudeClient as any).configManager;
+        if (session.presetId && configManager?.getTemplateById?.(session.presetId)) {
+            this.activeChatPresetId = session.presetId;
+            const selector = this.element.querySelector('#claude-preset-selector') as HTMLSelectElement;
+            if (selector) {
+                selector.value = session.presetId;
+            }
+        }
+
+        this.refreshMessagesUI();
+        if (this.messagesContainer) {
+            this.messagesContainer.scrollTop = this.messagesContainer.scrollHeight;
+        }
+        console.log(`[UnifiedAIPanel] Resumed session: ${session.title} (${session.messages.length} messages)`);
+    }
+
+    private toggleSessionList(): void {
+        this.sessionListVisible = !this.sessionListVisible;
+        const list = this.element.querySelector('#claude-session-list') as HTMLElement;
+        if (list) {
+            list.style.display = this.sessionListVisible ? 'block' : 'none';
+        }
+        if (this.sessionListVisible) {
+            this.renderSessionList();
+        }
+    }
+
+    private renderSessionList(): void {
+        const container = this.element.querySelector('#claude-session-items') as HTMLElement;
+        if (!container || !this.sessionListVisible) return;
+
+        const sessions = this.sessionManager.listSessions();
+        if (sessions.length === 0) {
+            container.innerHTML = UnifiedPanelUIBuilder.createEmptySessionList();
+            return;
+        }
+
+        const activeId = this.sessionManager.getActiveSessionId();
+        container.innerHTML = sessions.map(session => {
+            const preset = this.claudeClient.getPreset(session.presetId);
+            const meta = [
+                new Date(session.updatedAt).toLocaleString(),
+                session.provider,
+                preset?.name || session.presetId,
+                `${session.messages.length} 条`
+            ].join(' · ');
+            return UnifiedPanelUIBuilder.createSessionItem(session.id, session.title, meta, session.id === activeId);
+        }).join('');
+    }
+
+    private handleSessionListClick(e: MouseEvent): void {
+        const target = e.target as HTMLElement;
+        const item = target.closest('[data-session-id]') as HTMLElement | null;
+        if (!item) return;
+
+        const sessionId = item.getAttribute('data-session-id')!;
+        const action = (target.closest('[data-session-action]') as HTMLElement | null)?.getAttribute('data-session-action');
+
+        if (action === 'rename') {
+            e.stopPropagation();
+            this.startRenameSession(item, sessionId);
+        } else if (action === 'delete') {
+            e.stopPropagation();
+            this.deleteSession(sessionId);
+        } else if (!item.querySelector('input')) {
+            this.resumeSession(sessionId);
+        }
+    }
+
+    /**
+     * Inline rename (window.prompt is not available in Electron)
+     */
+    private startRenameSession(item: HTMLElement, sessionId: string): void {
+        const titleEl = item.querySelector('.claude-session-title') as HTMLElement;
+        const session = this.sessionManager.getSession(sessionId);
+        if (!titleEl || !session) return;
+
+        const input = document.createElement('input');
+        input.className = 'b3-text-field';
+        input.value = session.title;
+        input.style.cssText = 'width: 100%; font-size: 12px; padding: 2px 4px;';
+        titleEl.innerHTML = '';
+        titleEl.appendChild(input);
+        input.focus();
+        input.select();
+
+        let done = false;
+        const finish = async (save: boolean) => {
+            if (done) return;
+            done = true;
+            if (save && input.value.trim() && input.value.trim() !== session.title) {
+                await this.sessionManager.renameSession(sessionId, input.value);
+            }
+            this.renderSessionList();
+        };
+
+        input.addEventListener('click', (e) => e.stopPropagation());
+        input.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter') {
+                e.preventDefault();
+                finish(true);
+            } else if (e.key === 'Escape') {
+                e.preventDefault();
+                finish(false);
+            }
+        });
+        input.addEventListener('blur', () => finish(true));
+    }
+
+    private async deleteSession(sessionId: string): Promise<void> {
+        const session = this.sessionManager.getSession(sessionId);
+        if (!session) return;
+
+        if (!confirm(`确定删除会话「${session.title}」吗？`)) return;
+
+        const wasActive = this.sessionManager.getActiveSessionId() === sessionId;
+        await this.sessionManager.deleteSession(sessionId);
+
+        // Deleting the open conversation also clears it from the panel
+        if (wasActive) {
+            this.clearChat();
+        } else {
+            this.renderSessionList();
+        }
+    }
+    //#endregion
+
+    //#region Notebook Q&A
+    /**
+     * Apply retrieval settings from the active profile when they change
+     */
+    private syncRetrievalSettings() {
+        const settings = this.claudeClient.getSettings().retrieval;
+        const serialized = JSON.stringify(settings || {});
+        if (serialized !== this.appliedRetrievalSettings) {
+            this.notebookRetriever.updateSettings(settings);
+            this.appliedRetrievalSettings = serialized;
+        }
+    }
+
+    /**
+     * Open the block behind a ((blockId)) citation link
+     */
+    private handleBlockReferenceClick(e: MouseEvent) {
+        const link = (e.target as HTMLElement).closest('a[href^="siyuan://blocks/"]') as HTMLAnchorElement | null;
+        const app = this.claudeClient.plugin?.app;
+        if (!link || !app) return;
+
+        e.preventDefault();
+        const blockId = link.getAttribute('href')!.replace('siyuan://blocks/', '');
+        openTab({
+            app,
+            doc: {
+                id: blockId,
+                action: ['cb-get-focus', 'cb-get-hl']
+            }
+        });
+    }
+    //#endregion
+
+    //#region Tool Calling
+    private setToolsEnabled(enabled: boolean) {
+        const toolsToggle = this.element.querySelector("#claude-tools-toggle") as HTMLInputElement;
+
+        if (enabled && !this.claudeClient.supportsTools()) {
+            showMessage(`${this.claudeClient.getProviderName()} 不支持工具调用`, 3000, 'error');
+            if (toolsToggle) toolsToggle.checked = false;
+            this.toolsEnabled = false;
+            return;
+        }
+
+        this.toolsEnabled = enabled;
+        console.log(`[UnifiedAIPanel] Tool calling ${enabled ? 'enabled' : 'disabled'}`);
+    }
+
+    /**
+     * Send the conversation with SiYuan tools enabled
+     * Tool calls are shown as system messages; the answer is added when the loop finishes
+     */
+    private async sendMessageWithTools(
+        apiMessages: Message[],
+        streamingMsgId: string,
+        isSelectionQA: boolean,
+        filterRules: FilterRule[],
+        systemPrompt: string
+    ): Promise<void> {
+        const sendBtn = this.element.querySelector("#claude-send-btn") as HTMLButtonElement;
+
+        try {
+            const response = await this.claudeClient.sendMessageWithTools(
+                apiMessages,
+                this.toolRegistry,
+                {
+                    onText: (text) => this.updateStreamingMessage(streamingMsgId, text),
+                    onToolCall: (call) => this.addSystemMessage(`🔧 ${this.describeToolCall(call)}`),
+                    onToolResult: (result) => {
+                        if (result.isError) {
+                            this.addSystemMessage(`⚠️ ${result.name}: ${result.content}`);
+                        }
+                    }
+                },
+                "Chat",
+                filterRules,
+                systemPrompt
+            );
+
+            const assistantMessage: ChatMessage = {
+                id: `chat-${Date.now()}`,
+                type: 'chat',
+                role: 'assistant',
+                content: response,
+                timestamp: Date.now(),
+                isSelectionQA: isSelectionQA
+            };
+
+            this.messages.push(assistantMessage);
+            this.updateContextMeter();
+            document.getElementById(streamingMsgId)?.remove();
+            this.addChatMessageToUI(assistantMessage, isSelectionQA);
+
+            this.persistActiveSession();
+        } catch (error) {
+            document.getElementById(streamingMsgId)?.remove();
+            this.addSystemMessage(`Error: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            this.isStreaming = false;
+            sendBtn.disabled = false;
+            sendBtn.textContent = "Send";
+        }
+    }
+
+    private describeToolCall(call: ToolCall): string {
+        const args = JSON.stringify(call.arguments);
+        return `${call.name} ${args.length > 120 ? args.substring(0, 120) + '...' : args}`;
+    }
+
+    /**
+     * Route a propose_edit tool call through the existing diff/accept flow
+     */
+    private queueProposedEdit(proposal: EditProposal) {
+        const lineCount = proposal.original.split('\n').length;
+        const selection = this.textSelectionManager.addSelection(
+            proposal.blockId,
+            0,
+            lineCount - 1,
+            proposal.original,
+            proposal.reason || 'AI 建议的修改'
+        );
+
+        // Emits EDIT_COMPLETED, which adds the diff message with apply/reject actions
+        this.textSelectionManager.updateEditResult(
+            selection.id,
+            this.aiEditProcessor.parseAIResponse(proposal.modified, proposal.original)
+        );
+    }
+    //#endregion
+
+    //#region Compare Mode
+
+    /**
+     * Send the conversation to several providers and show their answers side by side
+     * The adopted answer becomes the assistant message; the others are discarded.
+     * Sending stays blocked until a column is adopted; dismissing the comparison
+     * (or cancelling it) withdraws the question so the history keeps its order.
+     */
+    private async sendMessageWithComparison(
+        apiMessages: Message[],
+        streamingMsgId: string,
+        userMessage: ChatMessage,
+        isSelectionQA: boolean,
+        filterRules: FilterRule[],
+        systemPrompt: string
+    ): Promise<void> {
+        const sendBtn = this.element.querySelector("#claude-send-btn") as HTMLButtonElement;
+        document.getElementById(streamingMsgId)?.remove();
+
+        const controller = new AbortController();
+        this.compareAbortController = controller;
+        const wrapper = document.createElement("div");
+        wrapper.className = "claude-compare-message";
+
+        let settled = false;
+        const settle = (adopted?: ComparisonResult) => {
+            if (settled) return;
+            settled = true;
+            // Stops the columns that are still streaming
+            controller.abort();
+            wrapper.remove();
+
+            if (adopted) {
+                const assistantMessage: ChatMessage = {
+                    id: `chat-${Date.now()}`,
+                    type: 'chat',
+                    role: 'assistant',
+                    content: adopted.content,
+                    timestamp: Date.now(),
+                    isSelectionQA: isSelectionQA
+                };
+
+                this.messages.push(assistantMessage);
+                this.addChatMessageToUI(assistantMessage, isSelectionQA);
+                this.addSystemMessage(`⚖️ 已采用 ${adopted.name} 的回答`);
+            } else {
+                this.withdrawChatMessage(userMessage);
+            }
+            this.updateContextMeter();
+            this.persistActiveSession();
+
+            if (this.compareAbortController === controller) {
+                this.compareAbortController = null;
+            }
+            this.isStreaming = false;
+            sendBtn.disabled = false;
+            sendBtn.textContent = "Send";
+        };
+        controller.signal.addEventListener("abort", () => settle());
+
+        try {
+            const columns = this.claudeClient.getComparisonProviders();
+            const view = new ComparisonView(columns, {
+                acceptLabel: "采用",
+                renderContent: (text) => this.renderMarkdown(text),
+                onAccept: (result) => settle(result)
+            });
+            const dismissBtn = document.createElement("button");
+            dismissBtn.className = "b3-button b3-button--cancel claude-compare-message__dismiss";
+            dismissBtn.textContent = "放弃对比";
+            dismissBtn.title = "停止生成并撤回本轮提问";
+            dismissBtn.addEventListener("click", () => {
+                this.addSystemMessage("⚖️ 已放弃对比，本轮提问已撤回");
+                settle();
+            });
+
+            wrapper.append(view.element, dismissBtn);
+            this.messagesContainer?.appendChild(wrapper);
+            if (this.messagesContainer) {
+                this.messagesContainer.scrollTop = this.messagesContainer.scrollHeight;
+            }
+
+            const results = await this.claudeClient.sendComparison(apiMessages, columns, {
+                feature: "Chat",
+                filterRules,
+                systemPrompt,
+                presetId: this.activeChatPresetId,
+                signal: controller.signal,
+                onChunk: (index, chunk) => view.append(index, chunk),
+                onResult: (index, result) => view.complete(index, result)
+            });
+
+            // Nothing to adopt: withdraw the question instead of leaving it unanswered
+            if (!settled && results.every(result => result.error || !result.content.trim())) {
+                this.addSystemMessage(`Error: ${results.map(result => `${result.name}: ${result.error || '空回答'}`).join('；')}`);
+                settle();
+            }
+        } catch (error) {
+            this.addSystemMessage(`Error: ${error instanceof Error ? error.message : String(error)}`);
+            settle();
+        }
+    }
+
+    /**
+     * Remove an unanswered user message from the history and the chat
+     */
+    private withdrawChatMessage(message: ChatMessage): void {
+        const index = this.messages.indexOf(message);
+        if (index !== -1) {
+            this.messages.splice(index, 1);
+        }
+        this.messagesContainer?.querySelector(`[data-message-id="${message.id}"]`)?.remove();
+    }
+    //#endregion
+
+    //#region Conversation Export
+
+    /**
+     * Export the current conversation into a new SiYuan document
+     */
+    private openExportDialog(): void {
+        const chatMessages = this.messages.filter(isChatMessage);
+        if (chatMessages.length === 0) {
+            this.addSystemMessage("No conversation to export");
+            return;
+        }
+
+        const title = this.sessionManager.getActiveSession()?.title || ChatSessionManager.deriveTitle(chatMessages);
+        const dialog = new Dialog({
+            title: "📄 导出对话为文档",
+            content: UnifiedPanelUIBuilder.createExportDialogContent(title, ConversationExporter.suggestPath(title)),
+            width: "480px"
+        });
+
+        const notebookSelect = dialog.element.querySelector('#claude-export-notebook') as HTMLSelectElement;
+        const pathInput = dialog.element.querySelector('#claude-export-path') as HTMLInputElement;
+        const styleSelect = dialog.element.querySelector('#claude-export-style') as HTMLSelectElement;
+        const timestampsCheckbox = dialog.element.querySelector('#claude-export-timestamps') as HTMLInputElement;
+        const confirmBtn = dialog.element.querySelector('#claude-export-confirm') as HTMLButtonElement;
+        const cancelBtn = dialog.element.querySelector('#claude-export-cancel');
+
+        ConversationExporter.listNotebooks()
+            .then((notebooks) => {
+                notebookSelect.innerHTML = notebooks
+                    .map(nb => `<option value="${this.escapeHtml(nb.id)}">${this.escapeHtml(nb.name)}</option>`)
+                    .join('');
+                if (notebooks.length === 0) {
+                    notebookSelect.innerHTML = '<option value="">没有已打开的笔记本</option>';
+                }
+            })
+            .catch((error) => {
+                console.error('[UnifiedAIPanel] Failed to list notebooks:', error);
+                notebookSelect.innerHTML = '<option value="">加载笔记本失败</option>';
+            });
+
+        cancelBtn?.addEventListener('click', () => dialog.destroy());
+        confirmBtn?.addEventListener('click', async () => {
+            const notebookId = notebookSelect.value;
+            const path = pathInput.value.trim();
+            if (!notebookId) {
+                showMessage("❌ 请选择笔记本", 2000, "error");
+                return;
+            }
+            if (!path) {
+                showMessage("❌ 请输入文档路径", 2000, "error");
+                return;
+            }
+
+            confirmBtn.disabled = true;
+            try {
+                const markdown = ConversationExporter.buildMarkdown(chatMessages, {
+                    style: styleSelect.value as ExportTurnStyle,
+                    includeTimestamps: timestampsCheckbox.checked
+                });
+                const docId = await ConversationExporter.createDocument(notebookId, path, markdown);
+
+                console.log(`[UnifiedAIPanel] Exported conversation to document ${docId}`);
+                showMessage(`✅ 已导出对话到 ${ConversationExporter.normalizePath(path)}`, 3000, "info");
+                dialog.destroy();
+            } catch (error) {
+                console.error('[UnifiedAIPanel] Failed to export conversation:', error);
+                showMessage(`❌ 导出失败: ${error instanceof Error ? error.message : String(error)}`, 5000, "error");
+                confirmBtn.disabled = false;
+            }
+        });
+    }
+    //#endregion
+
     //#region Utilities
     private refreshMessagesUI() {
         if (!this.messagesContainer) return;
@@ -1432,6 +2374,7 @@ export class UnifiedAIPanel {
             }
 
             console.log(`[UnifiedAIPanel] Updated provider badge: ${badge.textContent}`);
+            this.updateContextMeter();
         } catch (error) {
             console.error('[UnifiedAIPanel] Error updating provider badge:', error);
             badge.textContent = 'Unknown';
@@ -1578,6 +2521,14 @@ export class UnifiedAIPanel {
         this.currentProtyle = protyle;
     }
 
+    /**
+     * Set the batch Quick Edit manager (batches are shown aggregated in the queue)
+     */
+    setBatchEditManager(manager: BatchEditManager) {
+        this.batchEditManager = manager;
+        this.refreshQueueUI();
+    }
+
     /**
      * Enter edit mode with selected text
      * @param textSelection The text selection to edit
@@ -1700,6 +2651,10 @@ export class UnifiedAIPanel {
         // Stop selection monitoring
         this.stopSelectionMonitoring();
 
+        // Stop a running comparison or history summary
+        this.compareAbortController?.abort();
+        this.contextFitAbortController?.abort();
+
         // Unsubscribe from preset events (NEW v0.9.0)
         if (this.presetEventUnsubscribe) {
             this.presetEventUnsubscribe();
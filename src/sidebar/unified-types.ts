@@ -6,6 +6,7 @@
  */
 
 import type { EditResult, TextSelection } from "../editor/types";
+import type { ImageAttachment } from "../claude/types";
 
 /**
  * Base message interface with common properties
@@ -33,8 +34,17 @@ export interface ChatMessage extends BaseMessage {
     /** Whether this message is currently being streamed */
     streaming?: boolean;
 
+    /** Reasoning (thinking) text streamed before the answer, shown collapsed */
+    reasoning?: string;
+
+    /** Images sent with a user message (not persisted with the session) */
+    images?: ImageAttachment[];
+
     /** Whether this message is part of a Selection Q&A conversation */
     isSelectionQA?: boolean;
+
+    /** Block IDs the question was asked about (Selection Q&A only) */
+    referencedBlockIds?: string[];
 }
 
 /**
@@ -118,3 +128,32 @@ export const DEFAULT_UNIFIED_PANEL_CONFIG: UnifiedPanelConfig = {
     maxHistorySize: 100,
     persistChatHistory: true
 };
+
+/**
+ * A persisted chat conversation that can be resumed from the session list
+ */
+export interface ChatSession {
+    /** Unique identifier for the session */
+    id: string;
+
+    /** User-visible title (derived from the first question, can be renamed) */
+    title: string;
+
+    /** Preset that was active when the session was last used */
+    presetId: string;
+
+    /** Provider type that answered the session (e.g. 'anthropic', 'openai') */
+    provider: string;
+
+    /** Model name at the time the session was last used */
+    model?: string;
+
+    /** Timestamp when the session was created */
+    createdAt: number;
+
+    /** Timestamp of the last message in the session */
+    updatedAt: number;
+
+    /** Chat messages of the session (edit messages are not persisted) */
+    messages: ChatMessage[];
+}
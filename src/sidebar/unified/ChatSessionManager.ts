@@ -0,0 +1,280 @@
+/**
+ * Chat Session Manager - Named, resumable conversations for UnifiedAIPanel
+ *
+ * Features:
+ * - Sessions persisted with plugin.saveData (localStorage as fallback)
+ * - Each session records title, preset, provider and timestamps
+ * - Rename / delete / resume from the session list in the AI dock
+ * - Resuming restores the chat history that is sent to the provider
+ *
+ * @module ChatSessionManager
+ * @see UnifiedAIPanel
+ */
+
+import type { ISiYuanPlugin } from '../../types/siyuan';
+import type { ChatMessage, ChatSession } from '../unified-types';
+
+const STORAGE_KEY = 'claude-chat-sessions';
+const FILE_NAME = 'chat-sessions.json';
+const MAX_SESSIONS = 50;
+const MAX_TITLE_LENGTH = 40;
+const INIT_TIMEOUT = 3000; // 3s timeout for file loading
+
+interface ChatSessionStore {
+    version: number;
+    activeSessionId: string | null;
+    sessions: ChatSession[];
+}
+
+export class ChatSessionManager {
+    private plugin: ISiYuanPlugin | null;
+    private sessions: ChatSession[] = [];
+    private activeSessionId: string | null = null;
+    private maxMessagesPerSession: number;
+    private initPromise: Promise<void> | null = null;
+
+    constructor(plugin: ISiYuanPlugin | null, maxMessagesPerSession: number = 100) {
+        this.plugin = plugin;
+        this.maxMessagesPerSession = maxMessagesPerSession;
+    }
+
+    /**
+     * Load sessions from storage (safe to call multiple times)
+     */
+    public async init(): Promise<void> {
+        if (!this.initPromise) {
+            this.initPromise = this.loadSessions();
+        }
+        return this.initPromise;
+    }
+
+    /**
+     * Get all sessions, most recently used first
+     */
+    public listSessions(): ChatSession[] {
+        return [...this.sessions].sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    public getSession(id: string): ChatSession | null {
+        return this.sessions.find(s => s.id === id) || null;
+    }
+
+    public getActiveSessionId(): string | null {
+        return this.activeSessionId;
+    }
+
+    public getActiveSession(): ChatSession | null {
+        return this.activeSessionId ? this.getSession(this.activeSessionId) : null;
+    }
+
+    /**
+     * Mark a session as active (or none, for a fresh unsaved conversation)
+     */
+    public async setActiveSession(id: string | null): Promise<void> {
+        this.activeSessionId = id && this.getSession(id) ? id : null;
+        await this.saveSessions();
+    }
+
+    /**
+     * Create or update the active session with the current conversation.
+     * A new session is created on the first save after startNewSession().
+     */
+    public async saveActiveSession(
+        messages: ChatMessage[],
+        meta: { presetId: string; provider: string; model?: string }
+    ): Promise<ChatSession | null> {
+        const chatMessages = messages
+            .filter(m => !m.streaming && m.content)
+            .slice(-this.maxMessagesPerSession)
+            // Images are not persisted: base64 data would bloat the session file
+            .map(({ images: _images, ...m }) => ({ ...m }));
+
+        if (chatMessages.length === 0) {
+            return null;
+        }
+
+        const now = Date.now();
+        let session = this.getActiveSession();
+
+        if (session) {
+            session.messages = chatMessages;
+            session.presetId = meta.presetId;
+            session.provider = meta.provider;
+            session.model = meta.model;
+            session.updatedAt = now;
+        } else {
+            session = {
+                id: `session-${now}-${Math.random().toString(36).substring(2, 9)}`,
+                title: ChatSessionManager.deriveTitle(chatMessages),
+                presetId: meta.presetId,
+                provider: meta.provider,
+                model: meta.model,
+                createdAt: now,
+                updatedAt: now,
+                messages: chatMessages
+            };
+            this.sessions.push(session);
+            this.activeSessionId = session.id;
+            this.enforceSessionLimit();
+        }
+
+        await this.saveSessions();
+        return session;
+    }
+
+    /**
+     * Detach from the active session so the next message starts a new one
+     */
+    public async startNewSession(): Promise<void> {
+        this.activeSessionId = null;
+        await this.saveSessions();
+    }
+
+    public async renameSession(id: string, title: string): Promise<boolean> {
+        const session = this.getSession(id);
+        const trimmed = title.trim();
+        if (!session || !trimmed) {
+            return false;
+        }
+
+        session.title = trimmed.substring(0, MAX_TITLE_LENGTH * 2);
+        await this.saveSessions();
+        console.log(`[ChatSessionManager] Renamed session ${id}`);
+        return true;
+    }
+
+    public async deleteSession(id: string): Promise<boolean> {
+        const index = this.sessions.findIndex(s => s.id === id);
+        if (index === -1) {
+            return false;
+        }
+
+        this.sessions.splice(index, 1);
+        if (this.activeSessionId === id) {
+            this.activeSessionId = null;
+        }
+
+        await this.saveSessions();
+        console.log(`[ChatSessionManager] Deleted session ${id}`);
+        return true;
+    }
+
+    /**
+     * Derive a session title from the first user message
+     */
+    public static deriveTitle(messages: ChatMessage[]): string {
+        const firstUser = messages.find(m => m.role === 'user');
+        const text = (firstUser?.content || '').replace(/\s+/g, ' ').trim();
+        if (!text) {
+            return '新对话';
+        }
+        return text.length > MAX_TITLE_LENGTH ? text.substring(0, MAX_TITLE_LENGTH) + '...' : text;
+    }
+
+    /**
+     * Drop the least recently used sessions beyond MAX_SESSIONS
+     */
+    private enforceSessionLimit(): void {
+        if (this.sessions.length <= MAX_SESSIONS) {
+            return;
+        }
+
+        this.sessions = this.listSessions().slice(0, MAX_SESSIONS);
+        console.log(`[ChatSessionManager] Session limit enforced (max: ${MAX_SESSIONS})`);
+    }
+
+    /**
+     * Load sessions (file storage first, localStorage as fallback)
+     */
+    private async loadSessions(): Promise<void> {
+        let store: ChatSessionStore | null = null;
+
+        if (this.plugin && typeof this.plugin.loadData === 'function') {
+            let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
+            try {
+                const timeoutPromise = new Promise<never>((_, reject) => {
+                    timeoutHandle = setTimeout(() => reject(new Error('File load timeout')), INIT_TIMEOUT);
+                });
+                const loadPromise = this.plugin.loadData(FILE_NAME) as Promise<ChatSessionStore | null>;
+                const stored = await Promise.race([loadPromise, timeoutPromise]);
+                store = this.validateStore(stored);
+            } catch (error) {
+                console.warn('[ChatSessionManager] Failed to load sessions from file:', error);
+            } finally {
+                clearTimeout(timeoutHandle);
+            }
+        }
+
+        if (!store) {
+            try {
+                const localData = localStorage.getItem(STORAGE_KEY);
+                store = localData ? this.validateStore(JSON.parse(localData)) : null;
+            } catch (error) {
+                console.warn('[ChatSessionManager] Failed to load sessions from localStorage:', error);
+            }
+        }
+
+        this.sessions = store?.sessions || [];
+        this.activeSessionId = store?.activeSessionId && this.getSession(store.activeSessionId)
+            ? store.activeSessionId
+            : null;
+
+        console.log(`[ChatSessionManager] Loaded ${this.sessions.length} sessions`);
+    }
+
+    /**
+     * Save sessions to localStorage and file storage
+     */
+    private async saveSessions(): Promise<void> {
+        const store: ChatSessionStore = {
+            version: 1,
+            activeSessionId: this.activeSessionId,
+            sessions: this.sessions
+        };
+
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+        } catch (error) {
+            console.warn('[ChatSessionManager] Failed to save to localStorage:', error);
+        }
+
+        if (this.plugin && typeof this.plugin.saveData === 'function') {
+            try {
+                await this.plugin.saveData(FILE_NAME, store);
+            } catch (error) {
+                console.warn('[ChatSessionManager] Failed to save to file storage:', error);
+            }
+        }
+    }
+
+    /**
+     * Validate stored data, dropping malformed sessions and messages
+     */
+    private validateStore(data: unknown): ChatSessionStore | null {
+        if (!data || typeof data !== 'object' || !Array.isArray((data as ChatSessionStore).sessions)) {
+            return null;
+        }
+
+        const raw = data as ChatSessionStore;
+        const sessions = raw.sessions
+            .filter(s => s && typeof s.id === 'string' && Array.isArray(s.messages))
+            .map(s => ({
+                id: s.id,
+                title: typeof s.title === 'string' && s.title ? s.title : '新对话',
+                presetId: typeof s.presetId === 'string' ? s.presetId : 'default',
+                provider: typeof s.provider === 'string' ? s.provider : 'anthropic',
+                model: typeof s.model === 'string' ? s.model : undefined,
+                createdAt: typeof s.createdAt === 'number' ? s.createdAt : Date.now(),
+                updatedAt: typeof s.updatedAt === 'number' ? s.updatedAt : Date.now(),
+                messages: s.messages.filter((m: ChatMessage) =>
+                    m && (m.role === 'user' || m.role === 'assistant') && typeof m.content === 'string'
+                ).map((m: ChatMessage) => ({ ...m, type: 'chat' as const, streaming: false }))
+            }));
+
+        return {
+            version: typeof raw.version === 'number' ? raw.version : 1,
+            activeSessionId: typeof raw.activeSessionId === 'string' ? raw.activeSessionId : null,
+            sessions
+        };
+    }
+}
@@ -0,0 +1,147 @@
+/**
+ * Conversation Exporter - Save a UnifiedAIPanel chat as a SiYuan document
+ *
+ * Renders user/assistant turns as headings or callouts, keeps code blocks
+ * intact and links back to blocks referenced through Selection Q&A.
+ *
+ * @module ConversationExporter
+ * @see UnifiedAIPanel
+ */
+
+import { SiYuanApi } from '../../utils/SiYuanApi';
+import type { ChatMessage } from '../unified-types';
+
+/**
+ * How each conversation turn is rendered in the exported document
+ */
+export type ExportTurnStyle = 'heading' | 'callout';
+
+export interface ConversationExportOptions {
+    /** Turn rendering style */
+    style: ExportTurnStyle;
+
+    /** Add the time of each message to the turn header */
+    includeTimestamps?: boolean;
+}
+
+export interface NotebookInfo {
+    id: string;
+    name: string;
+    closed: boolean;
+}
+
+const BLOCK_ID_PATTERN = /^[0-9]{14}-[0-9a-z]{7}$/i;
+
+/**
+ * Utility class for exporting chat conversations to SiYuan documents
+ */
+export class ConversationExporter {
+    /**
+     * Build the Markdown body of the exported document
+     */
+    static buildMarkdown(messages: ChatMessage[], options: ConversationExportOptions): string {
+        const sections = messages
+            .filter(m => m.content && m.content.trim())
+            .map(m => options.style === 'callout'
+                ? this.renderCalloutTurn(m, options)
+                : this.renderHeadingTurn(m, options));
+
+        return sections.join('\n\n') + '\n';
+    }
+
+    /**
+     * List open notebooks for the export target picker
+     */
+    static async listNotebooks(): Promise<NotebookInfo[]> {
+        const data = await SiYuanApi.post<{ notebooks?: NotebookInfo[] }>('/api/notebook/lsNotebooks');
+        return (data?.notebooks || [])
+            .filter(nb => !nb.closed)
+            .map(nb => ({ id: nb.id, name: nb.name, closed: nb.closed }));
+    }
+
+    /**
+     * Create the document via /api/filetree/createDocWithMd
+     * @returns ID of the created document
+     */
+    static async createDocument(notebookId: string, path: string, markdown: string): Promise<string> {
+        return SiYuanApi.post<string>('/api/filetree/createDocWithMd', {
+            notebook: notebookId,
+            path: this.normalizePath(path),
+            markdown
+        });
+    }
+
+    /**
+     * Normalize a human-readable document path (e.g. "AI Chats/My topic")
+     * to the absolute form expected by createDocWithMd
+     */
+    static normalizePath(path: string): string {
+        const segments = path
+            .split('/')
+            .map(s => s.trim())
+            .filter(s => s.length > 0);
+
+        return '/' + segments.join('/');
+    }
+
+    /**
+     * Suggest a default document path for a conversation title
+     */
+    static suggestPath(title: string): string {
+        const safeTitle = title.replace(/[\/\\]/g, '-').trim() || 'Chat';
+        return `AI Chats/${safeTitle}`;
+    }
+
+    private static renderHeadingTurn(message: ChatMessage, options: ConversationExportOptions): string {
+        const parts = [`## ${this.getTurnLabel(message, options)}`];
+
+        const references = this.renderReferences(message);
+        if (references) {
+            parts.push(references);
+        }
+
+        parts.push(message.content.trim());
+        return parts.join('\n\n');
+    }
+
+    private static renderCalloutTurn(message: ChatMessage, options: ConversationExportOptions): string {
+        const kind = message.role === 'user' ? 'NOTE' : 'TIP';
+        const lines = [`[!${kind}]`, `**${this.getTurnLabel(message, options)}**`];
+
+        const references = this.renderReferences(message);
+        if (references) {
+            lines.push('', references);
+        }
+
+        lines.push('', message.content.trim());
+
+        // Quote every line (including code fences) so the turn stays one callout
+        return lines
+            .join('\n')
+            .split('\n')
+            .map(line => line.length > 0 ? `> ${line}` : '>')
+            .join('\n');
+    }
+
+    private static getTurnLabel(message: ChatMessage, options: ConversationExportOptions): string {
+        const label = message.role === 'user' ? '🧑 User' : '🤖 Assistant';
+        if (!options.includeTimestamps) {
+            return label;
+        }
+        return `${label} · ${new Date(message.timestamp).toLocaleString()}`;
+    }
+
+    /**
+     * Render block references for Selection Q&A questions
+     * Uses dynamic anchors so the link shows the current block content
+     */
+    private static renderReferences(message: ChatMessage): string {
+        const blockIds = (message.referencedBlockIds || []).filter(id => BLOCK_ID_PATTERN.test(id));
+        if (blockIds.length === 0) {
+            return '';
+        }
+
+        const refs = blockIds.map((id, index) => `((${id} '块 ${index + 1}'))`);
+        return `引用: ${refs.join(' ')}`;
+    }
+}
@@ -12,6 +12,9 @@ import { marked } from "marked";
 import hljs from "highlight.js";
 import DOMPurify from "dompurify";
 
+/** ((20240101120000-abcdefg)) or ((20240101120000-abcdefg "anchor text")) */
+const BLOCK_REF_PATTERN = /\(\(([0-9]{14}-[0-9a-z]{7})(?:\s+["'“”‘’]([^"'“”‘’)]*)["'“”‘’])?\)\)/g;
+
 /**
  * Utility class for rendering messages with markdown support
  */
@@ -48,7 +51,7 @@ export class MessageRenderer {
      * Uses DOMPurify to prevent XSS attacks
      */
     static renderMarkdown(content: string): string {
-        const rawHtml = marked.parse(content) as string;
+        const rawHtml = marked.parse(this.linkBlockReferences(content)) as string;
         return DOMPurify.sanitize(rawHtml, {
             ALLOWED_TAGS: [
                 'p', 'br', 'strong', 'em', 'u', 's', 'code', 'pre', 'a',
@@ -57,9 +60,36 @@ export class MessageRenderer {
                 'div', 'span'
             ],
             ALLOWED_ATTR: ['href', 'class', 'target', 'rel'],
+            // Default DOMPurify URI pattern plus siyuan:// for block links
+            ALLOWED_URI_REGEXP: /^(?:(?:https?|mailto|tel|siyuan):|[^a-z]|[a-z+.\-]+(?:[^a-z+.\-:]|$))/i,
         });
     }
 
+    /**
+     * Convert SiYuan block references ((id)) / ((id "anchor")) into
+     * siyuan://blocks links, numbered [1], [2]... when no anchor text is given.
+     * Code spans and fenced code blocks are left untouched.
+     */
+    static linkBlockReferences(content: string): string {
+        const numbers = new Map<string, number>();
+
+        return content
+            .split(/(```[\s\S]*?(?:```|$)|`[^`\n]*`)/)
+            .map((segment, index) => {
+                // Odd segments are code captured by the split pattern
+                if (index % 2 === 1) return segment;
+
+                return segment.replace(BLOCK_REF_PATTERN, (_match, id: string, anchor?: string) => {
+                    if (!numbers.has(id)) {
+                        numbers.set(id, numbers.size + 1);
+                    }
+                    const label = anchor?.trim() || `${numbers.get(id)}`;
+                    return `[[${label.replace(/[\[\]]/g, '')}]](siyuan://blocks/${id})`;
+                });
+            })
+            .join('');
+    }
+
     /**
      * Update streaming message content with cursor
      * Renders markdown and adds blinking cursor during streaming
@@ -78,6 +108,17 @@ export class MessageRenderer {
             contentDiv.innerHTML = this.renderMarkdown(content) + '<span class="claude-cursor">▋</span>';
         }
 
+        // Collapse the thinking block once the answer starts
+        if (content.length > 0) {
+            const thinking = messageDiv.querySelector(".claude-thinking") as HTMLDetailsElement | null;
+            if (thinking?.classList.contains("claude-thinking--active")) {
+                thinking.classList.remove("claude-thinking--active");
+                thinking.open = false;
+                const summary = thinking.querySelector("summary");
+                if (summary) summary.textContent = "💭 思考过程";
+            }
+        }
+
         // Remove typing indicator once content starts
         if (content.length > 0) {
             const typingIndicator = messageDiv.querySelector(".claude-typing-indicator");
@@ -93,6 +134,57 @@ export class MessageRenderer {
         }
     }
 
+    /**
+     * Update the live thinking block of a streaming message
+     * The block is created on the first reasoning chunk and stays open until the answer starts
+     */
+    static updateStreamingReasoning(
+        container: HTMLElement,
+        messageId: string,
+        reasoning: string
+    ): void {
+        const messageDiv = container.querySelector(`#${messageId}`);
+        if (!messageDiv) return;
+
+        let thinking = messageDiv.querySelector(".claude-thinking") as HTMLDetailsElement | null;
+        if (!thinking) {
+            thinking = this.createThinkingBlock(reasoning, true);
+            const contentDiv = messageDiv.querySelector(".claude-message-content");
+            messageDiv.insertBefore(thinking, contentDiv);
+        } else {
+            const body = thinking.querySelector(".claude-thinking__content") as HTMLElement;
+            body.textContent = reasoning;
+            body.scrollTop = body.scrollHeight;
+        }
+
+        const messagesContainer = container.querySelector("#claude-messages") as HTMLElement;
+        if (messagesContainer) {
+            messagesContainer.scrollTop = messagesContainer.scrollHeight;
+        }
+    }
+
+    /**
+     * Create a collapsible thinking block (plain text, not rendered as markdown)
+     * @param active Whether reasoning is still streaming (open, with a "thinking" label)
+     */
+    static createThinkingBlock(reasoning: string, active: boolean = false): HTMLDetailsElement {
+        const thinking = document.createElement("details");
+        thinking.className = "claude-thinking" + (active ? " claude-thinking--active" : "");
+        thinking.open = active;
+
+        const summary = document.createElement("summary");
+        summary.className = "ft__smaller ft__secondary";
+        summary.textContent = active ? "💭 思考中..." : "💭 思考过程";
+
+        const body = document.createElement("div");
+        body.className = "claude-thinking__content ft__smaller";
+        body.textContent = reasoning;
+
+        thinking.appendChild(summary);
+        thinking.appendChild(body);
+        return thinking;
+    }
+
     /**
      * Finalize streaming message (remove cursor, add actions)
      * Called when streaming is complete
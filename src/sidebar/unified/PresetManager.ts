@@ -8,7 +8,7 @@
  * @see UnifiedAIPanel
  */
 
-import type { ClaudeClient } from "../../claude/ClaudeClient";
+import type { ClaudeClient } from "../../claude";
 import type { PresetEvent } from "../../settings/PresetEventBus";
 
 export interface PresetManagerContext {
@@ -173,9 +173,10 @@ export class PresetManager {
 
         // Try loading from file storage first (most reliable)
         if (plugin && typeof plugin.loadData === 'function') {
+            let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
             try {
                 const timeoutPromise = new Promise<never>((_, reject) => {
-                    setTimeout(() => reject(new Error('File load timeout')), timeoutMs);
+                    timeoutHandle = setTimeout(() => reject(new Error('File load timeout')), timeoutMs);
                 });
 
                 const loadPromise = plugin.loadData('ai-dock-preset.json') as Promise<{ presetId: string } | null>;
@@ -191,6 +192,8 @@ export class PresetManager {
                 } else {
                     console.warn('[PresetManager] ❌ Failed to load preset from file:', error);
                 }
+            } finally {
+                clearTimeout(timeoutHandle);
             }
         } else {
             console.warn('[PresetManager] ⚠️ Cannot load from file storage - plugin not available');
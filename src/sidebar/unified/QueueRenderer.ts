@@ -11,6 +11,7 @@
 import type { TextSelection } from "../../editor/types";
 import type { TextSelectionManager } from "../../editor/TextSelectionManager";
 import type { EditQueue } from "../../editor/EditQueue";
+import type { BatchEditManager, EditBatch } from "../../editor/BatchEditManager";
 import { SecurityUtils } from "../../utils/Security";
 import { UnifiedPanelHelpers } from "./UnifiedPanelHelpers";
 
@@ -23,6 +24,10 @@ export interface QueueRendererContext {
         queueSize: number;
         processingCount: number;
     };
+    /** Batch Quick Edit manager (batch selections are shown as one aggregated row) */
+    batchEditManager?: BatchEditManager;
+    /** Open the review dialog of a batch */
+    onReviewBatch?: (batchId: string) => void;
 }
 
 /**
@@ -64,10 +69,24 @@ export class QueueRenderer {
                 </div>
             `;
         } else {
-            queueDetails.innerHTML = selections.map(s => this.createQueueItem(s)).join('');
+            const batches = context.batchEditManager?.getBatches() ?? [];
+            const singleSelections = selections.filter(s => !s.batchId);
+
+            queueDetails.innerHTML =
+                batches.map(batch => this.createBatchItem(context, batch)).join('') +
+                singleSelections.map(s => this.createQueueItem(s)).join('');
+
+            // Bind batch review buttons
+            batches.forEach(batch => {
+                const btn = queueDetails.querySelector(`[data-batch-id="${batch.id}"] [data-action="review"]`);
+                btn?.addEventListener('click', (e) => {
+                    e.stopPropagation();
+                    context.onReviewBatch?.(batch.id);
+                });
+            });
 
             // Bind click events
-            selections.forEach(selection => {
+            singleSelections.forEach(selection => {
                 const item = queueDetails.querySelector(`[data-selection-id="${selection.id}"]`);
                 item?.addEventListener('click', () => {
                     if (selection.status === 'completed' && selection.editResult) {
@@ -117,6 +136,34 @@ export class QueueRenderer {
         `;
     }
 
+    /**
+     * Create HTML for the aggregated row of a batch Quick Edit
+     */
+    static createBatchItem(context: QueueRendererContext, batch: EditBatch): string {
+        const progress = context.batchEditManager!.getProgress(batch.id);
+        const done = progress.completed + progress.error;
+        const percent = progress.total > 0 ? Math.round((done / progress.total) * 100) : 0;
+        const statusIcon = done < progress.total ? '⏳' : '✓';
+
+        let stats = `${done}/${progress.total}`;
+        if (progress.error > 0) stats += ` · ${progress.error} 失败`;
+        if (progress.undecided > 0) stats += ` · ${progress.undecided} 待审阅`;
+
+        return `
+            <div class="b3-list-item claude-queue-batch" data-batch-id="${batch.id}" style="padding: 6px; margin-bottom: 2px; font-size: 12px;">
+                <div class="fn__flex" style="align-items: center; gap: 6px;">
+                    <span>${statusIcon}</span>
+                    <div class="fn__flex-column" style="flex: 1; min-width: 0;">
+                        <span class="ft__smaller">📋 ${SecurityUtils.escapeHtml(UnifiedPanelHelpers.truncate(batch.label, 24))} · ${SecurityUtils.escapeHtml(batch.presetName)}</span>
+                        <div class="claude-queue-batch__progress"><div style="width: ${percent}%;"></div></div>
+                        <span class="ft__smaller ft__secondary">${stats}</span>
+                    </div>
+                    <button class="b3-button b3-button--outline b3-button--small" data-action="review">审阅</button>
+                </div>
+            </div>
+        `;
+    }
+
     /**
      * Toggle queue expansion state
      */
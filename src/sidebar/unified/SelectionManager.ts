@@ -65,7 +65,7 @@ export class SelectionManager {
      */
     static updateModeBadge(
         badgeElement: HTMLElement | null,
-        mode: 'selectionQA' | 'freeChat',
+        mode: 'selectionQA' | 'freeChat' | 'notebookQA',
         blockCount?: number
     ): void {
         if (!badgeElement) return;
@@ -75,6 +75,11 @@ export class SelectionManager {
             badgeElement.textContent = `📝 已选中 ${blockCount} 个块`;
             badgeElement.classList.remove('fading-out');
             badgeElement.style.display = 'inline-block';
+        } else if (mode === 'notebookQA') {
+            // Show notebook Q&A badge
+            badgeElement.textContent = '📚 笔记库问答';
+            badgeElement.classList.remove('fading-out');
+            badgeElement.style.display = 'inline-block';
         } else {
             // Hide badge in free chat mode with fade-out animation
             if (badgeElement.style.display !== 'none') {
@@ -142,4 +142,11 @@ export class UnifiedPanelHelpers {
         if (text.length <= maxLength) return text;
         return text.substring(0, maxLength) + '...';
     }
+
+    /**
+     * Format a token count for display (e.g. 12345 → "12.3k")
+     */
+    static formatTokens(tokens: number): string {
+        return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+    }
 }
@@ -7,4 +7,6 @@ export { MessageRenderer } from './MessageRenderer';
 export { SelectionManager } from './SelectionManager';
 export { PresetManager } from './PresetManager';
 export { QueueRenderer } from './QueueRenderer';
+export { ChatSessionManager } from './ChatSessionManager';
+export { ConversationExporter } from './ConversationExporter';
 export * from './ui';
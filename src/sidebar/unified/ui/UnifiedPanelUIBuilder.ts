@@ -34,9 +34,22 @@ export class UnifiedPanelUIBuilder {
                         <span id="claude-mode-badge" class="claude-mode-badge" style="display: none; font-size: 11px; padding: 2px 8px; background: var(--b3-theme-primary-lighter); color: var(--b3-theme-primary); border-radius: 10px; white-space: nowrap;">📝 已选中 0 个块</span>
                     </div>
                     <div class="fn__flex" style="align-items: center; gap: 3px;">
+                        <div class="claude-context-meter" id="claude-context-meter" title="上下文用量">
+                            <div class="claude-context-meter__bar"><div class="claude-context-meter__fill"></div></div>
+                            <span class="claude-context-meter__text">0%</span>
+                        </div>
                         <div class="provider-info-badge" data-provider-badge style="display: inline-flex; align-items: center; padding: 4px 10px; background: rgba(99, 102, 241, 0.1); border: 1px solid rgba(99, 102, 241, 0.3); border-radius: 12px; font-size: 11px; font-weight: 500; color: var(--b3-theme-on-surface); white-space: nowrap;">
                             <span class="provider-text">Loading...</span>
                         </div>
+                        <button class="b3-button b3-button--text" id="claude-notebook-mode-btn" title="笔记库问答" style="padding: 2px 4px;">
+                            <svg class="fn__size200"><use xlink:href="#iconSearch"></use></svg>
+                        </button>
+                        <button class="b3-button b3-button--text" id="claude-sessions-btn" title="历史会话" style="padding: 2px 4px;">
+                            <svg class="fn__size200"><use xlink:href="#iconHistory"></use></svg>
+                        </button>
+                        <button class="b3-button b3-button--text" id="claude-export-chat" title="导出为文档" style="padding: 2px 4px;">
+                            <svg class="fn__size200"><use xlink:href="#iconFile"></use></svg>
+                        </button>
                         <button class="b3-button b3-button--text" id="claude-settings-btn" title="设置" style="padding: 2px 4px;">
                             <svg class="fn__size200"><use xlink:href="#iconSettings"></use></svg>
                         </button>
@@ -47,6 +60,17 @@ export class UnifiedPanelUIBuilder {
                 </div>
             </div>
 
+            <!-- Chat Session List (toggled from header) -->
+            <div class="claude-session-list" id="claude-session-list" style="flex-shrink: 0; border-bottom: 1px solid var(--b3-border-color); display: none;">
+                <div class="fn__flex" style="align-items: center; justify-content: space-between; padding: 4px 8px; font-size: 12px;">
+                    <span class="ft__secondary">历史会话</span>
+                    <button class="b3-button b3-button--text" id="claude-new-session-btn" title="新建对话" style="padding: 1px 6px; font-size: 12px;">
+                        <svg class="fn__size200"><use xlink:href="#iconAdd"></use></svg><span style="margin-left: 4px;">新对话</span>
+                    </button>
+                </div>
+                <div class="claude-session-items" id="claude-session-items" style="max-height: 200px; overflow-y: auto; padding: 0 6px 6px;"></div>
+            </div>
+
             <!-- Collapsible Edit Queue Region -->
             <div class="claude-queue-region" id="claude-queue-region" style="flex-shrink: 0; border-bottom: 1px solid var(--b3-border-color); display: ${config.showEditQueue ? 'block' : 'none'};">
                 <!-- Queue Summary (Always Visible) - Compact Single Line -->
@@ -85,13 +109,26 @@ export class UnifiedPanelUIBuilder {
             <!-- Compact Input Area -->
             <div class="claude-input-area" style="flex-shrink: 0; padding: 6px; border-top: 1px solid var(--b3-border-color);">
                 <div class="fn__flex-column" style="gap: 6px;">
+                    <div class="claude-attachments" id="claude-attachments" style="display: none;"></div>
                     <textarea class="b3-text-field" id="claude-input"
                               placeholder="Ask Claude anything..."
                               rows="3"
                               style="resize: vertical; min-height: 54px; font-size: 13px;"></textarea>
                     <div class="fn__flex" style="justify-content: space-between; align-items: center;">
                         <div class="ft__smaller ft__secondary" id="claude-context-info" style="font-size: 11px;"></div>
-                        <div class="fn__flex" style="gap: 6px;">
+                        <div class="fn__flex" style="gap: 6px; align-items: center;">
+                            <label class="fn__flex" title="允许 AI 搜索、读取笔记并提出修改建议" style="align-items: center; gap: 4px; font-size: 11px; cursor: pointer;">
+                                <input type="checkbox" class="b3-switch" id="claude-tools-toggle">
+                                <span class="ft__secondary">🔧 工具</span>
+                            </label>
+                            <label class="fn__flex" title="把问题同时发送给多个提供商，并排比较后采用其中一个回答" style="align-items: center; gap: 4px; font-size: 11px; cursor: pointer;">
+                                <input type="checkbox" class="b3-switch" id="claude-compare-toggle">
+                                <span class="ft__secondary">⚖️ 对比</span>
+                            </label>
+                            <button class="b3-button b3-button--text b3-button--small" id="claude-attach-btn" title="添加图片（也可粘贴或拖入输入框）" style="padding: 2px 6px;">
+                                <svg class="fn__size200"><use xlink:href="#iconImage"></use></svg>
+                            </button>
+                            <input type="file" id="claude-attach-input" accept="image/png,image/jpeg,image/gif,image/webp" multiple style="display: none;">
                             <button class="b3-button b3-button--outline b3-button--small" id="claude-insert-btn" title="Insert response at cursor" style="display: none; padding: 2px 8px;">
                                 Insert
                             </button>
@@ -271,6 +308,84 @@ export class UnifiedPanelUIBuilder {
         return `<option value="${escapedId}" ${selected ? 'selected' : ''}>${escapedIcon} ${escapedName}</option>`;
     }
 
+    /**
+     * Create HTML for a single chat session list item
+     */
+    static createSessionItem(
+        sessionId: string,
+        title: string,
+        meta: string,
+        isActive: boolean
+    ): string {
+        const escapedId = SecurityUtils.escapeHtml(sessionId);
+
+        return `
+            <div class="claude-session-item${isActive ? ' claude-session-item--active' : ''}" data-session-id="${escapedId}" style="padding: 4px 6px; margin: 2px 0; border-radius: 4px; font-size: 12px; cursor: pointer; ${isActive ? 'background: var(--b3-theme-primary-lightest);' : ''}">
+                <div class="fn__flex" style="align-items: center; gap: 4px;">
+                    <div style="flex: 1; min-width: 0;">
+                        <div class="claude-session-title" style="white-space: nowrap; overflow: hidden; text-overflow: ellipsis; font-weight: ${isActive ? '600' : '400'};">${SecurityUtils.escapeHtml(this.truncate(title, 60))}</div>
+                        <div class="ft__secondary" style="font-size: 11px; white-space: nowrap; overflow: hidden; text-overflow: ellipsis;">${SecurityUtils.escapeHtml(meta)}</div>
+                    </div>
+                    <button class="b3-button b3-button--text" data-session-action="rename" title="重命名" style="padding: 1px 3px;">
+                        <svg class="fn__size200"><use xlink:href="#iconEdit"></use></svg>
+                    </button>
+                    <button class="b3-button b3-button--text" data-session-action="delete" title="删除" style="padding: 1px 3px;">
+                        <svg class="fn__size200"><use xlink:href="#iconTrashcan"></use></svg>
+                    </button>
+                </div>
+            </div>
+        `;
+    }
+
+    /**
+     * Create empty session list placeholder HTML
+     */
+    static createEmptySessionList(): string {
+        return `
+            <div class="ft__secondary" style="text-align: center; padding: 8px; font-size: 12px;">
+                暂无历史会话
+            </div>
+        `;
+    }
+
+    /**
+     * Create content of the "export conversation to document" dialog
+     */
+    static createExportDialogContent(title: string, defaultPath: string): string {
+        return `
+            <div class="claude-export-dialog" style="padding: 16px;">
+                <div style="margin-bottom: 12px;">
+                    <label style="display: block; margin-bottom: 6px; font-weight: 500;">笔记本</label>
+                    <select class="b3-select" id="claude-export-notebook" style="width: 100%;">
+                        <option value="">加载中...</option>
+                    </select>
+                </div>
+                <div style="margin-bottom: 12px;">
+                    <label style="display: block; margin-bottom: 6px; font-weight: 500;">文档路径</label>
+                    <input type="text" class="b3-text-field" id="claude-export-path" value="${SecurityUtils.escapeHtml(defaultPath)}" style="width: 100%;">
+                    <div class="ft__smaller ft__secondary" style="margin-top: 4px;">
+                        使用 / 分隔父文档，例如：AI Chats/${SecurityUtils.escapeHtml(title)}
+                    </div>
+                </div>
+                <div style="margin-bottom: 12px;">
+                    <label style="display: block; margin-bottom: 6px; font-weight: 500;">对话样式</label>
+                    <select class="b3-select" id="claude-export-style" style="width: 100%;">
+                        <option value="heading">标题分隔</option>
+                        <option value="callout">提示框 (Callout)</option>
+                    </select>
+                </div>
+                <label style="display: flex; align-items: center; gap: 6px; margin-bottom: 16px; cursor: pointer;">
+                    <input type="checkbox" class="b3-switch" id="claude-export-timestamps">
+                    <span>包含消息时间</span>
+                </label>
+                <div style="display: flex; justify-content: flex-end; gap: 8px;">
+                    <button class="b3-button b3-button--cancel" id="claude-export-cancel">取消</button>
+                    <button class="b3-button b3-button--text" id="claude-export-confirm">导出</button>
+                </div>
+            </div>
+        `;
+    }
+
     /**
      * Truncate text to specified length
      */
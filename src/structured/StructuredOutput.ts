@@ -0,0 +1,142 @@
+/**
+ * Structured Output - Parse and validate JSON answers against a preset schema
+ *
+ * Providers with native structured output already return schema-shaped JSON;
+ * the others get the schema in the system prompt. Either way the answer is
+ * validated here, and the caller retries with the validation errors.
+ *
+ * Validation covers the schema subset shared with tool parameters:
+ * type, properties, required, items and enum.
+ */
+
+import type { ToolParameterSchema } from "../ai/types";
+
+/**
+ * Result of parsing an answer
+ */
+export interface StructuredParseResult {
+    /** Parsed JSON (undefined when the text is not JSON) */
+    data?: any;
+    /** Validation errors (empty when the answer matches the schema) */
+    errors: string[];
+}
+
+/** Validation errors reported back to the model */
+const MAX_REPORTED_ERRORS = 10;
+
+export class StructuredOutput {
+    /**
+     * Parse an answer and validate it against the schema
+     * Tolerates code fences and text around the JSON object
+     */
+    static parse(text: string, schema: ToolParameterSchema): StructuredParseResult {
+        const json = this.extractJSON(text);
+        if (json === null) {
+            return { errors: ['The answer is not a JSON object'] };
+        }
+
+        let data: any;
+        try {
+            data = JSON.parse(json);
+        } catch (error) {
+            return { errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+        }
+
+        return { data, errors: this.validate(data, schema).slice(0, MAX_REPORTED_ERRORS) };
+    }
+
+    /**
+     * Validate a value against a schema
+     * @returns Error messages with JSON paths (empty when valid)
+     */
+    static validate(value: any, schema: ToolParameterSchema, path: string = '$'): string[] {
+        if (!this.matchesType(value, schema.type)) {
+            return [`${path}: expected ${schema.type}, got ${this.describeType(value)}`];
+        }
+
+        const errors: string[] = [];
+        if (schema.enum && !schema.enum.includes(value)) {
+            errors.push(`${path}: must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`);
+        }
+
+        if (schema.type === 'object') {
+            for (const key of schema.required || []) {
+                if (value[key] === undefined) {
+                    errors.push(`${path}.${key}: required property is missing`);
+                }
+            }
+            for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+                if (value[key] !== undefined) {
+                    errors.push(...this.validate(value[key], propertySchema, `${path}.${key}`));
+                }
+            }
+        } else if (schema.type === 'array' && schema.items) {
+            (value as any[]).forEach((item, index) => {
+                errors.push(...this.validate(item, schema.items!, `${path}[${index}]`));
+            });
+        }
+
+        return errors;
+    }
+
+    /**
+     * System prompt section for providers without native structured output
+     */
+    static buildInstruction(schema: ToolParameterSchema): string {
+        return [
+            'Answer only with a JSON object that matches this JSON schema.',
+            'Do not wrap it in code fences and do not add any text before or after it.',
+            '',
+            JSON.stringify(schema, null, 2)
+        ].join('\n');
+    }
+
+    /**
+     * Follow-up message asking the model to fix an invalid answer
+     */
+    static buildRetryPrompt(errors: string[]): string {
+        return [
+            'Your answer does not match the required JSON schema:',
+            ...errors.map(error => `- ${error}`),
+            '',
+            'Answer again with only the corrected JSON object.'
+        ].join('\n');
+    }
+
+    /**
+     * Cut the JSON object out of an answer (code fences, leading or trailing text)
+     */
+    private static extractJSON(text: string): string | null {
+        const trimmed = text.trim();
+        const fenced = trimmed.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/i);
+        const candidate = fenced ? fenced[1].trim() : trimmed;
+
+        const start = candidate.indexOf('{');
+        const end = candidate.lastIndexOf('}');
+        if (start === -1 || end < start) {
+            return null;
+        }
+        return candidate.slice(start, end + 1);
+    }
+
+    private static matchesType(value: any, type: ToolParameterSchema['type']): boolean {
+        switch (type) {
+            case 'object':
+                return typeof value === 'object' && value !== null && !Array.isArray(value);
+            case 'array':
+                return Array.isArray(value);
+            case 'integer':
+                return Number.isInteger(value);
+            case 'number':
+                return typeof value === 'number' && Number.isFinite(value);
+            default:
+                return typeof value === type;
+        }
+    }
+
+    private static describeType(value: any): string {
+        if (value === null) return 'null';
+        if (Array.isArray(value)) return 'array';
+        return typeof value;
+    }
+}
@@ -0,0 +1,130 @@
+/**
+ * Structured Renderer - Turn a structured answer into SiYuan blocks
+ *
+ * Table, task and list modes render the first array found in the answer
+ * (the root itself or its first array property), since the schema root
+ * must be an object.
+ */
+
+import type { StructuredRenderMode, StructuredRenderResult } from "./types";
+
+/** Item fields used as the text of list and task items */
+const TEXT_FIELDS = ['text', 'title', 'task', 'name', 'content', 'summary'];
+
+/** Item fields marking a task as done */
+const DONE_FIELDS = ['done', 'completed', 'checked'];
+
+export class StructuredRenderer {
+    /**
+     * Render structured data
+     */
+    static render(data: any, mode: StructuredRenderMode): StructuredRenderResult {
+        switch (mode) {
+            case 'table':
+                return { markdown: this.renderTable(this.findArray(data)) };
+            case 'tasks':
+                return { markdown: this.renderList(this.findArray(data), true) };
+            case 'list':
+                return { markdown: this.renderList(this.findArray(data), false) };
+            case 'attributes':
+                return this.renderAttributes(data);
+            default:
+                return { markdown: '```json\n' + JSON.stringify(data, null, 2) + '\n```' };
+        }
+    }
+
+    /**
+     * Markdown table from an array of objects (columns in first-seen order)
+     */
+    private static renderTable(rows: any[]): string {
+        if (rows.length === 0) return '';
+
+        const objects = rows.map(row => this.isPlainObject(row) ? row : { value: row });
+        const columns: string[] = [];
+        for (const row of objects) {
+            for (const key of Object.keys(row)) {
+                if (!columns.includes(key)) columns.push(key);
+            }
+        }
+
+        const line = (cells: string[]) => `| ${cells.join(' | ')} |`;
+        return [
+            line(columns.map(column => this.escapeCell(column))),
+            line(columns.map(() => '---')),
+            ...objects.map(row => line(columns.map(column => this.escapeCell(this.formatValue(row[column])))))
+        ].join('\n');
+    }
+
+    private static renderList(items: any[], tasks: boolean): string {
+        return items.map(item => {
+            const text = this.itemText(item).replace(/\n+/g, ' ');
+            if (!tasks) return `- ${text}`;
+            const done = this.isPlainObject(item) && DONE_FIELDS.some(field => item[field] === true);
+            return `- [${done ? 'x' : ' '}] ${text}`;
+        }).join('\n');
+    }
+
+    /**
+     * Top-level fields become custom-* attributes; the markdown is a preview only
+     */
+    private static renderAttributes(data: any): StructuredRenderResult {
+        const attributes: Record<string, string> = {};
+        if (this.isPlainObject(data)) {
+            for (const [key, value] of Object.entries(data)) {
+                const name = this.toAttributeName(key);
+                if (name && value !== undefined && value !== null) {
+                    attributes[name] = Array.isArray(value) ? value.map(v => this.formatValue(v)).join(',') : this.formatValue(value);
+                }
+            }
+        }
+
+        const markdown = Object.entries(attributes).map(([name, value]) => `- \`${name}\`: ${value}`).join('\n');
+        return { markdown, attributes };
+    }
+
+    private static findArray(data: any): any[] {
+        if (Array.isArray(data)) return data;
+        if (this.isPlainObject(data)) {
+            const array = Object.values(data).find(value => Array.isArray(value));
+            if (array) return array as any[];
+            return [data];
+        }
+        return data === undefined || data === null ? [] : [data];
+    }
+
+    private static itemText(item: any): string {
+        if (!this.isPlainObject(item)) return this.formatValue(item);
+        const field = TEXT_FIELDS.find(name => typeof item[name] === 'string');
+        if (field) return item[field];
+        return Object.entries(item)
+            .filter(([key]) => !DONE_FIELDS.includes(key))
+            .map(([, value]) => this.formatValue(value))
+            .join(' - ');
+    }
+
+    private static formatValue(value: any): string {
+        if (value === undefined || value === null) return '';
+        if (typeof value === 'object') return JSON.stringify(value);
+        return String(value);
+    }
+
+    private static escapeCell(text: string): string {
+        return text.replace(/\|/g, '\\|').replace(/\n+/g, '<br>');
+    }
+
+    /**
+     * SiYuan only accepts custom attributes named custom-[a-z0-9-]
+     */
+    private static toAttributeName(key: string): string {
+        const slug = key
+            .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+            .toLowerCase()
+            .replace(/[^a-z0-9-]+/g, '-')
+            .replace(/^-+|-+$/g, '');
+        return slug ? `custom-${slug}` : '';
+    }
+
+    private static isPlainObject(value: any): value is Record<string, any> {
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+}
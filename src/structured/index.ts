@@ -0,0 +1,9 @@
+/**
+ * 结构化输出模块
+ * 预设可声明 JSON Schema：解析、校验模型返回的 JSON，并渲染为思源块（表格、任务列表、块属性）
+ */
+
+export { StructuredOutput } from "./StructuredOutput";
+export type { StructuredParseResult } from "./StructuredOutput";
+export { StructuredRenderer } from "./StructuredRenderer";
+export type { StructuredRenderMode, StructuredOutputConfig, StructuredRenderResult } from "./types";
@@ -0,0 +1,36 @@
+/**
+ * 结构化输出类型定义
+ * Presets with an output schema answer with JSON that is rendered as SiYuan blocks
+ */
+
+import type { ToolParameterSchema } from "../ai/types";
+
+/**
+ * How structured output is turned into blocks
+ * - table: the first array of objects becomes a table
+ * - tasks: array items become a task list ("done" / "completed" mark checked items)
+ * - list: array items become a bullet list
+ * - attributes: top-level fields become custom-* block attributes (text is kept)
+ * - json: the JSON itself in a code block
+ */
+export type StructuredRenderMode = 'table' | 'tasks' | 'list' | 'attributes' | 'json';
+
+/**
+ * Output schema declared by a preset
+ */
+export interface StructuredOutputConfig {
+    /** JSON schema of the answer (root must be an object) */
+    schema: ToolParameterSchema;
+    /** How the answer is rendered */
+    render: StructuredRenderMode;
+}
+
+/**
+ * Blocks and attribute updates produced from a structured answer
+ */
+export interface StructuredRenderResult {
+    /** Markdown to insert or replace with (empty for attribute-only results) */
+    markdown: string;
+    /** Attributes to set on the target block (custom-* names) */
+    attributes?: Record<string, string>;
+}
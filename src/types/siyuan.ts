@@ -138,6 +138,24 @@ export interface ContentMenuEvent {
     element: HTMLElement;
 }
 
+/**
+ * Document tree menu event detail
+ */
+export interface DocTreeMenuEvent {
+    menu: IMenu;
+    elements: NodeListOf<HTMLElement> | HTMLElement[];
+    type: 'doc' | 'docs' | 'notebook';
+}
+
+/**
+ * Editor title icon menu event detail
+ */
+export interface EditorTitleMenuEvent {
+    menu: IMenu;
+    protyle: IProtyle;
+    data: { id: string; rootID: string; name?: string };
+}
+
 /**
  * SiYuan Plugin extended interface
  * Provides strong typing for SiYuan plugin API
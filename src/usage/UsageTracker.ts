@@ -0,0 +1,347 @@
+/**
+ * Usage Tracker - Persistent token usage and cost aggregates
+ *
+ * Features:
+ * - Aggregates per day × provider × model × feature × preset (no request content stored)
+ * - Persisted with plugin.saveData (localStorage as fallback)
+ * - Monthly budget warnings, raised once per month and level
+ *
+ * @module UsageTracker
+ * @see UniversalAIClient
+ */
+
+import type { ISiYuanPlugin } from "../types/siyuan";
+import { estimateCost } from "./pricing";
+import type {
+    BudgetWarningLevel,
+    UsageBucket,
+    UsageDimension,
+    UsageRecord,
+    UsageSettings,
+    UsageTotals
+} from "./types";
+import { DEFAULT_USAGE_SETTINGS } from "./types";
+
+const STORAGE_KEY = 'claude-usage-stats';
+const FILE_NAME = 'usage-stats.json';
+const MAX_DAYS = 400;
+const SAVE_DELAY = 2000; // Debounce writes while streaming many requests
+const INIT_TIMEOUT = 3000; // 3s timeout for file loading
+
+interface UsageStore {
+    version: number;
+    /** Buckets keyed by local date (YYYY-MM-DD) */
+    days: Record<string, UsageBucket[]>;
+    /** Budget warnings already shown, keyed by month (YYYY-MM) */
+    budgetWarnings: Record<string, BudgetWarningLevel>;
+}
+
+export type BudgetWarningHandler = (level: BudgetWarningLevel, spent: number, budget: number) => void;
+
+export class UsageTracker {
+    private plugin: ISiYuanPlugin | null = null;
+    private store: UsageStore = { version: 1, days: {}, budgetWarnings: {} };
+    private settings: UsageSettings = { ...DEFAULT_USAGE_SETTINGS };
+    private initPromise: Promise<void> | null = null;
+    private saveTimer: ReturnType<typeof setTimeout> | null = null;
+    private budgetWarningHandler: BudgetWarningHandler | null = null;
+
+    /**
+     * Attach plugin storage and load saved aggregates
+     */
+    setPlugin(plugin: ISiYuanPlugin): Promise<void> {
+        this.plugin = plugin;
+        this.initPromise = null;
+        return this.init();
+    }
+
+    /**
+     * Load aggregates from storage (safe to call multiple times)
+     */
+    init(): Promise<void> {
+        if (!this.initPromise) {
+            this.initPromise = this.load();
+        }
+        return this.initPromise;
+    }
+
+    configure(settings?: Partial<UsageSettings>): void {
+        this.settings = { ...DEFAULT_USAGE_SETTINGS, ...settings };
+    }
+
+    getSettings(): UsageSettings {
+        return { ...this.settings };
+    }
+
+    onBudgetWarning(handler: BudgetWarningHandler | null): void {
+        this.budgetWarningHandler = handler;
+    }
+
+    /**
+     * Record a completed request
+     * @returns Estimated cost in USD
+     */
+    record(record: UsageRecord): number {
+        const date = new Date(record.timestamp ?? Date.now());
+        const dayKey = UsageTracker.toDayKey(date);
+        const cost = estimateCost(record.provider, record.model, record.usage);
+        const presetId = record.presetId || 'default';
+
+        const buckets = this.store.days[dayKey] || (this.store.days[dayKey] = []);
+        let bucket = buckets.find(b =>
+            b.provider === record.provider &&
+            b.model === record.model &&
+            b.feature === record.feature &&
+            b.presetId === presetId
+        );
+        if (!bucket) {
+            bucket = {
+                provider: record.provider,
+                model: record.model,
+                feature: record.feature,
+                presetId,
+                ...UsageTracker.emptyTotals()
+            };
+            buckets.push(bucket);
+        }
+
+        UsageTracker.addTotals(bucket, {
+            requests: 1,
+            // Dashboard input counts all prompt tokens, cached or not
+            inputTokens: record.usage.inputTokens + (record.usage.cacheReadTokens ?? 0) + (record.usage.cacheWriteTokens ?? 0),
+            outputTokens: record.usage.outputTokens,
+            thinkingTokens: record.usage.thinkingTokens ?? 0,
+            cost
+        });
+
+        this.checkBudget(date);
+        this.scheduleSave();
+        return cost;
+    }
+
+    /**
+     * Daily totals for the last `days` days (oldest first, days without usage included)
+     */
+    getDailyTotals(days: number, now: Date = new Date()): Array<{ date: string } & UsageTotals> {
+        const result: Array<{ date: string } & UsageTotals> = [];
+
+        for (let i = days - 1; i >= 0; i--) {
+            const date = new Date(now.getFullYear(), now.getMonth(), now.getDate() - i);
+            const dayKey = UsageTracker.toDayKey(date);
+            const totals = UsageTracker.emptyTotals();
+            (this.store.days[dayKey] || []).forEach(b => UsageTracker.addTotals(totals, b));
+            result.push({ date: dayKey, ...totals });
+        }
+
+        return result;
+    }
+
+    /**
+     * Totals grouped by a dimension since a date (highest cost first)
+     */
+    getTotalsBy(dimension: UsageDimension, sinceDayKey: string): Array<{ key: string } & UsageTotals> {
+        const groups = new Map<string, UsageTotals>();
+
+        for (const [dayKey, buckets] of Object.entries(this.store.days)) {
+            if (dayKey < sinceDayKey) continue;
+
+            for (const bucket of buckets) {
+                const key = bucket[dimension];
+                const totals = groups.get(key) || UsageTracker.emptyTotals();
+                UsageTracker.addTotals(totals, bucket);
+                groups.set(key, totals);
+            }
+        }
+
+        return Array.from(groups.entries())
+            .map(([key, totals]) => ({ key, ...totals }))
+            .sort((a, b) => b.cost - a.cost || b.requests - a.requests);
+    }
+
+    /**
+     * Totals for the calendar month containing `date`
+     */
+    getMonthTotals(date: Date = new Date()): UsageTotals {
+        const monthKey = UsageTracker.toDayKey(date).substring(0, 7);
+        const totals = UsageTracker.emptyTotals();
+
+        for (const [dayKey, buckets] of Object.entries(this.store.days)) {
+            if (dayKey.startsWith(monthKey)) {
+                buckets.forEach(b => UsageTracker.addTotals(totals, b));
+            }
+        }
+
+        return totals;
+    }
+
+    /**
+     * Delete all recorded usage
+     */
+    async clear(): Promise<void> {
+        this.store = { version: 1, days: {}, budgetWarnings: {} };
+        await this.save();
+    }
+
+    /**
+     * Local date key (YYYY-MM-DD)
+     */
+    static toDayKey(date: Date): string {
+        const month = String(date.getMonth() + 1).padStart(2, '0');
+        const day = String(date.getDate()).padStart(2, '0');
+        return `${date.getFullYear()}-${month}-${day}`;
+    }
+
+    private static emptyTotals(): UsageTotals {
+        return { requests: 0, inputTokens: 0, outputTokens: 0, thinkingTokens: 0, cost: 0 };
+    }
+
+    private static addTotals(target: UsageTotals, source: UsageTotals): void {
+        target.requests += source.requests;
+        target.inputTokens += source.inputTokens;
+        target.outputTokens += source.outputTokens;
+        target.thinkingTokens += source.thinkingTokens;
+        target.cost += source.cost;
+    }
+
+    /**
+     * Raise a budget warning the first time a level is reached in a month
+     */
+    private checkBudget(date: Date): void {
+        const budget = this.settings.monthlyBudget;
+        if (!budget || budget <= 0) return;
+
+        const monthKey = UsageTracker.toDayKey(date).substring(0, 7);
+        const spent = this.getMonthTotals(date).cost;
+        const previous = this.store.budgetWarnings[monthKey];
+
+        let level: BudgetWarningLevel | null = null;
+        if (spent >= budget) {
+            level = 'exceeded';
+        } else if (spent >= budget * this.settings.warnAtPercent / 100) {
+            level = 'warning';
+        }
+
+        if (!level || previous === level || previous === 'exceeded') return;
+
+        this.store.budgetWarnings[monthKey] = level;
+        console.log(`[UsageTracker] Budget ${level}: $${spent.toFixed(2)} / $${budget}`);
+        this.budgetWarningHandler?.(level, spent, budget);
+    }
+
+    /**
+     * Drop days beyond MAX_DAYS
+     */
+    private enforceRetention(): void {
+        const dayKeys = Object.keys(this.store.days).sort();
+        dayKeys.slice(0, Math.max(0, dayKeys.length - MAX_DAYS)).forEach(key => {
+            delete this.store.days[key];
+        });
+    }
+
+    private scheduleSave(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+        }
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = null;
+            this.save();
+        }, SAVE_DELAY);
+    }
+
+    /**
+     * Load aggregates (file storage first, localStorage as fallback)
+     * Requests recorded before loading finished are merged into the loaded data
+     */
+    private async load(): Promise<void> {
+        let stored: UsageStore | null = null;
+
+        if (this.plugin && typeof this.plugin.loadData === 'function') {
+            let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
+            try {
+                const timeoutPromise = new Promise<never>((_, reject) => {
+                    timeoutHandle = setTimeout(() => reject(new Error('File load timeout')), INIT_TIMEOUT);
+                });
+                const loadPromise = this.plugin.loadData(FILE_NAME) as Promise<UsageStore | null>;
+                stored = this.validateStore(await Promise.race([loadPromise, timeoutPromise]));
+            } catch (error) {
+                console.warn('[UsageTracker] Failed to load usage from file:', error);
+            } finally {
+                clearTimeout(timeoutHandle);
+            }
+        }
+
+        if (!stored) {
+            try {
+                const localData = localStorage.getItem(STORAGE_KEY);
+                stored = localData ? this.validateStore(JSON.parse(localData)) : null;
+            } catch (error) {
+                console.warn('[UsageTracker] Failed to load usage from localStorage:', error);
+            }
+        }
+
+        if (stored) {
+            const pending = this.store;
+            this.store = stored;
+            for (const [dayKey, buckets] of Object.entries(pending.days)) {
+                for (const bucket of buckets) {
+                    const target = (this.store.days[dayKey] || (this.store.days[dayKey] = []))
+                        .find(b => b.provider === bucket.provider && b.model === bucket.model &&
+                            b.feature === bucket.feature && b.presetId === bucket.presetId);
+                    if (target) {
+                        UsageTracker.addTotals(target, bucket);
+                    } else {
+                        this.store.days[dayKey].push(bucket);
+                    }
+                }
+            }
+            this.store.budgetWarnings = { ...this.store.budgetWarnings, ...pending.budgetWarnings };
+        }
+
+        console.log(`[UsageTracker] Loaded usage for ${Object.keys(this.store.days).length} days`);
+    }
+
+    /**
+     * Save aggregates to localStorage and file storage
+     */
+    private async save(): Promise<void> {
+        this.enforceRetention();
+
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(this.store));
+        } catch (error) {
+            console.warn('[UsageTracker] Failed to save to localStorage:', error);
+        }
+
+        if (this.plugin && typeof this.plugin.saveData === 'function') {
+            try {
+                await this.plugin.saveData(FILE_NAME, this.store);
+            } catch (error) {
+                console.warn('[UsageTracker] Failed to save to file storage:', error);
+            }
+        }
+    }
+
+    /**
+     * Validate stored data, dropping malformed buckets
+     */
+    private validateStore(data: unknown): UsageStore | null {
+        if (!data || typeof data !== 'object' || typeof (data as UsageStore).days !== 'object') {
+            return null;
+        }
+
+        const raw = data as UsageStore;
+        const days: Record<string, UsageBucket[]> = {};
+        for (const [dayKey, buckets] of Object.entries(raw.days || {})) {
+            if (!/^\d{4}-\d{2}-\d{2}$/.test(dayKey) || !Array.isArray(buckets)) continue;
+            days[dayKey] = buckets.filter(b => b && typeof b.provider === 'string' && typeof b.requests === 'number');
+        }
+
+        return {
+            version: 1,
+            days,
+            budgetWarnings: raw.budgetWarnings && typeof raw.budgetWarnings === 'object' ? raw.budgetWarnings : {}
+        };
+    }
+}
+
+export const usageTracker = new UsageTracker();
@@ -0,0 +1,18 @@
+/**
+ * 用量统计模块
+ * Token 用量与费用估算，按日期、提供商、功能和预设汇总
+ */
+
+export { UsageTracker, usageTracker } from "./UsageTracker";
+export type { BudgetWarningHandler } from "./UsageTracker";
+export { MODEL_PRICES, getModelPrice, estimateCost } from "./pricing";
+export type { ModelPrice } from "./pricing";
+export type {
+    UsageRecord,
+    UsageTotals,
+    UsageBucket,
+    UsageDimension,
+    UsageSettings,
+    BudgetWarningLevel
+} from "./types";
+export { DEFAULT_USAGE_SETTINGS } from "./types";
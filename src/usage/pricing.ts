@@ -0,0 +1,118 @@
+/**
+ * 模型价格表
+ * List prices in USD per million tokens, matched by the longest model ID prefix.
+ * Vendors change prices over time; costs shown in the dashboard are estimates.
+ */
+
+import type { TokenUsage } from "../ai/types";
+
+export interface ModelPrice {
+    /** USD per million input tokens */
+    input: number;
+    /** USD per million output tokens (reasoning tokens are billed as output) */
+    output: number;
+}
+
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+    // Anthropic
+    'claude-opus-4-5': { input: 5, output: 25 },
+    'claude-opus-4': { input: 15, output: 75 },
+    'claude-sonnet-4': { input: 3, output: 15 },
+    'claude-haiku-4-5': { input: 1, output: 5 },
+    'claude-3-7-sonnet': { input: 3, output: 15 },
+    'claude-3-5-sonnet': { input: 3, output: 15 },
+    'claude-3-5-haiku': { input: 0.8, output: 4 },
+    'claude-3-opus': { input: 15, output: 75 },
+    'claude-3-sonnet': { input: 3, output: 15 },
+    'claude-3-haiku': { input: 0.25, output: 1.25 },
+
+    // OpenAI
+    'gpt-5': { input: 1.25, output: 10 },
+    'chatgpt-4o-latest': { input: 5, output: 15 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4-turbo': { input: 10, output: 30 },
+    'gpt-4-0125-preview': { input: 10, output: 30 },
+    'gpt-4-32k': { input: 60, output: 120 },
+    'gpt-4': { input: 30, output: 60 },
+    'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+    'o1': { input: 15, output: 60 },
+    'o1-mini': { input: 1.1, output: 4.4 },
+    'o3-mini': { input: 1.1, output: 4.4 },
+
+    // Google Gemini
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+    'gemini-1.5-pro': { input: 1.25, output: 5 },
+    'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+
+    // xAI
+    'grok-4': { input: 3, output: 15 },
+    'grok-3-mini': { input: 0.3, output: 0.5 },
+    'grok-3': { input: 3, output: 15 },
+    'grok-2': { input: 2, output: 10 },
+    'grok-beta': { input: 5, output: 15 },
+
+    // DeepSeek
+    'deepseek-chat': { input: 0.27, output: 1.1 },
+    'deepseek-reasoner': { input: 0.55, output: 2.19 },
+
+    // Moonshot (converted from CNY list prices)
+    'moonshot-v1-8k': { input: 1.7, output: 1.7 },
+    'moonshot-v1-32k': { input: 3.3, output: 3.3 },
+    'moonshot-v1-128k': { input: 8.3, output: 8.3 },
+    'kimi-k2': { input: 0.6, output: 2.5 },
+};
+
+/** Providers that never incur API costs */
+const FREE_PROVIDERS = ['local'];
+
+/** Cache read price as a share of the input price (vendor defaults, estimates) */
+const CACHE_READ_RATES: Record<string, number> = {
+    anthropic: 0.1,
+    openai: 0.5,
+    gemini: 0.25,
+    deepseek: 0.25,
+};
+
+/** Cache write price as a share of the input price (Anthropic 5 minute cache) */
+const CACHE_WRITE_RATE = 1.25;
+
+/**
+ * Find the price for a model (longest matching prefix)
+ * @returns null if the model is not in the table
+ */
+export function getModelPrice(model: string): ModelPrice | null {
+    const id = model.toLowerCase();
+    let best: string | null = null;
+
+    for (const key of Object.keys(MODEL_PRICES)) {
+        if (id.startsWith(key) && (!best || key.length > best.length)) {
+            best = key;
+        }
+    }
+
+    return best ? MODEL_PRICES[best] : null;
+}
+
+/**
+ * Estimate the cost of a request in USD (0 for local and unknown models)
+ */
+export function estimateCost(provider: string, model: string, usage: TokenUsage): number {
+    if (FREE_PROVIDERS.includes(provider)) {
+        return 0;
+    }
+
+    const price = getModelPrice(model);
+    if (!price) {
+        return 0;
+    }
+
+    const cacheReadRate = CACHE_READ_RATES[provider] ?? 0.5;
+    const inputCost = usage.inputTokens * price.input
+        + (usage.cacheReadTokens ?? 0) * price.input * cacheReadRate
+        + (usage.cacheWriteTokens ?? 0) * price.input * CACHE_WRITE_RATE;
+
+    return (inputCost + usage.outputTokens * price.output) / 1000000;
+}
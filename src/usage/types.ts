@@ -0,0 +1,77 @@
+/**
+ * 用量统计类型定义
+ * Token usage and cost accounting per day, provider, model, feature and preset
+ */
+
+import type { TokenUsage } from "../ai/types";
+
+/**
+ * A completed request to be recorded
+ */
+export interface UsageRecord {
+    /** Provider that answered */
+    provider: string;
+
+    /** Model ID */
+    model: string;
+
+    /** Feature source (Chat, QuickEdit, ...) */
+    feature: string;
+
+    /** Preset the request was sent with (if known) */
+    presetId?: string;
+
+    /** Token counts reported by the provider */
+    usage: TokenUsage;
+
+    /** Request time (defaults to now) */
+    timestamp?: number;
+}
+
+/**
+ * Summed counters
+ */
+export interface UsageTotals {
+    requests: number;
+    inputTokens: number;
+    outputTokens: number;
+    thinkingTokens: number;
+    /** Estimated cost in USD */
+    cost: number;
+}
+
+/**
+ * Aggregated usage for one provider/model/feature/preset on one day
+ */
+export interface UsageBucket extends UsageTotals {
+    provider: string;
+    model: string;
+    feature: string;
+    presetId: string;
+}
+
+/**
+ * Dimension used to group the dashboard tables
+ */
+export type UsageDimension = 'provider' | 'model' | 'feature' | 'presetId';
+
+/**
+ * Budget warning level
+ */
+export type BudgetWarningLevel = 'warning' | 'exceeded';
+
+/**
+ * Usage settings (stored in ClaudeSettings.usage)
+ */
+export interface UsageSettings {
+    /** Monthly budget in USD (0 disables warnings) */
+    monthlyBudget: number;
+
+    /** Warn when this percentage of the budget is spent */
+    warnAtPercent: number;
+}
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+    monthlyBudget: 0,
+    warnAtPercent: 80
+};
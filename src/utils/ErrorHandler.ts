@@ -5,44 +5,16 @@
 
 import { showMessage } from 'siyuan';
 import { Logger } from './Logger';
+import {
+    ValidationError,
+    NetworkError,
+    APIError,
+    TimeoutError,
+    ConfigurationError,
+} from './errors';
 
-/**
- * Custom error types for better error categorization
- */
-export class ValidationError extends Error {
-    constructor(message: string) {
-        super(message);
-        this.name = 'ValidationError';
-    }
-}
-
-export class NetworkError extends Error {
-    constructor(message: string, public readonly statusCode?: number) {
-        super(message);
-        this.name = 'NetworkError';
-    }
-}
-
-export class APIError extends Error {
-    constructor(message: string, public readonly provider?: string) {
-        super(message);
-        this.name = 'APIError';
-    }
-}
-
-export class TimeoutError extends Error {
-    constructor(message: string, public readonly timeoutMs?: number) {
-        super(message);
-        this.name = 'TimeoutError';
-    }
-}
-
-export class ConfigurationError extends Error {
-    constructor(message: string) {
-        super(message);
-        this.name = 'ConfigurationError';
-    }
-}
+// Re-export error types for existing imports
+export { ValidationError, NetworkError, APIError, TimeoutError, ConfigurationError };
 
 /**
  * Error handler options
@@ -0,0 +1,38 @@
+/**
+ * SiYuan API - Calls to the kernel API of the running SiYuan instance
+ *
+ * Every kernel endpoint takes a JSON body and answers { code, msg, data };
+ * a non-zero code is turned into an Error carrying the kernel's message.
+ */
+
+export class SiYuanApi {
+    /**
+     * POST to a kernel endpoint and return its data
+     * @throws Error when the request fails or the kernel reports an error
+     */
+    static async post<T = any>(url: string, body: object = {}): Promise<T> {
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        });
+
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+        }
+
+        const result = await response.json();
+        if (result.code !== 0) {
+            throw new Error(result.msg || `Request to ${url} failed`);
+        }
+        return result.data;
+    }
+
+    /**
+     * Run a SQL query against the blocks database
+     * Callers must escape the values they put into the statement
+     */
+    static async sql<T = Record<string, any>>(stmt: string): Promise<T[]> {
+        return (await this.post<T[] | null>('/api/query/sql', { stmt })) || [];
+    }
+}
@@ -0,0 +1,180 @@
+/**
+ * Image Loader - Turns files and SiYuan assets into message image attachments
+ *
+ * Sources:
+ * - Files from paste, drag & drop or the file picker
+ * - Images referenced as assets in block markdown (![](assets/xxx.png))
+ *
+ * Only formats accepted by Anthropic, OpenAI and Gemini alike are supported.
+ */
+
+import type { ImageAttachment } from "../claude/types";
+import { SecurityUtils } from "../utils/Security";
+import { SiYuanApi } from "../utils/SiYuanApi";
+
+/** Image types accepted by all vision providers */
+export const SUPPORTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+/** Per-image size limit (Anthropic rejects base64 images over 5 MB) */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/** Images attached to a single message */
+export const MAX_IMAGES_PER_MESSAGE = 5;
+
+const EXTENSION_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp'
+};
+
+/**
+ * Loaded images and how many were left out
+ */
+export interface ImageLoadResult {
+    images: ImageAttachment[];
+    /** Images skipped (unsupported type, too large, failed to load or over the limit) */
+    skipped: number;
+}
+
+export class ImageLoader {
+    /**
+     * Load an image file (paste, drop or file picker)
+     * @throws Error if the type is unsupported or the file is too large
+     */
+    static async fromFile(file: Blob, name?: string): Promise<ImageAttachment> {
+        const mediaType = file.type || this.guessMediaType(name || '');
+        if (!SUPPORTED_IMAGE_TYPES.includes(mediaType)) {
+            throw new Error(`Unsupported image type: ${mediaType || 'unknown'}`);
+        }
+        if (file.size > MAX_IMAGE_BYTES) {
+            throw new Error(`Image is larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB`);
+        }
+
+        const data = this.toBase64(await file.arrayBuffer());
+        return { mediaType, data, name: name || (file as File).name };
+    }
+
+    /**
+     * Load several files, skipping the ones that fail
+     */
+    static async fromFiles(files: File[], limit: number = MAX_IMAGES_PER_MESSAGE): Promise<ImageLoadResult> {
+        const images: ImageAttachment[] = [];
+        let skipped = 0;
+
+        for (const file of files) {
+            if (images.length >= limit) {
+                skipped++;
+                continue;
+            }
+            try {
+                images.push(await this.fromFile(file, file.name));
+            } catch (error) {
+                console.warn(`[ImageLoader] Skipped ${file.name}:`, error);
+                skipped++;
+            }
+        }
+
+        return { images, skipped };
+    }
+
+    /**
+     * Load a SiYuan asset (e.g. "assets/image-20250101-abc.png")
+     */
+    static async fromAsset(path: string): Promise<ImageAttachment> {
+        const response = await fetch(`/${path.replace(/^\/+/, '')}`);
+        if (!response.ok) {
+            throw new Error(`Failed to load asset ${path}: ${response.status}`);
+        }
+
+        const blob = await response.blob();
+        // The asset server may answer with a generic type; trust the extension then
+        const typed = SUPPORTED_IMAGE_TYPES.includes(blob.type) ? blob : new Blob([blob], { type: this.guessMediaType(path) });
+        return this.fromFile(typed, path.split('/').pop());
+    }
+
+    /**
+     * Extract image asset paths from markdown (markdown images and <img> tags), in order
+     */
+    static extractAssetPaths(markdown: string): string[] {
+        const paths: string[] = [];
+        const patterns = [
+            /!\[[^\]]*\]\((assets\/[^)\s]+)(?:\s+"[^"]*")?\)/g,
+            /<img[^>]+src="(assets\/[^"]+)"/g
+        ];
+
+        for (const pattern of patterns) {
+            for (const match of markdown.matchAll(pattern)) {
+                const path = decodeURIComponent(match[1]);
+                if (this.guessMediaType(path) && !paths.includes(path)) {
+                    paths.push(path);
+                }
+            }
+        }
+
+        return paths;
+    }
+
+    /**
+     * Load the images referenced in the given blocks
+     */
+    static async fromBlocks(blockIds: string[], limit: number = MAX_IMAGES_PER_MESSAGE): Promise<ImageLoadResult> {
+        const ids = SecurityUtils.sanitizeBlockIds(blockIds);
+        if (ids.length === 0) {
+            return { images: [], skipped: 0 };
+        }
+
+        const inList = ids.map(id => `'${SecurityUtils.escapeSQLString(id)}'`).join(',');
+        const rows = await SiYuanApi.sql(
+            `SELECT id, markdown FROM blocks WHERE id IN (${inList}) LIMIT ${ids.length}`
+        );
+
+        // Keep the order of the selection
+        const markdownById = new Map<string, string>(rows.map(row => [row.id, row.markdown || '']));
+        const markdown = ids.map(id => markdownById.get(id) || '').join('\n');
+        return this.fromMarkdown(markdown, limit);
+    }
+
+    /**
+     * Load the images referenced in markdown, skipping the ones that fail
+     */
+    static async fromMarkdown(markdown: string, limit: number = MAX_IMAGES_PER_MESSAGE): Promise<ImageLoadResult> {
+        const paths = this.extractAssetPaths(markdown);
+        const images: ImageAttachment[] = [];
+        let skipped = Math.max(0, paths.length - limit);
+
+        for (const path of paths.slice(0, limit)) {
+            try {
+                images.push(await this.fromAsset(path));
+            } catch (error) {
+                console.warn(`[ImageLoader] Skipped asset ${path}:`, error);
+                skipped++;
+            }
+        }
+
+        return { images, skipped };
+    }
+
+    /**
+     * Data URL for previews
+     */
+    static toDataURL(image: ImageAttachment): string {
+        return `data:${image.mediaType};base64,${image.data}`;
+    }
+
+    private static guessMediaType(name: string): string {
+        const extension = name.split('?')[0].split('.').pop()?.toLowerCase() || '';
+        return EXTENSION_TYPES[extension] || '';
+    }
+
+    private static toBase64(buffer: ArrayBuffer): string {
+        const bytes = new Uint8Array(buffer);
+        let binary = '';
+        // Chunked to stay below the argument limit of String.fromCharCode
+        for (let i = 0; i < bytes.length; i += 0x8000) {
+            binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+        }
+        return btoa(binary);
+    }
+}
@@ -0,0 +1,7 @@
+/**
+ * 图片输入模块
+ * 将粘贴、拖入、文件选择的图片和块中引用的资源图片转换为消息图片附件
+ */
+
+export { ImageLoader, SUPPORTED_IMAGE_TYPES, MAX_IMAGE_BYTES, MAX_IMAGES_PER_MESSAGE } from "./ImageLoader";
+export type { ImageLoadResult } from "./ImageLoader";
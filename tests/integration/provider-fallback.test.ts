@@ -0,0 +1,123 @@
+/**
+ * Integration tests for provider fallback
+ * Tests retry with backoff and switching to the next provider
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import nock from 'nock';
+import { UniversalAIClient } from '@/claude/UniversalAIClient';
+import { ProviderFallback, DEFAULT_FALLBACK_SETTINGS } from '@/claude/ProviderFallback';
+import { APIError, NetworkError, TimeoutError } from '@/utils/errors';
+import type { MultiProviderSettings } from '@/claude/types';
+
+describe('Provider Fallback', () => {
+    const createTestSettings = (fallback: Partial<typeof DEFAULT_FALLBACK_SETTINGS>): MultiProviderSettings => ({
+        activeProvider: 'local',
+        providers: {
+            local: {
+                apiKey: '',
+                model: 'llama3.2',
+                baseURL: 'http://localhost:11434',
+                enabled: true,
+            },
+            openai: {
+                apiKey: 'sk-test-openai-key-1234567890',
+                model: 'gpt-4o',
+                baseURL: '',
+                enabled: true,
+            },
+        },
+        model: 'llama3.2',
+        maxTokens: 1024,
+        temperature: 0.7,
+        systemPrompt: '',
+        appendedPrompt: '',
+        fallback: { ...DEFAULT_FALLBACK_SETTINGS, retryDelayMs: 1, ...fallback },
+    });
+    const messages = [{ role: 'user' as const, content: 'Hello' }];
+
+    beforeEach(() => {
+        nock.cleanAll();
+    });
+
+    afterEach(() => {
+        nock.cleanAll();
+        vi.unstubAllGlobals();
+    });
+
+    describe('classifyError', () => {
+        it('should classify rate limits, server errors and timeouts as retryable', () => {
+            const rateLimit = ProviderFallback.classifyError(Object.assign(new Error('Too many'), { status: 429 }), 'openai');
+            const serverError = ProviderFallback.classifyError(new Error('Local model server error: 503 Service Unavailable'), 'local');
+            const timeout = ProviderFallback.classifyError(new Error('Request timed out.'), 'openai');
+
+            expect(rateLimit).toBeInstanceOf(NetworkError);
+            expect((rateLimit as NetworkError).statusCode).toBe(429);
+            expect(serverError).toBeInstanceOf(NetworkError);
+            expect(timeout).toBeInstanceOf(TimeoutError);
+            expect(ProviderFallback.isRetryable(rateLimit)).toBe(true);
+        });
+
+        it('should not retry client errors or cancellation', () => {
+            const badRequest = ProviderFallback.classifyError(Object.assign(new Error('Invalid model'), { status: 400 }), 'openai');
+            const cancelled = new Error('Request cancelled by user');
+
+            expect(badRequest).toBeInstanceOf(APIError);
+            expect(ProviderFallback.isRetryable(badRequest)).toBe(false);
+            expect(ProviderFallback.classifyError(cancelled, 'openai')).toBe(cancelled);
+        });
+
+        it('should cap the exponential backoff', () => {
+            expect(ProviderFallback.getBackoffDelay(0, 1000)).toBe(1000);
+            expect(ProviderFallback.getBackoffDelay(2, 1000)).toBe(4000);
+            expect(ProviderFallback.getBackoffDelay(10, 1000)).toBe(10000);
+        });
+    });
+
+    describe('sendMessageSimple', () => {
+        it('should retry the active provider after a server error', async () => {
+            const fetchMock = vi.fn()
+                .mockResolvedValueOnce(new Response('overloaded', { status: 503, statusText: 'Service Unavailable' }))
+                .mockResolvedValueOnce(new Response(JSON.stringify({ message: { content: 'Recovered' } })));
+            vi.stubGlobal('fetch', fetchMock);
+
+            const client = new UniversalAIClient(createTestSettings({ maxRetries: 1 }));
+            const response = await client.sendMessageSimple(messages);
+
+            expect(response).toBe('Recovered');
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+            expect(client.getLastAnsweringProvider()).toEqual({ type: 'local', name: 'Local Model', fallback: false });
+        });
+
+        it('should switch to the next provider when retries are exhausted', async () => {
+            vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+                new Response('rate limited', { status: 429, statusText: 'Too Many Requests' })
+            ));
+            nock('https://api.openai.com')
+                .post('/v1/chat/completions')
+                .reply(200, {
+                    id: 'chatcmpl-test',
+                    object: 'chat.completion',
+                    created: 1234567890,
+                    model: 'gpt-4o',
+                    choices: [{ index: 0, message: { role: 'assistant', content: 'From OpenAI' }, finish_reason: 'stop' }],
+                });
+
+            const client = new UniversalAIClient(createTestSettings({ enabled: true, maxRetries: 0, order: ['openai'] }));
+            const response = await client.sendMessageSimple(messages);
+
+            expect(response).toBe('From OpenAI');
+            expect(client.getLastAnsweringProvider()?.type).toBe('openai');
+            expect(client.getLastAnsweringProvider()?.fallback).toBe(true);
+        });
+
+        it('should not fall back on non-retryable errors', async () => {
+            vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('not found', { status: 404 })));
+
+            const client = new UniversalAIClient(createTestSettings({ enabled: true, order: ['openai'] }));
+
+            await expect(client.sendMessageSimple(messages)).rejects.toBeInstanceOf(APIError);
+            expect(client.getLastAnsweringProvider()).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,25 @@
+/**
+ * Unit tests for ProviderFallback
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ProviderFallback } from '@/claude/ProviderFallback';
+import { APIError, NetworkError, TimeoutError } from '@/utils/errors';
+
+const withStatus = (message: string, status: number): Error => Object.assign(new Error(message), { status });
+
+describe('ProviderFallback', () => {
+    it('should classify by the reported HTTP status', () => {
+        expect(ProviderFallback.classifyError(withStatus('Too busy', 429), 'openai')).toBeInstanceOf(NetworkError);
+        expect(ProviderFallback.classifyError(withStatus('Bad gateway', 502), 'openai')).toBeInstanceOf(NetworkError);
+        expect(ProviderFallback.classifyError(withStatus('Slow', 408), 'openai')).toBeInstanceOf(TimeoutError);
+        expect(ProviderFallback.classifyError(withStatus('Invalid key', 401), 'openai')).toBeInstanceOf(APIError);
+    });
+
+    it('should not read status codes from the message text', () => {
+        const error = ProviderFallback.classifyError(new Error('Invalid request: max_tokens must be below 500'), 'openai');
+
+        expect(error).toBeInstanceOf(APIError);
+        expect(ProviderFallback.isRetryable(error)).toBe(false);
+    });
+});
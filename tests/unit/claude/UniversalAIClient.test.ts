@@ -0,0 +1,26 @@
+/**
+ * Unit tests for UniversalAIClient.hasReusablePrefix (when to request prompt caching)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { UniversalAIClient } from '@/claude/UniversalAIClient';
+
+describe('UniversalAIClient.hasReusablePrefix', () => {
+    const question = { role: 'user' as const, content: 'Question' };
+
+    it('should not cache a short one-off prompt', () => {
+        expect(UniversalAIClient.hasReusablePrefix([question], 'Be brief')).toBe(false);
+        expect(UniversalAIClient.hasReusablePrefix([question])).toBe(false);
+    });
+
+    it('should cache earlier turns and pinned prefixes', () => {
+        expect(UniversalAIClient.hasReusablePrefix([question, { role: 'assistant', content: 'Answer' }, question])).toBe(true);
+        expect(UniversalAIClient.hasReusablePrefix([{ ...question, cachePrefixLength: 4 }])).toBe(true);
+    });
+
+    it('should cache a system prompt long enough to be cached on its own', () => {
+        expect(UniversalAIClient.hasReusablePrefix([question], 'x'.repeat(4 * 1024))).toBe(true);
+        expect(UniversalAIClient.hasReusablePrefix([question], 'x'.repeat(4 * 1023))).toBe(false);
+        expect(UniversalAIClient.hasReusablePrefix([question], '规'.repeat(1024))).toBe(true);
+    });
+});
@@ -0,0 +1,44 @@
+/**
+ * Unit tests for ProviderComparison
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ProviderComparison } from '@/compare/ProviderComparison';
+import { ValidationError } from '@/utils/errors';
+import type { ComparisonResult } from '@/compare/types';
+
+const result = (extra: Partial<ComparisonResult> = {}): ComparisonResult => ({
+    provider: 'openai', name: 'OpenAI', model: 'gpt-4o', content: '', durationMs: 2400, ...extra
+});
+
+describe('ProviderComparison', () => {
+    it('should put the active provider first and keep at most four', () => {
+        const configured = ['anthropic', 'openai', 'gemini', 'deepseek', 'moonshot'];
+
+        expect(ProviderComparison.selectProviders(configured, undefined, 'gemini'))
+            .toEqual(['gemini', 'anthropic', 'openai', 'deepseek']);
+        expect(ProviderComparison.selectProviders(configured, [], 'missing'))
+            .toEqual(['anthropic', 'openai', 'gemini', 'deepseek']);
+    });
+
+    it('should use the chosen providers that are configured', () => {
+        expect(ProviderComparison.selectProviders(['anthropic', 'openai', 'gemini'], ['gemini', 'xai', 'anthropic', 'gemini'], 'openai'))
+            .toEqual(['gemini', 'anthropic']);
+    });
+
+    it('should require two providers', () => {
+        expect(() => ProviderComparison.selectProviders(['anthropic'], undefined, 'anthropic')).toThrow(ValidationError);
+        expect(() => ProviderComparison.selectProviders(['anthropic', 'openai'], ['openai', 'xai'], 'anthropic'))
+            .toThrow('对比模式至少需要选择两个已配置的提供商');
+    });
+
+    it('should format latency, tokens and cost', () => {
+        expect(ProviderComparison.formatStats(result({
+            content: 'done',
+            usage: { inputTokens: 320, outputTokens: 85 },
+            cost: 0.00123
+        }))).toBe('2.4 秒 · 320 → 85 tokens · $0.0012');
+        expect(ProviderComparison.formatStats(result())).toBe('2.4 秒');
+        expect(ProviderComparison.formatStats(result({ content: 'hello world' }))).toMatch(/^2\.4 秒 · ≈\d+ tokens$/);
+    });
+});
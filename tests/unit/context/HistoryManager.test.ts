@@ -0,0 +1,89 @@
+/**
+ * Unit tests for HistoryManager and TokenEstimator (context window trimming)
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { HistoryManager, TokenEstimator } from '@/context';
+import type { Message } from '@/claude/types';
+
+function conversation(turns: number, size: number = 400): Message[] {
+    const messages: Message[] = [];
+    for (let i = 0; i < turns; i++) {
+        messages.push({ role: 'user', content: `question ${i} ` + 'q'.repeat(size) });
+        messages.push({ role: 'assistant', content: `answer ${i} ` + 'a'.repeat(size) });
+    }
+    return messages;
+}
+
+describe('TokenEstimator', () => {
+    it('should count CJK characters as one token and other text per 4 characters', () => {
+        expect(TokenEstimator.estimateText('abcdefgh')).toBe(2);
+        expect(TokenEstimator.estimateText('你好世界')).toBe(4);
+        expect(TokenEstimator.estimateText('')).toBe(0);
+    });
+});
+
+describe('HistoryManager', () => {
+    const limits = { contextWindow: 2000, maxTokens: 500 };
+
+    it('should return the conversation unchanged when it fits', async () => {
+        const messages = conversation(2, 40);
+        const result = await new HistoryManager().fit(messages, limits, 'Be brief');
+
+        expect(result.messages).toBe(messages);
+        expect(result.droppedCount).toBe(0);
+        expect(result.estimatedTokens).toBeLessThanOrEqual(result.budget);
+    });
+
+    it('should drop the oldest turns and start the kept history with a user turn', async () => {
+        const messages = [...conversation(10), { role: 'user' as const, content: 'latest' }];
+        const result = await new HistoryManager().fit(messages, limits);
+
+        expect(result.droppedCount).toBeGreaterThan(0);
+        expect(result.summarized).toBe(false);
+        expect(result.messages[0].role).toBe('user');
+        expect(result.messages[result.messages.length - 1].content).toBe('latest');
+        expect(result.estimatedTokens).toBeLessThanOrEqual(result.budget);
+    });
+
+    it('should prepend a summary and extend it incrementally', async () => {
+        const summarizer = vi.fn().mockResolvedValueOnce('first summary').mockResolvedValueOnce('second summary');
+        const manager = new HistoryManager(summarizer);
+
+        const messages = conversation(10);
+        const first = await manager.fit(messages, limits);
+        expect(first.summarized).toBe(true);
+        expect(first.messages[0].content).toContain('first summary');
+        expect(first.messages[0].content).toContain(messages[first.droppedCount].content);
+
+        // Same history: the cached summary is reused
+        await manager.fit(messages, limits);
+        expect(summarizer).toHaveBeenCalledTimes(1);
+
+        // More turns: only the newly dropped ones are sent with the previous summary
+        const longer = [...messages, ...conversation(3)];
+        const second = await manager.fit(longer, limits);
+        expect(second.droppedCount).toBeGreaterThan(first.droppedCount);
+        expect(second.messages[0].content).toContain('second summary');
+
+        const prompt = summarizer.mock.calls[1][0] as string;
+        expect(prompt).toContain('first summary');
+        expect(prompt).not.toContain('question 0 ');
+    });
+
+    it('should fall back to dropping turns when summarization fails', async () => {
+        const manager = new HistoryManager(vi.fn().mockRejectedValue(new Error('rate limited')));
+        const result = await manager.fit(conversation(10), limits);
+
+        expect(result.droppedCount).toBeGreaterThan(0);
+        expect(result.summarized).toBe(false);
+    });
+
+    it('should pass the abort signal to the summarizer', async () => {
+        const summarizer = vi.fn().mockResolvedValue('summary');
+        const controller = new AbortController();
+        await new HistoryManager(summarizer).fit(conversation(10), limits, undefined, controller.signal);
+
+        expect(summarizer).toHaveBeenCalledWith(expect.any(String), controller.signal);
+    });
+});
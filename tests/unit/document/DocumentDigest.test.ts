@@ -0,0 +1,75 @@
+/**
+ * Unit tests for DocumentChunker, DocumentDigest and DocumentService helpers
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { DocumentChunker, DocumentDigest, DocumentService } from '@/document';
+
+function section(title: string, paragraphs: number, size: number = 200): string {
+    const body = Array.from({ length: paragraphs }, (_, i) => `${title} paragraph ${i} ` + 'x'.repeat(size));
+    return [`## ${title}`, ...body].join('\n\n');
+}
+
+describe('DocumentChunker', () => {
+    it('should keep code fences with blank lines in one block', () => {
+        const blocks = DocumentChunker.splitBlocks('Intro\n\n```js\nconst a = 1;\n\nconst b = 2;\n```\n\nOutro');
+
+        expect(blocks).toEqual(['Intro', '```js\nconst a = 1;\n\nconst b = 2;\n```', 'Outro']);
+    });
+
+    it('should split on block boundaries within the budget and start sections at headings', () => {
+        const markdown = [section('One', 3), section('Two', 3)].join('\n\n');
+        const chunks = DocumentChunker.split(markdown, 250);
+
+        expect(chunks.length).toBeGreaterThan(1);
+        expect(chunks.some(chunk => chunk.startsWith('## Two'))).toBe(true);
+        expect(chunks.join('\n\n')).toBe(markdown);
+    });
+
+    it('should split blocks larger than the budget', () => {
+        const chunks = DocumentChunker.split('y'.repeat(2000), 100);
+
+        expect(chunks.length).toBeGreaterThan(1);
+        expect(chunks.join('')).toBe('y'.repeat(2000));
+    });
+});
+
+describe('DocumentDigest', () => {
+    it('should send a short document in one request', async () => {
+        const send = vi.fn().mockResolvedValue(' Short summary ');
+        const result = await new DocumentDigest(send).generate('Notes', 'Hello world', 'summary', 1000);
+
+        expect(result).toBe('Short summary');
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(send.mock.calls[0][0]).toContain('Document: Notes');
+    });
+
+    it('should digest long documents per chunk and combine the results', async () => {
+        const send = vi.fn().mockImplementation(async (prompt: string) =>
+            prompt.includes('--- Part 1 ---') ? 'combined' : 'partial');
+        const onProgress = vi.fn();
+        const markdown = [section('One', 3), section('Two', 3)].join('\n\n');
+
+        const result = await new DocumentDigest(send).generate('Book', markdown, 'outline', 250, { onProgress });
+
+        const calls = send.mock.calls.map(call => call[0] as string);
+        expect(result).toBe('combined');
+        expect(calls[0]).toContain(`(part 1 of ${calls.length - 1})`);
+        expect(calls[calls.length - 1]).toContain('nested markdown list');
+        expect(onProgress).toHaveBeenLastCalledWith(calls.length, calls.length);
+    });
+});
+
+describe('DocumentService', () => {
+    it('should strip block attributes from kramdown', () => {
+        const kramdown = '# Title\n{: id="20240101120000-abcdefg"}\n\nText {: style="color: red"}\n{: id="20240101120000-bcdefgh" updated="1"}';
+
+        expect(DocumentService.stripAttributes(kramdown)).toBe('# Title\n\nText');
+    });
+
+    it('should quote every line of a callout', () => {
+        expect(DocumentService.buildCallout('AI 摘要', 'Line one\n\nLine two')).toBe(
+            '> [!TIP]\n> **AI 摘要**\n>\n> Line one\n>\n> Line two'
+        );
+    });
+});
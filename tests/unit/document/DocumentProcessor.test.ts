@@ -0,0 +1,76 @@
+/**
+ * Unit tests for DocumentProcessor
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { DocumentProcessor } from '@/document';
+
+describe('DocumentProcessor', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should apply the preset template to a chunk and drop context placeholders', async () => {
+        const prompt = await DocumentProcessor.buildChunkPrompt(
+            { template: '{above=2}Task: {instruction}\n\n{original}{below_blocks=1}', instruction: 'Fix $& typos', appendedPrompt: 'Use markdown.' },
+            'Notes',
+            'Body text',
+            1,
+            3
+        );
+
+        expect(prompt).toBe('Task: Fix $& typos\n\nBody text\n\n（这是文档「Notes」的第 2/3 部分）\n\nUse markdown.');
+    });
+
+    it('should resolve document placeholders against the processed document', async () => {
+        vi.stubGlobal('fetch', vi.fn(async (_url: string, init: any) => ({
+            ok: true,
+            json: async () => ({
+                code: 0,
+                data: JSON.parse(init.body).stmt.includes("'20250101000000-ddddddd'")
+                    ? [{ id: '20250101000000-ddddddd', root_id: '20250101000000-ddddddd', content: 'Weekly notes' }]
+                    : []
+            })
+        })));
+
+        const prompt = await DocumentProcessor.buildChunkPrompt(
+            { template: '{doc_title}: {instruction}\n{original}', instruction: 'Summarize', docId: '20250101000000-ddddddd' },
+            'Weekly notes',
+            'Body text',
+            0,
+            1
+        );
+
+        expect(prompt).toBe('Weekly notes: Summarize\nBody text');
+    });
+
+    it('should render preset variables and template tags like Quick Edit', async () => {
+        const prompt = await DocumentProcessor.buildChunkPrompt(
+            {
+                template: '{{#if var.tone}}Tone: {var.tone}\n{{/if}}{instruction}\n{original}',
+                instruction: 'Rewrite',
+                variables: { tone: 'formal' }
+            },
+            'Notes',
+            'Body text',
+            0,
+            1
+        );
+
+        expect(prompt).toBe('Tone: formal\nRewrite\nBody text');
+    });
+
+    it('should join chunk results without a reduce prompt', async () => {
+        const send = vi.fn().mockImplementation(async (prompt: string) => prompt.includes('Second') ? 'two' : 'one');
+        const markdown = `First ${'x'.repeat(600)}\n\nSecond ${'y'.repeat(600)}`;
+
+        const { result } = await new DocumentProcessor(send).process('Doc', markdown, {
+            instruction: 'Translate',
+            chunkTokens: 250,
+            concurrency: 2
+        });
+
+        expect(result).toBe('one\n\ntwo');
+        expect(send.mock.calls.every(call => !(call[0] as string).includes('--- 第'))).toBe(true);
+    });
+});
@@ -0,0 +1,60 @@
+/**
+ * Unit tests for DocumentTranslator
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { DocumentTranslator, type DocumentBlock } from '@/document';
+
+const blocks: DocumentBlock[] = [
+    { id: '20240101120000-aaaaaaa', type: 'h', markdown: '# Title' },
+    { id: '20240101120000-bbbbbbb', type: 'c', markdown: '```js\nconst a = 1;\n```' },
+    { id: '20240101120000-ccccccc', type: 'l', markdown: '- one\n- two' }
+];
+
+describe('DocumentTranslator', () => {
+    it('should split a batch answer at its markers', () => {
+        const parsed = DocumentTranslator.parseResponse('[[1]]\n# Titel\n\n[[3]]\n\n[[2]]\n- eins\n- zwei\n', 3);
+
+        expect(parsed).toEqual(['# Titel', '- eins\n- zwei', undefined]);
+    });
+
+    it('should translate text blocks in one batch and leave code untouched', async () => {
+        const send = vi.fn().mockResolvedValue('[[1]]\n# Titel\n[[2]]\n- eins\n- zwei');
+
+        const translations = await new DocumentTranslator(send).translate(blocks, 'German', { concurrency: 2 });
+
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(send.mock.calls[0][0]).not.toContain('const a');
+        expect(Array.from(translations.entries())).toEqual([
+            ['20240101120000-aaaaaaa', '# Titel'],
+            ['20240101120000-ccccccc', '- eins\n- zwei']
+        ]);
+    });
+
+    it('should translate blocks missing from a batch answer one by one', async () => {
+        const send = vi.fn().mockImplementation(async (prompt: string) =>
+            prompt.includes('[[1]]') ? '[[1]]\n# Titel' : '- eins\n- zwei');
+
+        const translations = await new DocumentTranslator(send).translate(blocks, 'German', { concurrency: 1 });
+
+        expect(send).toHaveBeenCalledTimes(2);
+        expect(translations.get('20240101120000-ccccccc')).toBe('- eins\n- zwei');
+    });
+
+    it('should lay out source and translation per layout', () => {
+        const translations = new Map([['20240101120000-aaaaaaa', '# Titel']]);
+        const source = blocks.slice(0, 2);
+
+        expect(DocumentTranslator.buildLayout(source, translations, 'target')).toEqual([
+            { markdown: '# Titel', sourceId: '20240101120000-aaaaaaa', placement: 'all' },
+            { markdown: blocks[1].markdown, placement: 'all' }
+        ]);
+        expect(DocumentTranslator.buildLayout(source, translations, 'interleaved').map(item => item.markdown))
+            .toEqual(['# Title', '# Titel', blocks[1].markdown]);
+        expect(DocumentTranslator.buildLayout(source, translations, 'sideBySide')[0]).toEqual({
+            markdown: '{{{col\n{{{row\n# Title\n}}}\n\n{{{row\n# Titel\n}}}\n}}}',
+            sourceId: '20240101120000-aaaaaaa',
+            placement: 'superBlock'
+        });
+    });
+});
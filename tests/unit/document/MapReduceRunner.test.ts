@@ -0,0 +1,112 @@
+/**
+ * Unit tests for MapReduceRunner
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { MapReduceRunner } from '@/document';
+
+function deferred() {
+    let resolve!: () => void;
+    const promise = new Promise<void>(r => resolve = r);
+    return { promise, resolve };
+}
+
+describe('MapReduceRunner', () => {
+    it('should keep results in document order and respect the concurrency limit', async () => {
+        let running = 0;
+        let maxRunning = 0;
+        const map = vi.fn().mockImplementation(async (chunk: string, index: number) => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await new Promise(resolve => setTimeout(resolve, (5 - index) * 2));
+            running--;
+            return ` ${chunk.toUpperCase()} `;
+        });
+
+        const { result, partials } = await MapReduceRunner.run(['a', 'b', 'c', 'd', 'e'], map, null, {
+            concurrency: 2,
+            reduceTokens: 1000
+        });
+
+        expect(maxRunning).toBe(2);
+        expect(partials).toEqual(['A', 'B', 'C', 'D', 'E']);
+        expect(result).toBe('A\n\nB\n\nC\n\nD\n\nE');
+    });
+
+    it('should report partial results and reduce them at the end', async () => {
+        const onProgress = vi.fn();
+        const reduce = vi.fn().mockResolvedValue('merged');
+
+        const { result } = await MapReduceRunner.run(['one', 'two'], async chunk => `r-${chunk}`, reduce, {
+            concurrency: 1,
+            reduceTokens: 1000,
+            onProgress
+        });
+
+        expect(result).toBe('merged');
+        expect(reduce).toHaveBeenCalledWith(['r-one', 'r-two'], true);
+        expect(onProgress.mock.calls[0][0]).toEqual({ phase: 'map', done: 1, total: 3, partials: ['r-one', undefined] });
+        expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ phase: 'reduce', done: 3, total: 3 }));
+    });
+
+    it('should merge in groups when the results exceed the reduce budget', async () => {
+        const reduce = vi.fn().mockImplementation(async (partials: string[], final: boolean) =>
+            final ? 'final' : 'group');
+        const chunks = Array.from({ length: 4 }, (_, i) => `chunk ${i}`);
+
+        await MapReduceRunner.run(chunks, async () => 'z'.repeat(400), reduce, {
+            concurrency: 2,
+            reduceTokens: 250
+        });
+
+        const finals = reduce.mock.calls.map(call => call[1]);
+        expect(finals.filter(final => !final).length).toBeGreaterThan(1);
+        expect(finals[finals.length - 1]).toBe(true);
+    });
+
+    it('should stop pending chunks when aborted and keep finished results', async () => {
+        const controller = new AbortController();
+        const gate = deferred();
+        const onProgress = vi.fn();
+        const map = vi.fn().mockImplementation(async (chunk: string) => {
+            if (chunk === 'b') {
+                controller.abort();
+                await gate.promise;
+            }
+            return chunk;
+        });
+
+        const run = MapReduceRunner.run(['a', 'b', 'c', 'd'], map, null, {
+            concurrency: 1,
+            reduceTokens: 1000,
+            signal: controller.signal,
+            onProgress
+        });
+        gate.resolve();
+
+        await expect(run).rejects.toMatchObject({ name: 'AbortError' });
+        expect(map).toHaveBeenCalledTimes(2);
+        expect(onProgress.mock.calls[0][0].partials).toEqual(['a', undefined, undefined, undefined]);
+    });
+
+    it('should stop taking chunks once a chunk fails', async () => {
+        const gate = deferred();
+        const map = vi.fn().mockImplementation(async (chunk: string) => {
+            if (chunk === 'a') {
+                throw new Error('rate limited');
+            }
+            await gate.promise;
+            return chunk;
+        });
+
+        const run = MapReduceRunner.run(['a', 'b', 'c', 'd', 'e'], map, null, {
+            concurrency: 2,
+            reduceTokens: 1000
+        });
+
+        await expect(run).rejects.toThrow('rate limited');
+        gate.resolve();
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(map).toHaveBeenCalledTimes(2);
+    });
+});
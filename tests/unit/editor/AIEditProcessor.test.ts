@@ -0,0 +1,83 @@
+/**
+ * Unit tests for AIEditProcessor prompts
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { AIEditProcessor } from '@/editor/AIEditProcessor';
+import type { ClaudeClient } from '@/claude';
+import type { TextSelection } from '@/editor/types';
+import type { PromptTemplate } from '@/settings/config-types';
+import type { GlossaryConfig } from '@/glossary';
+
+const selection = (extra: Partial<TextSelection> = {}): TextSelection => ({
+    id: 'sel-1',
+    blockId: '20250101000000-aaaaaaa',
+    startLine: 0,
+    endLine: 0,
+    selectedText: 'const answer = 42',
+    contextBefore: '',
+    contextAfter: '',
+    timestamp: 0,
+    status: 'pending',
+    ...extra
+});
+
+const createProcessor = (preset?: PromptTemplate, glossaries: GlossaryConfig[] = []) => {
+    const sendMessageSimple = vi.fn().mockResolvedValue('CONST ANSWER = 42');
+    const client = {
+        getPreset: vi.fn(() => preset),
+        getGlossaries: vi.fn(() => glossaries),
+        getFilterRules: vi.fn(() => []),
+        getAppendedPrompt: vi.fn(() => ''),
+        getLastUsage: vi.fn(() => null),
+        sendMessageSimple
+    } as unknown as ClaudeClient;
+    return { processor: new AIEditProcessor(client), sendMessageSimple };
+};
+
+describe('AIEditProcessor', () => {
+    it('should render the preset edit instruction for batch edits', async () => {
+        const { processor, sendMessageSimple } = createProcessor({
+            id: 'upper',
+            name: '大写',
+            systemPrompt: 'system',
+            appendedPrompt: '只输出结果',
+            isBuiltIn: false,
+            editInstruction: '{instruction}（{var.style}）{{#if original contains "const"}}代码：{{/if}}\n{original}',
+            variables: [{ name: 'style', type: 'enum', options: ['全部大写', '首字母大写'] }]
+        });
+
+        await processor.processSelection(selection({ batchId: 'batch-1', presetId: 'upper' }));
+
+        const [messages, feature, , systemPrompt, presetId] = sendMessageSimple.mock.calls[0];
+        expect(messages[0].content).toBe('大写（全部大写）代码：\nconst answer = 42\n\n只输出结果');
+        expect(feature).toBe('BatchEdit');
+        expect(systemPrompt).toBe('system');
+        expect(presetId).toBe('upper');
+    });
+
+    it('should append the relevant glossary entries to preset prompts', async () => {
+        const { processor, sendMessageSimple } = createProcessor(
+            { id: 'upper', name: '大写', systemPrompt: '', appendedPrompt: '', isBuiltIn: false, editInstruction: '{original}' },
+            [{ terms: [{ source: 'answer', target: '答案' }, { source: 'question', target: '问题' }], forbidden: [] }]
+        );
+
+        await processor.processSelection(selection({ presetId: 'upper' }));
+
+        const prompt: string = sendMessageSimple.mock.calls[0][0][0].content;
+        expect(prompt.startsWith('const answer = 42\n\n')).toBe(true);
+        expect(prompt).toContain('答案');
+        expect(prompt).not.toContain('问题');
+    });
+
+    it('should keep the tagged prompt for free-form instructions', async () => {
+        const { processor, sendMessageSimple } = createProcessor();
+
+        await processor.processSelection(selection({ contextBefore: '上文' }), '改成大写');
+
+        const prompt: string = sendMessageSimple.mock.calls[0][0][0].content;
+        expect(prompt).toContain('<上文信息>\n上文\n</上文信息>');
+        expect(prompt).toContain('<待编辑文本>\nconst answer = 42\n</待编辑文本>');
+        expect(prompt).toContain('<编辑指令>\n改成大写');
+    });
+});
@@ -0,0 +1,92 @@
+/**
+ * Unit tests for BatchEditManager (batch Quick Edit)
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { BatchEditManager } from '@/editor/BatchEditManager';
+import { TextSelectionManager } from '@/editor/TextSelectionManager';
+import { EditQueue } from '@/editor/EditQueue';
+import { DEFAULT_EDIT_SETTINGS, type TextSelection } from '@/editor/types';
+import type { AIEditProcessor } from '@/editor/AIEditProcessor';
+import type { DiffRenderer } from '@/editor/DiffRenderer';
+
+describe('BatchEditManager', () => {
+    const settings = { ...DEFAULT_EDIT_SETTINGS, maxConcurrentEdits: 2, autoProcessQueue: false };
+    const blocks = ['a', 'b', 'c', 'd'].map(id => ({
+        id: `20250101000000-00000${id}`,
+        type: 'p',
+        markdown: `text ${id}`
+    }));
+
+    let selectionManager: TextSelectionManager;
+    let diffRenderer: { applyChanges: ReturnType<typeof vi.fn>; rejectChanges: ReturnType<typeof vi.fn> };
+    let pending: Array<() => void>;
+    let manager: BatchEditManager;
+
+    beforeEach(() => {
+        pending = [];
+        selectionManager = new TextSelectionManager(settings);
+
+        const processor = {
+            processSelection: vi.fn((selection: TextSelection) => new Promise(resolve => {
+                pending.push(() => resolve({
+                    original: selection.selectedText,
+                    modified: selection.selectedText.toUpperCase(),
+                    diff: [],
+                    completedAt: Date.now()
+                }));
+            }))
+        } as unknown as AIEditProcessor;
+
+        diffRenderer = {
+            applyChanges: vi.fn().mockResolvedValue(true),
+            rejectChanges: vi.fn()
+        };
+
+        const queue = new EditQueue(processor, selectionManager, settings);
+        manager = new BatchEditManager(selectionManager, queue, diffRenderer as unknown as DiffRenderer);
+    });
+
+    it('should enqueue every block with the preset and respect maxConcurrentEdits', () => {
+        const batch = manager.startBatch(blocks, { id: 'polish', name: 'Polish' }, 'Doc');
+
+        const selections = manager.getSelections(batch.id);
+        expect(selections).toHaveLength(4);
+        expect(selections.every(s => s.batchId === batch.id && s.presetId === 'polish')).toBe(true);
+        expect(manager.getProgress(batch.id)).toMatchObject({ total: 4, processing: 2, pending: 2 });
+    });
+
+    it('should aggregate progress and apply accept-all / reject', async () => {
+        vi.useFakeTimers();
+        try {
+            const batch = manager.startBatch(blocks, { id: 'polish', name: 'Polish' }, 'Doc');
+
+            // Finish all edits (the queue picks up the next item after a short delay)
+            while (pending.length > 0) {
+                pending.splice(0).forEach(resolve => resolve());
+                await vi.advanceTimersByTimeAsync(200);
+            }
+            expect(manager.getProgress(batch.id)).toMatchObject({ completed: 4, undecided: 4 });
+
+            const [first] = manager.getSelections(batch.id);
+            manager.reject(first.id);
+            expect(diffRenderer.rejectChanges).toHaveBeenCalledTimes(1);
+
+            const result = await manager.acceptAll(batch.id);
+            expect(result).toEqual({ applied: 3, failed: 0 });
+            expect(diffRenderer.applyChanges).toHaveBeenCalledTimes(3);
+            expect(manager.getProgress(batch.id)).toMatchObject({ applied: 3, rejected: 1, undecided: 0 });
+            expect(manager.getDecision(first.id)).toBe('rejected');
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it('should remove a batch with its selections', () => {
+        const batch = manager.startBatch(blocks, { id: 'polish', name: 'Polish' }, 'Doc');
+        manager.removeBatch(batch.id);
+
+        expect(manager.getBatches()).toHaveLength(0);
+        expect(selectionManager.getAllSelections()).toHaveLength(0);
+    });
+});
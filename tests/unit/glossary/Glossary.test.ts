@@ -0,0 +1,90 @@
+/**
+ * Unit tests for Glossary
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Glossary, GlossaryLoader, GlossaryMiddleware, type GlossaryConfig } from '@/glossary';
+
+const glossary: GlossaryConfig = {
+    terms: [
+        { source: 'plugin', target: '插件' },
+        { source: '登陆', target: '登录' }
+    ],
+    forbidden: ['非常非常']
+};
+
+describe('Glossary', () => {
+    it('should parse term pairs, forbidden words and report bad lines', () => {
+        const parsed = Glossary.parse('# comment\nplugin = 插件\n登陆 => 登录\n!非常非常\n\nbroken line\n!');
+
+        expect(parsed.terms).toEqual(glossary.terms);
+        expect(parsed.forbidden).toEqual(['非常非常']);
+        expect(parsed.errors).toHaveLength(2);
+        expect(parsed.errors[0]).toContain('第 6 行');
+    });
+
+    it('should round-trip through format', () => {
+        expect(Glossary.parse(Glossary.format(glossary))).toEqual({ ...glossary, errors: [] });
+    });
+
+    it('should keep only terms occurring in the text, matching latin terms as whole words', () => {
+        expect(Glossary.relevant(glossary, 'Install the Plugin').terms).toEqual([glossary.terms[0]]);
+        expect(Glossary.relevant(glossary, 'plugins are great').terms).toEqual([]);
+        expect(Glossary.relevant(glossary, 'anything').forbidden).toEqual(['非常非常']);
+    });
+
+    it('should let later glossaries win when merging', () => {
+        const merged = Glossary.merge(glossary, { terms: [{ source: 'Plugin', target: '扩展' }], forbidden: ['非常非常'], autoFix: true });
+
+        expect(merged.terms).toEqual([{ source: 'Plugin', target: '扩展' }, glossary.terms[1]]);
+        expect(merged.forbidden).toEqual(['非常非常']);
+        expect(merged.autoFix).toBe(true);
+    });
+
+    it('should flag kept terms, missing preferred wording and forbidden words', () => {
+        const violations = Glossary.check(glossary, '请登陆后安装 plugin', '请登陆后安装扩展，非常非常简单');
+
+        expect(violations).toEqual([
+            { kind: 'term', found: 'plugin', expected: '插件', count: 0, fixed: false },
+            { kind: 'term', found: '登陆', expected: '登录', count: 1, fixed: false },
+            { kind: 'forbidden', found: '非常非常', count: 1, fixed: false }
+        ]);
+    });
+
+    it('should fix kept terms and leave the rest flagged', () => {
+        const violations = Glossary.check(glossary, '登陆 plugin', '登陆 plugin，非常非常');
+        const result = Glossary.fix('登陆 plugin，非常非常', violations);
+
+        expect(result.text).toBe('登录 插件，非常非常');
+        expect(result.violations.map(v => v.fixed)).toEqual([true, true, false]);
+    });
+});
+
+describe('GlossaryLoader', () => {
+    it('should read table rows without the header and treat empty targets as forbidden', () => {
+        const rows = GlossaryLoader.parseTable('| 术语 | 规范写法 |\n| --- | --- |\n| plugin | 插件 |\n| a \\| b | c<br>d |\n| 非常非常 |  |');
+
+        expect(rows).toEqual([['plugin', '插件'], ['a | b', 'c d'], ['非常非常', '']]);
+        expect(GlossaryLoader.fromRows(rows)).toEqual({
+            terms: [{ source: 'plugin', target: '插件' }, { source: 'a | b', target: 'c d' }],
+            forbidden: ['非常非常']
+        });
+    });
+});
+
+describe('GlossaryMiddleware', () => {
+    it('should only flag violations without autoFix', () => {
+        const result = GlossaryMiddleware.apply(glossary, '登陆', '请登陆', 'quick-edit');
+
+        expect(result.text).toBe('请登陆');
+        expect(result.violations).toHaveLength(1);
+        expect(result.violations[0].fixed).toBe(false);
+    });
+
+    it('should fix violations with autoFix', () => {
+        const result = GlossaryMiddleware.apply({ ...glossary, autoFix: true }, '登陆', '请登陆', 'quick-edit');
+
+        expect(result.text).toBe('请登录');
+        expect(result.violations[0].fixed).toBe(true);
+    });
+});
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for RequestLogger rotation, reading and filtering
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createRequire } from 'module';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RequestLogger, type LogEntry } from '@/logger/RequestLogger';
+
+function makeEntry(overrides: Partial<LogEntry> = {}): LogEntry {
+    return {
+        timestamp: new Date().toISOString(),
+        requestId: RequestLogger.generateRequestId(),
+        feature: 'Chat',
+        request: {
+            model: 'gpt-4o',
+            temperature: 0.7,
+            max_tokens: 1024,
+            messages: [{ role: 'user', content: 'Hello' }],
+        },
+        response: { content: 'Hi there' },
+        performance: { duration_ms: 500, started_at: '', completed_at: '' },
+        config: { apiKey: '****', baseURL: 'https://api.openai.com' },
+        ...overrides,
+    };
+}
+
+describe('RequestLogger', () => {
+    let logDir: string;
+    let originalRequire: NodeRequire | undefined;
+
+    beforeEach(() => {
+        logDir = fs.mkdtempSync(path.join(os.tmpdir(), 'request-logs-'));
+        originalRequire = window.require;
+        window.require = createRequire(import.meta.url);
+    });
+
+    afterEach(() => {
+        window.require = originalRequire;
+        fs.rmSync(logDir, { recursive: true, force: true });
+    });
+
+    it('should read written entries back, newest first', async () => {
+        const logger = new RequestLogger();
+        logger.configure(true, logDir);
+
+        await logger.writeLog(makeEntry({ requestId: 'first' }));
+        await logger.writeLog(makeEntry({ requestId: 'second' }));
+
+        const entries = RequestLogger.readEntries(logDir);
+        expect(entries.map(e => e.requestId)).toEqual(['second', 'first']);
+    });
+
+    it('should rotate to a new part when the file size cap is reached', async () => {
+        const logger = new RequestLogger();
+        logger.configure(true, logDir, true, { maxFileSizeMB: 0.0001, maxTotalSizeMB: 0 });
+
+        for (let i = 0; i < 3; i++) {
+            await logger.writeLog(makeEntry({ requestId: `req-${i}` }));
+        }
+
+        const files = fs.readdirSync(logDir).sort();
+        expect(files.length).toBe(3);
+        expect(files.some(name => /\.1\.log$/.test(name))).toBe(true);
+        expect(RequestLogger.readEntries(logDir).map(e => e.requestId)).toEqual(['req-2', 'req-1', 'req-0']);
+    });
+
+    it('should delete the oldest files when the total size cap is exceeded', async () => {
+        fs.writeFileSync(path.join(logDir, 'ai-requests-2020-01-01.log'), 'x'.repeat(2048));
+        fs.writeFileSync(path.join(logDir, 'unrelated.txt'), 'keep me');
+
+        const logger = new RequestLogger();
+        logger.configure(true, logDir, true, { maxFileSizeMB: 0, maxTotalSizeMB: 0.001 });
+        await logger.writeLog(makeEntry());
+
+        const files = fs.readdirSync(logDir);
+        expect(files).not.toContain('ai-requests-2020-01-01.log');
+        expect(files).toContain('unrelated.txt');
+        expect(files.filter(name => name.startsWith('ai-requests-')).length).toBe(1);
+    });
+
+    it('should skip malformed entries when parsing', () => {
+        const content = `${JSON.stringify(makeEntry({ requestId: 'ok' }))}\n---\n{ broken json\n---\n`;
+        expect(RequestLogger.parseLogContent(content).map(e => e.requestId)).toEqual(['ok']);
+    });
+
+    it('should filter by feature, duration, errors, filtering and text', () => {
+        const entries = [
+            makeEntry({ requestId: 'chat' }),
+            makeEntry({ requestId: 'slow', feature: 'QuickEdit', performance: { duration_ms: 9000, started_at: '', completed_at: '' } }),
+            makeEntry({ requestId: 'failed', response: undefined, error: { type: 'NetworkError', message: 'HTTP 503' } }),
+            makeEntry({ requestId: 'filtered', filtering: { applied: true, rulesCount: 1, originalLength: 20, filteredLength: 8 } }),
+        ];
+        const ids = (filter: Parameters<typeof RequestLogger.filterEntries>[1]) =>
+            RequestLogger.filterEntries(entries, filter).map(e => e.requestId);
+
+        expect(ids({ feature: 'QuickEdit' })).toEqual(['slow']);
+        expect(ids({ minDurationMs: 1000 })).toEqual(['slow']);
+        expect(ids({ errorsOnly: true })).toEqual(['failed']);
+        expect(ids({ filteredOnly: true })).toEqual(['filtered']);
+        expect(ids({ search: '503' })).toEqual(['failed']);
+        expect(ids({})).toHaveLength(4);
+    });
+});
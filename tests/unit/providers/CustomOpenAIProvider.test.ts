@@ -0,0 +1,112 @@
+/**
+ * Unit tests for CustomOpenAIProvider and runtime registration
+ * Tests user-defined OpenAI-compatible endpoints
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import nock from 'nock';
+import { CustomOpenAIProvider } from '@/ai/providers/CustomOpenAIProvider';
+import { AIProviderFactory } from '@/ai/AIProviderFactory';
+import type { AIModelConfig, CustomProviderDefinition, Message } from '@/ai/types';
+
+describe('CustomOpenAIProvider', () => {
+    const definition: CustomProviderDefinition = {
+        id: 'custom-gateway',
+        name: 'Internal Gateway',
+        baseURL: 'https://gateway.example.com/v1',
+        authStyle: 'header',
+        authHeaderName: 'api-key',
+        extraHeaders: { 'X-Team': 'notes' },
+        models: [
+            { id: 'gpt-4o', displayName: 'GPT-4o (gateway)', contextWindow: 128000 },
+            { id: 'qwen-max' },
+        ],
+        maxTemperature: 1,
+        maxOutputTokens: 16384,
+    };
+    const mockConfig: AIModelConfig = {
+        provider: 'custom-gateway',
+        modelId: 'gpt-4o',
+        apiKey: 'gateway-key-123',
+    };
+    const messages: Message[] = [{ role: 'user', content: 'Hello' }];
+    const completion = {
+        id: 'chatcmpl-test',
+        object: 'chat.completion',
+        created: 1234567890,
+        model: 'gpt-4o',
+        choices: [{
+            index: 0,
+            message: { role: 'assistant', content: 'Hi from gateway' },
+            finish_reason: 'stop',
+        }],
+    };
+
+    beforeEach(() => {
+        nock.cleanAll();
+    });
+
+    afterEach(() => {
+        nock.cleanAll();
+        AIProviderFactory.registerCustomProviders([]);
+    });
+
+    describe('Configuration Validation', () => {
+        it('should require an API key unless auth is disabled', () => {
+            expect(() => new CustomOpenAIProvider({ ...mockConfig, apiKey: '' }, definition))
+                .toThrow('API key is required');
+            expect(() => new CustomOpenAIProvider({ ...mockConfig, apiKey: '' }, { ...definition, authStyle: 'none' }))
+                .not.toThrow();
+        });
+    });
+
+    describe('sendMessage', () => {
+        it('should send the key in the configured header with extra headers', async () => {
+            let headers: Record<string, any> = {};
+            nock('https://gateway.example.com')
+                .post('/v1/chat/completions')
+                .reply(function () {
+                    headers = this.req.headers;
+                    return [200, completion];
+                });
+
+            const provider = new CustomOpenAIProvider(mockConfig, definition);
+            const response = await provider.sendMessage(messages);
+
+            expect(response).toBe('Hi from gateway');
+            expect(String(headers['api-key'])).toBe('gateway-key-123');
+            expect(String(headers['x-team'])).toBe('notes');
+            expect(headers['authorization']).toBeUndefined();
+        });
+    });
+
+    describe('getMetadata', () => {
+        it('should generate metadata and limits from the definition', () => {
+            const provider = new CustomOpenAIProvider(mockConfig, definition);
+            const metadata = provider.getMetadata();
+
+            expect(metadata.type).toBe('custom-gateway');
+            expect(metadata.displayName).toBe('Internal Gateway');
+            expect(metadata.defaultModel).toBe('gpt-4o');
+            expect(metadata.models[1]).toEqual({ id: 'qwen-max', displayName: 'qwen-max', contextWindow: 128000 });
+            expect(provider.getParameterLimits().temperature.max).toBe(1);
+            expect(provider.getParameterLimits().maxTokens.max).toBe(16384);
+        });
+    });
+
+    describe('AIProviderFactory.registerCustomProviders', () => {
+        it('should register definitions and replace them on the next call', () => {
+            AIProviderFactory.registerCustomProviders([definition]);
+            expect(AIProviderFactory.getMetadata('custom-gateway').displayName).toBe('Internal Gateway');
+            expect(AIProviderFactory.create(mockConfig).providerName).toBe('Internal Gateway');
+
+            AIProviderFactory.registerCustomProviders([]);
+            expect(AIProviderFactory.hasProvider('custom-gateway')).toBe(false);
+        });
+
+        it('should not override built-in providers', () => {
+            AIProviderFactory.registerCustomProviders([{ ...definition, id: 'openai' }]);
+            expect(AIProviderFactory.getRegistration('openai')?.custom).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,180 @@
+/**
+ * Unit tests for LocalModelProvider
+ * Tests Ollama / OpenAI-compatible local server handling
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { LocalModelProvider } from '@/ai/providers/LocalModelProvider';
+import type { AIModelConfig, Message, StreamEvent } from '@/ai/types';
+
+function streamResponse(lines: string[]): Response {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream({
+        start(controller) {
+            lines.forEach(line => controller.enqueue(encoder.encode(line)));
+            controller.close();
+        },
+    });
+    return new Response(body, { status: 200 });
+}
+
+describe('LocalModelProvider', () => {
+    const mockConfig: AIModelConfig = {
+        provider: 'local',
+        modelId: 'llama3.2',
+        apiKey: '',
+        baseURL: 'http://localhost:11434',
+        maxTokens: 1024,
+        temperature: 0.7,
+    };
+    const messages: Message[] = [{ role: 'user', content: 'Hello' }];
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    describe('Configuration Validation', () => {
+        it('should accept an empty API key', () => {
+            expect(() => new LocalModelProvider(mockConfig)).not.toThrow();
+        });
+
+        it('should require a model ID', () => {
+            expect(() => new LocalModelProvider({ ...mockConfig, modelId: '' })).toThrow('Model ID is required');
+        });
+
+        it('should detect the API format from the base URL', () => {
+            expect(LocalModelProvider.detectApiFormat('http://localhost:11434')).toBe('ollama');
+            expect(LocalModelProvider.detectApiFormat('http://localhost:1234/v1')).toBe('openai');
+        });
+    });
+
+    describe('sendMessage', () => {
+        it('should call Ollama /api/chat without an Authorization header', async () => {
+            const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+                message: { role: 'assistant', content: 'Hi there' },
+                done: true,
+            })));
+            vi.stubGlobal('fetch', fetchMock);
+
+            const provider = new LocalModelProvider(mockConfig);
+            const response = await provider.sendMessage(messages, { systemPrompt: 'Be brief' });
+
+            expect(response).toBe('Hi there');
+            const [url, init] = fetchMock.mock.calls[0];
+            expect(url).toBe('http://localhost:11434/api/chat');
+            expect(init.headers.Authorization).toBeUndefined();
+
+            const body = JSON.parse(init.body);
+            expect(body.stream).toBe(false);
+            expect(body.messages[0]).toEqual({ role: 'system', content: 'Be brief' });
+            expect(body.options.num_predict).toBe(1024);
+        });
+
+        it('should call /chat/completions for OpenAI-compatible servers', async () => {
+            const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+                choices: [{ message: { content: 'From LM Studio' } }],
+            })));
+            vi.stubGlobal('fetch', fetchMock);
+
+            const provider = new LocalModelProvider({ ...mockConfig, baseURL: 'http://localhost:1234/v1' });
+            const response = await provider.sendMessage(messages);
+
+            expect(response).toBe('From LM Studio');
+            expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:1234/v1/chat/completions');
+        });
+    });
+
+    describe('streamMessage', () => {
+        it('should parse NDJSON chunks split across reads', async () => {
+            vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamResponse([
+                '{"message":{"content":"Hel"},"done":false}\n{"message":',
+                '{"content":"lo"},"done":false}\n',
+                '{"message":{"content":""},"done":true}',
+            ])));
+
+            const chunks: string[] = [];
+            const onComplete = vi.fn();
+            const provider = new LocalModelProvider(mockConfig);
+            await provider.streamMessage(messages, {
+                onStream: chunk => chunks.push(chunk),
+                onComplete,
+            });
+
+            expect(chunks.join('')).toBe('Hello');
+            expect(onComplete).toHaveBeenCalled();
+        });
+
+        it('should report token usage from the final chunk', async () => {
+            vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamResponse([
+                '{"message":{"content":"Hi"},"done":false}\n',
+                '{"message":{"content":""},"done":true,"prompt_eval_count":12,"eval_count":3}\n',
+            ])));
+
+            const onUsage = vi.fn();
+            const provider = new LocalModelProvider(mockConfig);
+            await provider.streamMessage(messages, { onStream: () => {}, onUsage });
+
+            expect(onUsage).toHaveBeenCalledWith({ inputTokens: 12, outputTokens: 3 });
+        });
+
+        it('should stream reasoning separately from the answer', async () => {
+            vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamResponse([
+                '{"message":{"content":"","thinking":"Let me think"},"done":false}\n',
+                '{"message":{"content":"Answer"},"done":false}\n',
+                '{"message":{"content":""},"done":true}\n',
+            ])));
+
+            const chunks: string[] = [];
+            const events: StreamEvent[] = [];
+            const provider = new LocalModelProvider(mockConfig);
+            await provider.streamMessage(messages, {
+                onStream: chunk => chunks.push(chunk),
+                onStreamEvent: event => events.push(event),
+            });
+
+            expect(chunks.join('')).toBe('Answer');
+            expect(events).toEqual([
+                { type: 'reasoning', text: 'Let me think' },
+                { type: 'text', text: 'Answer' },
+            ]);
+        });
+
+        it('should surface errors reported in the stream', async () => {
+            vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamResponse([
+                '{"error":"model requires more system memory"}\n',
+            ])));
+
+            const provider = new LocalModelProvider(mockConfig);
+            await expect(provider.streamMessage(messages, { onStream: () => {} }))
+                .rejects.toThrow('model requires more system memory');
+        });
+    });
+
+    describe('refreshModels', () => {
+        it('should fill metadata models from /api/tags', async () => {
+            const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+                models: [
+                    { name: 'qwen2.5:7b', details: { parameter_size: '7.6B', family: 'qwen2' } },
+                    { name: 'llama3.2:latest', details: {} },
+                ],
+            })));
+            vi.stubGlobal('fetch', fetchMock);
+
+            const models = await LocalModelProvider.refreshModels('http://localhost:11434/');
+
+            expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/api/tags');
+            expect(models.map(m => m.id)).toEqual(['qwen2.5:7b', 'llama3.2:latest']);
+
+            const metadata = new LocalModelProvider(mockConfig).getMetadata();
+            expect(metadata.requiresApiKey).toBe(false);
+            expect(metadata.models[0].displayName).toBe('qwen2.5:7b (7.6B)');
+            expect(metadata.defaultModel).toBe('qwen2.5:7b');
+        });
+
+        it('should return an empty list when the server is unreachable', async () => {
+            vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('fetch failed')));
+
+            await expect(LocalModelProvider.refreshModels()).resolves.toEqual([]);
+        });
+    });
+});
@@ -88,6 +88,37 @@ describe('OpenAIProvider', () => {
             expect(response).toBe('Hello! How can I help you?');
         });
         
+        it('should request a json_schema response format for structured output', async () => {
+            let requestBody: any;
+            nock('https://api.openai.com')
+                .post('/v1/chat/completions', (body) => {
+                    requestBody = body;
+                    return true;
+                })
+                .reply(200, {
+                    id: 'chatcmpl-test',
+                    object: 'chat.completion',
+                    created: 1234567890,
+                    model: 'gpt-4-turbo-preview',
+                    choices: [{
+                        index: 0,
+                        message: { role: 'assistant', content: '{"title":"Notes"}' },
+                        finish_reason: 'stop',
+                    }],
+                });
+
+            const schema = { type: 'object' as const, properties: { title: { type: 'string' as const } }, required: ['title'] };
+            const response = await provider.sendMessage([{ role: 'user', content: 'Name it' }], {
+                responseSchema: { name: 'structured_output', schema },
+            });
+
+            expect(requestBody.response_format).toEqual({
+                type: 'json_schema',
+                json_schema: { name: 'structured_output', schema, strict: false },
+            });
+            expect(response).toBe('{"title":"Notes"}');
+        });
+
         it('should handle malformed API response - missing choices', async () => {
             nock('https://api.openai.com')
                 .post('/v1/chat/completions')
@@ -176,6 +207,92 @@ describe('OpenAIProvider', () => {
         });
     });
     
+    describe('sendToolTurn', () => {
+        beforeEach(() => {
+            provider = new OpenAIProvider(mockConfig);
+        });
+
+        it('should send function tools and parse tool_calls arguments', async () => {
+            let requestBody: any;
+            nock('https://api.openai.com')
+                .post('/v1/chat/completions', (body) => {
+                    requestBody = body;
+                    return true;
+                })
+                .reply(200, {
+                    id: 'chatcmpl-test',
+                    object: 'chat.completion',
+                    created: 1234567890,
+                    model: 'gpt-4-turbo-preview',
+                    choices: [{
+                        index: 0,
+                        message: {
+                            role: 'assistant',
+                            content: null,
+                            tool_calls: [{
+                                id: 'call_1',
+                                type: 'function',
+                                function: { name: 'get_block_kramdown', arguments: '{"id":"20240101120000-abcdefg"}' },
+                            }],
+                        },
+                        finish_reason: 'tool_calls',
+                    }],
+                });
+
+            const result = await provider.sendToolTurn([
+                { role: 'user', content: 'Read the block' },
+                { role: 'assistant', content: '', toolCalls: [{ id: 'call_0', name: 'list_docs', arguments: {} }] },
+                { role: 'tool', results: [{ toolCallId: 'call_0', name: 'list_docs', content: '{"notebooks":[]}' }] },
+            ], {
+                systemPrompt: 'You are helpful',
+                tools: [{
+                    name: 'get_block_kramdown',
+                    description: 'Read a block',
+                    parameters: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] },
+                }],
+            });
+
+            expect(requestBody.tools[0].type).toBe('function');
+            expect(requestBody.tools[0].function.name).toBe('get_block_kramdown');
+            expect(requestBody.messages[0]).toEqual({ role: 'system', content: 'You are helpful' });
+            expect(requestBody.messages[2].tool_calls[0].function.arguments).toBe('{}');
+            expect(requestBody.messages[3]).toEqual({ role: 'tool', tool_call_id: 'call_0', content: '{"notebooks":[]}' });
+            expect(result.stopReason).toBe('tool_calls');
+            expect(result.toolCalls).toEqual([
+                { id: 'call_1', name: 'get_block_kramdown', arguments: { id: '20240101120000-abcdefg' } },
+            ]);
+        });
+
+        it('should send user images as image_url parts', async () => {
+            let requestBody: any;
+            nock('https://api.openai.com')
+                .post('/v1/chat/completions', (body) => {
+                    requestBody = body;
+                    return true;
+                })
+                .reply(200, {
+                    id: 'chatcmpl-test',
+                    object: 'chat.completion',
+                    created: 1234567890,
+                    model: 'gpt-4-turbo-preview',
+                    choices: [{
+                        index: 0,
+                        message: { role: 'assistant', content: 'A chart' },
+                        finish_reason: 'stop',
+                    }],
+                });
+
+            await provider.sendToolTurn([
+                { role: 'user', content: 'What is this?', images: [{ mediaType: 'image/png', data: 'iVBORw0KGgo=' }] },
+            ], { tools: [] });
+
+            expect(requestBody.messages[0].content).toEqual([
+                { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+                { type: 'text', text: 'What is this?' },
+            ]);
+        });
+    });
+
     describe('getAvailableModels', () => {
         it('should return list of OpenAI models', () => {
             provider = new OpenAIProvider(mockConfig);
@@ -0,0 +1,52 @@
+/**
+ * Unit tests for AttributeOutput (mapping AI answers to block attributes)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AttributeOutput } from '@/quick-edit/AttributeOutput';
+
+describe('AttributeOutput', () => {
+    it('should parse mapping lines and format them back', () => {
+        const text = '# auto tags\ndoc.tags\nsummary -> doc.custom-summary\ntitle -> doc.title';
+        const { targets, errors } = AttributeOutput.parseTargets(text);
+
+        expect(errors).toEqual([]);
+        expect(targets).toEqual([
+            { field: 'tags', scope: 'doc' },
+            { source: 'summary', field: 'custom', name: 'summary', scope: 'doc' },
+            { source: 'title', field: 'title', scope: 'doc' },
+        ]);
+        expect(AttributeOutput.formatTargets(targets)).toBe('doc.tags\nsummary -> doc.custom-summary\ntitle -> doc.title');
+    });
+
+    it('should report unknown attributes, block titles and block tags', () => {
+        const { targets, errors } = AttributeOutput.parseTargets('color\ntitle\ncustom-Bad Name\ntags');
+
+        expect(targets).toEqual([]);
+        expect(errors).toHaveLength(4);
+        expect(errors[1]).toContain('doc.title');
+        expect(errors[3]).toContain('doc.tags');
+    });
+
+    it('should collect values from the answer text and structured fields', () => {
+        const { targets } = AttributeOutput.parseTargets('doc.tags\nheadline -> doc.title\nsummary -> custom-summary');
+        const values = AttributeOutput.collectValues(targets, '#AI, notes，AI', {
+            headline: '# "Weekly review"\nextra',
+        });
+
+        expect(values).toEqual([
+            { target: targets[0], value: 'AI,notes' },
+            { target: targets[1], value: 'Weekly review' },
+        ]);
+    });
+
+    it('should merge tags and aliases into existing attributes', () => {
+        const { targets } = AttributeOutput.parseTargets('doc.tags\ncustom-summary');
+        const values = AttributeOutput.collectValues(targets, 'notes, review');
+
+        expect(AttributeOutput.toAttributes(values, { tags: 'inbox,notes', 'custom-summary': 'old' })).toEqual({
+            tags: 'inbox,notes,review',
+            'custom-summary': 'notes, review',
+        });
+    });
+});
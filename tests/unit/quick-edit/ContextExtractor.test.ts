@@ -0,0 +1,43 @@
+/**
+ * Unit tests for ContextExtractor.splitStablePrefix (prompt cache breakpoints)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ContextExtractor } from '@/quick-edit/ContextExtractor';
+import type { EditorHelper } from '@/editor/EditorHelper';
+
+describe('ContextExtractor.splitStablePrefix', () => {
+    const extractor = new ContextExtractor({} as EditorHelper);
+
+    it('should split at the first placeholder that changes between requests', () => {
+        expect(extractor.splitStablePrefix('Style guide:\n\nEdit: {instruction}\n{original}')).toEqual({
+            prefix: 'Style guide:\n\nEdit: ',
+            rest: '{instruction}\n{original}'
+        });
+        expect(extractor.splitStablePrefix('Rules {above=3} text')).toEqual({ prefix: 'Rules ', rest: '{above=3} text' });
+        expect(extractor.splitStablePrefix('Rules {attrs.doc.custom-x|none}')).toEqual({
+            prefix: 'Rules ',
+            rest: '{attrs.doc.custom-x|none}'
+        });
+    });
+
+    it('should keep pinned block references and escaped braces in the prefix', () => {
+        const template = "Glossary: {custom=((20240101120000-abcdefg 'terms'))} \\{literal} then {original}";
+
+        expect(extractor.splitStablePrefix(template)).toEqual({
+            prefix: "Glossary: {custom=((20240101120000-abcdefg 'terms'))} \\{literal} then ",
+            rest: '{original}'
+        });
+    });
+
+    it('should end the prefix at a template tag', () => {
+        expect(extractor.splitStablePrefix('Intro {{#if selection}}x{{/if}}')).toEqual({
+            prefix: 'Intro ',
+            rest: '{{#if selection}}x{{/if}}'
+        });
+    });
+
+    it('should treat a template without placeholders as a stable prefix', () => {
+        expect(extractor.splitStablePrefix('Fix the grammar.')).toEqual({ prefix: 'Fix the grammar.', rest: '' });
+    });
+});
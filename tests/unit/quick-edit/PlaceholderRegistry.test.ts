@@ -0,0 +1,103 @@
+/**
+ * Unit tests for PlaceholderRegistry
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PlaceholderRegistry } from '@/quick-edit/PlaceholderRegistry';
+
+const BLOCK_ID = '20240101120000-aaaaaaa';
+const DOC_ID = '20240101120000-ddddddd';
+
+function mockApi(handlers: Record<string, (body: any) => any>) {
+    const fetchMock = vi.fn(async (url: string, init: any) => {
+        const handler = handlers[url];
+        if (!handler) return { ok: true, json: async () => ({ code: -1, msg: `no handler for ${url}` }) };
+        return { ok: true, json: async () => ({ code: 0, data: handler(JSON.parse(init.body)) }) };
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+}
+
+describe('PlaceholderRegistry', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should parse tokens with arguments, defaults and escapes', () => {
+        const segments = PlaceholderRegistry.parse('a {above=3} \\{doc_title} {attrs.doc.custom-x|none} {sql:SELECT 1}');
+
+        expect(segments).toEqual([
+            'a ',
+            { raw: '{above=3}', name: 'above', separator: '=', arg: '3', fallback: undefined, index: 2 },
+            ' ',
+            '{',
+            'doc_title} ',
+            { raw: '{attrs.doc.custom-x|none}', name: 'attrs', separator: '.', arg: 'doc.custom-x', fallback: 'none', index: 25 },
+            ' ',
+            { raw: '{sql:SELECT 1}', name: 'sql', separator: ':', arg: 'SELECT 1', fallback: undefined, index: 51 }
+        ]);
+    });
+
+    it('should replace request values once and leave unknown or unavailable placeholders', async () => {
+        const result = await PlaceholderRegistry.render('{instruction}: {original} {selection} {unknown} {"json": 1}', {
+            blockIds: [],
+            values: { instruction: 'Fix $& typos', original: 'text with {instruction}' }
+        });
+
+        expect(result).toBe('Fix $& typos: text with {instruction} {selection} {unknown} {"json": 1}');
+    });
+
+    it('should use defaults for empty or failing placeholders', async () => {
+        const result = await PlaceholderRegistry.render('[{parent_heading|none}] [{sql:DELETE FROM blocks|blocked}] [{sql:DROP}]', {
+            blockIds: []
+        });
+
+        expect(result).toBe('[none] [blocked] []');
+    });
+
+    it('should format dates', () => {
+        const date = new Date(2024, 0, 5, 9, 3, 7);
+
+        expect(PlaceholderRegistry.formatDate(date)).toBe('2024-01-05');
+        expect(PlaceholderRegistry.formatDate(date, 'YYYY/MM/DD HH:mm:ss')).toBe('2024/01/05 09:03:07');
+    });
+
+    it('should resolve document placeholders with one query per lookup', async () => {
+        const fetchMock = mockApi({
+            '/api/query/sql': ({ stmt }) => stmt.includes(`id = '${BLOCK_ID}'`)
+                ? [{ id: BLOCK_ID, root_id: DOC_ID, box: 'box1', type: 'h', subtype: 'h2', hpath: '/Notes/Doc', content: 'Heading' }]
+                : [{ id: DOC_ID, root_id: DOC_ID, box: 'box1', type: 'd', subtype: '', hpath: '/Notes/Doc', content: 'My Doc' }],
+            '/api/attr/getBlockAttrs': ({ id }) => id === DOC_ID ? { tags: 'a,b', 'custom-x': 'doc value' } : { 'custom-x': 'block value' },
+            '/api/notebook/lsNotebooks': () => ({ notebooks: [{ id: 'box1', name: 'Work' }] })
+        });
+
+        const result = await PlaceholderRegistry.render(
+            '{doc_title} | {doc_path} | {notebook} | {block_type} | {tags} | {attrs.custom-x} | {attrs.doc.custom-x} | {attrs.custom-y|-}',
+            { blockIds: [BLOCK_ID] }
+        );
+
+        expect(result).toBe('My Doc | /Notes/Doc | Work | NodeHeading | a, b | block value | doc value | -');
+        const sqlCalls = fetchMock.mock.calls.filter(([url]) => url === '/api/query/sql');
+        expect(sqlCalls).toHaveLength(2);
+    });
+
+    it('should report preview values and errors per distinct placeholder', async () => {
+        const previews = await PlaceholderRegistry.preview('{instruction} {instruction} {foo} {sql:UPDATE x}', {
+            blockIds: [],
+            values: { instruction: 'Shorten' }
+        });
+
+        expect(previews).toEqual([
+            { raw: '{instruction}', known: true, value: 'Shorten' },
+            { raw: '{foo}', known: false, value: undefined },
+            { raw: '{sql:UPDATE x}', known: true, error: '仅支持单条 SELECT 语句' }
+        ]);
+    });
+
+    it('should suggest placeholders starting with the typed text first', () => {
+        const names = PlaceholderRegistry.suggest('b').map(definition => definition.name);
+
+        expect(names.slice(0, 5)).toEqual(['below', 'below_blocks', 'block_type', 'block_subtype', 'backlinks']);
+        expect(names).toContain('above_blocks');
+    });
+});
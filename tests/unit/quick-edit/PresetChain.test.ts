@@ -0,0 +1,89 @@
+/**
+ * Unit tests for PresetChain
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { PresetChain } from '@/quick-edit/PresetChain';
+import type { PromptTemplate } from '@/settings/config-types';
+
+const preset = (id: string, name: string, extra: Partial<PromptTemplate> = {}): PromptTemplate => ({
+    id, name, systemPrompt: '', appendedPrompt: '', isBuiltIn: false, editInstruction: `${name}: {original}`, ...extra
+});
+
+const presets = [
+    preset('grammar', '语法修正'),
+    preset('translate', '翻译成英文'),
+    preset('chat', '对话', { editInstruction: '' }),
+    preset('pipeline', '流水线', { chain: [{ presetId: 'grammar' }] }),
+    preset('tone', '改写语气', { variables: [{ name: 'tone', label: '语气', type: 'text' }] })
+];
+
+describe('PresetChain', () => {
+    it('should parse preset references, inline steps and filter options', () => {
+        const { steps, errors } = PresetChain.parse([
+            '# 先修正再精简',
+            '@语法修正',
+            '精简到原来的一半长度',
+            '@translate | nofilter'
+        ].join('\n'), presets, 'self');
+
+        expect(errors).toEqual([]);
+        expect(steps).toEqual([
+            { presetId: 'grammar' },
+            { instruction: '精简到原来的一半长度' },
+            { presetId: 'translate', applyFilters: false }
+        ]);
+        expect(PresetChain.format(steps, presets)).toBe('@语法修正\n精简到原来的一半长度\n@翻译成英文 | nofilter');
+    });
+
+    it('should reject missing, nested, self, chat-only and variable presets', () => {
+        const { steps, errors } = PresetChain.parse('@不存在\n@流水线\n@self\n@对话\n| nofilter\n@改写语气', [...presets, preset('self', '自身')], 'self');
+
+        expect(steps).toEqual([]);
+        expect(errors).toEqual([
+            '第 1 行：找不到预设「不存在」',
+            '第 2 行：「流水线」是链式预设，不能嵌套引用',
+            '第 3 行：不能引用链式预设自身',
+            '第 4 行：预设「对话」没有快速编辑模版',
+            '第 5 行：缺少指令',
+            '第 6 行：预设「改写语气」有输入变量，不能在链式步骤中引用'
+        ]);
+    });
+
+    it('should append the previous output to inline instructions without {original}', () => {
+        expect(PresetChain.stepTemplate({ instruction: '精简' })).toBe('精简\n\n原文：\n{original}');
+        expect(PresetChain.stepTemplate({ instruction: '总结 {original}' })).toBe('总结 {original}');
+        expect(PresetChain.stepTemplate({ presetId: 'grammar' }, presets[0])).toBe('语法修正: {original}');
+    });
+
+    it('should pass each output to the next step and report progress', async () => {
+        const runStep = vi.fn(async (_step, input: string, index: number) => ` ${input}+${index} `);
+        const onProgress = vi.fn();
+
+        const stages = await PresetChain.run(
+            [{ presetId: 'grammar' }, { instruction: '精简' }],
+            'text',
+            runStep,
+            { onProgress }
+        );
+
+        expect(stages.map(stage => stage.output)).toEqual(['text+0', 'text+0+1']);
+        expect(runStep).toHaveBeenNthCalledWith(2, { instruction: '精简' }, 'text+0', 1);
+        expect(onProgress.mock.calls.map(([progress]) => [progress.stages.length, progress.running]))
+            .toEqual([[0, 0], [1, 1], [2, undefined]]);
+    });
+
+    it('should stop on empty output or when aborted', async () => {
+        await expect(PresetChain.run([{ instruction: 'a' }, { instruction: 'b' }], 'text', async () => ' '))
+            .rejects.toThrow('第 1 步没有输出');
+
+        const controller = new AbortController();
+        const runStep = vi.fn(async () => {
+            controller.abort();
+            return 'done';
+        });
+        await expect(PresetChain.run([{ instruction: 'a' }, { instruction: 'b' }], 'text', runStep, { signal: controller.signal }))
+            .rejects.toMatchObject({ name: 'AbortError' });
+        expect(runStep).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for PresetVariables
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PresetVariables } from '@/quick-edit/PresetVariables';
+import { TemplateEngine } from '@/quick-edit/TemplateEngine';
+
+const declarations = [
+    '# 翻译选项',
+    'language (目标语言): enum(中文|English|日本語) = English',
+    'tone: text = 正式',
+    'length (字数): number(50..2000) = 300'
+].join('\n');
+
+describe('PresetVariables', () => {
+    beforeEach(() => {
+        const store = new Map<string, string>();
+        vi.mocked(localStorage.getItem).mockImplementation(key => store.get(key) ?? null);
+        vi.mocked(localStorage.setItem).mockImplementation((key, value) => { store.set(key, value); });
+    });
+
+    it('should parse declarations and format them back', () => {
+        const { variables, errors } = PresetVariables.parse(declarations);
+
+        expect(errors).toEqual([]);
+        expect(variables).toEqual([
+            { name: 'language', label: '目标语言', type: 'enum', options: ['中文', 'English', '日本語'], default: 'English' },
+            { name: 'tone', type: 'text', default: '正式' },
+            { name: 'length', label: '字数', type: 'number', min: 50, max: 2000, default: '300' }
+        ]);
+        expect(PresetVariables.parse(PresetVariables.format(variables)).variables).toEqual(variables);
+    });
+
+    it('should report invalid declarations with line numbers', () => {
+        const { variables, errors } = PresetVariables.parse([
+            'tone: text',
+            'tone: text',
+            'language: enum() = English',
+            'style: enum(a|b) = c',
+            'length: number(1..10) = 20',
+            'count: number(a..b)',
+            'just text'
+        ].join('\n'));
+
+        expect(variables.map(variable => variable.name)).toEqual(['tone']);
+        expect(errors).toHaveLength(6);
+        expect(errors[0]).toContain('第 2 行');
+        expect(errors[0]).toContain('重复');
+        expect(errors[2]).toContain('不在选项中');
+        expect(errors[3]).toContain('不能大于 10');
+        expect(errors[5]).toContain('第 7 行');
+    });
+
+    it('should remember the last values per preset and fall back to defaults', () => {
+        const { variables } = PresetVariables.parse(declarations);
+
+        expect(PresetVariables.initialValues('translate', variables))
+            .toEqual({ language: 'English', tone: '正式', length: '300' });
+
+        PresetVariables.remember('translate', { language: '日本語', tone: '口语', length: '5000' });
+
+        expect(PresetVariables.initialValues('translate', variables))
+            .toEqual({ language: '日本語', tone: '口语', length: '300' });
+        expect(PresetVariables.initialValues('other', variables).language).toBe('English');
+    });
+
+    it('should substitute values into templates and conditions', async () => {
+        const template = 'Translate into {var.language}{{#if var.tone == "正式"}}, formally{{/if}}. {var.missing}';
+
+        const result = await TemplateEngine.render(template, {
+            blockIds: [],
+            variables: { language: 'English', tone: '正式' }
+        });
+
+        expect(result).toBe('Translate into English, formally. {var.missing}');
+    });
+
+    it('should load values from file storage and save changes there', async () => {
+        const { variables } = PresetVariables.parse(declarations);
+        const plugin = {
+            loadData: vi.fn().mockResolvedValue({ translate: { language: '中文', length: 42 }, broken: 'x' }),
+            saveData: vi.fn().mockResolvedValue(undefined)
+        };
+
+        await PresetVariables.init(plugin);
+        expect(plugin.loadData).toHaveBeenCalledWith('preset-variable-values.json');
+        expect(PresetVariables.initialValues('translate', variables))
+            .toEqual({ language: '中文', tone: '正式', length: '300' });
+
+        PresetVariables.remember('translate', { language: 'English', tone: '口语', length: '500' });
+        expect(plugin.saveData).toHaveBeenCalledWith('preset-variable-values.json', {
+            translate: { language: 'English', tone: '口语', length: '500' }
+        });
+        expect(localStorage.setItem).toHaveBeenCalledWith('claude-preset-variable-values', expect.any(String));
+    });
+});
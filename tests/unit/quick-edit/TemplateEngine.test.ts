@@ -0,0 +1,84 @@
+/**
+ * Unit tests for TemplateEngine
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { TemplateEngine } from '@/quick-edit/TemplateEngine';
+import type { ContextExtractor } from '@/quick-edit/ContextExtractor';
+
+const values = { instruction: 'Polish', original: 'const a = 1;' };
+
+describe('TemplateEngine', () => {
+    it('should pick the first matching branch and drop lines holding only tags', async () => {
+        const template = [
+            '{{#if original contains "const" && instruction != ""}}',
+            'Code: {original}',
+            '{{else if instruction == "Polish"}}',
+            'Polish it',
+            '{{else}}',
+            'Other',
+            '{{/if}}',
+            'Done'
+        ].join('\n');
+
+        expect(await TemplateEngine.render(template, { blockIds: [], values })).toBe('Code: const a = 1;\nDone');
+        expect(await TemplateEngine.render(template, { blockIds: [], values: { ...values, original: 'text' } }))
+            .toBe('Polish it\nDone');
+    });
+
+    it('should evaluate negation, parentheses and numeric comparisons', async () => {
+        const render = (condition: string) =>
+            TemplateEngine.render(`{{#if ${condition}}}yes{{else}}no{{/if}}`, { blockIds: [], values: { original: '10' } });
+
+        expect(await render('!(original == "10")')).toBe('no');
+        expect(await render('original > 9')).toBe('yes');
+        expect(await render('original >= "9" || instruction')).toBe('yes');
+        expect(await render('instruction')).toBe('no');
+    });
+
+    it('should loop over list placeholders with loop variables', async () => {
+        const contextExtractor = {
+            getContextBlockContents: vi.fn().mockResolvedValue(['First', 'Second'])
+        } as unknown as ContextExtractor;
+
+        const result = await TemplateEngine.render(
+            '{{#each above_blocks=2}}{{@index}}: {{this}}{{#if !@last}}, {{/if}}{{else}}none{{/each}} | {original}',
+            { blockIds: ['20240101120000-aaaaaaa'], values, contextExtractor }
+        );
+
+        expect(result).toBe('0: First, 1: Second | const a = 1;');
+        expect(contextExtractor.getContextBlockContents).toHaveBeenCalledWith(['20240101120000-aaaaaaa'], 'above', 2);
+    });
+
+    it('should render the else part of an empty loop and keep escaped tags', async () => {
+        const result = await TemplateEngine.render('{{#each tags}}#{{this}} {{else}}no tags{{/each}} \\{{literal}}', { blockIds: [] });
+
+        expect(result).toBe('no tags {{literal}}');
+    });
+
+    it('should not replace placeholders inside loop items or variable values', async () => {
+        const result = await TemplateEngine.render('{{original}} {instruction}', {
+            blockIds: [],
+            values: { original: '{instruction}', instruction: 'Polish' }
+        });
+
+        expect(result).toBe('{instruction} Polish');
+    });
+
+    it('should report syntax errors with line numbers', () => {
+        expect(TemplateEngine.validate('{{#if block_type == "NodeHeading"}}\nHeading\n{{/if}}')).toEqual([]);
+        expect(TemplateEngine.validate('a\n{{#if block_type == "NodeHeading"}}\nHeading'))
+            .toEqual(['模板第 2 行：{{#if}} 缺少 {{/if}}']);
+        expect(TemplateEngine.validate('{{#if a ==}}x{{/if}}')[0]).toContain('第 1 行');
+        expect(TemplateEngine.validate('{{#if original}}x{{/each}}')[0]).toContain('不匹配');
+        expect(TemplateEngine.validate('{{#each original}}x{{/each}}')[0]).toContain('只能遍历');
+        expect(TemplateEngine.validate('{{this}}')[0]).toContain('{{#each}}');
+        expect(TemplateEngine.validate('{{#if blok_type}}x{{/if}}')[0]).toContain('未知变量「blok_type」');
+        expect(TemplateEngine.validate('{{#if original}}a{{else}}b{{else}}c{{/if}}')[0]).toContain('{{else}}');
+        expect(TemplateEngine.validate('{{#unless x}}{{/unless}}')[0]).toContain('未知的标签');
+    });
+
+    it('should reject invalid templates when rendering', async () => {
+        await expect(TemplateEngine.render('{{#if original}}', { blockIds: [] })).rejects.toThrow('缺少 {{/if}}');
+    });
+});
@@ -0,0 +1,57 @@
+/**
+ * Unit tests for BM25Index (keyword index for notebook retrieval)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BM25Index } from '@/retrieval/BM25Index';
+
+describe('BM25Index', () => {
+    describe('tokenize', () => {
+        it('should split CJK runs into bigrams and keep Latin words whole', () => {
+            expect(BM25Index.tokenize('Hello 思源笔记 a 1')).toEqual(['hello', '1', '思源', '源笔', '笔记']);
+        });
+
+        it('should keep single CJK characters as unigrams', () => {
+            expect(BM25Index.tokenize('好 test')).toEqual(['test', '好']);
+            expect(BM25Index.tokenize('')).toEqual([]);
+        });
+    });
+
+    it('should rank documents by term relevance', () => {
+        const index = new BM25Index();
+        index.add('a', '思源笔记插件开发指南');
+        index.add('b', '思源笔记 思源笔记 使用技巧');
+        index.add('c', 'Weekly meeting notes');
+
+        const results = index.search('思源笔记');
+
+        expect(results.map(r => r.id)).toEqual(['b', 'a']);
+        expect(results[0].score).toBeGreaterThan(results[1].score);
+        expect(index.search('meeting').map(r => r.id)).toEqual(['c']);
+        expect(index.search('missing')).toEqual([]);
+    });
+
+    it('should honour the result limit', () => {
+        const index = new BM25Index();
+        for (let i = 0; i < 5; i++) {
+            index.add(`doc-${i}`, `plugin note ${i}`);
+        }
+
+        expect(index.search('plugin', 2)).toHaveLength(2);
+    });
+
+    it('should forget removed and replaced documents', () => {
+        const index = new BM25Index();
+        index.add('a', 'alpha beta');
+        index.add('b', 'beta gamma');
+
+        index.remove('a');
+        expect(index.size).toBe(1);
+        expect(index.search('alpha')).toEqual([]);
+        expect(index.search('beta').map(r => r.id)).toEqual(['b']);
+
+        index.add('b', 'delta');
+        expect(index.search('gamma')).toEqual([]);
+        expect(index.search('delta').map(r => r.id)).toEqual(['b']);
+    });
+});
@@ -0,0 +1,44 @@
+/**
+ * Unit tests for NotebookRetriever ("Ask my notebook" prompt building)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { NotebookRetriever } from '@/retrieval/NotebookRetriever';
+import type { RetrievedBlock } from '@/retrieval/types';
+
+const block = (id: string, content: string): RetrievedBlock => ({
+    id,
+    rootId: '20240101000000-rootdoc',
+    hpath: '/Projects/Plugin',
+    type: 'p',
+    content,
+    updated: '20240101000000',
+    score: 1
+});
+
+describe('NotebookRetriever.buildPrompt', () => {
+    it('should number the blocks with their IDs and ask for ((id)) citations', () => {
+        const prompt = NotebookRetriever.buildPrompt('How do I build?', [
+            block('20240101120000-aaaaaaa', 'Run npm run build'),
+            block('20240101120000-bbbbbbb', 'Output goes to dist')
+        ]);
+
+        expect(prompt).toContain('[1] 块ID: 20240101120000-aaaaaaa\n文档: /Projects/Plugin\nRun npm run build');
+        expect(prompt).toContain('[2] 块ID: 20240101120000-bbbbbbb\n文档: /Projects/Plugin\nOutput goes to dist');
+        expect(prompt).toContain('例如 ((20240101120000-aaaaaaa))');
+        expect(prompt.endsWith('用户问题：How do I build?')).toBe(true);
+    });
+
+    it('should truncate long blocks', () => {
+        const prompt = NotebookRetriever.buildPrompt('Q', [block('20240101120000-aaaaaaa', 'x'.repeat(1500))]);
+
+        expect(prompt).toContain(`${'x'.repeat(1200)}...`);
+        expect(prompt).not.toContain('x'.repeat(1201));
+    });
+
+    it('should say when nothing was retrieved', () => {
+        expect(NotebookRetriever.buildPrompt('Q', [])).toBe(
+            '笔记库中没有检索到与问题相关的内容。请说明这一点，再尽量回答。\n\n用户问题：Q'
+        );
+    });
+});
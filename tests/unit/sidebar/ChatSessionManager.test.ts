@@ -0,0 +1,86 @@
+/**
+ * Unit tests for ChatSessionManager (named, resumable chat sessions)
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { ChatSessionManager } from '@/sidebar/unified/ChatSessionManager';
+import type { ChatMessage } from '@/sidebar/unified-types';
+import type { ISiYuanPlugin } from '@/types/siyuan';
+
+const message = (role: 'user' | 'assistant', content: string): ChatMessage => ({
+    id: `chat-${role}-${content.length}`,
+    type: 'chat',
+    role,
+    content,
+    timestamp: 0
+});
+
+const createPlugin = (stored: unknown = null) => ({
+    loadData: vi.fn().mockResolvedValue(stored),
+    saveData: vi.fn().mockResolvedValue(undefined)
+}) as unknown as ISiYuanPlugin;
+
+describe('ChatSessionManager', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should derive titles from the first user message', () => {
+        expect(ChatSessionManager.deriveTitle([
+            message('assistant', 'Hello'),
+            message('user', '  How do\n I   export notes?  ')
+        ])).toBe('How do I export notes?');
+        expect(ChatSessionManager.deriveTitle([message('user', 'x'.repeat(60))])).toBe(`${'x'.repeat(40)}...`);
+        expect(ChatSessionManager.deriveTitle([message('assistant', 'Hello')])).toBe('新对话');
+    });
+
+    it('should drop malformed sessions and messages when loading', async () => {
+        const manager = new ChatSessionManager(createPlugin({
+            activeSessionId: 'session-b',
+            sessions: [
+                { id: 'session-a', title: '', updatedAt: 5, messages: [
+                    message('user', 'question'),
+                    { role: 'system', content: 'dropped' },
+                    { role: 'assistant', content: 42 }
+                ] },
+                { id: 'session-b', title: 'Kept', messages: [] },
+                { title: 'no id', messages: [] },
+                { id: 'no-messages' }
+            ]
+        }));
+        await manager.init();
+
+        const sessions = manager.listSessions();
+        expect(sessions.map(s => s.id).sort()).toEqual(['session-a', 'session-b']);
+        const first = manager.getSession('session-a')!;
+        expect(first.title).toBe('新对话');
+        expect(first.presetId).toBe('default');
+        expect(first.messages).toEqual([{ ...message('user', 'question'), streaming: false }]);
+        expect(manager.getActiveSessionId()).toBe('session-b');
+    });
+
+    it('should ignore stored data that is not a session store', async () => {
+        const manager = new ChatSessionManager(createPlugin({ activeSessionId: 'x', sessions: 'broken' }));
+        await manager.init();
+
+        expect(manager.listSessions()).toEqual([]);
+        expect(manager.getActiveSessionId()).toBeNull();
+    });
+
+    it('should evict the least recently used sessions beyond the limit', async () => {
+        let now = 1000;
+        vi.spyOn(Date, 'now').mockImplementation(() => ++now);
+        const manager = new ChatSessionManager(createPlugin());
+        await manager.init();
+
+        for (let i = 0; i < 51; i++) {
+            await manager.startNewSession();
+            await manager.saveActiveSession([message('user', `question ${i}`)], { presetId: 'default', provider: 'anthropic' });
+        }
+
+        const titles = manager.listSessions().map(s => s.title);
+        expect(titles).toHaveLength(50);
+        expect(titles[0]).toBe('question 50');
+        expect(titles).not.toContain('question 0');
+    });
+});
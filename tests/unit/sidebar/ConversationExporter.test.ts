@@ -0,0 +1,65 @@
+/**
+ * Unit tests for ConversationExporter (chat export to a SiYuan document)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ConversationExporter } from '@/sidebar/unified/ConversationExporter';
+import type { ChatMessage } from '@/sidebar/unified-types';
+
+const message = (role: 'user' | 'assistant', content: string, extra: Partial<ChatMessage> = {}): ChatMessage => ({
+    id: `chat-${role}`,
+    type: 'chat',
+    role,
+    content,
+    timestamp: 0,
+    ...extra
+});
+
+describe('ConversationExporter', () => {
+    const messages = [
+        message('user', ' Explain this ', { referencedBlockIds: ['20250101000000-aaaaaaa', 'not-a-block'] }),
+        message('assistant', '   '),
+        message('assistant', 'Here:\n\n```ts\nconst a = 1;\n```')
+    ];
+
+    it('should render turns as headings with block references', () => {
+        expect(ConversationExporter.buildMarkdown(messages, { style: 'heading' })).toBe([
+            '## 🧑 User',
+            '',
+            "引用: ((20250101000000-aaaaaaa '块 1'))",
+            '',
+            'Explain this',
+            '',
+            '## 🤖 Assistant',
+            '',
+            'Here:',
+            '',
+            '```ts',
+            'const a = 1;',
+            '```',
+            ''
+        ].join('\n'));
+    });
+
+    it('should quote every line of a callout turn, code fences included', () => {
+        const markdown = ConversationExporter.buildMarkdown(messages.slice(2), { style: 'callout' });
+
+        expect(markdown).toBe([
+            '> [!TIP]',
+            '> **🤖 Assistant**',
+            '>',
+            '> Here:',
+            '>',
+            '> ```ts',
+            '> const a = 1;',
+            '> ```',
+            ''
+        ].join('\n'));
+    });
+
+    it('should normalize document paths to absolute paths', () => {
+        expect(ConversationExporter.normalizePath('AI Chats/ My topic /')).toBe('/AI Chats/My topic');
+        expect(ConversationExporter.normalizePath('//a///b')).toBe('/a/b');
+        expect(ConversationExporter.normalizePath('  ')).toBe('/');
+    });
+});
@@ -0,0 +1,89 @@
+/**
+ * Unit tests for StructuredOutput (parse and validate) and StructuredRenderer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { StructuredOutput, StructuredRenderer } from '@/structured';
+import type { ToolParameterSchema } from '@/ai/types';
+
+const taskSchema: ToolParameterSchema = {
+    type: 'object',
+    properties: {
+        tasks: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    text: { type: 'string' },
+                    done: { type: 'boolean' },
+                    priority: { type: 'string', enum: ['low', 'high'] },
+                },
+                required: ['text'],
+            },
+        },
+    },
+    required: ['tasks'],
+};
+
+describe('StructuredOutput', () => {
+    it('should parse JSON wrapped in code fences and surrounding text', () => {
+        const result = StructuredOutput.parse('Here you go:\n```json\n{"tasks":[{"text":"Write tests","done":true}]}\n```', taskSchema);
+
+        expect(result.errors).toEqual([]);
+        expect(result.data).toEqual({ tasks: [{ text: 'Write tests', done: true }] });
+    });
+
+    it('should report schema violations with JSON paths', () => {
+        const result = StructuredOutput.parse('{"tasks":[{"done":"yes","priority":"urgent"}]}', taskSchema);
+
+        expect(result.errors).toEqual([
+            '$.tasks[0].text: required property is missing',
+            '$.tasks[0].done: expected boolean, got string',
+            '$.tasks[0].priority: must be one of "low", "high"',
+        ]);
+    });
+
+    it('should reject answers that are not JSON objects', () => {
+        expect(StructuredOutput.parse('No tasks found.', taskSchema).errors).toEqual(['The answer is not a JSON object']);
+        expect(StructuredOutput.parse('{"tasks": [}', taskSchema).errors[0]).toMatch(/^Invalid JSON/);
+    });
+
+    it('should list the validation errors in the retry prompt', () => {
+        const prompt = StructuredOutput.buildRetryPrompt(['$.tasks: required property is missing']);
+
+        expect(prompt).toContain('- $.tasks: required property is missing');
+    });
+});
+
+describe('StructuredRenderer', () => {
+    const data = {
+        tasks: [
+            { text: 'Write tests', done: true },
+            { text: 'Ship | release', done: false },
+        ],
+    };
+
+    it('should render the first array as a markdown table', () => {
+        expect(StructuredRenderer.render(data, 'table').markdown).toBe([
+            '| text | done |',
+            '| --- | --- |',
+            '| Write tests | true |',
+            '| Ship \\| release | false |',
+        ].join('\n'));
+    });
+
+    it('should render task lists with checked items', () => {
+        expect(StructuredRenderer.render(data, 'tasks').markdown).toBe('- [x] Write tests\n- [ ] Ship | release');
+    });
+
+    it('should turn top-level fields into custom attributes', () => {
+        const result = StructuredRenderer.render({ summary: 'A short note', aiTags: ['ai', 'notes'] }, 'attributes');
+
+        expect(result.attributes).toEqual({ 'custom-summary': 'A short note', 'custom-ai-tags': 'ai,notes' });
+        expect(result.markdown).toContain('`custom-summary`: A short note');
+    });
+
+    it('should render JSON as a code block', () => {
+        expect(StructuredRenderer.render({ a: 1 }, 'json').markdown).toBe('```json\n{\n  "a": 1\n}\n```');
+    });
+});
@@ -0,0 +1,80 @@
+/**
+ * Unit tests for SiYuanTools (built-in SiYuan tools)
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { SiYuanTools } from '@/ai/tools/SiYuanTools';
+import { ToolRegistry } from '@/ai/tools/ToolRegistry';
+
+const BLOCK_ID = '20240101120000-abcdefg';
+
+describe('SiYuanTools', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    describe('prepareSelectQuery', () => {
+        it('should append the requested limit, capped at the maximum', () => {
+            expect(SiYuanTools.prepareSelectQuery('SELECT * FROM blocks;')).toBe('SELECT * FROM blocks LIMIT 20');
+            expect(SiYuanTools.prepareSelectQuery('SELECT * FROM blocks', 5)).toBe('SELECT * FROM blocks LIMIT 5');
+            expect(SiYuanTools.prepareSelectQuery('SELECT * FROM blocks', 1000)).toBe('SELECT * FROM blocks LIMIT 64');
+        });
+
+        it('should keep LIMIT and OFFSET clauses within the maximum', () => {
+            expect(SiYuanTools.prepareSelectQuery('SELECT * FROM blocks LIMIT 10')).toBe('SELECT * FROM blocks LIMIT 10');
+            expect(SiYuanTools.prepareSelectQuery('SELECT * FROM blocks limit 10 offset 5'))
+                .toBe('SELECT * FROM blocks LIMIT 10 OFFSET 5');
+            expect(SiYuanTools.prepareSelectQuery('SELECT * FROM blocks LIMIT 5000 OFFSET 0'))
+                .toBe('SELECT * FROM blocks LIMIT 64 OFFSET 0');
+        });
+
+        it('should convert LIMIT offset, count to LIMIT count OFFSET offset', () => {
+            expect(SiYuanTools.prepareSelectQuery('SELECT * FROM blocks LIMIT 5, 10'))
+                .toBe('SELECT * FROM blocks LIMIT 10 OFFSET 5');
+            expect(SiYuanTools.prepareSelectQuery('SELECT * FROM blocks LIMIT 100,5000'))
+                .toBe('SELECT * FROM blocks LIMIT 64 OFFSET 100');
+        });
+
+        it('should reject anything but a single SELECT statement', () => {
+            expect(() => SiYuanTools.prepareSelectQuery('DELETE FROM blocks')).toThrow('Only SELECT queries are allowed');
+            expect(() => SiYuanTools.prepareSelectQuery('SELECT 1; DROP TABLE blocks'))
+                .toThrow('Only a single SQL statement is allowed');
+        });
+    });
+
+    it('should register propose_edit only with a callback', () => {
+        const registry = new ToolRegistry();
+        SiYuanTools.register(registry);
+
+        expect(registry.getDefinitions().map(d => d.name)).toEqual(['sql_search', 'get_block_kramdown', 'list_docs']);
+    });
+
+    it('should pass edit proposals with the current block content to the callback', async () => {
+        const fetchMock = vi.fn(async () => new Response(JSON.stringify({ code: 0, data: [{ markdown: 'Old text' }] })));
+        vi.stubGlobal('fetch', fetchMock);
+        const onProposeEdit = vi.fn();
+        const registry = new ToolRegistry();
+        SiYuanTools.register(registry, { onProposeEdit });
+
+        const result = await registry.execute({
+            id: 'call-1',
+            name: 'propose_edit',
+            arguments: { block_id: BLOCK_ID, new_content: 'New text', reason: 'Typo' },
+        });
+
+        expect(result.isError).toBeUndefined();
+        expect(onProposeEdit).toHaveBeenCalledWith({ blockId: BLOCK_ID, original: 'Old text', modified: 'New text', reason: 'Typo' });
+    });
+
+    it('should reject invalid block IDs without calling the kernel', async () => {
+        const fetchMock = vi.fn();
+        vi.stubGlobal('fetch', fetchMock);
+        const registry = new ToolRegistry();
+        SiYuanTools.register(registry);
+
+        const result = await registry.execute({ id: 'call-1', name: 'get_block_kramdown', arguments: { id: 'abc' } });
+
+        expect(result).toMatchObject({ isError: true, content: 'Invalid block ID: abc' });
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,77 @@
+/**
+ * Unit tests for ToolExecutor (multi-turn tool loop)
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ToolExecutor } from '@/ai/tools/ToolExecutor';
+import { ToolRegistry } from '@/ai/tools/ToolRegistry';
+import type { AIProvider, ToolTurnResult } from '@/ai/types';
+
+const toolTurn = (id: string): ToolTurnResult => ({
+    text: '',
+    toolCalls: [{ id, name: 'echo', arguments: { text: id } }],
+    stopReason: 'tool_calls',
+});
+
+const textTurn = (text: string): ToolTurnResult => ({ text, toolCalls: [], stopReason: 'end_turn' });
+
+const createProvider = (turns: ToolTurnResult[]) => ({
+    providerName: 'Mock',
+    sendToolTurn: vi.fn(async () => turns.shift() ?? textTurn('done')),
+}) as unknown as AIProvider & { sendToolTurn: ReturnType<typeof vi.fn> };
+
+const createExecutor = () => {
+    const registry = new ToolRegistry();
+    registry.register({
+        name: 'echo',
+        description: 'Echo the text',
+        parameters: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+    }, async args => `echo: ${args.text}`);
+    return new ToolExecutor(registry);
+};
+
+describe('ToolExecutor', () => {
+    it('should execute requested tools and send the results back', async () => {
+        const provider = createProvider([toolTurn('call-1'), textTurn('The answer')]);
+        const onToolResult = vi.fn();
+
+        const result = await createExecutor().run(provider, [{ role: 'user', content: 'hi' }], { onToolResult });
+
+        expect(result.text).toBe('The answer');
+        expect(result.stopReason).toBe('end_turn');
+        expect(result.toolCalls.map(c => c.id)).toEqual(['call-1']);
+        expect(onToolResult).toHaveBeenCalledWith({ toolCallId: 'call-1', name: 'echo', content: 'echo: call-1' });
+        expect(result.messages.map(m => m.role)).toEqual(['user', 'assistant', 'tool', 'assistant']);
+        expect(provider.sendToolTurn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should request a final answer without tools after the iteration limit', async () => {
+        const provider = createProvider([toolTurn('call-1'), toolTurn('call-2'), textTurn('Summary')]);
+
+        const result = await createExecutor().run(provider, [{ role: 'user', content: 'hi' }], { maxIterations: 2 });
+
+        expect(result.text).toBe('Summary');
+        expect(result.toolCalls).toHaveLength(2);
+        expect(provider.sendToolTurn).toHaveBeenCalledTimes(3);
+        expect(provider.sendToolTurn.mock.calls[2][1]).toMatchObject({ toolChoice: 'none' });
+    });
+
+    it('should stop when the signal is aborted', async () => {
+        const controller = new AbortController();
+        const provider = createProvider([toolTurn('call-1'), textTurn('unused')]);
+        provider.sendToolTurn.mockImplementationOnce(async () => {
+            controller.abort();
+            return toolTurn('call-1');
+        });
+
+        await expect(createExecutor().run(provider, [{ role: 'user', content: 'hi' }], { signal: controller.signal }))
+            .rejects.toMatchObject({ name: 'AbortError' });
+        expect(provider.sendToolTurn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject providers without tool support', async () => {
+        const provider = { providerName: 'Plain' } as unknown as AIProvider;
+
+        await expect(createExecutor().run(provider, [])).rejects.toThrow('Plain does not support tool calling');
+    });
+});
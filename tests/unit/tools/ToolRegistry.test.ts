@@ -0,0 +1,69 @@
+/**
+ * Unit tests for ToolRegistry (tool definitions, argument validation, error results)
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ToolRegistry } from '@/ai/tools/ToolRegistry';
+import type { ToolDefinition } from '@/ai/types';
+
+const searchTool: ToolDefinition = {
+    name: 'search',
+    description: 'Search notes',
+    parameters: {
+        type: 'object',
+        properties: {
+            query: { type: 'string' },
+            limit: { type: 'integer' },
+            mode: { type: 'string', enum: ['fast', 'full'] },
+        },
+        required: ['query'],
+    },
+};
+
+describe('ToolRegistry', () => {
+    it('should reject invalid tool names and non-object schemas', () => {
+        const registry = new ToolRegistry();
+
+        expect(() => registry.register({ ...searchTool, name: 'bad name' }, async () => '')).toThrow('Invalid tool name');
+        expect(() => registry.register({ ...searchTool, parameters: { type: 'string' } }, async () => ''))
+            .toThrow('must be an object schema');
+        expect(registry.getDefinitions()).toEqual([]);
+    });
+
+    it('should run the handler with the call arguments', async () => {
+        const registry = new ToolRegistry();
+        const handler = vi.fn(async (args: Record<string, any>) => `found ${args.query}`);
+        registry.register(searchTool, handler);
+
+        const result = await registry.execute({ id: 'call-1', name: 'search', arguments: { query: 'notes', limit: 3 } });
+
+        expect(result).toEqual({ toolCallId: 'call-1', name: 'search', content: 'found notes' });
+        expect(handler).toHaveBeenCalledWith({ query: 'notes', limit: 3 }, {});
+    });
+
+    it('should return error results for unknown tools and invalid arguments', async () => {
+        const registry = new ToolRegistry();
+        const handler = vi.fn(async () => 'ok');
+        registry.register(searchTool, handler);
+
+        const execute = (name: string, args: Record<string, any>) =>
+            registry.execute({ id: 'call-1', name, arguments: args });
+
+        expect(await execute('missing', {})).toMatchObject({ isError: true, content: 'Unknown tool: missing' });
+        expect((await execute('search', {})).content).toContain('missing required parameter "query"');
+        expect((await execute('search', { query: 'a', limit: 1.5 })).content).toContain('"limit" must be of type integer');
+        expect((await execute('search', { query: 'a', mode: 'slow' })).content).toContain('"mode" must be one of: fast, full');
+        expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should turn handler failures into error results', async () => {
+        const registry = new ToolRegistry();
+        registry.register(searchTool, async () => {
+            throw new Error('database locked');
+        });
+
+        const result = await registry.execute({ id: 'call-1', name: 'search', arguments: { query: 'a' } });
+
+        expect(result).toEqual({ toolCallId: 'call-1', name: 'search', content: 'database locked', isError: true });
+    });
+});
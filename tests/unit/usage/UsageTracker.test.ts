@@ -0,0 +1,78 @@
+/**
+ * Unit tests for UsageTracker and the model price table
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { UsageTracker } from '@/usage/UsageTracker';
+import { estimateCost, getModelPrice } from '@/usage/pricing';
+
+describe('UsageTracker', () => {
+    let tracker: UsageTracker;
+    const now = new Date(2025, 5, 15, 12, 0, 0);
+
+    beforeEach(() => {
+        localStorage.clear();
+        tracker = new UsageTracker();
+    });
+
+    describe('pricing', () => {
+        it('should match the longest model prefix', () => {
+            expect(getModelPrice('gpt-4o-mini-2024-07-18')).toEqual({ input: 0.15, output: 0.6 });
+            expect(getModelPrice('claude-sonnet-4-5-20250929')).toEqual({ input: 3, output: 15 });
+            expect(getModelPrice('unknown-model')).toBeNull();
+        });
+
+        it('should not charge for local models', () => {
+            const usage = { inputTokens: 1000000, outputTokens: 1000000 };
+            expect(estimateCost('openai', 'gpt-4o', usage)).toBe(12.5);
+            expect(estimateCost('local', 'gpt-4o', usage)).toBe(0);
+        });
+
+        it('should bill prompt cache reads and writes at discounted and surcharged rates', () => {
+            const usage = { inputTokens: 0, outputTokens: 0, cacheReadTokens: 1000000, cacheWriteTokens: 1000000 };
+            expect(estimateCost('anthropic', 'claude-sonnet-4-5', usage)).toBeCloseTo(0.3 + 3.75);
+        });
+    });
+
+    describe('record', () => {
+        it('should aggregate by day, provider, feature and preset', () => {
+            const base = { provider: 'openai', model: 'gpt-4o', timestamp: now.getTime() };
+            tracker.record({ ...base, feature: 'Chat', presetId: 'writer', usage: { inputTokens: 100, outputTokens: 50 } });
+            tracker.record({ ...base, feature: 'Chat', presetId: 'writer', usage: { inputTokens: 200, outputTokens: 25, thinkingTokens: 10 } });
+            tracker.record({ ...base, feature: 'QuickEdit', usage: { inputTokens: 10, outputTokens: 5 } });
+
+            const daily = tracker.getDailyTotals(2, now);
+            expect(daily.map(d => d.date)).toEqual(['2025-06-14', '2025-06-15']);
+            expect(daily[1]).toMatchObject({ requests: 3, inputTokens: 310, outputTokens: 80, thinkingTokens: 10 });
+
+            const byFeature = tracker.getTotalsBy('feature', '2025-06-01');
+            expect(byFeature.map(r => r.key)).toEqual(['Chat', 'QuickEdit']);
+            expect(tracker.getTotalsBy('presetId', '2025-06-01').map(r => r.key)).toEqual(['writer', 'default']);
+            expect(tracker.getTotalsBy('feature', '2025-06-16')).toEqual([]);
+        });
+    });
+
+    describe('budget warnings', () => {
+        it('should warn once per level and month', () => {
+            const handler = vi.fn();
+            tracker.configure({ monthlyBudget: 10, warnAtPercent: 80 });
+            tracker.onBudgetWarning(handler);
+
+            const spend = (outputTokens: number) => tracker.record({
+                provider: 'openai',
+                model: 'gpt-4o',
+                feature: 'Chat',
+                timestamp: now.getTime(),
+                usage: { inputTokens: 0, outputTokens },
+            });
+
+            spend(850000);   // $8.50
+            spend(10000);    // $8.60
+            spend(200000);   // $10.60
+
+            expect(handler).toHaveBeenCalledTimes(2);
+            expect(handler.mock.calls[0][0]).toBe('warning');
+            expect(handler.mock.calls[1][0]).toBe('exceeded');
+        });
+    });
+});
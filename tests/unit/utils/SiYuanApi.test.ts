@@ -0,0 +1,37 @@
+/**
+ * Unit tests for SiYuanApi (kernel API calls)
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { SiYuanApi } from '@/utils/SiYuanApi';
+
+describe('SiYuanApi', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should post JSON and return the data of the answer', async () => {
+        const fetchMock = vi.fn(async () => new Response(JSON.stringify({ code: 0, data: [{ id: 'a' }] })));
+        vi.stubGlobal('fetch', fetchMock);
+
+        expect(await SiYuanApi.sql('SELECT id FROM blocks')).toEqual([{ id: 'a' }]);
+        expect(fetchMock).toHaveBeenCalledWith('/api/query/sql', expect.objectContaining({
+            method: 'POST',
+            body: JSON.stringify({ stmt: 'SELECT id FROM blocks' }),
+        }));
+    });
+
+    it('should throw on HTTP and kernel errors', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 500 })));
+        await expect(SiYuanApi.post('/api/block/getChildBlocks', { id: 'x' })).rejects.toThrow('HTTP 500');
+
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ code: -1, msg: 'no such block' }))));
+        await expect(SiYuanApi.post('/api/block/getChildBlocks', { id: 'x' })).rejects.toThrow('no such block');
+    });
+
+    it('should treat an empty SQL answer as no rows', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ code: 0, data: null }))));
+
+        expect(await SiYuanApi.sql('SELECT id FROM blocks')).toEqual([]);
+    });
+});
@@ -0,0 +1,64 @@
+/**
+ * Unit tests for ImageLoader (vision attachments)
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { ImageLoader, MAX_IMAGE_BYTES } from '@/vision';
+
+describe('ImageLoader', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should extract image asset paths from markdown and <img> tags', () => {
+        const markdown = [
+            '![chart](assets/chart-20250101-abc.png "title")',
+            'text ![](assets/photo%20one.JPG) and ![dup](assets/chart-20250101-abc.png)',
+            '<img src="assets/diagram.webp" alt="">',
+            '![remote](https://example.com/a.png) ![doc](assets/file.pdf)',
+        ].join('\n');
+
+        expect(ImageLoader.extractAssetPaths(markdown)).toEqual([
+            'assets/chart-20250101-abc.png',
+            'assets/photo one.JPG',
+            'assets/diagram.webp',
+        ]);
+    });
+
+    it('should encode files as base64 and reject unsupported or large files', async () => {
+        const image = await ImageLoader.fromFile(new Blob([new Uint8Array([1, 2, 3])], { type: 'image/png' }), 'a.png');
+        expect(image).toEqual({ mediaType: 'image/png', data: 'AQID', name: 'a.png' });
+
+        await expect(ImageLoader.fromFile(new Blob(['x'], { type: 'image/svg+xml' }), 'a.svg'))
+            .rejects.toThrow('Unsupported image type');
+        await expect(ImageLoader.fromFile(new Blob([new Uint8Array(MAX_IMAGE_BYTES + 1)], { type: 'image/jpeg' })))
+            .rejects.toThrow('larger than');
+    });
+
+    it('should load assets referenced in blocks in selection order, skipping failures', async () => {
+        const fetchMock = vi.fn(async (url: string) => {
+            if (url === '/api/query/sql') {
+                return new Response(JSON.stringify({
+                    code: 0,
+                    data: [
+                        { id: '20250101000000-bbbbbbb', markdown: '![](assets/b.png)' },
+                        { id: '20250101000000-aaaaaaa', markdown: '![](assets/a.gif) ![](assets/missing.png)' },
+                    ],
+                }));
+            }
+            if (url === '/assets/missing.png') {
+                return new Response('', { status: 404 });
+            }
+            return new Response(new Blob([new Uint8Array([7])], { type: 'application/octet-stream' }));
+        });
+        vi.stubGlobal('fetch', fetchMock);
+
+        const result = await ImageLoader.fromBlocks(['20250101000000-aaaaaaa', '20250101000000-bbbbbbb']);
+
+        expect(result.images.map(i => [i.name, i.mediaType])).toEqual([
+            ['a.gif', 'image/gif'],
+            ['b.png', 'image/png'],
+        ]);
+        expect(result.skipped).toBe(1);
+    });
+});